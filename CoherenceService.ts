@@ -1,4 +1,6 @@
 import OpenAI from "openai";
+import { z } from "zod";
+import { parseStructured, describeSchema, StructuredOutputError } from "./structuredOutput";
 import { db } from "../db";
 import { coherentSessions, coherentChunks, stitchResults } from "../../shared/schema";
 import { eq, asc, and } from "drizzle-orm";
@@ -120,20 +122,77 @@ async function callLLM(
   }
 }
 
-async function safeParseJson(result: string): Promise<any> {
-  try {
-    return JSON.parse(result);
-  } catch {
-    const jsonMatch = result.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        return JSON.parse(jsonMatch[0]);
-      } catch {}
-    }
-    return null;
+// JSON call validated against a schema; an invalid reply is re-asked with the validation errors
+async function callLLMStructured<T>(
+  name: string,
+  systemPrompt: string,
+  userPrompt: string,
+  schema: z.ZodType<T>,
+  maxRetries: number = 2
+): Promise<T> {
+  let prompt = userPrompt;
+  let raw = "";
+  let error = "";
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    raw = await callLLM(systemPrompt, prompt, true);
+    const parsed = parseStructured(raw, schema);
+    if (parsed.success) return parsed.data;
+    error = parsed.error;
+    console.warn(`[Coherence] ${name}: invalid structured response (${error})`);
+    prompt = `${userPrompt}\n\nYour previous response could not be used (${error}). Respond with valid JSON only, in exactly this shape:\n${describeSchema(schema)}`;
   }
+  throw new StructuredOutputError(name, error, raw, maxRetries + 1);
 }
 
+const sourceClaimSchema = z.object({
+  id: z.string(),
+  claim: z.string(),
+  category: z.string().default("general"),
+  dependencies: z.array(z.string()).default([]),
+});
+
+const skeletonSchema = z.object({
+  sourceClaims: z.array(sourceClaimSchema).min(1),
+  allowedTopics: z.array(z.string()).default([]),
+  forbiddenTopics: z.array(z.string()).default(["AI ethics", "climate policy", "sustainability", "education reform", "business strategy", "modern applications"]),
+  keyTerms: z.record(z.string()).default({}),
+  outputFormat: z.string().default("text"),
+  structuralRequirements: z.array(z.object({
+    id: z.string(),
+    requirement: z.string(),
+    appliesTo: z.enum(["all", "first", "middle", "final"]).default("all"),
+    verifiable: z.string().default(""),
+  })).default([]),
+  mustReferenceEarlier: z.boolean().default(false),
+  referenceInstructions: z.string().default(""),
+  requiresBalance: z.boolean().default(false),
+  balanceDescription: z.string().default(""),
+  totalTargetWords: z.number().min(0).default(0),
+  wordsPerChunk: z.number().min(0).default(800),
+  logicalSections: z.array(z.string()).default([]),
+  speakerNames: z.array(z.string()).optional(),
+});
+
+const chunkResultSchema = z.object({
+  output: z.string().min(1),
+  claimsAddressed: z.array(z.string()).default([]),
+  quotableContent: z.array(z.string()).default([]),
+  topicsIntroduced: z.array(z.string()).default([]),
+  speakerBalance: z.object({ speaker1: z.number(), speaker2: z.number() }).optional(),
+});
+
+const topicCheckSchema = z.object({
+  staysOnTopic: z.boolean(),
+  forbiddenMentioned: z.array(z.string()).default([]),
+  driftDescription: z.string().nullable().default(null),
+});
+
+const backRefCheckSchema = z.object({
+  referencesFound: z.array(z.number()).default([]),
+  referencesMissing: z.array(z.number()).default([]),
+  hasExplicitPhrases: z.boolean(),
+});
+
 function computeOptimalWordCount(
   totalTarget: number,
   currentChunk: number,
@@ -216,35 +275,12 @@ ${userPrompt}
 === INPUT TEXT (extract CONTENT requirements - be exhaustive) ===
 ${inputText}
 Extract complete skeleton as JSON.`;
-  const result = await callLLM(systemPrompt, userMessage, true);
-  const parsed = await safeParseJson(result);
-  if (!parsed || !parsed.sourceClaims || parsed.sourceClaims.length === 0) {
-    console.error("[Coherence] Skeleton parse failed");
-    return {
-      sourceClaims: [{ id: "c1", claim: "Process input according to instructions", category: "general", dependencies: [] }],
-      allowedTopics: [],
-      forbiddenTopics: ["AI ethics", "climate policy", "sustainability"],
-      keyTerms: {},
-      outputFormat: "text",
-      structuralRequirements: [],
-      mustReferenceEarlier: false,
-      referenceInstructions: "",
-      requiresBalance: false,
-      balanceDescription: "",
-      totalTargetWords: 0,
-      wordsPerChunk: 800,
-      logicalSections: [],
-    };
-  }
-  parsed.allowedTopics = parsed.allowedTopics || [];
-  parsed.forbiddenTopics = parsed.forbiddenTopics || ["AI ethics", "climate policy", "sustainability", "education reform", "business strategy", "modern applications"];
-  parsed.structuralRequirements = parsed.structuralRequirements || [];
-  parsed.mustReferenceEarlier = parsed.mustReferenceEarlier || false;
-  parsed.requiresBalance = parsed.requiresBalance || false;
-  parsed.totalTargetWords = parsed.totalTargetWords || 0;
-  parsed.wordsPerChunk = parsed.wordsPerChunk || 800;
-  parsed.logicalSections = parsed.logicalSections || [];
-  return parsed as GlobalSkeleton;
+  // A skeleton that never validates fails the session rather than running on a placeholder
+  const skeleton = await callLLMStructured("skeleton", systemPrompt, userMessage, skeletonSchema);
+  return {
+    ...skeleton,
+    wordsPerChunk: skeleton.wordsPerChunk || 800,
+  };
 }
 
 function buildChunkPlans(
@@ -371,32 +407,24 @@ Return JSON:
   "topicsIntroduced": ["topic1"],
   "speakerBalance": {"speaker1": 3, "speaker2": 3}
 }`;
-  const result = await callLLM(systemPrompt, `Generate chunk ${plan.chunkIndex + 1}. Stay on topic. Address all assigned claims.`, true);
-  try {
-    const parsed = JSON.parse(result);
-    return {
-      output: parsed.output || "",
-      delta: {
-        claimsAddressed: parsed.claimsAddressed || [],
-        quotableContent: parsed.quotableContent || [],
-        topicsIntroduced: parsed.topicsIntroduced || [],
-        wordCount: countWords(parsed.output || ""),
-        speakerBalance: parsed.speakerBalance,
-        violations: [],
-      },
-    };
-  } catch {
-    return {
-      output: result,
-      delta: {
-        claimsAddressed: plan.claimsToAddress,
-        quotableContent: [],
-        topicsIntroduced: [],
-        wordCount: countWords(result),
-        violations: ["JSON parse failed"],
-      },
-    };
-  }
+  // Throws on an invalid reply so the chunk retry loop regenerates it
+  const parsed = await callLLMStructured(
+    `chunk ${plan.chunkIndex + 1}`,
+    systemPrompt,
+    `Generate chunk ${plan.chunkIndex + 1}. Stay on topic. Address all assigned claims.`,
+    chunkResultSchema
+  );
+  return {
+    output: parsed.output,
+    delta: {
+      claimsAddressed: parsed.claimsAddressed,
+      quotableContent: parsed.quotableContent,
+      topicsIntroduced: parsed.topicsIntroduced,
+      wordCount: countWords(parsed.output),
+      speakerBalance: parsed.speakerBalance,
+      violations: [],
+    },
+  };
 }
 async function validateChunk(
   output: string,
@@ -418,15 +446,17 @@ Return JSON:
   "driftDescription": null or "description"
 }`;
   try {
-    const topicResult = await callLLM("Strict topic checker.", topicCheckPrompt, true);
-    const parsed = JSON.parse(topicResult);
+    const parsed = await callLLMStructured("topic check", "Strict topic checker.", topicCheckPrompt, topicCheckSchema);
     if (!parsed.staysOnTopic) {
       violations.push(`TOPIC_DRIFT: ${parsed.driftDescription}`);
     }
-    if (parsed.forbiddenMentioned?.length > 0) {
+    if (parsed.forbiddenMentioned.length > 0) {
       violations.push(`FORBIDDEN_TOPICS: ${parsed.forbiddenMentioned.join(", ")}`);
     }
-  } catch {}
+  } catch (e: any) {
+    // An unchecked chunk is not a passing chunk
+    violations.push(`TOPIC_CHECK_FAILED: ${e.message}`);
+  }
   // 2. Back-reference validation for final chunk
   if (plan.position === "final" && skeleton.mustReferenceEarlier && plan.mustReference.length > 0) {
     const backRefPrompt = `Check for explicit back-references.
@@ -441,15 +471,16 @@ Return JSON:
   "hasExplicitPhrases": true/false
 }`;
     try {
-      const backRefResult = await callLLM("Back-reference checker.", backRefPrompt, true);
-      const parsed = JSON.parse(backRefResult);
-      if (parsed.referencesMissing?.length > 0) {
+      const parsed = await callLLMStructured("back-reference check", "Back-reference checker.", backRefPrompt, backRefCheckSchema);
+      if (parsed.referencesMissing.length > 0) {
         violations.push(`MISSING_BACKREFS: ${parsed.referencesMissing.length} of ${plan.mustReference.length} required`);
       }
       if (!parsed.hasExplicitPhrases) {
         violations.push(`NO_BACKREF_PHRASES: Missing "as you said earlier" type phrases`);
       }
-    } catch {}
+    } catch (e: any) {
+      violations.push(`BACKREF_CHECK_FAILED: ${e.message}`);
+    }
   }
   // 3. Claims coverage
   const missedClaims = plan.claimsToAddress.filter(c => !delta.claimsAddressed.includes(c));
@@ -9,6 +9,9 @@ import TranslationPage from "@/pages/TranslationPage";
 import WebSearchPage from "@/pages/WebSearchPage";
 
 import { AnalyticsPage } from "@/pages/AnalyticsPage";
+import CalibrationPage from "@/pages/CalibrationPage";
+import BatchPage from "@/pages/BatchPage";
+import TournamentPage from "@/pages/TournamentPage";
 import NotFound from "@/pages/not-found";
 import { BrainCircuit, Languages, FileEdit, Globe, Bot, Brain, Mail, User, LogOut, Trash2, FileText } from "lucide-react";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
@@ -271,6 +274,9 @@ function Router({ resetKey }: { resetKey: number }) {
       <Switch key={resetKey}>
         <Route path="/" component={HomePage} />
         <Route path="/analytics" component={AnalyticsPage} />
+        <Route path="/calibration" component={CalibrationPage} />
+        <Route path="/batch" component={BatchPage} />
+        <Route path="/tournament" component={TournamentPage} />
 
         <Route component={NotFound} />
       </Switch>
@@ -1,6 +1,7 @@
 import React from 'react';
 import { DocumentAnalysis, DocumentComparison } from '@/lib/types';
 import { cleanAIResponse } from '@/lib/textUtils';
+import EvidenceHighlights from './EvidenceHighlights';
 import { Doughnut, Bar, Radar } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -37,13 +38,17 @@ interface AnalysisReportProps {
   analysisB?: DocumentAnalysis;
   comparison?: DocumentComparison;
   mode: 'single' | 'compare';
+  originalTextA?: string;       // source texts, for highlighting evidence spans
+  originalTextB?: string;
 }
 
 const AnalysisReport: React.FC<AnalysisReportProps> = ({
   analysisA,
   analysisB,
   comparison,
-  mode
+  mode,
+  originalTextA,
+  originalTextB
 }) => {
   // Prepare data for doughnut chart (overall score)
   const doughnutDataA = {
@@ -443,6 +448,27 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({
         </div>
       </div>
 
+      {/* Evidence Section - quoted spans behind each score, highlighted in the source text */}
+      {((analysisA.evidence && originalTextA) || (mode === 'compare' && analysisB?.evidence && originalTextB)) && (
+        <div className="mt-10 px-6">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">Evidence in the Text</h2>
+          <div className="bg-white p-4 rounded-lg shadow space-y-6">
+            {analysisA.evidence && originalTextA && (
+              <div>
+                {mode === 'compare' && <h3 className="text-lg font-medium text-gray-700 mb-2">Document A</h3>}
+                <EvidenceHighlights text={originalTextA} evidence={analysisA.evidence} />
+              </div>
+            )}
+            {mode === 'compare' && analysisB?.evidence && originalTextB && (
+              <div>
+                <h3 className="text-lg font-medium text-gray-700 mb-2">Document B</h3>
+                <EvidenceHighlights text={originalTextB} evidence={analysisB.evidence} />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Detailed Analysis Section */}
       <div className="mt-10 px-6 mb-10">
         <h2 className="text-2xl font-semibold text-gray-800 mb-4">Detailed Analysis</h2>
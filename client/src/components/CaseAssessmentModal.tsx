@@ -18,11 +18,13 @@ const getProviderDisplayName = (provider: string): string => {
     'deepseek': 'ZHI 3',
     'perplexity': 'ZHI 4',
     'grok': 'ZHI 5',
+    'local': 'ZHI 6',
     'zhi1': 'ZHI 1',
     'zhi2': 'ZHI 2',
     'zhi3': 'ZHI 3',
     'zhi4': 'ZHI 4',
-    'zhi5': 'ZHI 5'
+    'zhi5': 'ZHI 5',
+    'zhi6': 'ZHI 6'
   };
   return providerMap[provider.toLowerCase()] || 'ZHI';
 };
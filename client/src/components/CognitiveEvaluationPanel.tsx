@@ -91,6 +91,7 @@ export default function CognitiveEvaluationPanel() {
   const [text, setText] = useState('');
   const [tier, setTier] = useState('standard');
   const [evaluation, setEvaluation] = useState<CognitiveEvaluation | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -120,6 +121,7 @@ export default function CognitiveEvaluationPanel() {
 
       if (data.success) {
         setEvaluation(data.evaluation);
+        setCachedAt(data.cached ? data.cachedAt : null);
       } else {
         setError(data.error || 'Evaluation failed');
       }
@@ -208,9 +210,16 @@ export default function CognitiveEvaluationPanel() {
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>Overall Intelligence Assessment</span>
-                <Badge variant="outline" className="text-lg px-3 py-1">
-                  {evaluation.overallScore}/100
-                </Badge>
+                <div className="flex items-center gap-2">
+                  {cachedAt && (
+                    <Badge variant="secondary" title={`Cached ${new Date(cachedAt).toLocaleString()}`}>
+                      From cache
+                    </Badge>
+                  )}
+                  <Badge variant="outline" className="text-lg px-3 py-1">
+                    {evaluation.overallScore}/100
+                  </Badge>
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { GitCompare, Loader2 } from 'lucide-react';
+import CopyButton from '@/components/CopyButton';
+import { CoherenceDiffChunk, CoherenceDiffData } from '@/lib/types';
+
+interface CoherenceDiffProps {
+  originalText: string;
+  revisedText: string;
+  coherenceType?: string;
+}
+
+const ISSUE_STYLES = {
+  resolved: { symbol: '✓', className: 'text-green-700 dark:text-green-400' },
+  introduced: { symbol: '✗', className: 'text-red-700 dark:text-red-400' },
+  unchanged: { symbol: '•', className: 'text-gray-500 dark:text-gray-400' },
+} as const;
+
+function scoreClass(score: number | null): string {
+  if (score === null) return 'text-gray-400';
+  if (score >= 8) return 'text-green-700 dark:text-green-400';
+  if (score >= 5) return 'text-yellow-700 dark:text-yellow-400';
+  return 'text-red-700 dark:text-red-400';
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return '—';
+  return `${delta > 0 ? '+' : ''}${delta}`;
+}
+
+function deltaClass(delta: number | null): string {
+  if (delta === null || delta === 0) return 'text-gray-500';
+  return delta > 0 ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400';
+}
+
+// One side of an aligned chunk pair
+function ChunkCell({ index, preview, score, status }: { index: number | null; preview: string; score: number | null; status: string | null }) {
+  if (index === null) {
+    return <td className="p-2 align-top text-xs italic text-muted-foreground">No matching chunk</td>;
+  }
+  return (
+    <td className="p-2 align-top">
+      <div className="flex items-center gap-2 text-xs mb-1">
+        <span className="font-medium">Chunk {index + 1}</span>
+        <span className={`font-bold ${scoreClass(score)}`}>{score}/10</span>
+        {status && <span className="text-muted-foreground">{status}</span>}
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400">{preview}</p>
+    </td>
+  );
+}
+
+function IssueList({ chunk }: { chunk: CoherenceDiffChunk }) {
+  const kinds = (['resolved', 'introduced', 'unchanged'] as const).filter(kind => chunk[kind].length > 0);
+  if (kinds.length === 0) return null;
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {kinds.flatMap(kind => chunk[kind].map((issue, i) => (
+        <li key={`${kind}-${i}`} className={ISSUE_STYLES[kind].className}>
+          {ISSUE_STYLES[kind].symbol} <span className="font-medium">{kind}:</span> {issue}
+        </li>
+      )))}
+    </ul>
+  );
+}
+
+/**
+ * Runs the same coherence mode over the original text and a rewrite of it and
+ * shows, chunk by chunk, which issues the rewrite resolved, which it
+ * introduced and which it left in place, with the score change side by side.
+ */
+const CoherenceDiff: React.FC<CoherenceDiffProps> = ({ originalText, revisedText, coherenceType = 'auto-detect' }) => {
+  const [diff, setDiff] = useState<CoherenceDiffData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new rewrite invalidates the previous comparison
+  useEffect(() => {
+    setDiff(null);
+    setError(null);
+  }, [originalText, revisedText]);
+
+  const handleCompare = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/coherence-diff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ originalText, revisedText, coherenceType }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Coherence comparison failed');
+      }
+      setDiff(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Coherence comparison failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!originalText.trim() || !revisedText.trim()) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4" data-testid="coherence-diff">
+      <div className="flex items-center gap-3 flex-wrap">
+        <Button variant="outline" size="sm" onClick={handleCompare} disabled={isLoading} data-testid="button-coherence-diff">
+          {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitCompare className="w-4 h-4 mr-2" />}
+          {isLoading ? 'Comparing versions...' : diff ? 'Compare Again' : 'Compare Coherence with Original'}
+        </Button>
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+
+      {diff && (
+        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-indigo-200 dark:border-indigo-700 space-y-4">
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <div className="flex items-center gap-4 flex-wrap text-sm">
+              <span className="text-muted-foreground">{diff.mode.replace(/-/g, ' ')}</span>
+              <span>Original <span className={`font-bold ${scoreClass(diff.original.score)}`}>{diff.original.score}/10</span></span>
+              <span>Revised <span className={`font-bold ${scoreClass(diff.revised.score)}`}>{diff.revised.score}/10</span></span>
+              <span className={`font-bold ${deltaClass(diff.scoreDelta)}`}>{formatDelta(diff.scoreDelta)}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge className="bg-green-100 text-green-800">{diff.resolved.length} resolved</Badge>
+              <Badge className="bg-red-100 text-red-800">{diff.introduced.length} introduced</Badge>
+              <Badge className="bg-gray-100 text-gray-700">{diff.unchanged.length} unchanged</Badge>
+              <CopyButton text={diff.report} />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm table-fixed">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="p-2 w-[45%]">Original</th>
+                  <th className="p-2 w-[10%] text-center">Change</th>
+                  <th className="p-2 w-[45%]">Revised</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.chunks.map((chunk, i) => (
+                  <React.Fragment key={i}>
+                    <tr className="border-t">
+                      <ChunkCell index={chunk.originalIndex} preview={chunk.originalPreview} score={chunk.originalScore} status={chunk.originalStatus} />
+                      <td className={`p-2 align-top text-center font-bold ${deltaClass(chunk.scoreDelta)}`}>
+                        {formatDelta(chunk.scoreDelta)}
+                      </td>
+                      <ChunkCell index={chunk.revisedIndex} preview={chunk.revisedPreview} score={chunk.revisedScore} status={chunk.revisedStatus} />
+                    </tr>
+                    {(chunk.resolved.length > 0 || chunk.introduced.length > 0 || chunk.unchanged.length > 0) && (
+                      <tr>
+                        <td colSpan={3} className="px-2 pb-2">
+                          <IssueList chunk={chunk} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoherenceDiff;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CoherenceTimelineData, CoherenceTimelineEventType, CoherenceTimelineItem } from '@/lib/types';
+
+interface CoherenceTimelineProps {
+  timeline: CoherenceTimelineData;
+}
+
+type KindFilter = 'all' | CoherenceTimelineItem['kind'];
+
+const KIND_LABELS: Record<KindFilter, string> = {
+  all: 'All',
+  commitment: 'Commitments',
+  'open-thread': 'Open threads',
+  setting: 'Settings',
+};
+
+const EVENT_STYLES: Record<CoherenceTimelineEventType, { symbol: string; className: string }> = {
+  introduced: { symbol: '●', className: 'text-green-600' },
+  resolved: { symbol: '✓', className: 'text-blue-600' },
+  contradicted: { symbol: '✗', className: 'text-red-600' },
+  superseded: { symbol: '→', className: 'text-gray-500' },
+};
+
+const STATUS_STYLES: Record<CoherenceTimelineItem['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  open: 'bg-amber-100 text-amber-800',
+  introduced: 'bg-green-100 text-green-800',
+  resolved: 'bg-blue-100 text-blue-800',
+  contradicted: 'bg-red-100 text-red-800',
+  superseded: 'bg-gray-100 text-gray-700',
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The chunk text with occurrences of the selected item's label highlighted
+function ChunkText({ text, label }: { text: string; label: string | null }) {
+  const term = label?.split(':')[0].trim();
+  if (!term || term.length < 3) {
+    return <>{text}</>;
+  }
+  const parts = text.split(new RegExp(`(${escapeRegExp(term)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-yellow-200 rounded px-0.5">{part}</mark> : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+/**
+ * Each commitment, open thread and setting tracked by the Global Coherence
+ * State, laid out against the chunks where it was introduced, resolved,
+ * contradicted or superseded. Clicking a chunk shows its text.
+ */
+const CoherenceTimeline: React.FC<CoherenceTimelineProps> = ({ timeline }) => {
+  const [kind, setKind] = useState<KindFilter>('all');
+  const [selectedChunk, setSelectedChunk] = useState<number | null>(null);
+  const [selectedItem, setSelectedItem] = useState<CoherenceTimelineItem | null>(null);
+
+  if (timeline.items.length === 0) {
+    return null;
+  }
+
+  const items = timeline.items.filter(item => kind === 'all' || item.kind === kind);
+  // Column 0 is the state seeded from the global context; column i + 1 is chunk i
+  const columns = [null, ...Array.from({ length: timeline.chunkCount }, (_, i) => i)];
+  const eventAt = (item: CoherenceTimelineItem, chunkIndex: number | null) => item.events.filter(e => e.chunkIndex === chunkIndex);
+  const isLive = (item: CoherenceTimelineItem, column: number) => {
+    const start = columns.indexOf(item.events[0].chunkIndex);
+    const ending = item.events.find(e => e.type === 'resolved' || e.type === 'superseded');
+    const end = ending ? columns.indexOf(ending.chunkIndex) : columns.length - 1;
+    return column >= start && column <= end;
+  };
+
+  const selectChunk = (chunkIndex: number | null, item: CoherenceTimelineItem | null = null) => {
+    setSelectedChunk(chunkIndex);
+    setSelectedItem(item);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="coherence-timeline">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(KIND_LABELS) as KindFilter[]).map(k => (
+          <Button key={k} size="sm" variant={kind === k ? 'default' : 'outline'} onClick={() => setKind(k)}>
+            {KIND_LABELS[k]}
+          </Button>
+        ))}
+        <span className="text-xs text-muted-foreground ml-2">
+          {(Object.keys(EVENT_STYLES) as CoherenceTimelineEventType[]).map(type => (
+            <span key={type} className="mr-3">
+              <span className={EVENT_STYLES[type].className}>{EVENT_STYLES[type].symbol}</span> {type}
+            </span>
+          ))}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left pr-3">Item</th>
+              <th className="text-left pr-3">Status</th>
+              {columns.map(chunkIndex => (
+                <th key={chunkIndex ?? 'gco'} className="px-1">
+                  <button
+                    className={`px-1 rounded ${selectedChunk === chunkIndex && chunkIndex !== null ? 'bg-indigo-100 text-indigo-800' : 'hover:underline'}`}
+                    onClick={() => chunkIndex !== null && selectChunk(chunkIndex)}
+                    disabled={chunkIndex === null}
+                    title={chunkIndex === null ? 'Seeded from the global context' : `Show chunk ${chunkIndex + 1}`}
+                  >
+                    {chunkIndex === null ? 'GCO' : chunkIndex + 1}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.id} className={`border-t ${selectedItem?.id === item.id ? 'bg-indigo-50' : ''}`}>
+                <td className="pr-3 py-1 max-w-xs">
+                  <span className="text-xs text-muted-foreground">{item.category}</span>
+                  <div className="truncate" title={item.label}>{item.label}</div>
+                </td>
+                <td className="pr-3">
+                  <Badge className={STATUS_STYLES[item.status]}>{item.status}</Badge>
+                </td>
+                {columns.map((chunkIndex, column) => {
+                  const events = eventAt(item, chunkIndex);
+                  return (
+                    <td key={chunkIndex ?? 'gco'} className={`px-1 text-center ${isLive(item, column) ? 'bg-gray-50' : ''}`}>
+                      {events.map((event, i) => (
+                        <button
+                          key={i}
+                          className={`font-bold ${EVENT_STYLES[event.type].className}`}
+                          title={`${event.type}${event.detail ? `: ${event.detail}` : ''}`}
+                          onClick={() => selectChunk(chunkIndex, item)}
+                        >
+                          {EVENT_STYLES[event.type].symbol}
+                        </button>
+                      ))}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedItem && (
+        <div className="text-sm border rounded p-3 space-y-1">
+          <div className="font-medium">{selectedItem.category}: {selectedItem.label}</div>
+          {selectedItem.events.map((event, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className={EVENT_STYLES[event.type].className}>{EVENT_STYLES[event.type].symbol}</span>
+              <span>{event.type}</span>
+              {event.chunkIndex === null ? (
+                <span className="text-muted-foreground">from the global context</span>
+              ) : (
+                <button className="text-indigo-700 hover:underline" onClick={() => selectChunk(event.chunkIndex, selectedItem)}>
+                  in chunk {event.chunkIndex + 1}
+                </button>
+              )}
+              {event.detail && <span className="text-muted-foreground">— {event.detail}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedChunk !== null && timeline.chunks[selectedChunk] && (
+        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-indigo-200 dark:border-indigo-700">
+          <div className="text-xs font-medium text-muted-foreground mb-2">Chunk {selectedChunk + 1} of {timeline.chunkCount}</div>
+          <p className="whitespace-pre-wrap text-sm text-gray-800 dark:text-gray-200">
+            <ChunkText text={timeline.chunks[selectedChunk]} label={selectedItem?.label ?? null} />
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoherenceTimeline;
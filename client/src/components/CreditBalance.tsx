@@ -1,8 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { CreditCard } from "lucide-react";
+import { CreditCard, History } from "lucide-react";
 import { useState } from "react";
 import { BuyCreditsDialog } from "./BuyCreditsDialog";
+import { UsageHistoryDialog } from "./UsageHistoryDialog";
 
 interface CreditBalanceData {
   openai: number;
@@ -14,6 +15,7 @@ interface CreditBalanceData {
 
 export function CreditBalance() {
   const [showBuyDialog, setShowBuyDialog] = useState(false);
+  const [showUsageDialog, setShowUsageDialog] = useState(false);
   
   const { data: credits } = useQuery<CreditBalanceData>({
     queryKey: ["/api/credits/balance"],
@@ -50,6 +52,17 @@ export function CreditBalance() {
           </div>
         </div>
         
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setShowUsageDialog(true)}
+          className="gap-2"
+          data-testid="button-usage-history"
+        >
+          <History className="h-4 w-4" />
+          Usage
+        </Button>
+        
         {!credits.unlimited && (
           <Button
             size="sm"
@@ -64,6 +77,7 @@ export function CreditBalance() {
       </div>
 
       <BuyCreditsDialog open={showBuyDialog} onOpenChange={setShowBuyDialog} />
+      <UsageHistoryDialog open={showUsageDialog} onOpenChange={setShowUsageDialog} />
     </>
   );
 }
@@ -10,6 +10,7 @@ import PhilosophicalIntelligenceReport from "./PhilosophicalIntelligenceReport";
 import { checkForAI } from "@/lib/analysis";
 import { useToast } from "@/hooks/use-toast";
 import IntelligentRewriteButton from "./IntelligentRewriteButton";
+import EvidenceHighlights from "./EvidenceHighlights";
 
 interface DocumentResultsProps {
   id: "A" | "B";
@@ -157,6 +158,14 @@ const DocumentResults: React.FC<DocumentResultsProps> = ({
         </div>
       </div>
 
+      {/* Evidence spans behind each score, highlighted in the original document */}
+      {analysis.evidence && originalDocument?.content && (
+        <div className="mb-8">
+          <h3 className="font-semibold text-gray-800 dark:text-slate-200 mb-3">Evidence in the Text</h3>
+          <EvidenceHighlights text={originalDocument.content} evidence={analysis.evidence} />
+        </div>
+      )}
+
       {/* AI Detection Result (if available) */}
       {analysis.aiDetection && (
         <div className="bg-amber-50 p-4 rounded-md mb-4">
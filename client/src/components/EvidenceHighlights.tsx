@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { DimensionEvidence } from '@/lib/types';
+
+interface EvidenceHighlightsProps {
+  text: string;
+  evidence: DimensionEvidence;
+}
+
+const DIMENSION_COLORS = [
+  'bg-blue-200 border-blue-400',
+  'bg-amber-200 border-amber-400',
+  'bg-green-200 border-green-400',
+  'bg-purple-200 border-purple-400',
+  'bg-rose-200 border-rose-400',
+  'bg-cyan-200 border-cyan-400',
+];
+
+function formatDimension(key: string): string {
+  const spaced = key.replace(/([A-Z])/g, ' $1').trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1).toLowerCase();
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  dimensions: string[];
+}
+
+// Split the text at every span boundary so overlapping spans can share a segment
+function buildSegments(text: string, evidence: DimensionEvidence, visible: string[]): Segment[] {
+  const spans = visible.flatMap(key =>
+    (evidence[key] || [])
+      .filter(span => span.start >= 0 && span.end <= text.length && span.start < span.end)
+      .map(span => ({ ...span, key }))
+  );
+  const bounds = Array.from(new Set([0, text.length, ...spans.flatMap(s => [s.start, s.end])])).sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const start = bounds[i];
+    const end = bounds[i + 1];
+    const dimensions = spans.filter(s => s.start <= start && s.end >= end).map(s => s.key);
+    segments.push({ start, end, dimensions: Array.from(new Set(dimensions)) });
+  }
+  return segments;
+}
+
+/**
+ * The original document with each dimension's evidence spans highlighted.
+ * Clicking a dimension in the legend shows only its spans.
+ */
+const EvidenceHighlights: React.FC<EvidenceHighlightsProps> = ({ text, evidence }) => {
+  const dimensions = Object.keys(evidence).filter(key => evidence[key].length > 0);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  if (!text || dimensions.length === 0) {
+    return null;
+  }
+
+  const colorOf = (key: string) => DIMENSION_COLORS[dimensions.indexOf(key) % DIMENSION_COLORS.length];
+  const visible = selected ? [selected] : dimensions;
+  const segments = buildSegments(text, evidence, visible);
+
+  const describe = (segment: Segment) =>
+    segment.dimensions.map(key => {
+      const span = evidence[key].find(s => s.start <= segment.start && s.end >= segment.end);
+      return `${formatDimension(key)}${span?.reason ? `: ${span.reason}` : ''}`;
+    }).join('\n');
+
+  return (
+    <div className="space-y-3" data-testid="evidence-highlights">
+      <div className="flex flex-wrap gap-2">
+        {dimensions.map(key => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setSelected(selected === key ? null : key)}
+            className={`text-xs px-2 py-1 rounded border ${colorOf(key)} ${selected && selected !== key ? 'opacity-40' : ''}`}
+          >
+            {formatDimension(key)} ({evidence[key].length})
+          </button>
+        ))}
+      </div>
+      <div className="whitespace-pre-wrap text-sm leading-relaxed bg-white p-4 rounded border max-h-96 overflow-y-auto">
+        {segments.map(segment => {
+          const content = text.slice(segment.start, segment.end);
+          if (segment.dimensions.length === 0) {
+            return <React.Fragment key={segment.start}>{content}</React.Fragment>;
+          }
+          return (
+            <mark
+              key={segment.start}
+              title={describe(segment)}
+              className={`rounded-sm border-b-2 px-0.5 text-inherit ${colorOf(segment.dimensions[0])}`}
+            >
+              {content}
+            </mark>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EvidenceHighlights;
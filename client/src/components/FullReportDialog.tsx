@@ -14,6 +14,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType } from "docx";
 import { jsPDF } from "jspdf";
 import SimpleShareViaEmailModal from './SimpleShareViaEmailModal';
+import EvidenceHighlights from './EvidenceHighlights';
 
 interface FullReportDialogProps {
   open: boolean;
@@ -79,6 +80,21 @@ ${analysis.analysis || ''}
       });
     }
 
+    // Add the quoted evidence behind each score, with its position in the text
+    if (analysis.evidence) {
+      const withSpans = Object.entries(analysis.evidence).filter(([, spans]) => spans.length > 0);
+      if (withSpans.length > 0) {
+        report += `\nEVIDENCE:\n`;
+        withSpans.forEach(([key, spans]) => {
+          const formattedKey = key.replace(/([A-Z])/g, ' $1').trim();
+          report += `\n${formattedKey.charAt(0).toUpperCase() + formattedKey.slice(1)}:\n`;
+          spans.forEach(span => {
+            report += `- "${span.quote}" (chars ${span.start}-${span.end})${span.reason ? ` - ${span.reason}` : ''}\n`;
+          });
+        });
+      }
+    }
+
     // Add original text if available
     if (originalText) {
       report += `\n\nANALYZED TEXT:\n----------------\n${originalText}\n`;
@@ -567,6 +583,14 @@ ${analysis.analysis || ''}
               </div>
             )}
             
+            {/* Evidence spans highlighted in the analyzed text */}
+            {analysis.evidence && originalText && (
+              <div className="mt-6">
+                <h3 className="font-semibold text-gray-800 border-b pb-2 mb-4">Evidence in the Text</h3>
+                <EvidenceHighlights text={originalText} evidence={analysis.evidence} />
+              </div>
+            )}
+            
             {/* Surface-Level Scores Section */}
             {analysis.surface && (
               <div className="mt-6">
@@ -8,6 +8,7 @@ import { Sparkles, Loader2, Copy, Check } from 'lucide-react';
 import { DocumentAnalysis } from '@/lib/types';
 import CopyButton from '@/components/CopyButton';
 import SendToButton from '@/components/SendToButton';
+import { postEventStream } from '@/lib/eventStream';
 
 interface IntelligentRewriteButtonProps {
   originalText: string;
@@ -40,30 +41,27 @@ const IntelligentRewriteButton: React.FC<IntelligentRewriteButtonProps> = ({
     improvement: string;
   } | null>(null);
   const [copied, setCopied] = useState(false);
+  const [streamedText, setStreamedText] = useState('');
+  const [stage, setStage] = useState<string | null>(null);
 
   const handleRewrite = async () => {
     if (!originalText.trim()) return;
 
     setIsLoading(true);
+    setStreamedText('');
+    setStage(null);
     try {
-      const response = await fetch('/api/intelligent-rewrite', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          originalText: originalText,
-          customInstructions: customInstructions.trim() || undefined,
-          provider: provider,
-          useExternalKnowledge: useExternalKnowledge
-        }),
+      const data = await postEventStream('/api/intelligent-rewrite', {
+        originalText: originalText,
+        customInstructions: customInstructions.trim() || undefined,
+        provider: provider,
+        useExternalKnowledge: useExternalKnowledge
+      }, {
+        // Show the rewrite as it streams in
+        onDelta: (_delta, text) => setStreamedText(text),
+        onProgress: setStage,
       });
 
-      if (!response.ok) {
-        throw new Error('Rewrite failed');
-      }
-
-      const data = await response.json();
       if (data.success && data.result) {
         const newAnalysis = {
           id: Date.now(),
@@ -89,6 +87,8 @@ const IntelligentRewriteButton: React.FC<IntelligentRewriteButtonProps> = ({
       alert('Rewrite failed. Please try again.');
     } finally {
       setIsLoading(false);
+      setStreamedText('');
+      setStage(null);
     }
   };
 
@@ -195,6 +195,18 @@ const IntelligentRewriteButton: React.FC<IntelligentRewriteButtonProps> = ({
               </Button>
             )}
 
+            {/* Rewrite in progress */}
+            {isLoading && (stage || streamedText) && (
+              <div className="space-y-2" data-testid="rewrite-progress">
+                {stage && <p className="text-xs text-muted-foreground">{stage}</p>}
+                {streamedText && (
+                  <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border max-h-64 overflow-y-auto text-sm whitespace-pre-wrap">
+                    {streamedText}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Results */}
             {rewriteResult && (
               <div className="space-y-4">
@@ -7,11 +7,13 @@ import ReportDownloadButton from "./ReportDownloadButton";
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { cleanAIResponse } from "@/lib/textUtils";
+import type { EnsembleSummary } from "@/lib/types";
 import IntelligenceReportModal from './IntelligenceReportModal';
 
 interface MultiProviderResultsProps {
   results: any[];
   documentId?: number;
+  ensemble?: EnsembleSummary;
 }
 
 // ZHI branding mapping - never expose actual LLM names
@@ -22,16 +24,102 @@ const getZhiDisplayName = (provider: string): string => {
     'deepseek': 'ZHI 3',
     'perplexity': 'ZHI 4',
     'grok': 'ZHI 5',
+    'local': 'ZHI 6',
     'zhi1': 'ZHI 1',
     'zhi2': 'ZHI 2',
     'zhi3': 'ZHI 3',
     'zhi4': 'ZHI 4',
-    'zhi5': 'ZHI 5'
+    'zhi5': 'ZHI 5',
+    'zhi6': 'ZHI 6'
   };
   return providerMap[provider.toLowerCase()] || 'ZHI';
 };
 
-export function MultiProviderResults({ results, documentId }: MultiProviderResultsProps) {
+const AGREEMENT_STYLES: Record<string, string> = {
+  high: 'bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300',
+  moderate: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-950 dark:text-yellow-300',
+  low: 'bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300'
+};
+
+// Score agreement across ensemble members: each score on a 0-100 track with the median and confidence band
+function EnsembleAgreement({ ensemble }: { ensemble: EnsembleSummary }) {
+  const memberName = (member: EnsembleSummary['members'][number]) =>
+    ensemble.mode === 'samples' ? `${getZhiDisplayName(member.alias)} #${member.sample}` : getZhiDisplayName(member.alias);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle>Ensemble Agreement</CardTitle>
+        <CardDescription>
+          {ensemble.mode === 'samples'
+            ? `${ensemble.count} samples from the same ZHI model`
+            : `${ensemble.count} ZHI models scored the same text`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline">Median: {ensemble.median}/100</Badge>
+          <Badge variant="outline">Spread: {ensemble.spread} pts</Badge>
+          {ensemble.band && (
+            <Badge variant="outline">Band: {ensemble.band.low}–{ensemble.band.high}</Badge>
+          )}
+          {ensemble.agreement && (
+            <Badge variant="outline" className={AGREEMENT_STYLES[ensemble.agreement]}>
+              {ensemble.agreement} agreement
+            </Badge>
+          )}
+          {ensemble.outliers.length > 0 && (
+            <Badge variant="outline" className={AGREEMENT_STYLES.low}>
+              {ensemble.outliers.length} outlier{ensemble.outliers.length > 1 ? 's' : ''}
+            </Badge>
+          )}
+        </div>
+
+        <div className="relative h-10 rounded-md bg-muted">
+          {ensemble.band && (
+            <div
+              className="absolute inset-y-0 bg-blue-200/60 dark:bg-blue-900/60"
+              style={{ left: `${ensemble.band.low}%`, width: `${ensemble.band.high - ensemble.band.low}%` }}
+            />
+          )}
+          {ensemble.median !== null && (
+            <div className="absolute inset-y-0 w-0.5 bg-blue-700 dark:bg-blue-300" style={{ left: `${ensemble.median}%` }} />
+          )}
+          {ensemble.members.filter(m => m.score !== null).map((member, index) => (
+            <div
+              key={index}
+              title={`${memberName(member)}: ${member.score}/100${member.outlier ? ' (outlier)' : ''}`}
+              className={`absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white ${member.outlier ? 'bg-red-500' : 'bg-blue-600'}`}
+              style={{ left: `${member.score}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>0</span>
+          <span>50</span>
+          <span>100</span>
+        </div>
+
+        <div className="space-y-1">
+          {ensemble.members.map((member, index) => (
+            <div key={index} className="flex items-center justify-between text-sm">
+              <span>{memberName(member)}</span>
+              {member.score !== null ? (
+                <span className={member.outlier ? 'font-semibold text-red-600' : 'font-semibold'}>
+                  {member.score}/100{member.outlier && ' · outlier'}
+                </span>
+              ) : (
+                <span className="text-muted-foreground">failed</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function MultiProviderResults({ results, documentId, ensemble }: MultiProviderResultsProps) {
   const [activeProvider, setActiveProvider] = useState<string>("zhi1");
   const [isModalOpen, setIsModalOpen] = useState(false);
   
@@ -57,9 +145,17 @@ export function MultiProviderResults({ results, documentId }: MultiProviderResul
     if (providerName.includes('deepseek') || providerName.includes('zhi3')) return 'zhi3';
     if (providerName.includes('perplexity') || providerName.includes('zhi4')) return 'zhi4';
     if (providerName.includes('grok') || providerName.includes('zhi5')) return 'zhi5';
+    if (providerName.includes('local') || providerName.includes('zhi6')) return 'zhi6';
     return 'unknown';
+  }).map((id, index, ids) => {
+    // Ensemble samples repeat a provider - number the repeats so each tab is distinct
+    const repeat = ids.slice(0, index).filter(other => other === id).length;
+    return repeat > 0 ? `${id}-${repeat + 1}` : id;
   });
   
+  const tabLabel = (result: any) =>
+    getZhiDisplayName(result.provider || 'unknown') + (result.sample ? ` #${result.sample}` : '');
+  
   // Find the active result based on the selected provider
   const getActiveResult = () => {
     const activeIndex = providerIds.indexOf(activeProvider as any);
@@ -99,6 +195,8 @@ export function MultiProviderResults({ results, documentId }: MultiProviderResul
   
   return (
     <div className="w-full mt-4 space-y-4">
+      {ensemble && <EnsembleAgreement ensemble={ensemble} />}
+      
       <Card>
         <CardHeader className="pb-3">
           <div className="flex justify-between items-center">
@@ -141,7 +239,7 @@ export function MultiProviderResults({ results, documentId }: MultiProviderResul
                   value={providerIds[index] || 'unknown'}
                   className="relative flex items-center"
                 >
-                  {getZhiDisplayName(result.provider || 'unknown')}
+                  {tabLabel(result)}
                   {result.formattedReport?.toLowerCase().includes('intelligence score') && (
                     <Badge variant="outline" className="ml-2 bg-green-100 dark:bg-green-950 text-green-700 dark:text-green-300">
                       Scored
@@ -155,7 +253,7 @@ export function MultiProviderResults({ results, documentId }: MultiProviderResul
               <TabsContent key={index} value={providerIds[index] || 'unknown'} className="space-y-4">
                 <div className="p-4 rounded-md border bg-muted/40">
                   <div className="mb-4 flex items-center justify-between">
-                    <h3 className="text-lg font-semibold">{getZhiDisplayName(result.provider || 'unknown')}</h3>
+                    <h3 className="text-lg font-semibold">{tabLabel(result)}</h3>
                   </div>
                   <Separator className="my-2" />
                   <div className="prose prose-sm dark:prose-invert max-w-none">
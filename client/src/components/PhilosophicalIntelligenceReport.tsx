@@ -16,11 +16,13 @@ const getProviderDisplayName = (provider: string): string => {
     'deepseek': 'ZHI 3',
     'perplexity': 'ZHI 4',
     'grok': 'ZHI 5',
+    'local': 'ZHI 6',
     'zhi1': 'ZHI 1',
     'zhi2': 'ZHI 2',
     'zhi3': 'ZHI 3',
     'zhi4': 'ZHI 4',
-    'zhi5': 'ZHI 5'
+    'zhi5': 'ZHI 5',
+    'zhi6': 'ZHI 6'
   };
   return providerMap[provider.toLowerCase()] || 'ZHI';
 };
@@ -188,7 +190,7 @@ const PhilosophicalIntelligenceReport: React.FC<PhilosophicalIntelligenceReportP
   
   // If we have multiple provider results, use the dedicated component
   if (hasMultipleProviders) {
-    return <MultiProviderResults results={analysis.analysisResults || []} />;
+    return <MultiProviderResults results={analysis.analysisResults || []} ensemble={analysis.ensemble} />;
   }
   
   // Extract data from the formatted report - CHECK ALL POSSIBLE FIELDS
@@ -1,10 +1,38 @@
 import React from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { BrainCircuit, Bot, Sparkles, Info } from "lucide-react";
+import { BrainCircuit, Bot, Sparkles, Info, Server } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
-export type LLMProvider = "zhi1" | "zhi2" | "zhi3" | "zhi4" | "zhi5" | "all";
+export type LLMProvider = "zhi1" | "zhi2" | "zhi3" | "zhi4" | "zhi5" | "zhi6" | "all";
+
+// Shape returned by /api/providers (server/services/providerRegistry.ts)
+export interface ProviderInfo {
+  id: string;
+  alias: string;
+  label: string;
+  model: string;
+  maxOutputTokens: number;
+  contextWindow: number;
+  configured: boolean;
+}
+
+// Live health from /api/check-api (server/services/providerHealth.ts)
+interface ProviderHealthInfo {
+  state: "closed" | "open" | "half-open";
+  degraded: boolean;
+  errorRate: number;
+}
+
+const PROVIDER_ICONS: Record<string, React.ReactNode> = {
+  zhi1: <Sparkles className="h-4 w-4 text-green-600" />,
+  zhi2: <BrainCircuit className="h-4 w-4 text-purple-600" />,
+  zhi3: <Bot className="h-4 w-4 text-orange-600" />,
+  zhi4: <Sparkles className="h-4 w-4 text-teal-600" />,
+  zhi5: <Sparkles className="h-4 w-4 text-blue-600" />,
+  zhi6: <Server className="h-4 w-4 text-slate-600" />,
+};
 
 interface ProviderSelectorProps {
   selectedProvider: LLMProvider;
@@ -12,7 +40,6 @@ interface ProviderSelectorProps {
   className?: string;
   label?: string;
   smallSize?: boolean;
-  apiStatus?: Record<string, boolean>;
   showTooltips?: boolean;
 }
 
@@ -22,9 +49,18 @@ const ProviderSelector: React.FC<ProviderSelectorProps> = ({
   className = "",
   label = "AI Provider",
   smallSize = false,
-  apiStatus = { openai: true, anthropic: true, perplexity: true },
   showTooltips = true
 }) => {
+  const { data } = useQuery<{ providers: ProviderInfo[] }>({
+    queryKey: ["/api/providers"],
+  });
+  const { data: status } = useQuery<{ health?: Record<string, ProviderHealthInfo> }>({
+    queryKey: ["/api/check-api"],
+    refetchInterval: 30000,
+  });
+  const providers = (data?.providers || []).filter(p => p.configured);
+  const health = status?.health || {};
+
   return (
     <div className={`flex ${smallSize ? "flex-row items-center gap-2" : "flex-col gap-1.5"} ${className}`}>
       <div className="flex items-center gap-2">
@@ -43,6 +79,7 @@ const ProviderSelector: React.FC<ProviderSelectorProps> = ({
                   <li><span className="font-medium">ZHI 3</span> - Strong analytical capabilities with efficient processing</li>
                   <li><span className="font-medium">ZHI 4</span> - Advanced search-augmented model with strong research capabilities</li>
                   <li><span className="font-medium">ZHI 5</span> - High-performance model for complex reasoning tasks</li>
+                  <li><span className="font-medium">ZHI 6</span> - On-premises model; documents never leave your network</li>
                 </ul>
               </TooltipContent>
             </Tooltip>
@@ -54,61 +91,26 @@ const ProviderSelector: React.FC<ProviderSelectorProps> = ({
           <SelectValue placeholder="Select AI provider" />
         </SelectTrigger>
         <SelectContent>
-          {apiStatus.openai && (
-            <SelectItem 
-              value="zhi1" 
-              className="flex items-center"
-            >
-              <div className="flex items-center gap-2">
-                <Sparkles className="h-4 w-4 text-green-600" />
-                <span>ZHI 1</span>
-              </div>
-            </SelectItem>
-          )}
-          {apiStatus.anthropic && (
-            <SelectItem 
-              value="zhi2" 
-              className="flex items-center"
-            >
-              <div className="flex items-center gap-2">
-                <BrainCircuit className="h-4 w-4 text-purple-600" />
-                <span>ZHI 2</span>
-              </div>
-            </SelectItem>
-          )}
-          {apiStatus.deepseek && (
-            <SelectItem 
-              value="zhi3" 
-              className="flex items-center"
-            >
-              <div className="flex items-center gap-2">
-                <Bot className="h-4 w-4 text-orange-600" />
-                <span>ZHI 3</span>
-              </div>
-            </SelectItem>
-          )}
-          {apiStatus.perplexity && (
-            <SelectItem 
-              value="zhi4" 
-              className="flex items-center"
-            >
-              <div className="flex items-center gap-2">
-                <Sparkles className="h-4 w-4 text-teal-600" />
-                <span>ZHI 4</span>
-              </div>
-            </SelectItem>
-          )}
-          {apiStatus.grok && (
-            <SelectItem 
-              value="zhi5" 
-              className="flex items-center"
-            >
-              <div className="flex items-center gap-2">
-                <Sparkles className="h-4 w-4 text-blue-600" />
-                <span>ZHI 5</span>
-              </div>
-            </SelectItem>
-          )}
+          {providers.map(provider => {
+            const providerHealth = health[provider.id];
+            const unavailable = providerHealth?.state === "open";
+            const degraded = !unavailable && providerHealth?.degraded;
+            return (
+              <SelectItem 
+                key={provider.alias}
+                value={provider.alias} 
+                disabled={unavailable}
+                className={`flex items-center ${degraded ? "opacity-60" : ""}`}
+              >
+                <div className="flex items-center gap-2">
+                  {PROVIDER_ICONS[provider.alias] || <Sparkles className="h-4 w-4 text-gray-600" />}
+                  <span>{provider.label}</span>
+                  {unavailable && <span className="text-xs text-gray-500">(unavailable)</span>}
+                  {degraded && <span className="text-xs text-amber-600">(degraded)</span>}
+                </div>
+              </SelectItem>
+            );
+          })}
           {/* Compare Providers option temporarily removed */}
         </SelectContent>
       </Select>
@@ -8,13 +8,17 @@ interface ReportViewProps {
   analysisB?: DocumentAnalysis;
   comparison?: DocumentComparison;
   mode: 'single' | 'compare';
+  originalTextA?: string;
+  originalTextB?: string;
 }
 
 const ReportView: React.FC<ReportViewProps> = ({
   analysisA,
   analysisB,
   comparison,
-  mode
+  mode,
+  originalTextA,
+  originalTextB
 }) => {
   // Create refs for charts to enable PDF capture
   const doughnutARef = useRef<HTMLDivElement>(null);
@@ -42,6 +46,8 @@ const ReportView: React.FC<ReportViewProps> = ({
         analysisB={analysisB}
         comparison={comparison}
         mode={mode}
+        originalTextA={originalTextA}
+        originalTextB={originalTextB}
       />
     </div>
   );
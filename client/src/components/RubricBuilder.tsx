@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { SavedRubric } from '@/lib/types';
+import { Plus, Trash2, Pencil, ListChecks } from 'lucide-react';
+
+interface RubricBuilderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Form state keeps questions and anchors as editable text
+interface DimensionDraft {
+  name: string;
+  weight: string;
+  questions: string;   // one question per line
+  anchors: string;     // one "score: description" per line
+}
+
+interface RubricDraft {
+  id?: number;
+  name: string;
+  description: string;
+  shareWithTeam: boolean;
+  dimensions: DimensionDraft[];
+}
+
+const EMPTY_DIMENSION: DimensionDraft = { name: '', weight: '1', questions: '', anchors: '' };
+
+function emptyDraft(): RubricDraft {
+  return { name: '', description: '', shareWithTeam: false, dimensions: [{ ...EMPTY_DIMENSION }] };
+}
+
+// "Argument Strength" -> "argumentStrength"
+function toKey(name: string, index: number): string {
+  const words = name.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const key = words.map((w, i) => i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1)).join('');
+  return /^[a-z]/.test(key) ? key : `dimension${index + 1}`;
+}
+
+function fromRubric(rubric: SavedRubric): RubricDraft {
+  return {
+    id: rubric.id,
+    name: rubric.name,
+    description: rubric.description || '',
+    shareWithTeam: !!rubric.team,
+    dimensions: rubric.dimensions.map(d => ({
+      name: d.name,
+      weight: String(d.weight),
+      questions: d.questions.join('\n'),
+      anchors: d.anchors.map(a => `${a.score}: ${a.description}`).join('\n')
+    }))
+  };
+}
+
+function toPayload(draft: RubricDraft, team: string | null) {
+  const used = new Set<string>();
+  return {
+    name: draft.name.trim(),
+    description: draft.description.trim() || null,
+    team: draft.shareWithTeam ? team : null,
+    dimensions: draft.dimensions.map((d, i) => {
+      let key = toKey(d.name, i);
+      while (used.has(key)) key = `${key}${i + 1}`;
+      used.add(key);
+      return {
+        key,
+        name: d.name.trim(),
+        weight: parseFloat(d.weight) || 0,
+        questions: d.questions.split('\n').map(q => q.trim()).filter(Boolean),
+        anchors: d.anchors.split('\n')
+          .map(line => line.match(/^\s*(\d{1,3})\s*[:=-]\s*(.+)$/))
+          .filter((m): m is RegExpMatchArray => !!m)
+          .map(m => ({ score: Math.min(100, parseInt(m[1])), description: m[2].trim() }))
+      };
+    })
+  };
+}
+
+/**
+ * Create and edit evaluation rubrics: named dimensions with weights, the
+ * questions asked for each, and optional score anchors.
+ */
+const RubricBuilder: React.FC<RubricBuilderProps> = ({ open, onOpenChange }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<RubricDraft | null>(null);
+
+  const { data } = useQuery<{ rubrics: SavedRubric[] }>({
+    queryKey: ['/api/rubrics'],
+    enabled: open && !!user,
+  });
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message || 'Could not save rubric', variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (current: RubricDraft) => {
+      const payload = toPayload(current, user?.team ?? null);
+      const response = current.id
+        ? await apiRequest('PUT', `/api/rubrics/${current.id}`, payload)
+        : await apiRequest('POST', '/api/rubrics', payload);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Rubric saved' });
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/rubrics'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/rubrics/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rubrics'] });
+    },
+    onError,
+  });
+
+  const updateDimension = (index: number, changes: Partial<DimensionDraft>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      dimensions: draft.dimensions.map((d, i) => i === index ? { ...d, ...changes } : d)
+    });
+  };
+
+  const canSave = !!draft && draft.name.trim() !== '' && draft.dimensions.length > 0 &&
+    draft.dimensions.every(d => d.name.trim() && parseFloat(d.weight) > 0 && d.questions.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setDraft(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Evaluation Rubrics
+          </DialogTitle>
+          <DialogDescription>
+            Grade texts against your own criteria. Each dimension is scored 0-100 and the overall score is the weighted average.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!user ? (
+          <p className="text-sm text-muted-foreground">Sign in to create and use rubrics.</p>
+        ) : !draft ? (
+          <div className="space-y-2">
+            {data?.rubrics.length === 0 && <p className="text-sm text-muted-foreground">No rubrics yet.</p>}
+            {data?.rubrics.map(rubric => (
+              <div key={rubric.id} className="flex items-center justify-between border rounded p-2 text-sm">
+                <span className="flex items-center gap-2">
+                  {rubric.name}
+                  <Badge variant="outline">{rubric.dimensions.length} dimensions</Badge>
+                  {rubric.team && <Badge variant="secondary">{rubric.team}</Badge>}
+                </span>
+                {rubric.editable && (
+                  <span className="flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => setDraft(fromRubric(rubric))}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(rubric.id)} disabled={deleteMutation.isPending}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </span>
+                )}
+              </div>
+            ))}
+            <Button onClick={() => setDraft(emptyDraft())} data-testid="button-new-rubric">
+              <Plus className="h-4 w-4 mr-2" />
+              New Rubric
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="rubric-name">Name</Label>
+              <Input id="rubric-name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Legal brief quality" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rubric-description">Description (optional)</Label>
+              <Textarea id="rubric-description" rows={2} value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+            </div>
+            {user.team && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={draft.shareWithTeam} onChange={e => setDraft({ ...draft, shareWithTeam: e.target.checked })} />
+                Share with team {user.team}
+              </label>
+            )}
+
+            {draft.dimensions.map((dimension, index) => (
+              <div key={index} className="border rounded p-3 space-y-2 bg-gray-50">
+                <div className="flex gap-2 items-end">
+                  <div className="flex-1 space-y-1">
+                    <Label>Dimension</Label>
+                    <Input value={dimension.name} onChange={e => updateDimension(index, { name: e.target.value })} placeholder="Argument strength" />
+                  </div>
+                  <div className="w-24 space-y-1">
+                    <Label>Weight</Label>
+                    <Input type="number" min="0" step="0.5" value={dimension.weight} onChange={e => updateDimension(index, { weight: e.target.value })} />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={draft.dimensions.length === 1}
+                    onClick={() => setDraft({ ...draft, dimensions: draft.dimensions.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="space-y-1">
+                  <Label>Questions (one per line)</Label>
+                  <Textarea rows={3} value={dimension.questions} onChange={e => updateDimension(index, { questions: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Calibration anchors (optional, one "score: description" per line)</Label>
+                  <Textarea rows={2} value={dimension.anchors} onChange={e => updateDimension(index, { anchors: e.target.value })} placeholder={'90: Controlling authority cited for every claim\n40: Key claims unsupported'} />
+                </div>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={draft.dimensions.length >= 12}
+              onClick={() => setDraft({ ...draft, dimensions: [...draft.dimensions, { ...EMPTY_DIMENSION }] })}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Dimension
+            </Button>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={() => saveMutation.mutate(draft)} disabled={!canSave || saveMutation.isPending} data-testid="button-save-rubric">
+                {saveMutation.isPending ? 'Saving...' : 'Save Rubric'}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RubricBuilder;
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+interface UsageHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface JobUsageSummary {
+  jobId: string;
+  endpoint: string;
+  startedAt: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  credits: number;
+  providers: string[];
+}
+
+interface UsageCall {
+  id: number;
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  credits: number;
+  createdAt: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: "ZHI 1",
+  anthropic: "ZHI 2",
+  deepseek: "ZHI 3",
+  perplexity: "ZHI 4",
+  grok: "ZHI 5",
+  local: "ZHI 6",
+  mock: "Mock",
+};
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+export function UsageHistoryDialog({ open, onOpenChange }: UsageHistoryDialogProps) {
+  const [selectedJob, setSelectedJob] = useState<string | null>(null);
+
+  const { data: jobsData, isLoading: jobsLoading } = useQuery<{ jobs: JobUsageSummary[] }>({
+    queryKey: ["/api/usage/jobs"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const { data: jobData, isLoading: jobLoading } = useQuery<{ job: JobUsageSummary; calls: UsageCall[] }>({
+    queryKey: [`/api/usage/jobs/${selectedJob}`],
+    enabled: open && !!selectedJob,
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setSelectedJob(null);
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Usage History</DialogTitle>
+          <DialogDescription>
+            Token usage and credits charged for each job. Select a job to see every provider call it made.
+          </DialogDescription>
+        </DialogHeader>
+
+        {selectedJob ? (
+          <div className="space-y-4">
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => setSelectedJob(null)} data-testid="button-usage-back">
+              <ArrowLeft className="h-4 w-4" />
+              All jobs
+            </Button>
+
+            {jobLoading || !jobData ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : (
+              <>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  {jobData.job.endpoint} · {formatNumber(jobData.job.totalTokens)} tokens · {formatNumber(jobData.job.credits)} credits
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Provider</TableHead>
+                      <TableHead className="text-right">Prompt</TableHead>
+                      <TableHead className="text-right">Completion</TableHead>
+                      <TableHead className="text-right">Credits</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {jobData.calls.map((call) => (
+                      <TableRow key={call.id} data-testid={`row-usage-call-${call.id}`}>
+                        <TableCell>{new Date(call.createdAt).toLocaleTimeString()}</TableCell>
+                        <TableCell>{PROVIDER_LABELS[call.provider] || call.provider}</TableCell>
+                        <TableCell className="text-right">{formatNumber(call.promptTokens)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(call.completionTokens)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(call.credits)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </div>
+        ) : jobsLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : !jobsData?.jobs.length ? (
+          <p className="text-sm text-gray-500 py-8 text-center">No usage recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Providers</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Credits</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobsData.jobs.map((job) => (
+                <TableRow
+                  key={job.jobId}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedJob(job.jobId)}
+                  data-testid={`row-usage-job-${job.jobId}`}
+                >
+                  <TableCell>{new Date(job.startedAt).toLocaleString()}</TableCell>
+                  <TableCell className="font-mono text-xs">{job.endpoint}</TableCell>
+                  <TableCell>{job.providers.map(p => PROVIDER_LABELS[p] || p).join(", ")}</TableCell>
+                  <TableCell className="text-right">{job.calls}</TableCell>
+                  <TableCell className="text-right">{formatNumber(job.totalTokens)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(job.credits)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
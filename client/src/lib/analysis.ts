@@ -1,4 +1,5 @@
 import { apiRequest } from "./queryClient";
+import { postEventStream, type EventStreamHandlers } from "./eventStream";
 import { 
   DocumentInput, 
   AIDetectionResult, 
@@ -248,11 +249,12 @@ export async function translateDocument(
   }
 }
 
-// Function to rewrite a document with intelligence enhancement
+// Function to rewrite a document with intelligence enhancement, streamed over SSE
 export async function rewriteDocument(
   originalText: string,
   options: RewriteOptions,
-  provider: string = "openai"
+  provider: string = "openai",
+  handlers: EventStreamHandlers = {}
 ): Promise<RewriteResult> {
   try {
     const request: RewriteRequest = {
@@ -261,8 +263,7 @@ export async function rewriteDocument(
       provider
     };
     
-    const response = await apiRequest("POST", "/api/rewrite", request);
-    return await response.json();
+    return await postEventStream<RewriteResult>("/api/rewrite", { ...request }, handlers);
   } catch (error) {
     console.error("Error rewriting document:", error);
     throw error;
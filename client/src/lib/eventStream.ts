@@ -0,0 +1,69 @@
+// Client for the server's opt-in SSE endpoints (rewrite, intelligent-rewrite, refine-output).
+// Events: "delta" { text }, "progress" { stage }, "complete" <normal JSON response>, "error" { message }
+
+export interface EventStreamHandlers {
+  // Called with each delta and the text accumulated so far
+  onDelta?: (delta: string, text: string) => void;
+  onProgress?: (stage: string) => void;
+  signal?: AbortSignal;
+}
+
+export async function postEventStream<T = any>(
+  url: string,
+  body: Record<string, unknown>,
+  handlers: EventStreamHandlers = {},
+): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify({ ...body, stream: true }),
+    credentials: "include",
+    signal: handlers.signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `${response.status}: ${response.statusText}`);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("No response body");
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let eventType = "message";
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.startsWith("event: ")) {
+        eventType = line.slice(7).trim();
+        continue;
+      }
+      if (!line.startsWith("data: ")) continue;
+
+      const data = JSON.parse(line.slice(6));
+      if (eventType === "delta") {
+        text += data.text;
+        handlers.onDelta?.(data.text, text);
+      } else if (eventType === "progress") {
+        handlers.onProgress?.(data.stage);
+      } else if (eventType === "complete") {
+        return data as T;
+      } else if (eventType === "error") {
+        throw new Error(data.message || "Stream failed");
+      }
+    }
+  }
+
+  throw new Error("Stream ended before completing");
+}
@@ -64,6 +64,75 @@ export interface AnalysisDimension {
   quote: string;
 }
 
+// Agreement across an ensemble of providers or samples (ensemble mode)
+export interface EnsembleMemberScore {
+  provider: string;
+  alias: string;
+  label: string;
+  sample: number;
+  score: number | null;
+  outlier: boolean;
+  formattedReport?: string;
+  error?: string;
+}
+
+export interface EnsembleSummary {
+  mode: 'providers' | 'samples';
+  count: number;
+  median: number | null;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  spread: number | null;
+  stdDev: number | null;
+  band: { low: number; high: number } | null;
+  agreement: 'high' | 'moderate' | 'low' | null;
+  outliers: string[];
+  members: EnsembleMemberScore[];
+}
+
+// Quoted passage supporting a dimension score; offsets are validated against the source text
+export interface EvidenceSpan {
+  quote: string;
+  start: number;
+  end: number;
+  reason?: string;
+  relocated: boolean;
+}
+
+// Dimension key (e.g. "proofEffectiveness", "overallScore") -> supporting spans
+export type DimensionEvidence = Record<string, EvidenceSpan[]>;
+
+export interface RubricDimension {
+  key: string;
+  name: string;
+  weight: number;
+  questions: string[];
+  anchors: Array<{ score: number; description: string }>;
+}
+
+// A saved rubric as listed by /api/rubrics
+export interface SavedRubric {
+  id: number;
+  userId: number;
+  team: string | null;
+  name: string;
+  description: string | null;
+  dimensions: RubricDimension[];
+  evaluationType: string; // "rubric:<id>"
+  editable: boolean;
+  updatedAt: string;
+}
+
+// One dimension of a rubric evaluation result
+export interface RubricDimensionScore {
+  key: string;
+  name: string;
+  weight: number;
+  score: number;
+  rationale: string;
+}
+
 export interface DocumentAnalysis {
   id?: number;
   documentId?: number;
@@ -80,7 +149,10 @@ export interface DocumentAnalysis {
   analysisResults?: Array<{
     provider: string;
     formattedReport: string;
+    sample?: number;
   }>;
+  ensemble?: EnsembleSummary;
+  evidence?: DimensionEvidence;
   
   // Dimension analysis data from response parser
   dimensions?: Record<string, {
@@ -227,3 +299,60 @@ export interface EnhancedRewriteOptions extends RewriteOptions {
   includeSuggestions?: boolean;
   includeSearchResults?: boolean;
 }
+
+// Coherence timeline returned by /api/coherence-global analyses
+export type CoherenceTimelineEventType = 'introduced' | 'resolved' | 'contradicted' | 'superseded';
+
+export interface CoherenceTimelineItem {
+  id: string;
+  kind: 'commitment' | 'open-thread' | 'setting';
+  category: string;
+  label: string;
+  status: 'active' | 'open' | CoherenceTimelineEventType;
+  events: Array<{ chunkIndex: number | null; type: CoherenceTimelineEventType; detail?: string }>;
+}
+
+export interface CoherenceTimelineData {
+  mode: string;
+  chunkCount: number;
+  items: CoherenceTimelineItem[];
+  chunks: string[];
+}
+
+// Version-to-version comparison returned by /api/coherence-diff
+export type CoherenceChunkStatus = 'preserved' | 'weakened' | 'shifted';
+
+export interface CoherenceIssueChange {
+  issue: string;
+  originalChunk: number | null;
+  revisedChunk: number | null;
+  revisedIssue?: string;
+}
+
+export interface CoherenceDiffChunk {
+  originalIndex: number | null;
+  revisedIndex: number | null;
+  similarity: number;
+  originalPreview: string;
+  revisedPreview: string;
+  originalScore: number | null;
+  revisedScore: number | null;
+  scoreDelta: number | null;
+  originalStatus: CoherenceChunkStatus | null;
+  revisedStatus: CoherenceChunkStatus | null;
+  resolved: string[];
+  introduced: string[];
+  unchanged: string[];
+}
+
+export interface CoherenceDiffData {
+  mode: string;
+  original: { score: number; assessment: 'PASS' | 'WEAK' | 'FAIL'; chunkCount: number };
+  revised: { score: number; assessment: 'PASS' | 'WEAK' | 'FAIL'; chunkCount: number };
+  scoreDelta: number;
+  chunks: CoherenceDiffChunk[];
+  resolved: CoherenceIssueChange[];
+  introduced: CoherenceIssueChange[];
+  unchanged: CoherenceIssueChange[];
+  report: string;
+}
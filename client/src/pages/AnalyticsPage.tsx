@@ -1,314 +1,193 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Brain, TrendingUp, FileText, Clock, Target, Lightbulb, BarChart3, Mail } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/use-auth';
+import { Brain, TrendingUp, Clock, Target, Lightbulb, BarChart3, User } from 'lucide-react';
 
+interface ProfileTrend {
+  direction: 'improving' | 'declining' | 'stable' | 'insufficient';
+  slopePer30Days: number | null;
+  points: Array<{ date: string; score: number }>;
+}
+
+interface ProfileDimension {
+  name: string;
+  count: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  latest: number;
+  trend: ProfileTrend;
+}
+
+// Longitudinal profile from /api/user/cognitive-profile
 interface CognitiveProfile {
-  userEmail: string;
-  writingPatterns: {
-    avgSentenceLength: number;
-    vocabularyComplexity: 'low' | 'medium' | 'high';
-    preferredTopics: string[];
-    conceptualDepth: number;
-  };
-  intellectualInterests: {
-    primaryDomains: string[];
-    explorationPatterns: string[];
-    learningVelocity: number;
-  };
-  cognitiveStyle: {
-    analyticalVsIntuitive: number; // 1-10 scale
-    detailVsBigPicture: number;
-    systematicVsCreative: number;
-  };
-  collaborationStyle: {
-    aiInteractionPatterns: string[];
-    feedbackReceptiveness: number;
-    iterationFrequency: number;
-  };
-  psychologicalProfile: {
-    curiosityIndex: number;
-    persistenceLevel: number;
-    innovationTendency: number;
-    riskTolerance: number;
-  };
-  behavioralMetrics: {
-    averageSessionLength: number;
-    totalDocumentsProcessed: number;
-    rewriteFrequency: number;
-    preferredComplexity: 'increasing' | 'stable' | 'simplifying';
-  };
+  analyses: number;
+  firstAnalysisAt: string | null;
+  lastAnalysisAt: string | null;
+  overall: ProfileDimension | null;
+  dimensions: ProfileDimension[];
+  strongestTraits: string[];
+  weakestTraits: string[];
+  evaluationTypes: Record<string, number>;
+  preferredProvider: string | null;
 }
 
 interface UserActivity {
-  timestamp: string;
+  id: number;
   activityType: string;
-  complexity: number;
-  duration: number;
+  timestamp: string;
+  documentId: number | null;
+  data: Record<string, any> | null;
 }
 
-export const AnalyticsPage = () => {
-  const [userEmail, setUserEmail] = useState<string>('');
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
-  const [cognitiveProfile, setCognitiveProfile] = useState<CognitiveProfile | null>(null);
-  const [activities, setActivities] = useState<UserActivity[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+// Breakdown from /api/user/analytics
+interface AnalyticsSummary {
+  documents: number;
+  activities: {
+    total: number;
+    byType: Array<{ activityType: string; count: number }>;
+  };
+  providers: Array<{
+    provider: string;
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    credits: number;
+  }>;
+}
 
-  const handleEmailAuth = async () => {
-    if (!userEmail.trim()) return;
-    
-    setIsLoading(true);
-    try {
-      // Create/get user and fetch their cognitive profile
-      const userResponse = await fetch('/api/user/auth', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email: userEmail })
-      });
+const RANGES = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: 'all', label: 'All time' },
+];
 
-      if (userResponse.ok) {
-        setIsAuthenticated(true);
-        
-        // Fetch cognitive profile
-        const profileResponse = await fetch(`/api/user/cognitive-profile?email=${userEmail}`);
-        if (profileResponse.ok) {
-          const profile = await profileResponse.json();
-          setCognitiveProfile(profile);
-        }
+function rangeQuery(range: string): string {
+  if (range === 'all') return '';
+  const from = new Date(Date.now() - parseInt(range) * 24 * 60 * 60 * 1000);
+  return `?from=${from.toISOString().slice(0, 10)}`;
+}
+
+export const AnalyticsPage = () => {
+  const { user } = useAuth();
+  const [range, setRange] = useState('30');
+
+  const { data: cognitiveProfile = null } = useQuery<CognitiveProfile>({
+    queryKey: ['/api/user/cognitive-profile'],
+    enabled: !!user,
+  });
+  const { data: activitiesData } = useQuery<{ activities: UserActivity[] }>({
+    queryKey: [`/api/user/activities${rangeQuery(range)}`],
+    enabled: !!user,
+  });
+  const { data: summary } = useQuery<AnalyticsSummary>({
+    queryKey: [`/api/user/analytics${rangeQuery(range)}`],
+    enabled: !!user,
+  });
+  const activities = activitiesData?.activities || [];
 
-        // Fetch activity history
-        const activitiesResponse = await fetch(`/api/user/activities?email=${userEmail}`);
-        if (activitiesResponse.ok) {
-          const activitiesData = await activitiesResponse.json();
-          setActivities(activitiesData);
-        }
-      }
-    } catch (error) {
-      console.error('Authentication error:', error);
-    }
-    setIsLoading(false);
+  const trendLabel = (trend: ProfileTrend) => {
+    if (trend.direction === 'insufficient') return 'Not enough data';
+    const slope = trend.slopePer30Days ?? 0;
+    return `${trend.direction} (${slope > 0 ? '+' : ''}${slope}/month)`;
   };
 
   const renderCognitiveInsights = () => {
-    if (!cognitiveProfile) return null;
+    if (!cognitiveProfile || !cognitiveProfile.overall) return null;
+    const overall = cognitiveProfile.overall;
 
     return (
       <div className="space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {/* Cognitive Style Analysis */}
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center gap-2">
-                <Brain className="h-5 w-5" />
-                Cognitive Style
+                <BarChart3 className="h-5 w-5" />
+                Overall
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
               <div>
                 <div className="flex justify-between text-sm mb-1">
-                  <span>Analytical vs Intuitive</span>
-                  <span>{cognitiveProfile.cognitiveStyle.analyticalVsIntuitive}/10</span>
+                  <span>Average score</span>
+                  <span>{overall.mean}/100</span>
                 </div>
-                <Progress value={cognitiveProfile.cognitiveStyle.analyticalVsIntuitive * 10} />
+                <Progress value={overall.mean} />
               </div>
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Detail vs Big Picture</span>
-                  <span>{cognitiveProfile.cognitiveStyle.detailVsBigPicture}/10</span>
-                </div>
-                <Progress value={cognitiveProfile.cognitiveStyle.detailVsBigPicture * 10} />
+              <div className="text-sm text-gray-600">
+                {cognitiveProfile.analyses} analyses · range {overall.min}–{overall.max} · latest {overall.latest}
               </div>
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Systematic vs Creative</span>
-                  <span>{cognitiveProfile.cognitiveStyle.systematicVsCreative}/10</span>
-                </div>
-                <Progress value={cognitiveProfile.cognitiveStyle.systematicVsCreative * 10} />
+              <div className="text-sm text-gray-600 flex items-center gap-1">
+                <TrendingUp className="h-4 w-4" />
+                {trendLabel(overall.trend)}
               </div>
             </CardContent>
           </Card>
 
-          {/* Psychological Profile */}
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center gap-2">
-                <Lightbulb className="h-5 w-5" />
-                Psychological Profile
+                <Target className="h-5 w-5" />
+                Strongest Traits
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-3">
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Curiosity Index</span>
-                  <span>{cognitiveProfile.psychologicalProfile.curiosityIndex}/10</span>
-                </div>
-                <Progress value={cognitiveProfile.psychologicalProfile.curiosityIndex * 10} />
-              </div>
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Persistence Level</span>
-                  <span>{cognitiveProfile.psychologicalProfile.persistenceLevel}/10</span>
-                </div>
-                <Progress value={cognitiveProfile.psychologicalProfile.persistenceLevel * 10} />
-              </div>
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <span>Innovation Tendency</span>
-                  <span>{cognitiveProfile.psychologicalProfile.innovationTendency}/10</span>
-                </div>
-                <Progress value={cognitiveProfile.psychologicalProfile.innovationTendency * 10} />
-              </div>
+            <CardContent className="flex flex-wrap gap-2">
+              {cognitiveProfile.strongestTraits.length === 0 && <span className="text-sm text-gray-500">Not enough data yet</span>}
+              {cognitiveProfile.strongestTraits.map(trait => <Badge key={trait}>{trait}</Badge>)}
             </CardContent>
           </Card>
 
-          {/* Writing Patterns */}
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center gap-2">
-                <FileText className="h-5 w-5" />
-                Writing Patterns
+                <Lightbulb className="h-5 w-5" />
+                Room to Grow
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-3">
-              <div>
-                <span className="text-sm font-medium">Vocabulary Complexity</span>
-                <Badge variant={cognitiveProfile.writingPatterns.vocabularyComplexity === 'high' ? 'default' : 'secondary'}>
-                  {cognitiveProfile.writingPatterns.vocabularyComplexity}
-                </Badge>
-              </div>
-              <div>
-                <span className="text-sm font-medium">Avg Sentence Length</span>
-                <p className="text-sm text-gray-600">{cognitiveProfile.writingPatterns.avgSentenceLength} words</p>
-              </div>
-              <div>
-                <span className="text-sm font-medium">Conceptual Depth</span>
-                <Progress value={cognitiveProfile.writingPatterns.conceptualDepth * 10} />
-              </div>
+            <CardContent className="flex flex-wrap gap-2">
+              {cognitiveProfile.weakestTraits.length === 0 && <span className="text-sm text-gray-500">Not enough data yet</span>}
+              {cognitiveProfile.weakestTraits.map(trait => <Badge key={trait} variant="secondary">{trait}</Badge>)}
             </CardContent>
           </Card>
         </div>
 
-        {/* Intellectual Interests */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Target className="h-5 w-5" />
-              Intellectual Interests & Patterns
+              <Brain className="h-5 w-5" />
+              Dimensions
             </CardTitle>
             <CardDescription>
-              Analysis of your cognitive focus areas and learning patterns
+              Running statistics for every dimension you have been scored on
+              {cognitiveProfile.preferredProvider && ` · usually evaluated with ${cognitiveProfile.preferredProvider}`}
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <h4 className="font-medium mb-2">Primary Domains</h4>
-                <div className="flex flex-wrap gap-2">
-                  {cognitiveProfile.intellectualInterests.primaryDomains.map((domain, idx) => (
-                    <Badge key={idx} variant="outline">{domain}</Badge>
-                  ))}
-                </div>
-              </div>
-              <div>
-                <h4 className="font-medium mb-2">Exploration Patterns</h4>
-                <div className="flex flex-wrap gap-2">
-                  {cognitiveProfile.intellectualInterests.explorationPatterns.map((pattern, idx) => (
-                    <Badge key={idx} variant="secondary">{pattern}</Badge>
-                  ))}
-                </div>
-              </div>
-            </div>
-            <div className="mt-4">
-              <div className="flex justify-between text-sm mb-1">
-                <span>Learning Velocity</span>
-                <span>{cognitiveProfile.intellectualInterests.learningVelocity}/10</span>
-              </div>
-              <Progress value={cognitiveProfile.intellectualInterests.learningVelocity * 10} />
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Behavioral Metrics */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <BarChart3 className="h-5 w-5" />
-              Behavioral Metrics & Productivity
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div className="text-center">
-                <div className="text-2xl font-bold text-blue-600">{cognitiveProfile.behavioralMetrics.totalDocumentsProcessed}</div>
-                <p className="text-sm text-gray-600">Documents Processed</p>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-green-600">{cognitiveProfile.behavioralMetrics.averageSessionLength}m</div>
-                <p className="text-sm text-gray-600">Avg Session Length</p>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-purple-600">{cognitiveProfile.behavioralMetrics.rewriteFrequency}x</div>
-                <p className="text-sm text-gray-600">Rewrite Frequency</p>
-              </div>
-              <div className="text-center">
-                <Badge variant={cognitiveProfile.behavioralMetrics.preferredComplexity === 'increasing' ? 'default' : 'secondary'}>
-                  {cognitiveProfile.behavioralMetrics.preferredComplexity}
-                </Badge>
-                <p className="text-sm text-gray-600 mt-1">Complexity Trend</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* AI Collaboration Insights */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <TrendingUp className="h-5 w-5" />
-              AI Collaboration Style
-            </CardTitle>
-            <CardDescription>
-              How you interact with AI systems and process feedback
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div>
-                <h4 className="font-medium mb-2">Interaction Patterns</h4>
-                <div className="flex flex-wrap gap-2">
-                  {cognitiveProfile.collaborationStyle.aiInteractionPatterns.map((pattern, idx) => (
-                    <Badge key={idx} variant="outline">{pattern}</Badge>
-                  ))}
-                </div>
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <div className="flex justify-between text-sm mb-1">
-                    <span>Feedback Receptiveness</span>
-                    <span>{cognitiveProfile.collaborationStyle.feedbackReceptiveness}/10</span>
-                  </div>
-                  <Progress value={cognitiveProfile.collaborationStyle.feedbackReceptiveness * 10} />
-                </div>
-                <div>
-                  <div className="flex justify-between text-sm mb-1">
-                    <span>Iteration Frequency</span>
-                    <span>{cognitiveProfile.collaborationStyle.iterationFrequency}/10</span>
-                  </div>
-                  <Progress value={cognitiveProfile.collaborationStyle.iterationFrequency * 10} />
+          <CardContent className="space-y-4">
+            {cognitiveProfile.dimensions.map(dimension => (
+              <div key={dimension.name}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium">{dimension.name}</span>
+                  <span>{dimension.mean}/100 ± {dimension.stdDev} · {dimension.count} scored · {trendLabel(dimension.trend)}</span>
                 </div>
+                <Progress value={dimension.mean} />
               </div>
-            </div>
+            ))}
           </CardContent>
         </Card>
       </div>
     );
   };
 
-  if (!isAuthenticated) {
+  if (!user) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <Card className="w-full max-w-md">
@@ -318,35 +197,25 @@ export const AnalyticsPage = () => {
               Cognitive Analytics
             </CardTitle>
             <CardDescription>
-              Enter your email to access your personal cognitive profile and analytics
+              Sign in to see your cognitive profile, activity history and usage
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <Input
-                type="email"
-                placeholder="your.email@example.com"
-                value={userEmail}
-                onChange={(e) => setUserEmail(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleEmailAuth()}
-              />
-            </div>
-            <Button 
-              onClick={handleEmailAuth} 
-              disabled={!userEmail.trim() || isLoading}
-              className="w-full"
-            >
-              {isLoading ? 'Loading...' : 'Access Analytics'}
-            </Button>
-            <p className="text-xs text-gray-500 text-center">
-              No login required. Your data is linked to your email for easy access to past activity and cognitive insights.
-            </p>
-          </CardContent>
         </Card>
       </div>
     );
   }
 
+  const rangeSelector = (
+    <Select value={range} onValueChange={setRange}>
+      <SelectTrigger className="w-40" data-testid="select-analytics-range">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {RANGES.map(r => <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="max-w-7xl mx-auto">
@@ -359,8 +228,8 @@ export const AnalyticsPage = () => {
               </p>
             </div>
             <div className="flex items-center gap-2 text-sm text-gray-500">
-              <Mail className="h-4 w-4" />
-              {userEmail}
+              <User className="h-4 w-4" />
+              {user.username}
             </div>
           </div>
         </div>
@@ -369,11 +238,11 @@ export const AnalyticsPage = () => {
           <TabsList>
             <TabsTrigger value="profile">Cognitive Profile</TabsTrigger>
             <TabsTrigger value="evolution">Evolution Timeline</TabsTrigger>
-            <TabsTrigger value="predictions">AI Predictions</TabsTrigger>
+            <TabsTrigger value="usage">Usage</TabsTrigger>
           </TabsList>
 
           <TabsContent value="profile">
-            {cognitiveProfile ? renderCognitiveInsights() : (
+            {cognitiveProfile?.overall ? renderCognitiveInsights() : (
               <Card>
                 <CardContent className="p-6 text-center">
                   <Brain className="h-12 w-12 mx-auto mb-4 text-gray-400" />
@@ -390,23 +259,45 @@ export const AnalyticsPage = () => {
           <TabsContent value="evolution">
             <Card>
               <CardHeader>
-                <CardTitle>Cognitive Evolution Timeline</CardTitle>
-                <CardDescription>
-                  Track how your thinking patterns and writing style have evolved over time
-                </CardDescription>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Cognitive Evolution Timeline</CardTitle>
+                    <CardDescription>
+                      Track how your thinking patterns and writing style have evolved over time
+                    </CardDescription>
+                  </div>
+                  {rangeSelector}
+                </div>
               </CardHeader>
               <CardContent>
+                {cognitiveProfile?.overall && cognitiveProfile.overall.trend.points.length > 1 && (
+                  <ResponsiveContainer width="100%" height={260} className="mb-6">
+                    <LineChart data={cognitiveProfile.overall.trend.points.map(p => ({ date: new Date(p.date).toLocaleDateString(), score: p.score }))}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                      <YAxis domain={[0, 100]} />
+                      <Tooltip />
+                      <Line type="monotone" dataKey="score" name="Overall score" stroke="#2563eb" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
                 <div className="space-y-4">
-                  {activities.map((activity, idx) => (
-                    <div key={idx} className="flex items-center gap-4 p-3 border rounded-lg">
+                  {activities.length === 0 && <p className="text-sm text-gray-500">No activity in this period.</p>}
+                  {activities.map(activity => (
+                    <div key={activity.id} className="flex items-center gap-4 p-3 border rounded-lg">
                       <Clock className="h-4 w-4 text-gray-400" />
                       <div className="flex-1">
                         <div className="flex justify-between">
-                          <span className="font-medium">{activity.activityType}</span>
-                          <span className="text-sm text-gray-500">{activity.timestamp}</span>
+                          <span className="font-medium capitalize">{activity.activityType}</span>
+                          <span className="text-sm text-gray-500">{new Date(activity.timestamp).toLocaleString()}</span>
                         </div>
                         <div className="text-sm text-gray-600">
-                          Complexity: {activity.complexity}/10 • Duration: {activity.duration}m
+                          {[
+                            activity.data?.evaluationType || activity.data?.evaluation,
+                            activity.data?.provider,
+                            activity.data?.overallScore !== undefined && `score ${activity.data.overallScore}/100`,
+                            activity.data?.documents !== undefined && `${activity.data.documents} documents`,
+                          ].filter(Boolean).join(' • ')}
                         </div>
                       </div>
                     </div>
@@ -416,24 +307,54 @@ export const AnalyticsPage = () => {
             </Card>
           </TabsContent>
 
-          <TabsContent value="predictions">
-            <Card>
-              <CardHeader>
-                <CardTitle>AI-Powered Predictions</CardTitle>
-                <CardDescription>
-                  Insights about your future learning trajectory and cognitive development
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8 text-gray-500">
-                  <Lightbulb className="h-12 w-12 mx-auto mb-4" />
-                  <p>Predictive analytics will appear here as your profile develops</p>
-                </div>
-              </CardContent>
-            </Card>
+          <TabsContent value="usage">
+            <div className="space-y-6">
+              <div className="flex justify-end">{rangeSelector}</div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">Activity</CardTitle>
+                    <CardDescription>
+                      {summary?.activities.total ?? 0} actions · {summary?.documents ?? 0} documents
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {summary?.activities.byType.map(entry => (
+                      <div key={entry.activityType}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="capitalize">{entry.activityType}</span>
+                          <span>{entry.count}</span>
+                        </div>
+                        <Progress value={(entry.count / summary.activities.total) * 100} />
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">Providers</CardTitle>
+                    <CardDescription>Model calls, tokens and credits per provider</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {summary?.providers.length === 0 && <p className="text-sm text-gray-500">No provider usage in this period.</p>}
+                    <div className="space-y-2">
+                      {summary?.providers.map(entry => (
+                        <div key={entry.provider} className="flex items-center justify-between text-sm border-b pb-2">
+                          <Badge variant="outline">{entry.provider}</Badge>
+                          <span className="text-gray-600">
+                            {entry.calls} calls · {entry.totalTokens.toLocaleString()} tokens · {entry.credits.toLocaleString()} credits
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
           </TabsContent>
         </Tabs>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
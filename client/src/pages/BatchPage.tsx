@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ProviderSelector, { LLMProvider } from '@/components/ProviderSelector';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { SavedRubric } from '@/lib/types';
+import { Layers, Upload, Download, XCircle } from 'lucide-react';
+
+interface BatchJob {
+  id: number;
+  evaluation: string;
+  provider: string;
+  status: string;
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface BatchItem {
+  id: number;
+  position: number;
+  filename: string;
+  wordCount: number;
+  status: string;
+  overallScore: number | null;
+  scores: Record<string, number> | null;
+  error: string | null;
+  hasReport: boolean;
+}
+
+const EVALUATIONS = [
+  { value: 'quick', label: 'Quick analysis' },
+  { value: 'cognitive', label: 'Cognitive (4-phase)' },
+  { value: 'originality', label: 'Originality' },
+  { value: 'case', label: 'Case assessment' },
+  { value: 'fiction', label: 'Fiction assessment' },
+];
+
+function isActive(job: BatchJob) {
+  return job.status === 'pending' || job.status === 'running';
+}
+
+function BatchJobDetail({ jobId }: { jobId: number }) {
+  const { data } = useQuery<{ job: BatchJob; items: BatchItem[] }>({
+    queryKey: [`/api/batch-jobs/${jobId}`],
+    refetchInterval: (query) => query.state.data && isActive(query.state.data.job) ? 5000 : false,
+  });
+  if (!data) return <p className="text-sm text-muted-foreground">Loading...</p>;
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1">#</th>
+          <th>File</th>
+          <th>Words</th>
+          <th>Status</th>
+          <th>Score</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        {data.items.map(item => (
+          <tr key={item.id} className="border-t">
+            <td className="py-1">{item.position}</td>
+            <td>{item.filename}</td>
+            <td>{item.wordCount}</td>
+            <td className={item.status === 'failed' ? 'text-red-600' : ''} title={item.error || undefined}>{item.status}</td>
+            <td>{item.overallScore ?? '—'}</td>
+            <td>
+              {item.hasReport && (
+                <a className="text-blue-600 hover:underline" href={`/api/batch-jobs/${jobId}/items/${item.id}/report`} target="_blank" rel="noreferrer">
+                  Report
+                </a>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function BatchPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [files, setFiles] = useState<File[]>([]);
+  const [evaluation, setEvaluation] = useState('quick');
+  const [provider, setProvider] = useState<LLMProvider>('zhi1');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const { data: jobsData } = useQuery<{ jobs: BatchJob[] }>({
+    queryKey: ['/api/batch-jobs'],
+    enabled: !!user,
+    refetchInterval: (query) => query.state.data?.jobs.some(isActive) ? 5000 : false,
+  });
+  const { data: rubricsData } = useQuery<{ rubrics: SavedRubric[] }>({
+    queryKey: ['/api/rubrics'],
+    enabled: !!user,
+  });
+
+  // Multipart upload, so apiRequest (JSON only) is not used here
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const form = new FormData();
+      files.forEach(file => form.append('files', file));
+      form.append('evaluation', evaluation);
+      form.append('provider', provider === 'all' ? 'zhi1' : provider);
+      const response = await fetch('/api/batch-jobs', { method: 'POST', body: form, credentials: 'include' });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.message || response.statusText);
+      return body as { job: BatchJob; skipped: Array<{ filename: string; reason: string }> };
+    },
+    onSuccess: (data) => {
+      const skipped = data.skipped.length ? ` ${data.skipped.length} file(s) skipped: ${data.skipped.map(s => `${s.filename} (${s.reason})`).join(', ')}` : '';
+      toast({ title: 'Batch started', description: `${data.job.totalItems} document(s) queued.${skipped}` });
+      setFiles([]);
+      setExpanded(data.job.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/batch-jobs'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Could not start batch', variant: 'destructive' });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('POST', `/api/batch-jobs/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/batch-jobs'] });
+    },
+  });
+
+  if (!user) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Sign in to run batch evaluations.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const jobs = jobsData?.jobs || [];
+  const rubrics = rubricsData?.rubrics || [];
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Layers className="h-6 w-6" />
+          Batch Evaluation
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Score many documents at once and download the results as a spreadsheet
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Batch</CardTitle>
+          <CardDescription>Upload .txt, .docx or .pdf files, or a .zip archive containing them.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="batch-files">Documents</Label>
+            <Input
+              id="batch-files"
+              type="file"
+              multiple
+              accept=".txt,.docx,.pdf,.zip"
+              onChange={e => setFiles(Array.from(e.target.files || []))}
+              data-testid="input-batch-files"
+            />
+            {files.length > 0 && <p className="text-xs text-muted-foreground">{files.length} file(s) selected</p>}
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Evaluation</Label>
+              <Select value={evaluation} onValueChange={setEvaluation}>
+                <SelectTrigger data-testid="select-batch-evaluation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVALUATIONS.map(e => <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>)}
+                  {rubrics.map(r => <SelectItem key={r.id} value={r.evaluationType}>Rubric: {r.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <ProviderSelector selectedProvider={provider} onProviderChange={setProvider} />
+          </div>
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={files.length === 0 || uploadMutation.isPending}
+            data-testid="button-start-batch"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {uploadMutation.isPending ? 'Uploading...' : 'Start Batch'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Batches</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {jobs.length === 0 && <p className="text-sm text-muted-foreground">No batches yet.</p>}
+          {jobs.map(job => {
+            const done = job.completedItems + job.failedItems;
+            return (
+              <div key={job.id} className="border rounded p-3 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <button type="button" className="text-left hover:underline" onClick={() => setExpanded(expanded === job.id ? null : job.id)}>
+                    Batch {job.id} · {job.evaluation} · {new Date(job.createdAt).toLocaleString()}
+                  </button>
+                  <span className="flex items-center gap-2">
+                    <Badge variant={job.status === 'failed' ? 'destructive' : isActive(job) ? 'secondary' : 'outline'}>{job.status}</Badge>
+                    {isActive(job) && (
+                      <Button size="sm" variant="ghost" onClick={() => cancelMutation.mutate(job.id)} disabled={cancelMutation.isPending}>
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {done > 0 && (
+                      <>
+                        <Button size="sm" variant="outline" asChild>
+                          <a href={`/api/batch-jobs/${job.id}/export?format=xlsx`}>
+                            <Download className="h-4 w-4 mr-1" />
+                            XLSX
+                          </a>
+                        </Button>
+                        <Button size="sm" variant="outline" asChild>
+                          <a href={`/api/batch-jobs/${job.id}/export?format=csv`}>CSV</a>
+                        </Button>
+                      </>
+                    )}
+                  </span>
+                </div>
+                <Progress value={job.totalItems ? (done / job.totalItems) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  {job.completedItems} scored · {job.failedItems} failed · {job.totalItems} total
+                  {job.error && <span className="text-red-600"> · {job.error}</span>}
+                </p>
+                {expanded === job.id && <BatchJobDetail jobId={job.id} />}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
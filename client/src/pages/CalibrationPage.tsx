@@ -0,0 +1,295 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Gauge, Play, AlertTriangle } from 'lucide-react';
+
+interface CalibrationRunPoint {
+  runId: number;
+  startedAt: string;
+  meanError: number | null;
+  meanAbsoluteError: number | null;
+  inBandRate: number | null;
+  scoredCount: number;
+}
+
+interface CalibrationSampleDrift {
+  sampleId: number;
+  name: string;
+  expectedMin: number;
+  expectedMax: number;
+  baselineScore: number | null;
+  latestScore: number | null;
+  change: number | null;
+}
+
+interface CalibrationSeries {
+  provider: string;
+  label: string;
+  model: string;
+  promptVersion: string;
+  runs: CalibrationRunPoint[];
+  drift: number | null;
+  drifted: boolean;
+  samples: CalibrationSampleDrift[];
+}
+
+interface CalibrationDriftReport {
+  generatedAt: string;
+  threshold: number;
+  series: CalibrationSeries[];
+}
+
+interface CalibrationRun {
+  id: number;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  status: string;
+  sampleCount: number;
+  scoredCount: number;
+  meanError: number | null;
+  inBandRate: number | null;
+  error: string | null;
+  startedAt: string;
+}
+
+interface CalibrationSample {
+  id: number;
+  name: string;
+  expectedMin: number;
+  expectedMax: number;
+  genre: string;
+  expectedTier: string;
+  tags: string[];
+}
+
+const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+function seriesName(series: CalibrationSeries) {
+  return `${series.label} · ${series.model} · ${series.promptVersion}`;
+}
+
+function formatError(value: number | null) {
+  return value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+// One row per run date, one column per series, for the drift chart
+function buildChartData(series: CalibrationSeries[]) {
+  const rows = new Map<string, Record<string, number | string>>();
+  series.forEach((s, i) => {
+    for (const run of s.runs) {
+      if (run.meanError === null) continue;
+      const date = new Date(run.startedAt).toLocaleString();
+      const row = rows.get(date) || { date, time: new Date(run.startedAt).getTime() };
+      row[`s${i}`] = Math.round(run.meanError * 10) / 10;
+      rows.set(date, row);
+    }
+  });
+  return Array.from(rows.values()).sort((a, b) => (a.time as number) - (b.time as number));
+}
+
+export default function CalibrationPage() {
+  const { toast } = useToast();
+
+  const { data: runsData } = useQuery<{ runs: CalibrationRun[] }>({
+    queryKey: ['/api/calibration/runs'],
+    refetchInterval: (query) => query.state.data?.runs.some(run => run.status === 'running') ? 5000 : false,
+  });
+  const running = runsData?.runs.some(run => run.status === 'running') ?? false;
+  // Poll the report while runs are in progress so finished runs show up
+  const { data: drift, isLoading: driftLoading, error: driftError } = useQuery<CalibrationDriftReport>({
+    queryKey: ['/api/calibration/drift'],
+    refetchInterval: running ? 5000 : false,
+  });
+  const { data: samplesData } = useQuery<{ samples: CalibrationSample[] }>({
+    queryKey: ['/api/calibration/samples'],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calibration/runs', {});
+      return await response.json();
+    },
+    onSuccess: (data: { runs: CalibrationRun[] }) => {
+      toast({ title: 'Calibration started', description: `${data.runs.length} run(s) queued` });
+      queryClient.invalidateQueries({ queryKey: ['/api/calibration/runs'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Could not start calibration', variant: 'destructive' });
+    },
+  });
+
+  const runs = runsData?.runs || [];
+  const series = drift?.series || [];
+  const chartData = buildChartData(series);
+  const threshold = drift?.threshold ?? 5;
+
+  if (driftError) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Calibration reports are available to administrators only.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Gauge className="h-6 w-6" />
+            Calibration Benchmark
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Mean deviation from the expected score bands, per ZHI model and prompt version
+          </p>
+        </div>
+        <Button
+          onClick={() => runMutation.mutate()}
+          disabled={runMutation.isPending || running}
+          data-testid="button-run-calibration"
+        >
+          <Play className="h-4 w-4 mr-2" />
+          {runMutation.isPending ? 'Starting...' : 'Run Benchmark'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Drift Over Time</CardTitle>
+          <CardDescription>
+            0 means every sample scored inside its band. A series is flagged when its mean error moves {threshold}+ points from its first run.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {driftLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : chartData.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No completed runs yet.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={320}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                <YAxis label={{ value: 'Mean error', angle: -90, position: 'insideLeft' }} />
+                <ReferenceLine y={0} stroke="#16a34a" strokeDasharray="4 4" />
+                <Tooltip />
+                <Legend />
+                {series.map((s, i) => (
+                  <Line
+                    key={seriesName(s)}
+                    type="monotone"
+                    dataKey={`s${i}`}
+                    name={seriesName(s)}
+                    stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {series.map(s => (
+        <Card key={seriesName(s)} className={s.drifted ? 'border-red-400' : ''}>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              {seriesName(s)}
+              {s.drifted && (
+                <Badge variant="destructive" className="flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Drift {formatError(s.drift)}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {s.runs.length} run(s) · change since first run {formatError(s.drift)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1">Sample</th>
+                  <th>Expected</th>
+                  <th>First run</th>
+                  <th>Latest</th>
+                  <th>Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {s.samples.map(sample => {
+                  const outOfBand = sample.latestScore !== null &&
+                    (sample.latestScore < sample.expectedMin || sample.latestScore > sample.expectedMax);
+                  return (
+                    <tr key={sample.sampleId} className="border-t">
+                      <td className="py-1">{sample.name}</td>
+                      <td>{sample.expectedMin}-{sample.expectedMax}</td>
+                      <td>{sample.baselineScore ?? '—'}</td>
+                      <td className={outOfBand ? 'text-red-600 font-medium' : ''}>{sample.latestScore ?? '—'}</td>
+                      <td>{formatError(sample.change)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      ))}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Runs</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {runs.length === 0 && <p className="text-sm text-muted-foreground">No runs yet.</p>}
+            {runs.slice(0, 20).map(run => (
+              <div key={run.id} className="flex items-center justify-between text-sm border-b pb-1">
+                <span>
+                  {new Date(run.startedAt).toLocaleString()} · {run.model} · {run.promptVersion}
+                </span>
+                <span className="flex items-center gap-2">
+                  {run.status === 'completed' && (
+                    <span>{formatError(run.meanError)} · {Math.round((run.inBandRate || 0) * 100)}% in band</span>
+                  )}
+                  <Badge variant={run.status === 'failed' ? 'destructive' : run.status === 'running' ? 'secondary' : 'outline'}>
+                    {run.status === 'running' ? `${run.status} (${run.sampleCount})` : run.status}
+                  </Badge>
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Benchmark Corpus</CardTitle>
+            <CardDescription>{samplesData?.samples.length ?? 0} active samples</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {samplesData?.samples.map(sample => (
+              <div key={sample.id} className="flex items-center justify-between text-sm border-b pb-1">
+                <span>{sample.name}</span>
+                <span className="flex items-center gap-1">
+                  <Badge variant="outline">{sample.genre}</Badge>
+                  <Badge variant="secondary">{sample.expectedTier}</Badge>
+                  <span className="w-14 text-right">{sample.expectedMin}-{sample.expectedMax}</span>
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
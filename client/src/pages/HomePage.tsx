@@ -4,7 +4,7 @@ import DocumentInput from "@/components/DocumentInput";
 import DocumentResults from "@/components/DocumentResults";
 import ComparativeResults from "@/components/ComparativeResults";
 import AIDetectionModal from "@/components/AIDetectionModal";
-import ProviderSelector, { LLMProvider } from "@/components/ProviderSelector";
+import ProviderSelector, { LLMProvider, ProviderInfo } from "@/components/ProviderSelector";
 
 import ChatDialog from "@/components/ChatDialog";
 import SemanticDensityAnalyzer from "@/components/SemanticDensityAnalyzer";
@@ -15,6 +15,9 @@ import { FictionAssessmentPopup } from "@/components/FictionAssessmentPopup";
 import { FictionComparisonModal } from "@/components/FictionComparisonModal";
 import { TextStats } from "@/components/TextStats";
 import { CCStreamingUI } from "@/components/CCStreamingUI";
+import RubricBuilder from "@/components/RubricBuilder";
+import CoherenceTimeline from "@/components/CoherenceTimeline";
+import CoherenceDiff from "@/components/CoherenceDiff";
 
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -26,8 +29,11 @@ import { Label } from "@/components/ui/label";
 import { Brain, Trash2, FileEdit, Loader2, Zap, Clock, Sparkles, Download, Shield, ShieldCheck, RefreshCw, Upload, FileText, BookOpen, BarChart3, AlertCircle, FileCode, Search, Copy, CheckCircle, Target, ChevronUp, ChevronDown, MessageSquareWarning, Circle, ArrowRight, Settings, ScanText } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { analyzeDocument, compareDocuments, checkForAI } from "@/lib/analysis";
-import { AnalysisMode, DocumentInput as DocumentInputType, AIDetectionResult, DocumentAnalysis, DocumentComparison } from "@/lib/types";
+import { postEventStream } from "@/lib/eventStream";
+import { AnalysisMode, DocumentInput as DocumentInputType, AIDetectionResult, DocumentAnalysis, DocumentComparison, SavedRubric, RubricDimensionScore, CoherenceTimelineData } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useQuery } from "@tanstack/react-query";
 import CopyButton from "@/components/CopyButton";
 import SendToButton from "@/components/SendToButton";
 import { MathRenderer } from "@/components/MathRenderer";
@@ -66,6 +72,20 @@ const HomePage: React.FC = () => {
   // State for analysis type (quick vs comprehensive)
   const [analysisType, setAnalysisType] = useState<"quick" | "comprehensive">("quick");
 
+  // Saved rubric used instead of the built-in protocol ("rubric:<id>", or "" for built-in)
+  const { user } = useAuth();
+  const [rubricType, setRubricType] = useState<string>("");
+  const [rubricBuilderOpen, setRubricBuilderOpen] = useState(false);
+  const { data: rubricsData } = useQuery<{ rubrics: SavedRubric[] }>({
+    queryKey: ['/api/rubrics'],
+    enabled: !!user,
+  });
+  const rubrics = user ? rubricsData?.rubrics || [] : [];
+  const selectedRubric = rubrics.find(r => r.evaluationType === rubricType);
+
+  // Blend the comprehensive intelligence score with text metrics (needs a calibration fit)
+  const [hybridScoring, setHybridScoring] = useState(false);
+
   // State for document inputs
   const [documentA, setDocumentA] = useState<DocumentInputType>({ content: "" });
   const [documentB, setDocumentB] = useState<DocumentInputType>({ content: "" });
@@ -262,8 +282,9 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
   // Coherence Meter State
   const [coherenceInputText, setCoherenceInputText] = useState("");
   const [coherenceDragOver, setCoherenceDragOver] = useState(false);
-  const [coherenceType, setCoherenceType] = useState<"logical-consistency" | "logical-cohesiveness" | "scientific-explanatory" | "thematic-psychological" | "instructional" | "motivational" | "mathematical" | "philosophical" | "auto-detect">("auto-detect");
+  const [coherenceType, setCoherenceType] = useState<"logical-consistency" | "logical-cohesiveness" | "scientific-explanatory" | "thematic-psychological" | "instructional" | "motivational" | "mathematical" | "philosophical" | "legal" | "auto-detect">("auto-detect");
   const [coherenceAnalysis, setCoherenceAnalysis] = useState<string>("");
+  const [coherenceTimeline, setCoherenceTimeline] = useState<CoherenceTimelineData | null>(null);
   const [coherenceRewrite, setCoherenceRewrite] = useState<string>("");
   const [coherenceChanges, setCoherenceChanges] = useState<string>("");
   const [coherenceLoading, setCoherenceLoading] = useState(false);
@@ -859,22 +880,14 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     
     setRefineLoading(true);
     try {
-      const response = await fetch("/api/refine-output", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: validatorOutput,
-          targetWordCount: refineWordCount ? parseInt(refineWordCount) : null,
-          customInstructions: refineInstructions || null,
-        }),
+      const data = await postEventStream("/api/refine-output", {
+        text: validatorOutput,
+        targetWordCount: refineWordCount ? parseInt(refineWordCount) : null,
+        customInstructions: refineInstructions || null,
+      }, {
+        // Show the refinement as it streams in
+        onDelta: (_delta, text) => setValidatorOutput(text),
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Refinement failed");
-      }
-      
-      const data = await response.json();
       if (data.success && data.output) {
         setValidatorOutput(stripMarkdown(data.output));
         setRefineWordCount("");
@@ -882,6 +895,8 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
         toast({ title: "Reconstruction refined successfully!" });
       }
     } catch (error: any) {
+      // Put back the text a partial stream overwrote
+      setValidatorOutput(validatorOutput);
       toast({ title: "Refinement failed", description: error.message, variant: "destructive" });
     } finally {
       setRefineLoading(false);
@@ -897,22 +912,14 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     
     setRefineFinalLoading(true);
     try {
-      const response = await fetch("/api/refine-output", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: fullSuiteObjectionProofOutput,
-          targetWordCount: refineFinalWordCount ? parseInt(refineFinalWordCount) : null,
-          customInstructions: refineFinalInstructions || null,
-        }),
+      const data = await postEventStream("/api/refine-output", {
+        text: fullSuiteObjectionProofOutput,
+        targetWordCount: refineFinalWordCount ? parseInt(refineFinalWordCount) : null,
+        customInstructions: refineFinalInstructions || null,
+      }, {
+        // Show the refinement as it streams in
+        onDelta: (_delta, text) => setFullSuiteObjectionProofOutput(text),
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Refinement failed");
-      }
-      
-      const data = await response.json();
       if (data.success && data.output) {
         setFullSuiteObjectionProofOutput(stripMarkdown(data.output));
         setRefineFinalWordCount("");
@@ -920,6 +927,8 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
         toast({ title: "Final version refined successfully!" });
       }
     } catch (error: any) {
+      // Put back the text a partial stream overwrote
+      setFullSuiteObjectionProofOutput(fullSuiteObjectionProofOutput);
       toast({ title: "Refinement failed", description: error.message, variant: "destructive" });
     } finally {
       setRefineFinalLoading(false);
@@ -935,22 +944,14 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     
     setObjectionProofRefineLoading(true);
     try {
-      const response = await fetch("/api/refine-output", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: objectionProofOutput,
-          targetWordCount: objectionProofRefineWordCount ? parseInt(objectionProofRefineWordCount) : null,
-          customInstructions: objectionProofRefineInstructions || null,
-        }),
+      const data = await postEventStream("/api/refine-output", {
+        text: objectionProofOutput,
+        targetWordCount: objectionProofRefineWordCount ? parseInt(objectionProofRefineWordCount) : null,
+        customInstructions: objectionProofRefineInstructions || null,
+      }, {
+        // Show the refinement as it streams in
+        onDelta: (_delta, text) => setObjectionProofRefinedOutput(text),
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Refinement failed");
-      }
-      
-      const data = await response.json();
       if (data.success && data.output) {
         setObjectionProofRefinedOutput(stripMarkdown(data.output));
         toast({ title: "Refined version generated!" });
@@ -972,22 +973,11 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     
     setRefineReconstructionLoading(true);
     try {
-      const response = await fetch("/api/refine-output", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: reconstructionOutput,
-          targetWordCount: refineReconstructionWordCount ? parseInt(refineReconstructionWordCount) : null,
-          customInstructions: refineReconstructionInstructions || null,
-        }),
+      const data = await postEventStream("/api/refine-output", {
+        text: reconstructionOutput,
+        targetWordCount: refineReconstructionWordCount ? parseInt(refineReconstructionWordCount) : null,
+        customInstructions: refineReconstructionInstructions || null,
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Refinement failed");
-      }
-      
-      const data = await response.json();
       if (data.success && data.output) {
         // Update the batch results with the refined output
         setValidatorBatchResults(prev => prev.map(r => 
@@ -1015,22 +1005,14 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     
     setRefineCoherenceLoading(true);
     try {
-      const response = await fetch("/api/refine-output", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: coherenceRewrite,
-          targetWordCount: refineCoherenceWordCount ? parseInt(refineCoherenceWordCount) : null,
-          customInstructions: refineCoherenceInstructions || null,
-        }),
+      const data = await postEventStream("/api/refine-output", {
+        text: coherenceRewrite,
+        targetWordCount: refineCoherenceWordCount ? parseInt(refineCoherenceWordCount) : null,
+        customInstructions: refineCoherenceInstructions || null,
+      }, {
+        // Show the refinement as it streams in
+        onDelta: (_delta, text) => setCoherenceRewrite(text),
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Refinement failed");
-      }
-      
-      const data = await response.json();
       if (data.success && data.output) {
         // Update the coherence rewrite with refined output
         setCoherenceRewrite(stripMarkdown(data.output));
@@ -1039,6 +1021,8 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
         toast({ title: "Coherence output refined successfully!" });
       }
     } catch (error: any) {
+      // Put back the text a partial stream overwrote
+      setCoherenceRewrite(coherenceRewrite);
       toast({ title: "Refinement failed", description: error.message, variant: "destructive" });
     } finally {
       setRefineCoherenceLoading(false);
@@ -1406,6 +1390,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     setCoherenceLoading(true);
     setCoherenceMode("analyze");
     setCoherenceAnalysis("");
+    setCoherenceTimeline(null);
     setCoherenceScore(null);
     setCoherenceAssessment(null);
     setDetectedCoherenceType(null);
@@ -1442,6 +1427,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
         setCoherenceAnalysis(stripMarkdown(data.analysis));
         setCoherenceScore(data.score);
         setCoherenceAssessment(data.assessment);
+        setCoherenceTimeline(data.timeline ? { ...data.timeline, chunks: data.chunks || [] } : null);
         
         // Handle mathematical proof dual assessment (coherence + validity)
         if (data.isMathematical) {
@@ -1646,6 +1632,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     setCoherenceLoading(true);
     setCoherenceMode("analyze-and-rewrite");
     setCoherenceAnalysis("");
+    setCoherenceTimeline(null);
     setCoherenceScore(null);
     setCoherenceAssessment(null);
     setDetectedCoherenceType(null);
@@ -1683,6 +1670,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
       const analyzeData = await analyzeResponse.json();
       if (analyzeData.success) {
         setCoherenceAnalysis(stripMarkdown(analyzeData.analysis));
+        setCoherenceTimeline(analyzeData.timeline ? { ...analyzeData.timeline, chunks: analyzeData.chunks || [] } : null);
         setCoherenceScore(analyzeData.score);
         setCoherenceAssessment(analyzeData.assessment);
         
@@ -1880,6 +1868,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     setCoherenceLoading(true);
     setCoherenceMode("analyze-and-rewrite");
     setCoherenceAnalysis("");
+    setCoherenceTimeline(null);
     setCoherenceScore(null);
     setCoherenceAssessment(null);
     setCoherenceRewrite("");
@@ -1902,6 +1891,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
       
       if (analyzeData.success) {
         setCoherenceAnalysis(stripMarkdown(analyzeData.analysis));
+        setCoherenceTimeline(analyzeData.timeline ? { ...analyzeData.timeline, chunks: analyzeData.chunks || [] } : null);
         setCoherenceScore(analyzeData.score);
         setCoherenceAssessment(analyzeData.assessment);
       }
@@ -1947,6 +1937,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     setCoherenceLoading(true);
     setCoherenceMode("analyze-and-rewrite");
     setCoherenceAnalysis("");
+    setCoherenceTimeline(null);
     setCoherenceScore(null);
     setCoherenceAssessment(null);
     setCoherenceRewrite("");
@@ -1969,6 +1960,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
       
       if (analyzeData.success) {
         setCoherenceAnalysis(stripMarkdown(analyzeData.analysis));
+        setCoherenceTimeline(analyzeData.timeline ? { ...analyzeData.timeline, chunks: analyzeData.chunks || [] } : null);
         setCoherenceScore(analyzeData.score);
         setCoherenceAssessment(analyzeData.assessment);
       }
@@ -2013,6 +2005,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     setCoherenceMode("analyze");
     setCoherenceIsMathematical(true);
     setCoherenceAnalysis("");
+    setCoherenceTimeline(null);
     setCoherenceScore(null);
     setCoherenceAssessment(null);
 
@@ -2201,6 +2194,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     
     if (mode === "analyze") {
       setCoherenceAnalysis("");
+      setCoherenceTimeline(null);
       setCoherenceScore(null);
       setCoherenceAssessment(null);
     } else {
@@ -2329,6 +2323,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
   const handleCoherenceClear = () => {
     setCoherenceInputText("");
     setCoherenceAnalysis("");
+    setCoherenceTimeline(null);
     setCoherenceRewrite("");
     setCoherenceChanges("");
     setCoherenceMode(null);
@@ -2470,12 +2465,14 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     perplexity: boolean;
     deepseek: boolean;
     grok: boolean;
+    local: boolean;
   }>({
     openai: false,
     anthropic: false,
     perplexity: false,
     deepseek: false,
-    grok: false
+    grok: false,
+    local: false
   });
   
   // Check API status when component mounts
@@ -2491,7 +2488,8 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
             anthropic: data.api_keys.anthropic === "configured",
             perplexity: data.api_keys.perplexity === "configured",
             deepseek: data.api_keys.deepseek === "configured",
-            grok: data.api_keys.grok === "configured"
+            grok: data.api_keys.grok === "configured",
+            local: data.api_keys.local === "configured"
           });
           
           console.log("API Status:", data.api_keys);
@@ -2504,6 +2502,12 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     checkApiStatus();
   }, []);
 
+  // Whether the selected ZHI provider is configured, as reported by /api/providers
+  const { data: providersData } = useQuery<{ providers: ProviderInfo[] }>({ queryKey: ["/api/providers"] });
+  const isSelectedProviderConfigured = () =>
+    selectedProvider === "all" ||
+    !!providersData?.providers.find(p => p.alias === selectedProvider || p.id === selectedProvider)?.configured;
+
   // Handler for checking if a document is AI-generated
   const handleCheckAI = async (documentId: "A" | "B") => {
     const document = documentId === "A" ? documentA : documentB;
@@ -2548,16 +2552,8 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
       return;
     }
 
-    // Check if the selected provider is available (map ZHI names to original API names)
-    const apiKeyMapping: Record<string, string> = {
-      'zhi1': 'openai',
-      'zhi2': 'anthropic', 
-      'zhi3': 'deepseek',
-      'zhi4': 'perplexity',
-      'zhi5': 'grok'
-    };
-    const actualApiKey = apiKeyMapping[selectedProvider] || selectedProvider;
-    if (selectedProvider !== "all" && !apiStatus[actualApiKey as keyof typeof apiStatus]) {
+    // Check if the selected provider is available
+    if (!isSelectedProviderConfigured()) {
       alert(`The ${selectedProvider} API key is not configured or is invalid. Please select a different provider or ensure the API key is properly set.`);
       return;
     }
@@ -2592,6 +2588,14 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
         throw new Error(`Case assessment failed: ${response.statusText}`);
       }
 
+      const cachedAt = response.headers.get('X-Cache') === 'HIT' ? response.headers.get('X-Cached-At') : null;
+      if (cachedAt) {
+        toast({
+          title: "Loaded from cache",
+          description: `This text was assessed with the same settings on ${new Date(cachedAt).toLocaleString()}.`,
+        });
+      }
+
       // REAL-TIME STREAMING: Read response token by token
       const reader = response.body!.getReader();
       const decoder = new TextDecoder();
@@ -2684,6 +2688,20 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
         analysisType: "case_assessment", // Flag to identify this as case assessment
       });
       
+      // Quoted evidence for each score arrives after the stream; highlight it once it does
+      fetch('/api/case-assessment/evidence', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: documentA.content, provider, scores: caseAssessmentData }),
+      })
+        .then(res => res.ok ? res.json() : null)
+        .then(data => {
+          if (data?.evidence) {
+            setAnalysisA(prev => prev?.analysisType === "case_assessment" ? { ...prev, evidence: data.evidence } : prev);
+          }
+        })
+        .catch(error => console.error("Error loading case assessment evidence:", error));
+      
       // NO POPUP - Results are now in main report only
       
     } catch (error) {
@@ -2702,16 +2720,8 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
       return;
     }
 
-    // Check if the selected provider is available (map ZHI names to original API names)
-    const apiKeyMapping: Record<string, string> = {
-      'zhi1': 'openai',
-      'zhi2': 'anthropic', 
-      'zhi3': 'deepseek',
-      'zhi4': 'perplexity',
-      'zhi5': 'grok'
-    };
-    const actualApiKey = apiKeyMapping[selectedProvider] || selectedProvider;
-    if (selectedProvider !== "all" && !apiStatus[actualApiKey as keyof typeof apiStatus]) {
+    // Check if the selected provider is available
+    if (!isSelectedProviderConfigured()) {
       alert(`The ${selectedProvider} API key is not configured or is invalid. Please select a different provider or ensure the API key is properly set.`);
       return;
     }
@@ -2758,16 +2768,8 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
       return;
     }
 
-    // Check if the selected provider is available (map ZHI names to original API names)
-    const apiKeyMapping: Record<string, string> = {
-      'zhi1': 'openai',
-      'zhi2': 'anthropic', 
-      'zhi3': 'deepseek',
-      'zhi4': 'perplexity',
-      'zhi5': 'grok'
-    };
-    const actualApiKey = apiKeyMapping[selectedProvider] || selectedProvider;
-    if (selectedProvider !== "all" && !apiStatus[actualApiKey as keyof typeof apiStatus]) {
+    // Check if the selected provider is available
+    if (!isSelectedProviderConfigured()) {
       alert(`The ${selectedProvider} API key is not configured or is invalid. Please select a different provider or ensure the API key is properly set.`);
       return;
     }
@@ -3008,16 +3010,8 @@ Generated on: ${new Date().toLocaleString()}`;
       return;
     }
     
-    // Check if the selected provider is available (map ZHI names to original API names)
-    const apiKeyMapping: Record<string, string> = {
-      'zhi1': 'openai',
-      'zhi2': 'anthropic', 
-      'zhi3': 'deepseek',
-      'zhi4': 'perplexity',
-      'zhi5': 'grok'
-    };
-    const actualApiKey = apiKeyMapping[selectedProvider] || selectedProvider;
-    if (selectedProvider !== "all" && !apiStatus[actualApiKey as keyof typeof apiStatus]) {
+    // Check if the selected provider is available
+    if (!isSelectedProviderConfigured()) {
       alert(`The ${selectedProvider} API key is not configured or is invalid. Please select a different provider or ensure the API key is properly set.`);
       return;
     }
@@ -3029,7 +3023,53 @@ Generated on: ${new Date().toLocaleString()}`;
       
       try {
         const provider = selectedProvider === "all" ? "zhi1" : selectedProvider;
-        if (analysisType === "quick") {
+        if (analysisType === "quick" && selectedRubric) {
+          // Rubric evaluation - the result follows the rubric's dimensions
+          const response = await fetch('/api/cognitive-evaluate', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ content: contentA, provider: provider, evaluationType: selectedRubric.evaluationType }),
+          });
+
+          if (!response.ok) {
+            throw new Error(`Analysis failed: ${response.statusText}`);
+          }
+
+          const { evaluation } = await response.json();
+          setAnalysisA({
+            id: Date.now(),
+            formattedReport: evaluation.formattedReport,
+            overallScore: evaluation.overallScore,
+            provider: evaluation.provider,
+            analysisType: selectedRubric.evaluationType,
+            evidence: evaluation.evidence,
+            dimensions: Object.fromEntries((evaluation.dimensions as RubricDimensionScore[]).map(d => [
+              d.key,
+              { name: d.name, score: d.score, description: d.rationale }
+            ]))
+          });
+        } else if (analysisType === "comprehensive" && hybridScoring && !selectedRubric) {
+          // Hybrid score - 4-phase intelligence evaluation blended with text metrics
+          const response = await fetch('/api/cognitive-evaluate', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ content: contentA, provider: provider, evaluationType: 'intelligence', hybrid: true }),
+          });
+
+          const data = await response.json();
+          if (!response.ok || !data.success) {
+            throw new Error(data.error || `Analysis failed: ${response.statusText}`);
+          }
+
+          setAnalysisA({
+            id: Date.now(),
+            formattedReport: data.evaluation.formattedReport,
+            overallScore: data.evaluation.overallScore,
+            provider: data.evaluation.provider,
+            analysisType: 'intelligence',
+            evidence: data.evaluation.evidence
+          });
+        } else if (analysisType === "quick") {
           // Quick analysis - regular API call
           const response = await fetch('/api/cognitive-quick', {
             method: 'POST',
@@ -3054,7 +3094,7 @@ Generated on: ${new Date().toLocaleString()}`;
           const response = await fetch('/api/stream-comprehensive', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ text: contentA, provider: provider }),
+            body: JSON.stringify({ text: contentA, provider: provider, evaluationType: selectedRubric?.evaluationType }),
           });
 
           if (!response.ok) {
@@ -3118,7 +3158,8 @@ Generated on: ${new Date().toLocaleString()}`;
           body: JSON.stringify({
             documentA: contentA,
             documentB: contentB,
-            provider: provider
+            provider: provider,
+            evaluationType: selectedRubric?.evaluationType
           }),
         });
 
@@ -3263,11 +3304,47 @@ Generated on: ${new Date().toLocaleString()}`;
               </Button>
             </div>
             <p className="text-xs text-gray-500 mt-2">
-              {analysisType === "quick" 
+              {selectedRubric
+                ? `Scored against the "${selectedRubric.name}" rubric (${selectedRubric.dimensions.length} dimensions)`
+                : analysisType === "quick" 
                 ? "Fast assessment focusing on core intelligence indicators"
                 : "In-depth 4-phase evaluation protocol (takes up to 3 minutes)"
               }
             </p>
+            {analysisType === "comprehensive" && !selectedRubric && (
+              <div className="flex items-center gap-2 mt-3">
+                <Switch
+                  id="hybrid-scoring"
+                  checked={hybridScoring}
+                  onCheckedChange={setHybridScoring}
+                  data-testid="toggle-hybrid-scoring"
+                />
+                <Label htmlFor="hybrid-scoring" className="text-sm">
+                  Hybrid score (calibrated blend with text metrics)
+                </Label>
+              </div>
+            )}
+            {user && (
+              <div className="flex gap-2 items-center mt-3">
+                <Select value={rubricType || "builtin"} onValueChange={(value) => setRubricType(value === "builtin" ? "" : value)}>
+                  <SelectTrigger className="flex-1" data-testid="select-rubric">
+                    <SelectValue placeholder="Evaluation criteria" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="builtin">Built-in intelligence protocol</SelectItem>
+                    {rubrics.map(rubric => (
+                      <SelectItem key={rubric.id} value={rubric.evaluationType}>
+                        {rubric.name}{rubric.team ? ` (${rubric.team})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={() => setRubricBuilderOpen(true)}>
+                  <Settings className="h-4 w-4 mr-1" />
+                  Rubrics
+                </Button>
+              </div>
+            )}
           </div>
           
           <div className="border p-4 rounded-lg bg-white shadow-sm mt-2 md:mt-0">
@@ -3276,7 +3353,6 @@ Generated on: ${new Date().toLocaleString()}`;
               selectedProvider={selectedProvider}
               onProviderChange={setSelectedProvider}
               label="AI Provider"
-              apiStatus={apiStatus}
               className="mb-3"
             />
             
@@ -3296,6 +3372,12 @@ Generated on: ${new Date().toLocaleString()}`;
                   <span className={`h-2 w-2 rounded-full mr-1.5 ${apiStatus.perplexity ? 'bg-green-500' : 'bg-red-500'}`}></span>
                   ZHI 3: {apiStatus.perplexity ? 'Active' : 'Inactive'}
                 </div>
+                {apiStatus.local && (
+                  <div className="px-3 py-1 rounded-full text-xs font-medium flex items-center bg-green-100 text-green-800">
+                    <span className="h-2 w-2 rounded-full mr-1.5 bg-green-500"></span>
+                    ZHI 6 (local): Active
+                  </div>
+                )}
               </div>
               <p className="mt-2 text-xs text-gray-500">All API providers are active and ready to use. Each offers different analysis capabilities.</p>
             </div>
@@ -3788,6 +3870,15 @@ Generated on: ${new Date().toLocaleString()}`;
                   </div>
                 </div>
               )}
+
+              {/* Did the rewrite fix or introduce coherence problems? */}
+              <div>
+                <h3 className="font-semibold mb-2">Coherence Comparison</h3>
+                <CoherenceDiff
+                  originalText={rewriteResultData.originalText || ""}
+                  revisedText={rewriteResultData.rewrittenText || ""}
+                />
+              </div>
             </div>
           )}
           
@@ -5807,6 +5898,22 @@ Generated on: ${new Date().toLocaleString()}`;
                 </div>
               </label>
 
+              <label className="flex items-center gap-3 cursor-pointer hover:bg-indigo-50 dark:hover:bg-indigo-900/20 p-3 rounded transition">
+                <input
+                  type="radio"
+                  name="coherence-type"
+                  value="legal"
+                  checked={coherenceType === "legal"}
+                  onChange={(e) => setCoherenceType(e.target.value as any)}
+                  className="w-4 h-4 text-indigo-600"
+                  data-testid="radio-legal"
+                />
+                <div className="flex-1">
+                  <span className="font-medium text-gray-900 dark:text-gray-100">Legal / Contractual</span>
+                  <span className="text-sm text-gray-600 dark:text-gray-400 ml-2">- Defined terms, cross-references and consistent obligations</span>
+                </div>
+              </label>
+
               <label className="flex items-center gap-3 cursor-pointer hover:bg-indigo-50 dark:hover:bg-indigo-900/20 p-3 rounded transition">
                 <input
                   type="radio"
@@ -6636,6 +6743,16 @@ Generated on: ${new Date().toLocaleString()}`;
                   <TextStats text={coherenceAnalysis} showAiDetect={true} variant="compact" />
                 </div>
               )}
+
+              {/* Global Coherence State timeline (long texts analyzed chunk by chunk) */}
+              {coherenceTimeline && coherenceTimeline.items.length > 0 && (
+                <div className="mt-6 bg-white dark:bg-gray-800 p-6 rounded-lg border border-indigo-200 dark:border-indigo-700">
+                  <h4 className="text-lg font-bold text-indigo-900 dark:text-indigo-100 mb-4">
+                    Coherence Timeline ({coherenceTimeline.chunkCount} chunks)
+                  </h4>
+                  <CoherenceTimeline timeline={coherenceTimeline} />
+                </div>
+              )}
               
               {/* Scientific Inaccuracies Section */}
               {coherenceIsScientific && coherenceScientificScore && coherenceScientificScore.inaccuracies.length > 0 && (
@@ -6885,6 +7002,13 @@ Generated on: ${new Date().toLocaleString()}`;
               </div>
               <TextStats text={coherenceRewrite} showAiDetect={true} variant="compact" />
 
+              {/* Version-to-version coherence diff against the input text */}
+              <CoherenceDiff
+                originalText={coherenceInputText}
+                revisedText={coherenceRewrite}
+                coherenceType={detectedCoherenceType || coherenceType}
+              />
+
               {/* Refine Coherence Rewrite Section */}
               <div className="mt-4 p-4 bg-indigo-100 dark:bg-indigo-800/30 rounded-lg border border-indigo-300 dark:border-indigo-600">
                 <h4 className="text-sm font-semibold text-indigo-800 dark:text-indigo-200 mb-3 flex items-center gap-2">
@@ -7832,6 +7956,8 @@ Generated on: ${new Date().toLocaleString()}`;
         isOpen={fictionPopupOpen}
         onClose={() => setFictionPopupOpen(false)}
       />
+
+      <RubricBuilder open={rubricBuilderOpen} onOpenChange={setRubricBuilderOpen} />
     </div>
   );
 };
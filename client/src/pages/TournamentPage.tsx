@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ProviderSelector, { LLMProvider } from '@/components/ProviderSelector';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { postEventStream } from '@/lib/eventStream';
+import { SavedRubric } from '@/lib/types';
+import { Trophy, Plus, Trash2 } from 'lucide-react';
+
+interface TournamentStanding {
+  rank: number;
+  index: number;
+  label: string;
+  rating: number;
+  ciLow: number;
+  ciHigh: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  comparisons: number;
+}
+
+interface MatrixCell {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+interface TournamentResult {
+  criterion: string;
+  provider: string;
+  documents: Array<{ index: number; label: string }>;
+  ranking: TournamentStanding[];
+  matrix: Array<Array<MatrixCell | null>>;
+  comparisons: Array<{ round: number; a: number; b: number; winner: number | null; margin: string; rationale: string }>;
+  failedComparisons: number;
+}
+
+const CRITERIA = [
+  { value: 'intelligence', label: 'Intelligence' },
+  { value: 'originality', label: 'Originality' },
+  { value: 'cogency', label: 'Cogency' },
+  { value: 'overall_quality', label: 'Overall quality' },
+];
+
+function emptyEntry(n: number) {
+  return { title: `Submission ${n}`, content: '' };
+}
+
+// Rating with its 95% interval drawn on a shared axis
+function RatingBar({ standing, min, max }: { standing: TournamentStanding; min: number; max: number }) {
+  const position = (value: number) => `${((value - min) / (max - min || 1)) * 100}%`;
+  return (
+    <div className="relative h-3 w-full bg-muted rounded">
+      <div
+        className="absolute h-3 bg-blue-200 rounded"
+        style={{ left: position(standing.ciLow), width: `calc(${position(standing.ciHigh)} - ${position(standing.ciLow)})` }}
+      />
+      <div className="absolute h-3 w-1 bg-blue-700" style={{ left: position(standing.rating) }} />
+    </div>
+  );
+}
+
+export default function TournamentPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [entries, setEntries] = useState([emptyEntry(1), emptyEntry(2), emptyEntry(3)]);
+  const [criterion, setCriterion] = useState('intelligence');
+  const [provider, setProvider] = useState<LLMProvider>('zhi1');
+  const [maxComparisons, setMaxComparisons] = useState('');
+  const [running, setRunning] = useState(false);
+  const [stage, setStage] = useState('');
+  const [result, setResult] = useState<TournamentResult | null>(null);
+
+  const { data: rubricsData } = useQuery<{ rubrics: SavedRubric[] }>({
+    queryKey: ['/api/rubrics'],
+    enabled: !!user,
+  });
+  const rubrics = rubricsData?.rubrics || [];
+
+  const updateEntry = (i: number, field: 'title' | 'content', value: string) => {
+    setEntries(entries.map((entry, j) => (j === i ? { ...entry, [field]: value } : entry)));
+  };
+
+  const run = async () => {
+    setRunning(true);
+    setResult(null);
+    setStage('Starting tournament...');
+    try {
+      const response = await postEventStream<{ result: TournamentResult }>('/api/tournament-rank', {
+        documents: entries,
+        provider: provider === 'all' ? 'zhi1' : provider,
+        evaluationType: criterion,
+        ...(maxComparisons ? { maxComparisons: parseInt(maxComparisons) } : {}),
+      }, { onProgress: setStage });
+      setResult(response.result);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Tournament failed', variant: 'destructive' });
+    } finally {
+      setRunning(false);
+      setStage('');
+    }
+  };
+
+  const ready = !!user && entries.length >= 3 && entries.every(entry => entry.content.trim());
+  const min = result ? Math.min(...result.ranking.map(s => s.ciLow)) : 0;
+  const max = result ? Math.max(...result.ranking.map(s => s.ciHigh)) : 0;
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Trophy className="h-6 w-6" />
+          Tournament Ranking
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Rank submissions by head-to-head comparison instead of absolute scores
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Submissions</CardTitle>
+          <CardDescription>Between 3 and 32 documents. Each pair is judged directly; ratings come from a Bradley-Terry fit.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {entries.map((entry, i) => (
+            <div key={i} className="border rounded p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input value={entry.title} onChange={e => updateEntry(i, 'title', e.target.value)} data-testid={`input-tournament-title-${i}`} />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEntries(entries.filter((_, j) => j !== i))}
+                  disabled={entries.length <= 3}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Textarea
+                rows={5}
+                placeholder="Paste the submission text"
+                value={entry.content}
+                onChange={e => updateEntry(i, 'content', e.target.value)}
+                data-testid={`textarea-tournament-${i}`}
+              />
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            onClick={() => setEntries([...entries, emptyEntry(entries.length + 1)])}
+            disabled={entries.length >= 32}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add submission
+          </Button>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label>Criterion</Label>
+              <Select value={criterion} onValueChange={setCriterion}>
+                <SelectTrigger data-testid="select-tournament-criterion">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CRITERIA.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}
+                  {rubrics.map(r => <SelectItem key={r.id} value={r.evaluationType}>Rubric: {r.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tournament-budget">Max comparisons</Label>
+              <Input
+                id="tournament-budget"
+                type="number"
+                min={1}
+                max={200}
+                placeholder={`Default ${Math.min(entries.length * (entries.length - 1), 3 * entries.length)}`}
+                value={maxComparisons}
+                onChange={e => setMaxComparisons(e.target.value)}
+              />
+            </div>
+            <ProviderSelector selectedProvider={provider} onProviderChange={setProvider} />
+          </div>
+
+          <Button onClick={run} disabled={!ready || running} data-testid="button-run-tournament">
+            <Trophy className="h-4 w-4 mr-2" />
+            {running ? 'Running...' : 'Run Tournament'}
+          </Button>
+          {!user && <p className="text-sm text-muted-foreground">Sign in to run a tournament.</p>}
+          {stage && <p className="text-sm text-muted-foreground">{stage}</p>}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Ranking</CardTitle>
+              <CardDescription>
+                {result.comparisons.length} comparisons with {result.provider}
+                {result.failedComparisons > 0 && ` · ${result.failedComparisons} failed`}
+                {' '}· bars show the 95% confidence interval
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-1">#</th>
+                    <th>Submission</th>
+                    <th>Rating</th>
+                    <th className="w-1/3">Interval</th>
+                    <th>W-L-T</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.ranking.map(standing => (
+                    <tr key={standing.index} className="border-t">
+                      <td className="py-1">{standing.rank}</td>
+                      <td>{standing.label}</td>
+                      <td title={`${standing.ciLow}–${standing.ciHigh}`}>{standing.rating}</td>
+                      <td><RatingBar standing={standing} min={min} max={max} /></td>
+                      <td>{standing.wins}-{standing.losses}-{standing.ties}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Comparison Matrix</CardTitle>
+              <CardDescription>Record of the row submission against the column submission (W-L-T)</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="text-sm">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th></th>
+                    {result.documents.map(d => <th key={d.index} className="px-2">{d.index + 1}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.matrix.map((row, i) => (
+                    <tr key={i} className="border-t">
+                      <td className="pr-2 py-1">{i + 1}. {result.documents[i].label}</td>
+                      {row.map((cell, j) => (
+                        <td key={j} className="px-2 text-center">
+                          {cell === null ? '—' : cell.wins + cell.losses + cell.ties === 0 ? '' : `${cell.wins}-${cell.losses}-${cell.ties}`}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
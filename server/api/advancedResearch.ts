@@ -1,6 +1,5 @@
 import { searchGoogle, fetchUrlContent } from './googleSearch';
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
+import { callProviderChat, isProviderConfigured, type ChatMessage } from '../services/providerRegistry';
 
 interface ResearchInstruction {
   query: string;          // The research instructions from the user
@@ -24,25 +23,18 @@ interface ResearchResults {
  */
 async function extractSearchTerms(instructions: string): Promise<string[]> {
   try {
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a research assistant helping to extract search terms from complex research instructions. Given the instructions, identify 2-3 concise, specific search queries that would yield the most relevant results from Google. Return only the search terms as a JSON array of strings."
-        },
-        {
-          role: "user",
-          content: instructions
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.2
-    });
+    const response = await callProviderChat('openai', [
+      {
+        role: "system",
+        content: "You are a research assistant helping to extract search terms from complex research instructions. Given the instructions, identify 2-3 concise, specific search queries that would yield the most relevant results from Google. Return only the search terms as a JSON array of strings."
+      },
+      {
+        role: "user",
+        content: instructions
+      }
+    ], { temperature: 0.2, jsonMode: true });
     
-    const result = JSON.parse(response.choices[0].message.content);
+    const result = JSON.parse(response);
     return result.search_terms || [];
   } catch (error) {
     console.error("Error extracting search terms:", error);
@@ -98,55 +90,22 @@ export async function conductAdvancedResearch(instructions: string): Promise<Res
     perplexity?: string;
   } = {};
   
-  // Get OpenAI insights if available
-  if (process.env.OPENAI_API_KEY) {
-    try {
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are a research assistant providing insights on the following research topic. Provide a concise, substantive response that directly addresses the research question."
-          },
-          {
-            role: "user",
-            content: instructions
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 500
-      });
-      
-      llmInsights.openai = response.choices[0].message.content;
-    } catch (error) {
-      console.error("Error getting OpenAI insights:", error);
-    }
-  }
-  
-  // Get Anthropic insights if available
-  if (process.env.ANTHROPIC_API_KEY) {
+  // Get insights from each configured provider
+  const insightPrompts = {
+    openai: [
+      { role: "system", content: "You are a research assistant providing insights on the following research topic. Provide a concise, substantive response that directly addresses the research question." },
+      { role: "user", content: instructions }
+    ],
+    anthropic: [
+      { role: "user", content: `I'd like your insights on the following research topic. Please provide a direct, substantive response: ${instructions}` }
+    ]
+  };
+  for (const [provider, messages] of Object.entries(insightPrompts) as Array<[keyof typeof insightPrompts, ChatMessage[]]>) {
+    if (!isProviderConfigured(provider)) continue;
     try {
-      // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-      const anthropic = new Anthropic({
-        apiKey: process.env.ANTHROPIC_API_KEY,
-      });
-      
-      const response = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219",
-        max_tokens: 500,
-        messages: [
-          { 
-            role: "user", 
-            content: `I'd like your insights on the following research topic. Please provide a direct, substantive response: ${instructions}` 
-          }
-        ],
-      });
-      
-      llmInsights.anthropic = response.content[0].text;
+      llmInsights[provider] = await callProviderChat(provider, messages, { temperature: 0.3, maxTokens: 500 });
     } catch (error) {
-      console.error("Error getting Anthropic insights:", error);
+      console.error(`Error getting ${provider} insights:`, error);
     }
   }
   
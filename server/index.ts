@@ -5,6 +5,8 @@ import { setupVite, serveStatic, log } from "./vite";
 import { registerRoutes } from "./routes";
 import { validateEnvironmentOrExit } from "./utils/envValidation";
 import { setupWebSocketServer, cleanupOldJobs } from "./services/ccStreamingService";
+import { startCalibrationSchedule } from "./services/calibration";
+import { resumeBatchJobs } from "./services/batchEvaluation";
 
 const app = express();
 app.use(express.json({ limit: '50mb' }));
@@ -96,6 +98,9 @@ app.use((req, res, next) => {
     cleanupOldJobs().catch(err => console.error('[CC-WS] Cleanup failed:', err));
   }, 60 * 60 * 1000);
 
+  startCalibrationSchedule();
+  resumeBatchJobs();
+
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
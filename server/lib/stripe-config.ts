@@ -54,3 +54,13 @@ export function hasUnlimitedCredits(username: string | undefined): boolean {
 export function calculateWordCount(text: string): number {
   return text.trim().split(/\s+/).filter(word => word.length > 0).length;
 }
+
+// Convert metered token usage into word credits (~0.75 words per token)
+export function calculateTokenCredits(totalTokens: number): number {
+  return Math.ceil(totalTokens * 0.75);
+}
+
+// Providers that have a purchasable credit pool
+export function hasCreditPool(provider: string): provider is Provider {
+  return provider in CREDIT_PACKAGES;
+}
@@ -4,12 +4,40 @@ import multer from "multer";
 import { storage } from "./storage";
 import path from "path";
 import { registerPaymentRoutes } from "./routes/payments";
-import OpenAI from "openai";
+import { registerUsageRoutes } from "./routes/usage";
+import { registerPromptRoutes } from "./routes/prompts";
+import { registerCalibrationRoutes } from "./routes/calibration";
+import { registerRubricRoutes } from "./routes/rubrics";
+import { registerBatchRoutes } from "./routes/batch";
+import { registerProfileRoutes } from "./routes/profile";
 // GPT Bypass Humanizer imports
 import { fileProcessorService } from "./services/fileProcessor";
 import { textChunkerService } from "./services/textChunker";
 import { gptZeroService } from "./services/gptZero";
 import { aiProviderService } from "./services/aiProviders";
+import { resolveProvider, tryResolveProvider, listProviders, callProviderChat, streamProviderChat, isProviderConfigured, type ProviderId } from "./services/providerRegistry";
+import { isMockMode } from "./services/mockProvider";
+import { createAnthropicClient, createOpenAIClient } from "./services/llmClients";
+import { withResponseCache, getCachedResponse, setCachedResponse, isCacheBypassed } from "./services/responseCache";
+import { usageContextMiddleware } from "./services/usageMeter";
+import { getAllProviderHealth } from "./services/providerHealth";
+import { getAllRateLimitStates } from "./services/rateScheduler";
+import { StructuredOutputError } from "./services/structuredOutput";
+import { getPrompt, getPromptJson } from "./services/promptRegistry";
+import { parseEnsembleRequest, runEnsemble, representativeMember, viewEnsemble, EnsembleRequestError } from "./services/ensembleScoring";
+import {
+  resolveRubric,
+  executeRubricProtocol,
+  collectRubricEvidence,
+  compareWithRubric,
+  rubricCacheMode,
+  streamRubricProtocol,
+  RubricAccessError
+} from "./services/rubricEvaluation";
+import { runTournament, TournamentRequestError, TOURNAMENT_CRITERIA, MAX_TOURNAMENT_DOCUMENTS, MAX_TOURNAMENT_COMPARISONS } from "./services/tournamentRanking";
+import { recordUserAnalysis, EVALUATION_TYPE_LABELS } from "./services/authorProfile";
+import { logUserActivity } from "./services/userAnalytics";
+import { computeHybridScore, requireHybridModel, formatHybridBreakdown, HybridScoringError } from "./services/hybridScoring";
 import { type RewriteRequest, type RewriteResponse } from "@shared/schema";
 import { extractTextFromFile } from "./api/documentParser";
 import { sendSimpleEmail } from "./api/simpleEmailService";
@@ -58,16 +86,45 @@ interface AIDetectionResult {
   probability: number;
 }
 
-// Map ZHI names to actual provider names
-function mapZhiToProvider(zhiName: string): string {
-  const mapping: Record<string, string> = {
-    'zhi1': 'openai',
-    'zhi2': 'anthropic', 
-    'zhi3': 'deepseek',
-    'zhi4': 'perplexity',
-    'zhi5': 'grok'
+// SSE is opt-in: { stream: true } in the body or an Accept: text/event-stream header
+function wantsEventStream(req: Request): boolean {
+  return req.body?.stream === true || (req.get('Accept') || '').includes('text/event-stream');
+}
+
+// Switch a response to server-sent events and return an event writer
+function openEventStream(res: Response): (event: string, data: any) => void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  return (event: string, data: any) => {
+    res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+    (res as any).flush?.();
+  };
+}
+
+// Aborted when the client disconnects before the response is finished, so upstream work stops.
+// Listens on the response: the request's own "close" fires as soon as its body has been read.
+function abortOnDisconnect(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+}
+
+// Evaluators that never produced a valid score report the provider failure instead of a default
+function structuredOutputErrorBody(error: StructuredOutputError) {
+  return {
+    success: false,
+    error: true,
+    message: error.message,
+    evaluator: error.evaluator,
+    issues: error.issues
   };
-  return mapping[zhiName] || zhiName;
 }
 
 // Helper function to clean markup from AI responses
@@ -93,30 +150,10 @@ function cleanMarkup(text: string): string {
 }
 
 // REAL-TIME STREAMING: Case Assessment for ALL ZHI providers
-async function streamCaseAssessment(text: string, provider: string, res: any, context?: string) {
-  let prompt = `Assess how well this text makes its case. Analyze argument effectiveness, proof quality, claim credibility and provide specific numerical scores.
-
-REQUIRED FORMAT:
-PROOF EFFECTIVENESS: [0-100]/100
-CLAIM CREDIBILITY: [0-100]/100  
-NON-TRIVIALITY: [0-100]/100
-PROOF QUALITY: [0-100]/100
-FUNCTIONAL WRITING: [0-100]/100
-OVERALL CASE SCORE: [0-100]/100
-
-Then provide detailed analysis organized into sections:
-
-**Strengths:**
-- [List key strengths]
-
-**Weaknesses:**  
-- [List key weaknesses]
-
-**Potential Counterarguments:**
-- [List potential counterarguments]
-
-**Conclusion:**
-[Final assessment]`;
+// Resolves with the full assessment only when the stream ends cleanly; provider errors and client disconnects throw
+async function streamCaseAssessment(text: string, provider: string, res: any, context?: string, signal?: AbortSignal): Promise<string> {
+  const rubric = await getPrompt('case_assessment');
+  let prompt = rubric.content;
   
   // Add context information if provided
   if (context && context.trim()) {
@@ -125,218 +162,18 @@ Then provide detailed analysis organized into sections:
   
   prompt += `\n\nTEXT TO ASSESS:\n${text}`;
 
-  if (provider === 'openai') {
-    // ZHI 1: OpenAI streaming
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [{ role: 'user', content: prompt }],
-        stream: true,
-        max_tokens: 4000,
-        temperature: 0.7,
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-          
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              res.write(content);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
-  } else if (provider === 'anthropic') {
-    // ZHI 2: Anthropic streaming
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': process.env.ANTHROPIC_API_KEY!,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-7-sonnet-20250219',
-        max_tokens: 4000,
-        stream: true,
-        messages: [{ role: 'user', content: prompt }]
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          try {
-            const parsed = JSON.parse(data);
-            if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-              res.write(parsed.delta.text);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
-  } else if (provider === 'deepseek') {
-    // ZHI 3: DeepSeek streaming
-    const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'deepseek-chat',
-        messages: [{ role: 'user', content: prompt }],
-        stream: true,
-        max_tokens: 4000,
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-          
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              res.write(content);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
-  } else if (provider === 'grok') {
-    // ZHI 4: Grok streaming
-    const response = await fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'grok-3',
-        messages: [{ role: 'user', content: prompt }],
-        stream: true,
-        max_tokens: 4000,
-        temperature: 0.7,
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-          
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              res.write(content);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
-  } else if (provider === 'perplexity') {
-    // Perplexity streaming
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-sonar-small-128k-online',
-        messages: [{ role: 'user', content: prompt }],
-        stream: true,
-        max_tokens: 4000,
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-          
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              res.write(content);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
+  // Through the registry so the stream is metered, scheduled, breaker-tracked and mockable
+  let streamed = '';
+  for await (const token of streamProviderChat(provider, [{ role: 'user', content: prompt }], { maxTokens: 4000, temperature: 0.7, signal })) {
+    streamed += token;
+    res.write(token);
+    (res as any).flush?.();
   }
+  // Part of the returned text so a cached replay still names the prompt version it was scored with
+  const trailer = `\n\n🧾 Prompt version: case_assessment v${rubric.version}\n`;
+  res.write(trailer);
   res.end();
+  return streamed + trailer;
 }
 
 // REAL-TIME STREAMING: Fiction Assessment for ALL ZHI providers
@@ -347,216 +184,9 @@ ${text}
 
 Provide detailed analysis of literary merit, character development, plot structure, and creative intelligence.`;
 
-  if (provider === 'openai') {
-    // ZHI 1: OpenAI streaming
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [{ role: 'user', content: prompt }],
-        stream: true,
-        max_tokens: 4000,
-        temperature: 0.7,
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-          
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              res.write(content);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
-  } else if (provider === 'anthropic') {
-    // ZHI 2: Anthropic streaming
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': process.env.ANTHROPIC_API_KEY!,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-7-sonnet-20250219',
-        max_tokens: 4000,
-        stream: true,
-        messages: [{ role: 'user', content: prompt }]
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          try {
-            const parsed = JSON.parse(data);
-            if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-              res.write(parsed.delta.text);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
-  } else if (provider === 'deepseek') {
-    // ZHI 3: DeepSeek streaming
-    const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'deepseek-chat',
-        messages: [{ role: 'user', content: prompt }],
-        stream: true,
-        max_tokens: 4000,
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-          
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              res.write(content);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
-  } else if (provider === 'grok') {
-    // ZHI 4: Grok streaming
-    const response = await fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'grok-3',
-        messages: [{ role: 'user', content: prompt }],
-        stream: true,
-        max_tokens: 4000,
-        temperature: 0.7,
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-          
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              res.write(content);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
-  } else if (provider === 'perplexity') {
-    // Perplexity streaming
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-sonar-small-128k-online',
-        messages: [{ role: 'user', content: prompt }],
-        stream: true,
-        max_tokens: 4000,
-      }),
-    });
-
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-          
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content || '';
-            if (content) {
-              res.write(content);
-              (res as any).flush?.();
-            }
-          } catch (e) {}
-        }
-      }
-    }
+  for await (const token of streamProviderChat(provider, [{ role: 'user', content: prompt }], { maxTokens: 4000, temperature: 0.7 })) {
+    res.write(token);
+    (res as any).flush?.();
   }
   res.end();
 }
@@ -566,30 +196,51 @@ export async function registerRoutes(app: Express): Promise<Express> {
   // Setup authentication
   setupAuth(app);
   
+  // Attribute provider token usage to the calling user and job
+  app.use("/api", usageContextMiddleware);
+  
   // Register payment routes
   registerPaymentRoutes(app);
   
+  // Register usage history routes
+  registerUsageRoutes(app);
+  
+  // Register prompt registry admin routes
+  registerPromptRoutes(app);
+  
+  // Register calibration benchmark routes
+  registerCalibrationRoutes(app);
+  registerRubricRoutes(app);
+  registerBatchRoutes(app);
+  registerProfileRoutes(app);
+  
   // API health check endpoint
   app.get("/api/check-api", async (_req: Request, res: Response) => {
-    const openai_key = process.env.OPENAI_API_KEY;
-    const anthropic_key = process.env.ANTHROPIC_API_KEY;
-    const deepseek_key = process.env.DEEPSEEK_API_KEY;
-    const perplexity_key = process.env.PERPLEXITY_API_KEY;
-    const grok_key = process.env.GROK_API_KEY;
+    const openai_key = isProviderConfigured("openai");
+    const anthropic_key = isProviderConfigured("anthropic");
+    const deepseek_key = isProviderConfigured("deepseek");
+    const perplexity_key = isProviderConfigured("perplexity");
+    const grok_key = isProviderConfigured("grok");
+    const local_key = isProviderConfigured("local");
     const mathpix_app_id = process.env.MATHPIX_APP_ID;
     const mathpix_app_key = process.env.MATHPIX_APP_KEY;
     
-    // Check API keys
+    // Check API keys (all report configured in mock mode) and provider health
     res.json({
       status: "operational",
+      mock_mode: isMockMode(),
       api_keys: {
         openai: openai_key ? "configured" : "missing",
         anthropic: anthropic_key ? "configured" : "missing",
         deepseek: deepseek_key ? "configured" : "missing",
         perplexity: perplexity_key ? "configured" : "missing",
         grok: grok_key ? "configured" : "missing",
+        local: local_key ? "configured" : "missing",
         mathpix: (mathpix_app_id && mathpix_app_key) ? "configured" : "missing"
-      }
+      },
+      // Live breaker state, error rate and latency per provider
+      health: getAllProviderHealth(["openai", "anthropic", "deepseek", "perplexity", "grok", "local"]),
+      rateLimits: getAllRateLimitStates(["openai", "anthropic", "deepseek", "perplexity", "grok", "local"])
     });
     
     // Log API status for monitoring
@@ -599,10 +250,16 @@ export async function registerRoutes(app: Express): Promise<Express> {
       deepseek: deepseek_key ? "✓" : "✗",
       perplexity: perplexity_key ? "✓" : "✗",
       grok: grok_key ? "✓" : "✗",
+      local: local_key ? "✓" : "✗",
       mathpix: (mathpix_app_id && mathpix_app_key) ? "✓" : "✗"
     });
   });
 
+  // Provider registry - ZHI aliases, models and configured status for the UI
+  app.get("/api/providers", async (_req: Request, res: Response) => {
+    res.json({ providers: listProviders() });
+  });
+
   // Quick analysis API endpoint with evaluation type support
   app.post("/api/quick-analysis", async (req: Request, res: Response) => {
     try {
@@ -614,23 +271,64 @@ export async function registerRoutes(app: Express): Promise<Express> {
         });
       }
 
-      // Validate evaluation type
+      // Validate evaluation type (built-in, or "rubric:<id>" for a saved rubric)
       const validTypes = ['intelligence', 'originality', 'cogency', 'overall_quality'];
-      if (!validTypes.includes(evaluationType)) {
+      const rubric = await resolveRubric(evaluationType, req.user);
+      if (!rubric && !validTypes.includes(evaluationType)) {
         return res.status(400).json({
-          error: `Invalid evaluation type. Must be one of: ${validTypes.join(', ')}`
+          error: `Invalid evaluation type. Must be one of: ${validTypes.join(', ')}, rubric:<id>`
         });
       }
 
       console.log(`Starting quick ${evaluationType} analysis with ${provider}...`);
       
       const { performQuickAnalysis } = await import('./services/quickAnalysis');
-      const result = await performQuickAnalysis(text, provider, evaluationType);
-      
-      res.json({ success: true, result });
+      const { value: result, cached, cachedAt } = rubric
+        ? await withResponseCache(
+            { scope: 'rubric', text, mode: `${rubricCacheMode(rubric)}+quick`, provider },
+            isCacheBypassed(req),
+            async () => {
+              const evaluation = await executeRubricProtocol(text, provider, rubric);
+              return {
+                analysis: evaluation.analysis,
+                intelligence_score: evaluation.overallScore,
+                provider: evaluation.provider,
+                evaluation_type: evaluationType,
+                key_insights: evaluation.analysis,
+                cognitive_profile: evaluation.analysis,
+                dimensions: evaluation.dimensions,
+                rubric: evaluation.rubric
+              };
+            }
+          )
+        : await withResponseCache(
+            { scope: 'quick-analysis', text, mode: evaluationType, provider },
+            isCacheBypassed(req),
+            () => performQuickAnalysis(text, provider, evaluationType)
+          );
+
+      // A cache hit was recorded when it was first computed; recording it again would skew the profile
+      if (!cached) {
+        recordUserAnalysis(req.user?.id, {
+          text,
+          evaluationType,
+          provider: result.provider || provider,
+          overallScore: result.intelligence_score,
+          scores: 'dimensions' in result
+            ? Object.fromEntries(result.dimensions.map(d => [d.name, d.score]))
+            : { [EVALUATION_TYPE_LABELS[evaluationType]]: result.intelligence_score }
+        });
+      }
+      res.json({ success: true, result, cached, cachedAt });
       
     } catch (error: any) {
       console.error("Quick analysis error:", error);
+      if (error instanceof RubricAccessError) {
+        return res.status(error.status).json({ error: true, message: error.message });
+      }
+      if (error instanceof StructuredOutputError) {
+        return res.status(502).json(structuredOutputErrorBody(error));
+      }
       res.status(500).json({ 
         error: true, 
         message: error.message || "Quick analysis failed" 
@@ -649,23 +347,30 @@ export async function registerRoutes(app: Express): Promise<Express> {
         });
       }
 
-      // Validate evaluation type
+      // Validate evaluation type (built-in, or "rubric:<id>" for a saved rubric)
       const validTypes = ['intelligence', 'originality', 'cogency', 'overall_quality'];
-      if (!validTypes.includes(evaluationType)) {
+      const rubric = await resolveRubric(evaluationType, req.user);
+      if (!rubric && !validTypes.includes(evaluationType)) {
         return res.status(400).json({
-          error: `Invalid evaluation type. Must be one of: ${validTypes.join(', ')}`
+          error: `Invalid evaluation type. Must be one of: ${validTypes.join(', ')}, rubric:<id>`
         });
       }
 
       console.log(`Starting quick ${evaluationType} comparison with ${provider}...`);
       
       const { performQuickComparison } = await import('./services/quickAnalysis');
-      const result = await performQuickComparison(documentA, documentB, provider, evaluationType);
-      
+      const result = rubric
+        ? await compareWithRubric(documentA, documentB, provider, rubric)
+        : await performQuickComparison(documentA, documentB, provider, evaluationType);
+
+      logUserActivity(req.user?.id, 'compare', { evaluationType, provider });
       res.json(result);
       
     } catch (error: any) {
       console.error("Quick comparison error:", error);
+      if (error instanceof RubricAccessError) {
+        return res.status(error.status).json({ error: true, message: error.message });
+      }
       res.status(500).json({ 
         error: true, 
         message: error.message || "Quick comparison failed" 
@@ -690,13 +395,38 @@ export async function registerRoutes(app: Express): Promise<Express> {
       console.log(`External knowledge: ${useExternalKnowledge ? 'ENABLED' : 'DISABLED'}`);
       
       const { performIntelligentRewrite } = await import('./services/intelligentRewrite');
+
+      if (wantsEventStream(req)) {
+        const sendEvent = openEventStream(res);
+        const signal = abortOnDisconnect(res);
+        try {
+          const result = await performIntelligentRewrite({
+            text: originalText,
+            customInstructions,
+            provider,
+            useExternalKnowledge,
+            onProgress: (stage) => sendEvent('progress', { stage }),
+            onDelta: (delta) => sendEvent('delta', { text: delta }),
+            signal
+          });
+          logUserActivity(req.user?.id, 'rewrite', { provider, mode: 'intelligent' });
+          sendEvent('complete', { success: true, result });
+        } catch (error: any) {
+          if (signal.aborted) return res.end();
+          console.error("Streaming intelligent rewrite error:", error);
+          sendEvent('error', { message: error.message || "Intelligent rewrite failed" });
+        }
+        return res.end();
+      }
+
       const result = await performIntelligentRewrite({
         text: originalText,
         customInstructions,
         provider,
         useExternalKnowledge
       });
-      
+
+      logUserActivity(req.user?.id, 'rewrite', { provider, mode: 'intelligent' });
       res.json({
         success: true,
         result: result
@@ -722,30 +452,203 @@ export async function registerRoutes(app: Express): Promise<Express> {
         });
       }
 
-      // Validate evaluation type
+      // Validate evaluation type (built-in, or "rubric:<id>" for a saved rubric)
       const validTypes = ['intelligence', 'originality', 'cogency', 'overall_quality'];
-      if (!validTypes.includes(evaluationType)) {
+      const rubric = await resolveRubric(evaluationType, req.user);
+      if (!rubric && !validTypes.includes(evaluationType)) {
+        return res.status(400).json({
+          error: `Invalid evaluation type. Must be one of: ${validTypes.join(', ')}, rubric:<id>`
+        });
+      }
+
+      // Hybrid scoring is fitted on the intelligence calibration corpus, one provider at a time
+      const hybrid = req.body.hybrid === true;
+      if (hybrid && (evaluationType !== 'intelligence' || req.body.ensemble)) {
         return res.status(400).json({
-          error: `Invalid evaluation type. Must be one of: ${validTypes.join(', ')}`
+          success: false,
+          error: "Hybrid scoring is only available for single-provider intelligence evaluations"
+        });
+      }
+      // Fail before the paid evaluation rather than after it
+      if (hybrid) {
+        await requireHybridModel(provider);
+      }
+
+      if (rubric) {
+        // Rubric results follow the rubric's dimensions rather than the built-in protocol
+        const cacheMode = rubricCacheMode(rubric);
+        // Evidence is cached with the evaluation it supports, so single and ensemble runs share entries
+        const evaluateRubric = async (evaluationProvider: ProviderId) => {
+          const result = await executeRubricProtocol(content, evaluationProvider, rubric);
+          return { ...result, evidence: await collectRubricEvidence(content, evaluationProvider, result) };
+        };
+        const ensembleRequest = parseEnsembleRequest(req.body.ensemble, provider);
+        if (ensembleRequest) {
+          const ensemble = await runEnsemble(
+            ensembleRequest,
+            async (memberProvider, sample) => (await withResponseCache(
+              { scope: 'rubric', text: content, mode: cacheMode, provider: memberProvider },
+              isCacheBypassed(req) || sample > 1,
+              () => evaluateRubric(memberProvider)
+            )).value,
+            result => result.overallScore
+          );
+          const representative = representativeMember(ensemble);
+          const result = representative.result!;
+          recordUserAnalysis(req.user?.id, {
+            text: content,
+            evaluationType,
+            provider: 'ensemble',
+            overallScore: Math.round(ensemble.median as number),
+            scores: Object.fromEntries(result.dimensions.map(d => [d.name, d.score]))
+          });
+
+          return res.json({
+            success: true,
+            cached: false,
+            cachedAt: null,
+            evaluation: {
+              formattedReport: result.formattedReport,
+              overallScore: Math.round(ensemble.median as number),
+              dimensions: result.dimensions,
+              rubric: result.rubric,
+              evidence: result.evidence,
+              provider: 'ensemble',
+              metadata: {
+                contentLength: content.length,
+                evaluationType: evaluationType,
+                timestamp: new Date().toISOString()
+              }
+            },
+            ensemble: viewEnsemble(ensemble, result => result.formattedReport)
+          });
+        }
+
+        console.log(`RUBRIC EVALUATION "${rubric.name}": Analyzing ${content.length} characters with ${provider}`);
+        const { value: evaluation, cached, cachedAt } = await withResponseCache(
+          { scope: 'rubric', text: content, mode: cacheMode, provider },
+          isCacheBypassed(req),
+          () => evaluateRubric(provider)
+        );
+
+        // Only fresh evaluations feed the author profile
+        if (!cached) {
+          recordUserAnalysis(req.user?.id, {
+            text: content,
+            evaluationType,
+            provider: evaluation.provider,
+            overallScore: evaluation.overallScore,
+            scores: Object.fromEntries(evaluation.dimensions.map(d => [d.name, d.score]))
+          });
+        }
+        return res.json({
+          success: true,
+          cached,
+          cachedAt,
+          evaluation: {
+            formattedReport: evaluation.formattedReport,
+            overallScore: evaluation.overallScore,
+            dimensions: evaluation.dimensions,
+            rubric: evaluation.rubric,
+            evidence: evaluation.evidence,
+            provider: evaluation.provider,
+            metadata: {
+              contentLength: content.length,
+              evaluationType: evaluationType,
+              timestamp: new Date().toISOString()
+            }
+          }
         });
       }
 
       // Import the exact 4-phase protocol
-      const { executeFourPhaseProtocol } = await import('./services/fourPhaseProtocol');
+      const { executeFourPhaseProtocol, collectProtocolEvidence } = await import('./services/fourPhaseProtocol');
+
+      // Evidence is cached with the evaluation it supports, so single and ensemble runs share entries
+      const evaluateProtocol = async (evaluationProvider: ProviderId) => {
+        const result = await executeFourPhaseProtocol(
+          content,
+          evaluationProvider,
+          evaluationType as 'intelligence' | 'originality' | 'cogency' | 'overall_quality'
+        );
+        return { ...result, evidence: await collectProtocolEvidence(content, evaluationProvider, evaluationType, result.overallScore) };
+      };
+
+      // Ensemble mode: several providers (or samples) scored and compared
+      const ensembleRequest = parseEnsembleRequest(req.body.ensemble, provider);
+      if (ensembleRequest) {
+        const ensemble = await runEnsemble(
+          ensembleRequest,
+          // Repeat samples skip the cache so they are independent evaluations
+          async (memberProvider, sample) => (await withResponseCache(
+            { scope: 'four-phase', text: content, mode: evaluationType, provider: memberProvider },
+            isCacheBypassed(req) || sample > 1,
+            () => evaluateProtocol(memberProvider)
+          )).value,
+          result => result.overallScore
+        );
+        const representative = representativeMember(ensemble);
+        const overallScore = Math.round(ensemble.median as number);
+        recordUserAnalysis(req.user?.id, {
+          text: content,
+          evaluationType,
+          provider: 'ensemble',
+          overallScore,
+          scores: { [EVALUATION_TYPE_LABELS[evaluationType]]: overallScore }
+        });
+
+        return res.json({
+          success: true,
+          cached: false,
+          cachedAt: null,
+          evaluation: {
+            formattedReport: representative.result.formattedReport,
+            overallScore,
+            evidence: representative.result.evidence,
+            provider: 'ensemble',
+            metadata: {
+              contentLength: content.length,
+              evaluationType: evaluationType,
+              timestamp: new Date().toISOString()
+            }
+          },
+          ensemble: viewEnsemble(ensemble, result => result.formattedReport)
+        });
+      }
 
       console.log(`EXACT 4-PHASE ${evaluationType.toUpperCase()} EVALUATION: Analyzing ${content.length} characters with protocol`);
       
-      const evaluation = await executeFourPhaseProtocol(
-        content, 
-        provider as 'openai' | 'anthropic' | 'perplexity' | 'deepseek',
-        evaluationType as 'intelligence' | 'originality' | 'cogency' | 'overall_quality'
+      const { value: evaluation, cached, cachedAt } = await withResponseCache(
+        { scope: 'four-phase', text: content, mode: evaluationType, provider },
+        isCacheBypassed(req),
+        () => evaluateProtocol(provider)
       );
 
+      // Computed after the cache so the blend always uses the latest calibration fit
+      const hybridScore = hybrid ? await computeHybridScore(content, evaluation.overallScore, provider) : null;
+      const overallScore = hybridScore ? hybridScore.score : evaluation.overallScore;
+
+      // Only fresh evaluations feed the author profile
+      if (!cached) {
+        recordUserAnalysis(req.user?.id, {
+          text: content,
+          evaluationType,
+          provider: evaluation.provider,
+          overallScore,
+          scores: { [EVALUATION_TYPE_LABELS[evaluationType]]: overallScore }
+        });
+      }
       res.json({
         success: true,
+        cached,
+        cachedAt,
         evaluation: {
-          formattedReport: evaluation.formattedReport,
-          overallScore: evaluation.overallScore,
+          formattedReport: hybridScore
+            ? `${evaluation.formattedReport}\n\n${formatHybridBreakdown(hybridScore)}`
+            : evaluation.formattedReport,
+          overallScore,
+          ...(hybridScore ? { hybrid: hybridScore } : {}),
+          evidence: evaluation.evidence,
           provider: evaluation.provider,
           metadata: {
             contentLength: content.length,
@@ -757,6 +660,18 @@ export async function registerRoutes(app: Express): Promise<Express> {
 
     } catch (error: any) {
       console.error(`Error in ${req.body.evaluationType || 'cognitive'} evaluation:`, error);
+      if (error instanceof EnsembleRequestError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      if (error instanceof RubricAccessError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      if (error instanceof HybridScoringError) {
+        return res.status(409).json({ success: false, error: error.message });
+      }
+      if (error instanceof StructuredOutputError) {
+        return res.status(502).json(structuredOutputErrorBody(error));
+      }
       res.status(500).json({
         success: false,
         error: `${req.body.evaluationType || 'cognitive'} evaluation failed`,
@@ -822,11 +737,22 @@ export async function registerRoutes(app: Express): Promise<Express> {
   // Stream comprehensive analysis - shows results as they're generated
   app.post("/api/stream-comprehensive", async (req: Request, res: Response) => {
     try {
-      const { text, provider = "zhi1" } = req.body;
+      const { text, provider = "zhi1", evaluationType } = req.body;
       
       if (!text || typeof text !== 'string') {
         return res.status(400).json({ error: "Text content is required" });
       }
+
+      // A saved rubric ("rubric:<id>") replaces the built-in question list
+      let rubric;
+      try {
+        rubric = await resolveRubric(evaluationType, req.user);
+      } catch (error: any) {
+        if (error instanceof RubricAccessError) {
+          return res.status(error.status).json({ error: error.message });
+        }
+        throw error;
+      }
       
       // Set headers for streaming
       res.setHeader('Content-Type', 'text/plain; charset=utf-8');
@@ -837,7 +763,18 @@ export async function registerRoutes(app: Express): Promise<Express> {
       
       console.log(`Starting streaming comprehensive analysis with ${provider} for text of length: ${text.length}`);
       
-      const actualProvider = mapZhiToProvider(provider);
+      const actualProvider = resolveProvider(provider);
+      
+      if (rubric) {
+        const signal = abortOnDisconnect(res);
+        try {
+          await streamRubricProtocol(text, actualProvider, rubric, res, signal);
+        } catch (error: any) {
+          if (signal.aborted) return res.end();
+          res.write(`❌ ERROR: ${error.message}\n`);
+        }
+        return res.end();
+      }
       
       // Stream each phase as it completes
       res.write(`🔍 Starting comprehensive analysis with ${provider}...\n\n`);
@@ -885,6 +822,34 @@ export async function registerRoutes(app: Express): Promise<Express> {
         });
       }
       
+      // Ensemble mode: intelligence scores from several providers (or samples) with agreement stats
+      const ensembleRequest = parseEnsembleRequest(req.body.ensemble, provider.toLowerCase() === 'all' ? undefined : provider);
+      if (ensembleRequest) {
+        const { executeFourPhaseProtocol } = await import('./services/fourPhaseProtocol');
+        const ensemble = await runEnsemble(
+          ensembleRequest,
+          (memberProvider) => executeFourPhaseProtocol(content, memberProvider, 'intelligence'),
+          result => result.overallScore
+        );
+        const view = viewEnsemble(ensemble, result => result.formattedReport);
+
+        return res.json({
+          id: 0,
+          documentId: 0,
+          provider: "Ensemble",
+          formattedReport: `Intelligence Score: ${Math.round(ensemble.median as number)}/100 (median of ${ensemble.count}, spread ${ensemble.spread})`,
+          overallScore: Math.round(ensemble.median as number),
+          analysisResults: view.members.map(member => ({
+            provider: member.alias,
+            sample: ensemble.mode === 'samples' ? member.sample : undefined,
+            formattedReport: member.score !== null
+              ? `Intelligence Score: ${member.score}/100\n\n${member.formattedReport || ''}`
+              : `Error: ${member.error}`
+          })),
+          ensemble: view
+        });
+      }
+      
       // If the user requests a specific single provider
       if (provider.toLowerCase() !== 'all') {
         // Import the 4-PHASE analysis methods using your exact protocol
@@ -897,7 +862,7 @@ export async function registerRoutes(app: Express): Promise<Express> {
         
         try {
           // Use the unified executeFourPhaseProtocol function for intelligence evaluation
-          const actualProvider = mapZhiToProvider(provider.toLowerCase());
+          const actualProvider = resolveProvider(provider.toLowerCase());
           pureResult = await executeFourPhaseProtocol(
             content,
             actualProvider as 'openai' | 'anthropic' | 'deepseek',
@@ -968,6 +933,9 @@ export async function registerRoutes(app: Express): Promise<Express> {
       }
     } catch (error: any) {
       console.error("Error analyzing document:", error);
+      if (error instanceof EnsembleRequestError) {
+        return res.status(400).json({ error: true, message: error.message });
+      }
       return res.status(500).json({ 
         error: true, 
         message: `Error analyzing document: ${error.message}`
@@ -986,6 +954,9 @@ export async function registerRoutes(app: Express): Promise<Express> {
       if (!documentA || !documentB) {
         return res.status(400).json({ error: "Both documents are required for comparison" });
       }
+      if (!tryResolveProvider(provider)) {
+        return res.status(400).json({ error: `Unknown provider: ${provider}` });
+      }
       
       // Import the document comparison service
       const { compareDocuments } = await import('./services/documentComparison');
@@ -1018,16 +989,80 @@ export async function registerRoutes(app: Express): Promise<Express> {
       // Compare intelligence using PURE 3-phase protocol - DEEPSEEK DEFAULT
       console.log(`PURE INTELLIGENCE COMPARISON WITH EXACT 3-PHASE PROTOCOL USING ${provider.toUpperCase()}`);
       const result = await performPureIntelligenceComparison(documentA.content || documentA, documentB.content || documentB, provider);
+      logUserActivity(req.user?.id, 'compare', { evaluationType: 'intelligence', provider });
       return res.json(result);
     } catch (error: any) {
       console.error("Error in pure intelligence comparison:", error);
       return res.status(500).json({ 
         error: true, 
-        message: error.message || "Failed to perform pure intelligence comparison" 
+        message: error.message || "Failed to perform pure intelligence comparison"
       });
     }
   });
-  
+
+  // Rank N documents from adaptive pairwise comparisons (Bradley-Terry fit)
+  app.post("/api/tournament-rank", async (req: Request, res: Response) => {
+    try {
+      // Every comparison is a paid provider call, so tournaments need an account
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ error: true, message: "Authentication required" });
+      }
+
+      const { documents, provider = "zhi1", evaluationType = "intelligence", maxComparisons } = req.body;
+
+      if (!Array.isArray(documents)) {
+        return res.status(400).json({ error: true, message: "documents must be an array" });
+      }
+      if (documents.length > MAX_TOURNAMENT_DOCUMENTS) {
+        return res.status(400).json({ error: true, message: `A tournament can rank at most ${MAX_TOURNAMENT_DOCUMENTS} documents (got ${documents.length})` });
+      }
+      const entries = documents.map((document: any, i: number) => ({
+        label: (typeof document === 'object' && document?.title) || `Document ${i + 1}`,
+        content: typeof document === 'string' ? document : document?.content
+      }));
+      if (entries.some(entry => typeof entry.content !== 'string' || !entry.content.trim())) {
+        return res.status(400).json({ error: true, message: "Every document needs non-empty content" });
+      }
+      if (maxComparisons !== undefined && (!Number.isInteger(maxComparisons) || maxComparisons < 1 || maxComparisons > MAX_TOURNAMENT_COMPARISONS)) {
+        return res.status(400).json({ error: true, message: `maxComparisons must be an integer from 1 to ${MAX_TOURNAMENT_COMPARISONS}` });
+      }
+
+      const rubric = await resolveRubric(evaluationType, req.user);
+      if (!rubric && !TOURNAMENT_CRITERIA.includes(evaluationType)) {
+        return res.status(400).json({ error: true, message: `Invalid evaluation type. Must be one of: ${TOURNAMENT_CRITERIA.join(', ')} or a rubric` });
+      }
+      const options = { provider, criterion: rubric ? undefined : evaluationType, rubric, maxComparisons };
+
+      if (wantsEventStream(req)) {
+        const sendEvent = openEventStream(res);
+        const signal = abortOnDisconnect(res);
+        try {
+          const result = await runTournament(entries, { ...options, signal, onProgress: (stage) => sendEvent('progress', { stage }) });
+          logUserActivity(req.user?.id, 'rank', { evaluationType, provider, documents: entries.length, comparisons: result.comparisons.length });
+          sendEvent('complete', { success: true, result });
+        } catch (error: any) {
+          if (signal.aborted) return res.end();
+          console.error("Streaming tournament ranking error:", error);
+          sendEvent('error', { message: error.message || "Tournament ranking failed" });
+        }
+        return res.end();
+      }
+
+      const result = await runTournament(entries, options);
+      logUserActivity(req.user?.id, 'rank', { evaluationType, provider, documents: entries.length, comparisons: result.comparisons.length });
+      res.json({ success: true, result });
+    } catch (error: any) {
+      if (error instanceof TournamentRequestError) {
+        return res.status(400).json({ error: true, message: error.message });
+      }
+      if (error instanceof RubricAccessError) {
+        return res.status(error.status).json({ error: true, message: error.message });
+      }
+      console.error("Error in tournament ranking:", error);
+      res.status(500).json({ error: true, message: error.message || "Tournament ranking failed" });
+    }
+  });
+
   // Share analysis via email
   app.post("/api/share-via-email", async (req: Request, res: Response) => {
     try {
@@ -1359,13 +1394,7 @@ ${externalKnowledge}`;
       }
 
       // Map provider to actual LLM
-      const providerMap: Record<string, string> = {
-        'zhi1': 'openai',
-        'zhi2': 'anthropic',
-        'zhi3': 'deepseek',
-        'zhi4': 'grok'
-      };
-      const actualProvider = providerMap[provider] || provider;
+      const actualProvider = resolveProvider(provider);
 
       // Build messages array with conversation history
       const messages = conversationHistory.map((msg: any) => ({
@@ -1380,82 +1409,10 @@ ${externalKnowledge}`;
       });
 
       // Make LLM request with conversation history
-      let content;
-      
-      if (actualProvider === 'openai') {
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o',
-            messages: [
-              { role: 'system', content: systemMessage },
-              ...messages
-            ],
-            temperature: 0.7,
-            max_tokens: 4000
-          }),
-        });
-
-        const openaiData = await openaiResponse.json();
-        content = openaiData.choices?.[0]?.message?.content || "No response";
-        
-      } else if (actualProvider === 'anthropic') {
-        const anthropic = (await import('@anthropic-ai/sdk')).default;
-        const client = new anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-        
-        const claudeResponse = await client.messages.create({
-          model: 'claude-3-7-sonnet-20250219',
-          max_tokens: 4000,
-          system: systemMessage,
-          messages: messages
-        });
-        
-        content = claudeResponse.content[0].type === 'text' ? claudeResponse.content[0].text : "No response";
-        
-      } else if (actualProvider === 'deepseek') {
-        const deepseekResponse = await fetch('https://api.deepseek.com/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'deepseek-chat',
-            messages: [
-              { role: 'system', content: systemMessage },
-              ...messages
-            ],
-            temperature: 0.7
-          }),
-        });
-
-        const deepseekData = await deepseekResponse.json();
-        content = deepseekData.choices?.[0]?.message?.content || "No response";
-        
-      } else if (actualProvider === 'grok') {
-        const grokResponse = await fetch('https://api.x.ai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'grok-3',
-            messages: [
-              { role: 'system', content: systemMessage },
-              ...messages
-            ],
-            temperature: 0.7
-          }),
-        });
-
-        const grokData = await grokResponse.json();
-        content = grokData.choices?.[0]?.message?.content || "No response";
-      }
+      const content = await callProviderChat(actualProvider, [
+        { role: 'system', content: systemMessage },
+        ...messages
+      ], { temperature: 0.7, maxTokens: 4000 }) || "No response";
 
       return res.json({ content });
       
@@ -1495,6 +1452,7 @@ ${externalKnowledge}`;
 
   // Case assessment endpoint - REAL-TIME STREAMING
   app.post("/api/case-assessment", async (req: Request, res: Response) => {
+    let signal: AbortSignal | undefined;
     try {
       const { text, provider = "zhi1", context } = req.body;
       
@@ -1502,6 +1460,26 @@ ${externalKnowledge}`;
         return res.status(400).json({ error: "Text content is required for case assessment" });
       }
       
+      // Ensemble mode answers with JSON instead of a stream
+      const ensembleRequest = parseEnsembleRequest(req.body.ensemble, provider);
+      if (ensembleRequest) {
+        const { performCaseAssessment, collectCaseEvidence } = await import('./services/caseAssessment');
+        const ensemble = await runEnsemble(
+          ensembleRequest,
+          (memberProvider) => performCaseAssessment(text, memberProvider, context),
+          result => result.overallCaseScore
+        );
+        const representative = representativeMember(ensemble);
+        return res.json({
+          success: true,
+          result: {
+            ...representative.result,
+            evidence: await collectCaseEvidence(text, representative.provider, representative.result!)
+          },
+          ensemble: viewEnsemble(ensemble, result => result.detailedAssessment)
+        });
+      }
+      
       // Set headers for real-time streaming
       res.setHeader('Content-Type', 'text/plain; charset=utf-8');
       res.setHeader('Cache-Control', 'no-cache');
@@ -1509,18 +1487,69 @@ ${externalKnowledge}`;
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('X-Accel-Buffering', 'no');
       
+      const actualProvider = resolveProvider(provider);
+      const cacheParams = { scope: 'case-assessment' as const, text, mode: context?.trim() || '', provider: actualProvider };
+      
+      // Serve a cached assessment in one write; the client reads X-Cache to flag it
+      const hit = isCacheBypassed(req) ? null : await getCachedResponse<string>(cacheParams);
+      if (hit) {
+        res.setHeader('X-Cache', 'HIT');
+        res.setHeader('X-Cached-At', hit.cachedAt);
+        res.write(hit.value);
+        return res.end();
+      }
+      res.setHeader('X-Cache', 'MISS');
+      
       console.log(`Starting REAL-TIME case assessment streaming with ${provider} for text of length: ${text.length}`);
       
-      const actualProvider = mapZhiToProvider(provider);
-      await streamCaseAssessment(text, actualProvider, res, context);
+      // Only an assessment that streamed to the end is cached; a failed or abandoned stream is not
+      signal = abortOnDisconnect(res);
+      const streamed = await streamCaseAssessment(text, actualProvider, res, context, signal);
+      
+      if (streamed.trim()) {
+        await setCachedResponse(cacheParams, streamed);
+      }
       
     } catch (error: any) {
+      if (signal?.aborted) return res.end();
       console.error("Error in case assessment streaming:", error);
+      if (req.body.ensemble && !res.headersSent) {
+        const status = error instanceof EnsembleRequestError ? 400 : 500;
+        return res.status(status).json({ success: false, error: error.message });
+      }
       res.write(`ERROR: ${error instanceof Error ? error.message : 'Unknown error'}`);
       res.end();
     }
   });
 
+  // Evidence spans for a streamed case assessment, requested once its scores are parsed
+  app.post("/api/case-assessment/evidence", async (req: Request, res: Response) => {
+    try {
+      const { text, provider = "zhi1", scores } = req.body;
+      
+      if (!text || typeof text !== 'string') {
+        return res.status(400).json({ error: "Text content is required for case assessment evidence" });
+      }
+      
+      const { collectCaseEvidence, CASE_DIMENSIONS } = await import('./services/caseAssessment');
+      const missing = CASE_DIMENSIONS.filter(({ key }) => typeof scores?.[key] !== 'number');
+      if (missing.length > 0) {
+        return res.status(400).json({ error: `Scores are required for: ${missing.map(d => d.key).join(', ')}` });
+      }
+      
+      const actualProvider = tryResolveProvider(provider);
+      if (!actualProvider) {
+        return res.status(400).json({ error: `Unknown provider: ${provider}` });
+      }
+      
+      const evidence = await collectCaseEvidence(text, actualProvider, scores);
+      res.json({ success: true, evidence });
+    } catch (error: any) {
+      console.error("Error collecting case assessment evidence:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   // Fiction Assessment API endpoint - RETURNS JSON RESULTS
   app.post('/api/fiction-assessment', async (req, res) => {
     try {
@@ -1544,6 +1573,9 @@ ${externalKnowledge}`;
       
     } catch (error: any) {
       console.error("Error in fiction assessment streaming:", error);
+      if (error instanceof StructuredOutputError) {
+        return res.status(502).json(structuredOutputErrorBody(error));
+      }
       res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
     }
   });
@@ -1565,7 +1597,7 @@ ${externalKnowledge}`;
       console.log(`Starting comprehensive cognitive analysis with ${provider} for text of length: ${text.length}`);
       
       const { executeComprehensiveProtocol } = await import('./services/fourPhaseProtocol');
-      const actualProvider = mapZhiToProvider(provider);
+      const actualProvider = resolveProvider(provider);
       const result = await executeComprehensiveProtocol(text, actualProvider as 'openai' | 'anthropic' | 'perplexity' | 'deepseek');
       
       console.log(`COMPREHENSIVE ANALYSIS RESULT PREVIEW: "${(result.analysis || '').substring(0, 200)}..."`);
@@ -1585,6 +1617,9 @@ ${externalKnowledge}`;
       });
     } catch (error: any) {
       console.error("Error in comprehensive cognitive analysis:", error);
+      if (error instanceof StructuredOutputError) {
+        return res.status(502).json(structuredOutputErrorBody(error));
+      }
       res.status(500).json({ 
         error: true, 
         message: error.message || "Comprehensive analysis failed" 
@@ -1604,7 +1639,7 @@ ${externalKnowledge}`;
       console.log(`Starting quick cognitive analysis with ${provider} for text of length: ${text.length}`);
       
       const { performQuickAnalysis } = await import('./services/quickAnalysis');
-      const actualProvider = mapZhiToProvider(provider);
+      const actualProvider = resolveProvider(provider);
       const result = await performQuickAnalysis(text, actualProvider as 'openai' | 'anthropic' | 'perplexity' | 'deepseek');
       
       console.log(`ANALYSIS RESULT PREVIEW: "${(result.analysis || '').substring(0, 200)}..."`);
@@ -1631,6 +1666,9 @@ ${externalKnowledge}`;
       
     } catch (error: any) {
       console.error("Error in quick cognitive analysis:", error);
+      if (error instanceof StructuredOutputError) {
+        return res.status(502).json(structuredOutputErrorBody(error));
+      }
       res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -1647,6 +1685,9 @@ ${externalKnowledge}`;
       if (!documentA || !documentB || !provider) {
         return res.status(400).json({ error: "Both documents and provider are required" });
       }
+      if (!tryResolveProvider(provider)) {
+        return res.status(400).json({ error: `Unknown provider: ${provider}` });
+      }
       
       const { performFictionComparison } = await import('./services/fictionComparison');
       const result = await performFictionComparison(documentA, documentB, provider);
@@ -1678,17 +1719,27 @@ ${externalKnowledge}`;
       
       if (phase === 'quick') {
         const { performQuickAnalysis } = await import('./services/quickAnalysis');
-        const result = await performQuickAnalysis(content, provider, 'originality');
-        res.json({ success: true, result });
+        const { value: result, cached, cachedAt } = await withResponseCache(
+          { scope: 'quick-analysis', text: content, mode: 'originality', provider },
+          isCacheBypassed(req),
+          () => performQuickAnalysis(content, provider, 'originality')
+        );
+        res.json({ success: true, result, cached, cachedAt });
       } else {
         const { executeFourPhaseProtocol } = await import('./services/fourPhaseProtocol');
-        const evaluation = await executeFourPhaseProtocol(
-          content, 
-          provider as 'openai' | 'anthropic' | 'perplexity' | 'deepseek',
-          'originality'
+        const { value: evaluation, cached, cachedAt } = await withResponseCache(
+          { scope: 'four-phase', text: content, mode: 'originality', provider },
+          isCacheBypassed(req),
+          () => executeFourPhaseProtocol(
+            content, 
+            provider as 'openai' | 'anthropic' | 'perplexity' | 'deepseek',
+            'originality'
+          )
         );
         res.json({
           success: true,
+          cached,
+          cachedAt,
           evaluation: {
             formattedReport: evaluation.formattedReport,
             overallScore: evaluation.overallScore,
@@ -1703,6 +1754,9 @@ ${externalKnowledge}`;
       }
     } catch (error: any) {
       console.error("Originality evaluation error:", error);
+      if (error instanceof StructuredOutputError) {
+        return res.status(502).json(structuredOutputErrorBody(error));
+      }
       res.status(500).json({
         success: false,
         error: "Originality evaluation failed",
@@ -1751,6 +1805,9 @@ ${externalKnowledge}`;
       }
     } catch (error: any) {
       console.error("Cogency evaluation error:", error);
+      if (error instanceof StructuredOutputError) {
+        return res.status(502).json(structuredOutputErrorBody(error));
+      }
       res.status(500).json({
         success: false,
         error: "Cogency evaluation failed",
@@ -1799,6 +1856,9 @@ ${externalKnowledge}`;
       }
     } catch (error: any) {
       console.error("Overall quality evaluation error:", error);
+      if (error instanceof StructuredOutputError) {
+        return res.status(502).json(structuredOutputErrorBody(error));
+      }
       res.status(500).json({
         success: false,
         error: "Overall quality evaluation failed",
@@ -1895,69 +1955,10 @@ This shows: 1. DOCTRINES ARE LABELLED, BUT NEVER DEFINED; AND THEIR MEANINGS CAN
 PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
 `.trim();
 
-      // Stream from OpenAI with immediate flushing
-      console.log(`Calling OpenAI API with model gpt-4o...`);
-      
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [{ role: 'user', content: prompt }],
-          stream: true,
-          max_tokens: 4000,
-          temperature: 0.7,
-        }),
-      });
-
-      console.log(`OpenAI response status: ${response.status}`);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`OpenAI API Error: ${response.status} - ${errorText}`);
-        throw new Error(`OpenAI API Error: ${response.status} - ${errorText}`);
-      }
-
-      if (!response.body) {
-        throw new Error('No response body from OpenAI');
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-
-      console.log('Starting to read streaming response...');
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          console.log('Streaming completed');
-          break;
-        }
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-            
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content || '';
-              if (content) {
-                res.write(content);
-                // Force flush - remove type check
-                (res as any).flush?.();
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
+      // Stream through the registry with immediate flushing
+      for await (const token of streamProviderChat(resolveProvider(provider), [{ role: 'user', content: prompt }], { maxTokens: 4000, temperature: 0.7 })) {
+        res.write(token);
+        (res as any).flush?.();
       }
       
       res.end();
@@ -2098,7 +2099,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
 
       // Generate chunks if text is long enough
       const chunks = processedFile.wordCount > 500 
-        ? textChunkerService.chunkText(processedFile.content)
+        ? textChunkerService.chunkText(processedFile.content, req.body.provider)
         : [];
 
       // Analyze chunks if they exist
@@ -2126,7 +2127,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
   // Text analysis endpoint (for direct text input)
   app.post("/api/analyze-text", async (req, res) => {
     try {
-      const { text } = req.body;
+      const { text, provider } = req.body;
       
       if (!text || typeof text !== 'string') {
         return res.status(400).json({ message: "Text is required" });
@@ -2136,7 +2137,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
       const wordCount = text.trim().split(/\s+/).length;
       
       // Generate chunks if text is long enough
-      const chunks = wordCount > 500 ? textChunkerService.chunkText(text) : [];
+      const chunks = wordCount > 500 ? textChunkerService.chunkText(text, provider) : [];
       
       // Analyze chunks if they exist
       if (chunks.length > 0) {
@@ -2199,6 +2200,8 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
 
       // Analyze input text
       const inputAnalysis = await gptZeroService.analyzeText(rewriteRequest.inputText);
+      const presets = await getPromptJson<Record<string, string>>('rewrite_presets');
+      const promptVersions = { rewrite_presets: presets.version };
       
       // Create rewrite job
       const rewriteJob = await storage.createRewriteJob({
@@ -2212,19 +2215,60 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
         selectedChunkIds: rewriteRequest.selectedChunkIds,
         mixingMode: rewriteRequest.mixingMode,
         inputAiScore: inputAnalysis.aiScore,
+        promptVersions,
         status: "processing",
       });
 
+      const rewriteParams = {
+        inputText: rewriteRequest.inputText,
+        styleText: rewriteRequest.styleText,
+        contentMixText: rewriteRequest.contentMixText,
+        customInstructions: rewriteRequest.customInstructions,
+        selectedPresets: rewriteRequest.selectedPresets,
+        mixingMode: rewriteRequest.mixingMode,
+        presets: presets.value,
+      };
+
+      // Streaming variant: relay deltas as they arrive, then the usual response as "complete"
+      if (wantsEventStream(req)) {
+        const sendEvent = openEventStream(res);
+        const signal = abortOnDisconnect(res);
+        try {
+          let rewrittenText = '';
+          for await (const delta of aiProviderService.rewriteStream(rewriteRequest.provider, rewriteParams, signal)) {
+            rewrittenText += delta;
+            sendEvent('delta', { text: delta });
+          }
+
+          const cleanedRewrittenText = cleanMarkup(rewrittenText);
+          const outputAnalysis = await gptZeroService.analyzeText(cleanedRewrittenText);
+
+          await storage.updateRewriteJob(rewriteJob.id, {
+            outputText: cleanedRewrittenText,
+            outputAiScore: outputAnalysis.aiScore,
+            status: "completed",
+          });
+
+          const response: RewriteResponse = {
+            rewrittenText: cleanedRewrittenText,
+            inputAiScore: inputAnalysis.aiScore,
+            outputAiScore: outputAnalysis.aiScore,
+            jobId: rewriteJob.id.toString(),
+            promptVersions,
+          };
+          sendEvent('complete', response);
+        } catch (error: any) {
+          await storage.updateRewriteJob(rewriteJob.id, { status: "failed" });
+          if (signal.aborted) return res.end();
+          console.error('Streaming rewrite error:', error);
+          sendEvent('error', { message: error.message });
+        }
+        return res.end();
+      }
+
       try {
         // Perform rewrite
-        const rewrittenText = await aiProviderService.rewrite(rewriteRequest.provider, {
-          inputText: rewriteRequest.inputText,
-          styleText: rewriteRequest.styleText,
-          contentMixText: rewriteRequest.contentMixText,
-          customInstructions: rewriteRequest.customInstructions,
-          selectedPresets: rewriteRequest.selectedPresets,
-          mixingMode: rewriteRequest.mixingMode,
-        });
+        const rewrittenText = await aiProviderService.rewrite(rewriteRequest.provider, rewriteParams);
 
         // Analyze output text
         const outputAnalysis = await gptZeroService.analyzeText(rewrittenText);
@@ -2244,6 +2288,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
           inputAiScore: inputAnalysis.aiScore,
           outputAiScore: outputAnalysis.aiScore,
           jobId: rewriteJob.id.toString(),
+          promptVersions,
         };
 
         res.json(response);
@@ -2271,6 +2316,9 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
         return res.status(404).json({ message: "Original job not found or incomplete" });
       }
 
+      const presets = await getPromptJson<Record<string, string>>('rewrite_presets');
+      const promptVersions = { rewrite_presets: presets.version };
+
       // Create new rewrite job using the previous output as input
       const rewriteJob = await storage.createRewriteJob({
         inputText: originalJob.outputText,
@@ -2283,6 +2331,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
         selectedChunkIds: [],
         mixingMode: originalJob.mixingMode,
         inputAiScore: originalJob.outputAiScore,
+        promptVersions,
         status: "processing",
       });
 
@@ -2295,6 +2344,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
           customInstructions: customInstructions || originalJob.customInstructions,
           selectedPresets: selectedPresets || originalJob.selectedPresets,
           mixingMode: originalJob.mixingMode || undefined,
+          presets: presets.value,
         });
 
         // Analyze new output
@@ -2315,6 +2365,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
           inputAiScore: originalJob.outputAiScore || 0,
           outputAiScore: outputAnalysis.aiScore,
           jobId: rewriteJob.id.toString(),
+          promptVersions,
         };
 
         res.json(response);
@@ -2378,6 +2429,8 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
 
       // Analyze input text
       const inputAnalysis = await gptZeroService.analyzeText(boxA);
+      const presets = await getPromptJson<Record<string, string>>('rewrite_presets');
+      const promptVersions = { rewrite_presets: presets.version };
       
       // Create rewrite job
       const rewriteJob = await storage.createRewriteJob({
@@ -2391,6 +2444,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
         selectedChunkIds: selectedChunkIds || [],
         mixingMode: "style",
         inputAiScore: inputAnalysis.aiScore,
+        promptVersions,
         status: "processing",
       });
 
@@ -2402,6 +2456,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
           customInstructions,
           selectedPresets: stylePresets,
           mixingMode: "style",
+          presets: presets.value,
         });
 
         // Analyze output text
@@ -2424,6 +2479,7 @@ PROVIDE A FINAL VALIDATED SCORE OUT OF 100 IN THE FORMAT: SCORE: X/100
             originalScore: inputAnalysis.aiScore,
             humanizedScore: outputAnalysis.aiScore,
             jobId: rewriteJob.id,
+            promptVersions,
           },
         });
       } catch (error) {
@@ -3562,105 +3618,26 @@ Remember: NO markdown formatting. Use plain text with CAPS headers only.`;
         });
       }
 
-      // Call the AI model (support multiple providers, default to Grok/ZHI 5)
-      const provider = llmProvider || 'zhi5'; // Default to Grok (ZHI 5)
-      let output = '';
+      // Call the AI model through the registry (ZHI alias; ZHI 5 remains the default)
+      const provider = tryResolveProvider(llmProvider || 'zhi5');
+      if (!provider) {
+        return res.status(400).json({
+          success: false,
+          message: `Unknown provider: ${llmProvider}`
+        });
+      }
       
       console.log(`[Text Model Validator] Using provider: ${provider}`);
 
-      if (provider === 'zhi1') {
-        // OpenAI GPT-4
-        const OpenAI = (await import('openai')).default;
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          max_tokens: 4096,
-          temperature: 0.7,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ]
-        });
-        output = completion.choices[0]?.message?.content || '';
-      } else if (provider === 'zhi2') {
-        // Anthropic Claude
-        const Anthropic = (await import('@anthropic-ai/sdk')).default;
-        const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-        const message = await anthropic.messages.create({
-          model: "claude-3-7-sonnet-20250219",
-          max_tokens: 4096,
-          temperature: 0.7,
-          system: systemPrompt,
-          messages: [{ role: "user", content: userPrompt }]
-        });
-        output = message.content[0].type === 'text' ? message.content[0].text : '';
-      } else if (provider === 'zhi3') {
-        // DeepSeek
-        const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'deepseek-chat',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            max_tokens: 4096,
-            temperature: 0.7,
-          }),
-        });
-        const data = await response.json();
-        output = data.choices?.[0]?.message?.content || '';
-      } else if (provider === 'zhi4') {
-        // Perplexity
-        const response = await fetch('https://api.perplexity.ai/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'sonar-pro',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            max_tokens: 4096,
-            temperature: 0.7,
-          }),
-        });
-        const data = await response.json();
-        output = data.choices?.[0]?.message?.content || '';
-      } else {
-        // Default: Grok (ZHI 5)
-        const response = await fetch('https://api.x.ai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'grok-3',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            max_tokens: 4096,
-            temperature: 0.7,
-          }),
-        });
-        const data = await response.json();
-        output = data.choices?.[0]?.message?.content || '';
-      }
+      let output = await callProviderChat(provider, [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ], { maxTokens: 4096, temperature: 0.7 });
 
       // If literal truth mode is enabled, apply rule-based softening and verification
       // Note: For literal truth verification, we always use Claude for consistency
       if (literalTruth && (mode === 'truth-isomorphism' || mode === 'math-truth-select')) {
-        const Anthropic = (await import('@anthropic-ai/sdk')).default;
-        const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+        const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
         // STEP 1: Rule-based quantifier softening (deterministic pass)
         const softenQuantifiers = (text: string): string => {
           let softened = text;
@@ -3787,7 +3764,8 @@ Be extremely strict - reject any approximations, generalizations, or unqualified
         'zhi2': 'ZHI 2',
         'zhi3': 'ZHI 3',
         'zhi4': 'ZHI 4',
-        'zhi5': 'ZHI 5'
+        'zhi5': 'ZHI 5',
+        'zhi6': 'ZHI 6'
       };
       
       let parameterHeader = `═══════════════════════════════════════════════════
@@ -4029,8 +4007,7 @@ Generate all 25 objections and responses now. Cover a wide range: logical flaws,
 
       // Use Claude for high-quality objection generation
       if (process.env.ANTHROPIC_API_KEY) {
-        const Anthropic = (await import('@anthropic-ai/sdk')).default;
-        const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+        const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
         
         const response = await anthropic.messages.create({
           model: "claude-sonnet-4-20250514",
@@ -4042,8 +4019,7 @@ Generate all 25 objections and responses now. Cover a wide range: logical flaws,
         output = (response.content[0] as any).text;
       } else if (process.env.OPENAI_API_KEY) {
         // Fallback to OpenAI
-        const OpenAI = (await import('openai')).default;
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+        const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
         
         const response = await openai.chat.completions.create({
           model: "gpt-4o",
@@ -4228,8 +4204,7 @@ ${'═'.repeat(60)}
       if (formatCheck.isSpecial && customInstructions) {
         console.log(`[OBJECTION-PROOF] Special format detected for short document, using direct format approach`);
         
-        const Anthropic = (await import('@anthropic-ai/sdk')).default;
-        const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+        const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
         
         const formatPrompt = `You are a precise document formatter. Your ONLY job is to produce output that EXACTLY matches the format specifications.
 
@@ -4360,8 +4335,7 @@ Provide:
 
       // Use Anthropic Claude for the rewriting (best for nuanced writing tasks)
       if (process.env.ANTHROPIC_API_KEY) {
-        const Anthropic = (await import('@anthropic-ai/sdk')).default;
-        const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+        const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
 
         const response = await anthropic.messages.create({
           model: "claude-sonnet-4-20250514",
@@ -4375,8 +4349,7 @@ Provide:
         output = textContent ? (textContent as any).text : "";
       } else if (process.env.OPENAI_API_KEY) {
         // Fallback to OpenAI
-        const OpenAI = (await import('openai')).default;
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+        const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
 
         const response = await openai.chat.completions.create({
           model: "gpt-4o",
@@ -4549,7 +4522,7 @@ ${output}`;
   // Refine Output - Adjust word count and/or apply custom instructions
   app.post("/api/refine-output", async (req: Request, res: Response) => {
     try {
-      const { text, targetWordCount, customInstructions } = req.body;
+      const { text, targetWordCount, customInstructions, provider } = req.body;
 
       if (!text) {
         return res.status(400).json({
@@ -4592,11 +4565,35 @@ ${instructions.join('\n\n')}
 
 Provide the refined text only. No commentary or explanation.`;
 
+      if (wantsEventStream(req)) {
+        const sendEvent = openEventStream(res);
+        const signal = abortOnDisconnect(res);
+        try {
+          let output = "";
+          const deltas = aiProviderService.streamWithFailover([
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userPrompt }
+          ], { maxTokens: 8000, signal }, provider || "zhi2");
+          for await (const delta of deltas) {
+            output += delta;
+            sendEvent('delta', { text: delta });
+          }
+
+          const newWordCount = output.trim().split(/\s+/).length;
+          console.log(`[REFINE] Streamed output word count: ${newWordCount}`);
+          sendEvent('complete', { success: true, output, wordCount: newWordCount });
+        } catch (error: any) {
+          if (signal.aborted) return res.end();
+          console.error("REFINE streaming error:", error);
+          sendEvent('error', { success: false, message: error.message || "Refinement failed" });
+        }
+        return res.end();
+      }
+
       let output = "";
 
       if (process.env.ANTHROPIC_API_KEY) {
-        const Anthropic = (await import('@anthropic-ai/sdk')).default;
-        const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+        const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
 
         const response = await anthropic.messages.create({
           model: "claude-sonnet-4-20250514",
@@ -4609,8 +4606,7 @@ Provide the refined text only. No commentary or explanation.`;
         const textContent = response.content.find((block: any) => block.type === 'text');
         output = textContent ? (textContent as any).text : "";
       } else if (process.env.OPENAI_API_KEY) {
-        const OpenAI = (await import('openai')).default;
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+        const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
 
         const response = await openai.chat.completions.create({
           model: "gpt-4o",
@@ -4678,7 +4674,9 @@ Provide the refined text only. No commentary or explanation.`;
         rewriteMathMaxCoherence,
         rewriteMathMaximizeTruth,
         analyzeScientificExplanatoryCoherence, 
-        rewriteScientificExplanatory 
+        rewriteScientificExplanatory,
+        analyzeGlobalCoherence,
+        detectCoherenceType
       } = await import('./services/coherenceMeter');
 
       // MATH COHERENCE - structural coherence only, NOT truth
@@ -4767,45 +4765,32 @@ Provide the refined text only. No commentary or explanation.`;
         
         // AUTO-DETECT: First determine which coherence type applies
         if (coherenceType === "auto-detect") {
-          const Anthropic = (await import('@anthropic-ai/sdk')).default;
-          const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-          
-          const detectPrompt = `Analyze this text and determine which coherence type it is attempting to achieve. Choose the SINGLE BEST match from these options:
-
-- logical-consistency: Text focuses on avoiding contradictions and maintaining logical consistency
-- logical-cohesiveness: Text builds arguments where claims actively support each other
-- scientific-explanatory: Text explains phenomena using natural laws and scientific mechanisms
-- thematic-psychological: Text focuses on mood, imagery, emotional trajectory, or psychological feel
-- instructional: Text provides actionable instructions or directives
-- motivational: Text aims to inspire specific feelings or psychological states
-- mathematical: Text contains mathematical proofs, derivations, or quantitative arguments
-- philosophical: Text engages with conceptual rigor, distinctions, and philosophical arguments
-
-TEXT TO ANALYZE:
-${text.substring(0, 2000)}
-
-Respond with ONLY the coherence type (e.g., "logical-consistency" or "scientific-explanatory"). No explanation needed.`;
-
-          const detectMessage = await anthropic.messages.create({
-            model: "claude-3-7-sonnet-20250219",
-            max_tokens: 50,
-            temperature: 0,
-            messages: [{ role: "user", content: detectPrompt }]
-          });
-
-          const detectedType = detectMessage.content[0].type === 'text' 
-            ? detectMessage.content[0].text.trim().toLowerCase() 
-            : 'logical-consistency';
-          
-          // Validate detected type
-          const validTypes = ["logical-consistency", "logical-cohesiveness", "scientific-explanatory", "thematic-psychological", "instructional", "motivational", "mathematical", "philosophical"];
-          appliedCoherenceType = validTypes.includes(detectedType) ? detectedType : "logical-consistency";
+          appliedCoherenceType = await detectCoherenceType(text);
           
           console.log(`Auto-detected coherence type: ${appliedCoherenceType}`);
         }
         
-        // Use specialized analyzer for scientific-explanatory coherence
-        if (appliedCoherenceType === "scientific-explanatory") {
+        // Legal texts always go through the GCS so defined terms, references and obligations are checked
+        if (appliedCoherenceType === "legal") {
+          const { buildCoherenceTimeline } = await import('./services/coherenceTimeline');
+          const result = await analyzeGlobalCoherence(text, "legal");
+          
+          res.json({
+            success: true,
+            isGlobalCoherence: true,
+            globalContextObject: result.globalContextObject,
+            chunkResults: result.chunkResults,
+            chunks: result.chunks,
+            chunkStates: result.chunkStates,
+            timeline: buildCoherenceTimeline(result.initialState, result.chunkStates),
+            analysis: result.aggregatedAnalysis,
+            score: result.overallScore,
+            assessment: result.overallAssessment,
+            detectedCoherenceType: coherenceType === "auto-detect" ? appliedCoherenceType : undefined,
+            wasAutoDetected: coherenceType === "auto-detect"
+          });
+        } else if (appliedCoherenceType === "scientific-explanatory") {
+          // Use specialized analyzer for scientific-explanatory coherence
           const result = await analyzeScientificExplanatoryCoherence(text);
           
           res.json({
@@ -4837,39 +4822,7 @@ Respond with ONLY the coherence type (e.g., "logical-consistency" or "scientific
         
         // AUTO-DETECT for rewrite mode
         if (coherenceType === "auto-detect") {
-          const Anthropic = (await import('@anthropic-ai/sdk')).default;
-          const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-          
-          const detectPrompt = `Analyze this text and determine which coherence type it is attempting to achieve. Choose the SINGLE BEST match from these options:
-
-- logical-consistency: Text focuses on avoiding contradictions and maintaining logical consistency
-- logical-cohesiveness: Text builds arguments where claims actively support each other
-- scientific-explanatory: Text explains phenomena using natural laws and scientific mechanisms
-- thematic-psychological: Text focuses on mood, imagery, emotional trajectory, or psychological feel
-- instructional: Text provides actionable instructions or directives
-- motivational: Text aims to inspire specific feelings or psychological states
-- mathematical: Text contains mathematical proofs, derivations, or quantitative arguments
-- philosophical: Text engages with conceptual rigor, distinctions, and philosophical arguments
-
-TEXT TO ANALYZE:
-${text.substring(0, 2000)}
-
-Respond with ONLY the coherence type (e.g., "logical-consistency" or "scientific-explanatory"). No explanation needed.`;
-
-          const detectMessage = await anthropic.messages.create({
-            model: "claude-3-7-sonnet-20250219",
-            max_tokens: 50,
-            temperature: 0,
-            messages: [{ role: "user", content: detectPrompt }]
-          });
-
-          const detectedType = detectMessage.content[0].type === 'text' 
-            ? detectMessage.content[0].text.trim().toLowerCase() 
-            : 'logical-consistency';
-          
-          // Validate detected type
-          const validTypes = ["logical-consistency", "logical-cohesiveness", "scientific-explanatory", "thematic-psychological", "instructional", "motivational", "mathematical", "philosophical"];
-          appliedCoherenceType = validTypes.includes(detectedType) ? detectedType : "logical-consistency";
+          appliedCoherenceType = await detectCoherenceType(text);
           
           console.log(`Auto-detected coherence type for rewrite: ${appliedCoherenceType}`);
         }
@@ -4963,57 +4916,31 @@ Respond with ONLY the coherence type (e.g., "logical-consistency" or "scientific
       const { 
         analyzeGlobalCoherence, 
         rewriteWithGlobalCoherence,
-        extractGlobalContextObject 
+        extractGlobalContextObject,
+        detectCoherenceType
       } = await import('./services/coherenceMeter');
 
       // Determine the coherence mode to use
       let appliedCoherenceType = coherenceType;
       
       if (coherenceType === "auto-detect") {
-        const Anthropic = (await import('@anthropic-ai/sdk')).default;
-        const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-        
-        const detectPrompt = `Analyze this text and determine which coherence type it is attempting to achieve. Choose the SINGLE BEST match:
-
-- logical-consistency: Avoiding contradictions and maintaining logical consistency
-- logical-cohesiveness: Claims actively support each other in a directed way
-- scientific-explanatory: Explanations align with natural law and scientific mechanisms
-- thematic-psychological: Mood, imagery, emotional trajectory hold together
-- instructional: Provides actionable instructions or directives
-- motivational: Aims to inspire specific feelings or psychological states
-- mathematical: Mathematical proofs, derivations, or quantitative arguments
-- philosophical: Conceptual rigor, distinctions, and philosophical arguments
-
-TEXT:
-${text.substring(0, 2000)}
-
-Respond with ONLY the coherence type (e.g., "logical-consistency"). No explanation.`;
-
-        const detectMessage = await anthropic.messages.create({
-          model: "claude-3-7-sonnet-20250219",
-          max_tokens: 50,
-          temperature: 0,
-          messages: [{ role: "user", content: detectPrompt }]
-        });
-
-        const detectedType = detectMessage.content[0].type === 'text' 
-          ? detectMessage.content[0].text.trim().toLowerCase() 
-          : 'logical-consistency';
-        
-        const validTypes = ["logical-consistency", "logical-cohesiveness", "scientific-explanatory", "thematic-psychological", "instructional", "motivational", "mathematical", "philosophical"];
-        appliedCoherenceType = validTypes.includes(detectedType) ? detectedType : "logical-consistency";
+        appliedCoherenceType = await detectCoherenceType(text);
         
         console.log(`Auto-detected coherence type for global analysis: ${appliedCoherenceType}`);
       }
 
       if (mode === "analyze") {
         const result = await analyzeGlobalCoherence(text, appliedCoherenceType);
+        const { buildCoherenceTimeline } = await import('./services/coherenceTimeline');
         
         res.json({
           success: true,
           isGlobalCoherence: true,
           globalContextObject: result.globalContextObject,
           chunkResults: result.chunkResults,
+          chunks: result.chunks,
+          chunkStates: result.chunkStates,
+          timeline: buildCoherenceTimeline(result.initialState, result.chunkStates),
           analysis: result.aggregatedAnalysis,
           score: result.overallScore,
           assessment: result.overallAssessment,
@@ -5051,6 +4978,48 @@ Respond with ONLY the coherence type (e.g., "logical-consistency"). No explanati
     }
   });
 
+  // Coherence diff between an original text and its rewrite: resolved, introduced and unchanged issues per aligned chunk
+  app.post("/api/coherence-diff", async (req: Request, res: Response) => {
+    try {
+      const { originalText, revisedText, coherenceType = "auto-detect" } = req.body;
+
+      if (!originalText?.trim() || !revisedText?.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: "originalText and revisedText are required"
+        });
+      }
+
+      const { COHERENCE_TYPES } = await import('./services/coherenceMeter');
+      if (coherenceType !== "auto-detect" && !COHERENCE_TYPES.includes(coherenceType)) {
+        return res.status(400).json({
+          success: false,
+          message: `Unknown coherence type: ${coherenceType}`
+        });
+      }
+
+      const { compareCoherenceVersions } = await import('./services/coherenceDiff');
+
+      const diff = await compareCoherenceVersions(originalText, revisedText, {
+        coherenceType,
+        bypassCache: isCacheBypassed(req)
+      });
+
+      res.json({
+        success: true,
+        ...diff,
+        detectedCoherenceType: coherenceType === "auto-detect" ? diff.mode : undefined,
+        wasAutoDetected: coherenceType === "auto-detect"
+      });
+    } catch (error: any) {
+      console.error("Coherence diff error:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Coherence diff failed"
+      });
+    }
+  });
+
   // Outline-Guided Coherence Processing - Two-Stage approach for long texts
   app.post("/api/coherence-outline-guided", async (req: Request, res: Response) => {
     try {
@@ -5066,8 +5035,7 @@ Respond with ONLY the coherence type (e.g., "logical-consistency"). No explanati
       console.log(`Outline-Guided Coherence - Type: ${coherenceType}, Mode: ${mode}, Text length: ${text.length}`);
 
       // Initialize Anthropic client
-      const Anthropic = (await import('@anthropic-ai/sdk')).default;
-      const anthropic = new Anthropic({
+      const anthropic = createAnthropicClient({
         apiKey: process.env.ANTHROPIC_API_KEY
       });
 
@@ -5080,6 +5048,7 @@ Respond with ONLY the coherence type (e.g., "logical-consistency"). No explanati
         "motivational": "User knows how they are supposed to feel. Emotional direction is clear and maintained throughout. Inspires consistent psychological state.",
         "mathematical": "Mathematical proofs are valid, derivations follow logically, formulas are correctly applied, and quantitative claims are properly supported.",
         "philosophical": "Conceptual rigor is maintained throughout. Terms are used consistently, distinctions are preserved, and arguments avoid category mistakes.",
+        "legal": "Defined terms are used as defined, every cross-reference points to an existing clause, parties are named consistently, and no obligation contradicts another.",
         "auto-detect": "System analyzes the text and determines which type(s) of coherence it's attempting to achieve."
       };
 
@@ -5318,11 +5287,18 @@ Provide ONLY the rewritten section. Do not include any explanations, description
         });
       }
 
+      const { processDocumentSequentially, isCoherenceMode } = await import('./services/coherenceProcessor');
+      // No mode means auto-detect
+      if (mode !== undefined && !isCoherenceMode(mode)) {
+        return res.status(400).json({
+          success: false,
+          message: `Unknown coherence mode: ${mode}`
+        });
+      }
+
       const wordCount = text.trim().split(/\s+/).length;
       console.log(`Sequential Coherence - Mode: ${mode || 'auto-detect'}, Provider: ${provider}, Words: ${wordCount}`);
 
-      const { processDocumentSequentially } = await import('./services/coherenceProcessor');
-
       const result = await processDocumentSequentially(text, mode, provider);
 
       res.json({
@@ -5348,9 +5324,12 @@ Provide ONLY the rewritten section. Do not include any explanations, description
     try {
       const { documentId, mode } = req.params;
 
-      const { getDocumentStatus } = await import('./services/coherenceProcessor');
+      const { getDocumentStatus, isCoherenceMode } = await import('./services/coherenceProcessor');
+      if (!isCoherenceMode(mode)) {
+        return res.status(400).json({ success: false, message: `Unknown coherence mode: ${mode}` });
+      }
 
-      const status = await getDocumentStatus(documentId, mode as any);
+      const status = await getDocumentStatus(documentId, mode);
 
       res.json({
         success: true,
@@ -5368,6 +5347,46 @@ Provide ONLY the rewritten section. Do not include any explanations, description
     }
   });
 
+  // Re-evaluate a stored document after editing one chunk; only chunks whose incoming state changed are re-run
+  app.post("/api/coherence-sequential/:documentId/:mode/revise", async (req: Request, res: Response) => {
+    let processor: typeof import('./services/coherenceProcessor') | undefined;
+    try {
+      processor = await import('./services/coherenceProcessor');
+      const { reevaluateEditedChunk, isCoherenceMode } = processor;
+      const { documentId, mode } = req.params;
+      const { chunkIndex, text, provider = "openai" } = req.body;
+
+      if (!isCoherenceMode(mode)) {
+        return res.status(400).json({
+          success: false,
+          message: `Unknown coherence mode: ${mode}`
+        });
+      }
+      if (typeof text !== "string" || !text.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: "Text is required"
+        });
+      }
+
+      const result = await reevaluateEditedChunk(documentId, mode, Number(chunkIndex), text, provider);
+
+      res.json({
+        success: true,
+        ...result
+      });
+    } catch (error: any) {
+      if (processor && error instanceof processor.CoherenceRevisionError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      console.error("Coherence revision error:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Coherence revision failed"
+      });
+    }
+  });
+
   // Helper function to split text into sections
   function splitIntoSections(text: string, targetWords: number = 400): Array<{text: string, wordCount: number}> {
     const paragraphs = text.split(/\n\n+/);
@@ -5758,8 +5777,7 @@ Output a well-structured outline that can guide document generation.`;
       let output = "";
       
       if (provider === "anthropic") {
-        const Anthropic = (await import("@anthropic-ai/sdk")).default;
-        const anthropic = new Anthropic();
+        const anthropic = createAnthropicClient();
         const response = await anthropic.messages.create({
           model: "claude-sonnet-4-20250514",
           max_tokens: 4000,
@@ -5769,7 +5787,7 @@ Output a well-structured outline that can guide document generation.`;
         });
         output = response.content[0].type === 'text' ? response.content[0].text : "";
       } else if (provider === "deepseek") {
-        const openaiDeepseek = new OpenAI({ 
+        const openaiDeepseek = createOpenAIClient({ 
           apiKey: process.env.DEEPSEEK_API_KEY,
           baseURL: "https://api.deepseek.com/v1"
         });
@@ -5784,7 +5802,7 @@ Output a well-structured outline that can guide document generation.`;
         });
         output = response.choices[0].message.content || "";
       } else {
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+        const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
         const response = await openai.chat.completions.create({
           model: "gpt-4o",
           messages: [
@@ -5839,8 +5857,7 @@ Write a complete, well-structured document. Ensure:
       let output = "";
       
       if (provider === "anthropic") {
-        const Anthropic = (await import("@anthropic-ai/sdk")).default;
-        const anthropic = new Anthropic();
+        const anthropic = createAnthropicClient();
         
         // Generate outline
         const outlineRes = await anthropic.messages.create({
@@ -5859,7 +5876,7 @@ Write a complete, well-structured document. Ensure:
         output = docRes.content[0].type === 'text' ? docRes.content[0].text : "";
         
       } else if (provider === "deepseek") {
-        const openaiDeepseek = new OpenAI({ 
+        const openaiDeepseek = createOpenAIClient({ 
           apiKey: process.env.DEEPSEEK_API_KEY,
           baseURL: "https://api.deepseek.com/v1"
         });
@@ -5889,7 +5906,7 @@ Write a complete, well-structured document. Ensure:
         output = docRes.choices[0].message.content || "";
         
       } else {
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+        const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
         
         // Generate outline
         const outlineRes = await openai.chat.completions.create({
@@ -0,0 +1,26 @@
+import type { Request, Response, NextFunction } from "express";
+
+// Usernames allowed to use the admin endpoints, from ADMIN_USERNAMES (comma-separated)
+function getAdminUsernames(): string[] {
+  return (process.env.ADMIN_USERNAMES || "")
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (!getAdminUsernames().includes(req.user.username.toLowerCase())) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+}
@@ -0,0 +1,155 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { storage } from "../storage";
+import { requireUser } from "./adminAuth";
+import type { BatchJob } from "@shared/schema";
+import { tryResolveProvider } from "../services/providerRegistry";
+import { RubricAccessError } from "../services/rubricEvaluation";
+import {
+  extractBatchDocuments,
+  validateBatchEvaluation,
+  createBatchJob,
+  cancelBatchJob,
+  buildBatchWorkbook,
+  buildBatchCsv,
+  BatchRequestError,
+  MAX_BATCH_DOCUMENTS,
+  MAX_BATCH_UPLOAD_BYTES
+} from "../services/batchEvaluation";
+
+// Zip archives of a full batch are larger than single documents
+const batchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_BATCH_UPLOAD_BYTES, files: MAX_BATCH_DOCUMENTS }
+});
+
+// Uploads are buffered in memory, so the whole request is capped before multer reads it
+function limitUploadSize(req: Request, res: Response, next: NextFunction) {
+  const length = parseInt(req.get("content-length") || "", 10);
+  if (!Number.isFinite(length)) {
+    return res.status(411).json({ message: "Uploads must declare a Content-Length" });
+  }
+  if (length > MAX_BATCH_UPLOAD_BYTES) {
+    return res.status(413).json({ message: `Uploads may be at most ${MAX_BATCH_UPLOAD_BYTES / (1024 * 1024)} MB in total` });
+  }
+  next();
+}
+
+// The job, if it exists and belongs to the signed-in user
+async function findOwnJob(req: Request, res: Response): Promise<BatchJob | undefined> {
+  const job = await storage.getBatchJob(parseInt(req.params.id));
+  if (!job || job.userId !== req.user!.id) {
+    res.status(404).json({ message: "Batch job not found" });
+    return undefined;
+  }
+  return job;
+}
+
+function handleBatchError(res: Response, error: any, action: string) {
+  if (error instanceof BatchRequestError || error instanceof RubricAccessError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+function baseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+export function registerBatchRoutes(app: Express) {
+  // Upload files or a zip archive and start a batch evaluation
+  app.post("/api/batch-jobs", requireUser, limitUploadSize, batchUpload.array("files"), async (req: Request, res: Response) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "Upload at least one file or a zip archive" });
+      }
+
+      const provider = tryResolveProvider(req.body.provider || "zhi1");
+      if (!provider) {
+        return res.status(400).json({ message: `Unknown provider: ${req.body.provider}` });
+      }
+      const evaluation = await validateBatchEvaluation(req.body.evaluation || "quick", req.user!);
+
+      const { documents, skipped } = await extractBatchDocuments(files);
+      const job = await createBatchJob(req.user!, evaluation, provider, documents);
+      res.status(202).json({ job, skipped });
+    } catch (error: any) {
+      handleBatchError(res, error, "creating batch job");
+    }
+  });
+
+  app.get("/api/batch-jobs", requireUser, async (req: Request, res: Response) => {
+    try {
+      res.json({ jobs: await storage.getBatchJobsForUser(req.user!.id) });
+    } catch (error: any) {
+      handleBatchError(res, error, "fetching batch jobs");
+    }
+  });
+
+  // Job progress with per-document status and scores (no text or reports)
+  app.get("/api/batch-jobs/:id", requireUser, async (req: Request, res: Response) => {
+    try {
+      const job = await findOwnJob(req, res);
+      if (!job) return;
+
+      const items = await storage.getBatchItems(job.id);
+      res.json({
+        job,
+        items: items.map(({ content, report, ...item }) => ({ ...item, hasReport: !!report }))
+      });
+    } catch (error: any) {
+      handleBatchError(res, error, "fetching batch job");
+    }
+  });
+
+  app.post("/api/batch-jobs/:id/cancel", requireUser, async (req: Request, res: Response) => {
+    try {
+      const job = await findOwnJob(req, res);
+      if (!job) return;
+      res.json({ job: await cancelBatchJob(job) });
+    } catch (error: any) {
+      handleBatchError(res, error, "cancelling batch job");
+    }
+  });
+
+  // Full report of one document - the link target used in exports
+  app.get("/api/batch-jobs/:id/items/:itemId/report", requireUser, async (req: Request, res: Response) => {
+    try {
+      const job = await findOwnJob(req, res);
+      if (!job) return;
+
+      const item = await storage.getBatchItem(job.id, parseInt(req.params.itemId));
+      if (!item || !item.report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.send(`${item.filename}\nScore: ${item.overallScore}/100\n\n${item.report}`);
+    } catch (error: any) {
+      handleBatchError(res, error, "fetching batch report");
+    }
+  });
+
+  // ?format=xlsx (default) or csv
+  app.get("/api/batch-jobs/:id/export", requireUser, async (req: Request, res: Response) => {
+    try {
+      const job = await findOwnJob(req, res);
+      if (!job) return;
+
+      const items = await storage.getBatchItems(job.id);
+      if (req.query.format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="batch-${job.id}.csv"`);
+        return res.send(buildBatchCsv(items, baseUrl(req)));
+      }
+
+      const workbook = await buildBatchWorkbook(job, items, baseUrl(req));
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="batch-${job.id}.xlsx"`);
+      res.send(workbook);
+    } catch (error: any) {
+      handleBatchError(res, error, "exporting batch job");
+    }
+  });
+}
@@ -0,0 +1,146 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { requireAdmin } from "./adminAuth";
+import { storage } from "../storage";
+import { insertCalibrationSampleSchema } from "@shared/schema";
+import { tryResolveProvider, type ProviderId } from "../services/providerRegistry";
+import {
+  getCalibrationCorpus,
+  getCalibrationDriftReport,
+  startCalibrationRuns,
+  testCalibrationSamples
+} from "../services/calibration";
+import { getHybridModel } from "../services/hybridScoring";
+
+const sampleBodySchema = insertCalibrationSampleSchema
+  .extend({
+    expectedMin: z.number().int().min(0).max(100),
+    expectedMax: z.number().int().min(0).max(100)
+  })
+  .refine(sample => sample.expectedMin <= sample.expectedMax, {
+    message: "expectedMin must not exceed expectedMax"
+  });
+
+export function registerCalibrationRoutes(app: Express) {
+  // Active benchmark corpus (?all=true includes deactivated samples)
+  app.get("/api/calibration/samples", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const active = await getCalibrationCorpus();
+      res.json({ samples: req.query.all === "true" ? await storage.getCalibrationSamples(true) : active });
+    } catch (error: any) {
+      console.error("Error fetching calibration samples:", error);
+      res.status(500).json({ message: "Error fetching calibration samples" });
+    }
+  });
+
+  // Add a text with its expected score band to the corpus
+  app.post("/api/calibration/samples", requireAdmin, async (req: Request, res: Response) => {
+    const parsed = sampleBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors.map(e => e.message).join("; ") });
+    }
+
+    try {
+      // Seed the built-ins first so a new sample never suppresses them
+      await getCalibrationCorpus();
+      const [sample] = await storage.createCalibrationSamples([parsed.data]);
+      res.status(201).json({ sample });
+    } catch (error: any) {
+      console.error("Error creating calibration sample:", error);
+      res.status(500).json({ message: "Error creating calibration sample" });
+    }
+  });
+
+  // Samples are deactivated rather than deleted so past results keep their text
+  app.delete("/api/calibration/samples/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const sample = await storage.setCalibrationSampleActive(parseInt(req.params.id), false);
+      if (!sample) {
+        return res.status(404).json({ message: "Calibration sample not found" });
+      }
+      res.json({ sample });
+    } catch (error: any) {
+      console.error("Error deactivating calibration sample:", error);
+      res.status(500).json({ message: "Error deactivating calibration sample" });
+    }
+  });
+
+  // Start a benchmark run per provider; runs finish in the background
+  app.post("/api/calibration/runs", requireAdmin, async (req: Request, res: Response) => {
+    const requested: unknown[] = Array.isArray(req.body?.providers) ? req.body.providers : [];
+    const providers: ProviderId[] = [];
+    for (const name of requested) {
+      const id = tryResolveProvider(String(name));
+      if (!id) {
+        return res.status(400).json({ message: `Unknown provider: ${name}` });
+      }
+      providers.push(id);
+    }
+
+    try {
+      const runs = await startCalibrationRuns(providers);
+      res.status(202).json({ runs });
+    } catch (error: any) {
+      console.error("Error starting calibration runs:", error);
+      res.status(500).json({ message: error.message || "Error starting calibration runs" });
+    }
+  });
+
+  app.get("/api/calibration/runs", requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      res.json({ runs: await storage.getCalibrationRuns() });
+    } catch (error: any) {
+      console.error("Error fetching calibration runs:", error);
+      res.status(500).json({ message: "Error fetching calibration runs" });
+    }
+  });
+
+  // Per-run scores for each sample
+  app.get("/api/calibration/runs/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json({ results: await storage.getCalibrationResults([parseInt(req.params.id)]) });
+    } catch (error: any) {
+      console.error("Error fetching calibration results:", error);
+      res.status(500).json({ message: "Error fetching calibration results" });
+    }
+  });
+
+  // Drift of each provider/model/prompt version against its first run
+  app.get("/api/calibration/drift", requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      res.json(await getCalibrationDriftReport());
+    } catch (error: any) {
+      console.error("Error building calibration drift report:", error);
+      res.status(500).json({ message: "Error building calibration drift report" });
+    }
+  });
+
+  // Learned hybrid scoring weights for a provider (?provider=zhi1)
+  app.get("/api/calibration/hybrid-model", requireAdmin, async (req: Request, res: Response) => {
+    const provider = tryResolveProvider(String(req.query.provider || "zhi1"));
+    if (!provider) {
+      return res.status(400).json({ message: `Unknown provider: ${req.query.provider}` });
+    }
+
+    try {
+      const model = await getHybridModel(provider);
+      if (!model) {
+        return res.status(404).json({ message: "No calibration results to fit a hybrid model on yet" });
+      }
+      res.json({ model });
+    } catch (error: any) {
+      console.error("Error fitting hybrid model:", error);
+      res.status(500).json({ message: "Error fitting hybrid model" });
+    }
+  });
+
+  // One-off comparison used by the CalibrationTester component
+  app.get("/api/test-calibration", requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      res.json(await testCalibrationSamples());
+    } catch (error: any) {
+      console.error("Error running calibration test:", error);
+      res.status(500).json({ message: "Error running calibration test" });
+    }
+  });
+}
@@ -0,0 +1,61 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { requireUser } from "./adminAuth";
+import { buildAuthorProfile } from "../services/authorProfile";
+import { parseDateRange, buildAnalyticsSummary, AnalyticsRequestError } from "../services/userAnalytics";
+
+function handleAnalyticsError(res: Response, error: any, action: string) {
+  if (error instanceof AnalyticsRequestError) {
+    return res.status(400).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function registerProfileRoutes(app: Express) {
+  // The signed-in account the analytics belong to (session based; no email lookup)
+  app.get("/api/user/auth", requireUser, (req: Request, res: Response) => {
+    const { id, username, email, createdAt, lastActiveAt } = req.user!;
+    res.json({ authenticated: true, user: { id, username, email, createdAt, lastActiveAt } });
+  });
+
+  // The signed-in user's longitudinal profile, built from every analysis they have run
+  app.get("/api/user/cognitive-profile", requireUser, async (req: Request, res: Response) => {
+    try {
+      res.json(await buildAuthorProfile(req.user!.id));
+    } catch (error: any) {
+      handleAnalyticsError(res, error, "building cognitive profile");
+    }
+  });
+
+  // Activity log, newest first: ?from=&to=&type=&limit=
+  app.get("/api/user/activities", requireUser, async (req: Request, res: Response) => {
+    try {
+      const range = parseDateRange(req.query);
+      const type = typeof req.query.type === "string" && req.query.type ? req.query.type : undefined;
+      const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 200));
+
+      const activities = await storage.getUserActivities(req.user!.id, range, type, limit);
+      res.json({
+        activities: activities.map(activity => ({
+          id: activity.id,
+          activityType: activity.activityType,
+          timestamp: activity.timestamp,
+          documentId: activity.documentId,
+          data: activity.activityData
+        }))
+      });
+    } catch (error: any) {
+      handleAnalyticsError(res, error, "fetching activities");
+    }
+  });
+
+  // Activity-type breakdown, per-provider usage and document count: ?from=&to=
+  app.get("/api/user/analytics", requireUser, async (req: Request, res: Response) => {
+    try {
+      res.json(await buildAnalyticsSummary(req.user!.id, parseDateRange(req.query)));
+    } catch (error: any) {
+      handleAnalyticsError(res, error, "building analytics summary");
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import type { Express, Request, Response } from "express";
+import { requireAdmin } from "./adminAuth";
+import {
+  listPrompts,
+  getPromptHistory,
+  savePromptVersion,
+  activatePromptVersion,
+  assertPromptKey,
+  PromptValidationError
+} from "../services/promptRegistry";
+
+function handlePromptError(res: Response, error: any, action: string) {
+  if (error instanceof PromptValidationError) {
+    return res.status(400).json({ message: error.message });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+export function registerPromptRoutes(app: Express) {
+  // Every prompt key with its active version
+  app.get("/api/admin/prompts", requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      res.json({ prompts: await listPrompts() });
+    } catch (error: any) {
+      handlePromptError(res, error, "listing prompts");
+    }
+  });
+
+  // All saved versions of one prompt, newest first
+  app.get("/api/admin/prompts/:key", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const key = assertPromptKey(req.params.key);
+      res.json({ key, versions: await getPromptHistory(key) });
+    } catch (error: any) {
+      handlePromptError(res, error, "fetching prompt versions");
+    }
+  });
+
+  // Save edited content as a new active version
+  app.post("/api/admin/prompts/:key", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const key = assertPromptKey(req.params.key);
+      if (typeof req.body?.content !== "string") {
+        return res.status(400).json({ message: "content is required" });
+      }
+
+      const saved = await savePromptVersion(key, req.body.content, req.user!.username);
+      res.status(201).json({ key, version: saved });
+    } catch (error: any) {
+      handlePromptError(res, error, "saving prompt");
+    }
+  });
+
+  // Activate an earlier (or later) version - used for rollback
+  app.post("/api/admin/prompts/:key/activate", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const key = assertPromptKey(req.params.key);
+      const version = req.body?.version;
+      if (typeof version !== "string" || !version) {
+        return res.status(400).json({ message: "version is required" });
+      }
+
+      const activated = await activatePromptVersion(key, version);
+      if (!activated) {
+        return res.status(404).json({ message: `Version ${version} of ${key} not found` });
+      }
+      res.json({ key, version: activated });
+    } catch (error: any) {
+      handlePromptError(res, error, "activating prompt version");
+    }
+  });
+}
@@ -0,0 +1,134 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { requireAdmin, requireUser } from "./adminAuth";
+import { storage } from "../storage";
+import { insertRubricSchema } from "@shared/schema";
+import { canEditRubric, canReadRubric, RUBRIC_TYPE_PREFIX } from "../services/rubricEvaluation";
+
+// userId comes from the session, never from the body
+const rubricBodySchema = insertRubricSchema.omit({ userId: true }).extend({
+  description: z.string().max(2000).nullable().optional(),
+  team: z.string().trim().min(1).nullable().optional()
+});
+
+const teamBodySchema = z.object({
+  team: z.string().trim().min(1).max(100).nullable()
+});
+
+function validationMessage(error: z.ZodError): string {
+  return error.errors.map(e => `${e.path.join(".") || "body"}: ${e.message}`).join("; ");
+}
+
+export function registerRubricRoutes(app: Express) {
+  // The user's own rubrics plus those shared with their team
+  app.get("/api/rubrics", requireUser, async (req: Request, res: Response) => {
+    try {
+      const rubrics = await storage.getRubricsForUser(req.user!.id, req.user!.team ?? null);
+      res.json({
+        rubrics: rubrics.map(rubric => ({
+          ...rubric,
+          evaluationType: `${RUBRIC_TYPE_PREFIX}${rubric.id}`,
+          editable: canEditRubric(rubric, req.user)
+        }))
+      });
+    } catch (error: any) {
+      console.error("Error fetching rubrics:", error);
+      res.status(500).json({ message: "Error fetching rubrics" });
+    }
+  });
+
+  app.get("/api/rubrics/:id", requireUser, async (req: Request, res: Response) => {
+    try {
+      const rubric = await storage.getRubric(parseInt(req.params.id));
+      if (!rubric || !canReadRubric(rubric, req.user)) {
+        return res.status(404).json({ message: "Rubric not found" });
+      }
+      res.json({ rubric: { ...rubric, evaluationType: `${RUBRIC_TYPE_PREFIX}${rubric.id}`, editable: canEditRubric(rubric, req.user) } });
+    } catch (error: any) {
+      console.error("Error fetching rubric:", error);
+      res.status(500).json({ message: "Error fetching rubric" });
+    }
+  });
+
+  // A rubric can only be shared with the creator's own team
+  app.post("/api/rubrics", requireUser, async (req: Request, res: Response) => {
+    const parsed = rubricBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: validationMessage(parsed.error) });
+    }
+    if (parsed.data.team && parsed.data.team !== req.user!.team) {
+      return res.status(403).json({ message: "Rubrics can only be shared with your own team" });
+    }
+
+    try {
+      const rubric = await storage.createRubric({ ...parsed.data, userId: req.user!.id });
+      res.status(201).json({ rubric: { ...rubric, evaluationType: `${RUBRIC_TYPE_PREFIX}${rubric.id}`, editable: true } });
+    } catch (error: any) {
+      console.error("Error creating rubric:", error);
+      res.status(500).json({ message: "Error creating rubric" });
+    }
+  });
+
+  app.put("/api/rubrics/:id", requireUser, async (req: Request, res: Response) => {
+    const parsed = rubricBodySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: validationMessage(parsed.error) });
+    }
+    if (parsed.data.team && parsed.data.team !== req.user!.team) {
+      return res.status(403).json({ message: "Rubrics can only be shared with your own team" });
+    }
+
+    try {
+      const existing = await storage.getRubric(parseInt(req.params.id));
+      if (!existing || !canReadRubric(existing, req.user)) {
+        return res.status(404).json({ message: "Rubric not found" });
+      }
+      if (!canEditRubric(existing, req.user)) {
+        return res.status(403).json({ message: "Only the rubric's owner can edit it" });
+      }
+
+      const rubric = await storage.updateRubric(existing.id, parsed.data);
+      res.json({ rubric: { ...rubric, evaluationType: `${RUBRIC_TYPE_PREFIX}${existing.id}`, editable: true } });
+    } catch (error: any) {
+      console.error("Error updating rubric:", error);
+      res.status(500).json({ message: "Error updating rubric" });
+    }
+  });
+
+  app.delete("/api/rubrics/:id", requireUser, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getRubric(parseInt(req.params.id));
+      if (!existing || !canReadRubric(existing, req.user)) {
+        return res.status(404).json({ message: "Rubric not found" });
+      }
+      if (!canEditRubric(existing, req.user)) {
+        return res.status(403).json({ message: "Only the rubric's owner can delete it" });
+      }
+
+      await storage.deleteRubric(existing.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting rubric:", error);
+      res.status(500).json({ message: "Error deleting rubric" });
+    }
+  });
+
+  // Team membership decides who sees shared rubrics, so only admins assign it
+  app.put("/api/admin/users/:username/team", requireAdmin, async (req: Request, res: Response) => {
+    const parsed = teamBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: validationMessage(parsed.error) });
+    }
+
+    try {
+      const user = await storage.setUserTeam(req.params.username, parsed.data.team);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ username: user.username, team: user.team });
+    } catch (error: any) {
+      console.error("Error assigning team:", error);
+      res.status(500).json({ message: "Error assigning team" });
+    }
+  });
+}
@@ -0,0 +1,92 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import type { UsageRecord } from "@shared/schema";
+
+interface JobUsageSummary {
+  jobId: string;
+  endpoint: string;
+  startedAt: Date;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  credits: number;
+  providers: string[];
+}
+
+// Roll itemized usage records up into one summary per job (newest first)
+function summarizeByJob(records: UsageRecord[]): JobUsageSummary[] {
+  const jobs = new Map<string, JobUsageSummary>();
+  
+  for (const record of records) {
+    let job = jobs.get(record.jobId);
+    if (!job) {
+      job = {
+        jobId: record.jobId,
+        endpoint: record.endpoint,
+        startedAt: record.createdAt,
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        credits: 0,
+        providers: [],
+      };
+      jobs.set(record.jobId, job);
+    }
+    
+    job.calls++;
+    job.promptTokens += record.promptTokens;
+    job.completionTokens += record.completionTokens;
+    job.totalTokens += record.totalTokens;
+    job.credits += record.credits;
+    if (record.createdAt < job.startedAt) {
+      job.startedAt = record.createdAt;
+      job.endpoint = record.endpoint;
+    }
+    if (!job.providers.includes(record.provider)) {
+      job.providers.push(record.provider);
+    }
+  }
+  
+  return Array.from(jobs.values()).sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+export function registerUsageRoutes(app: Express) {
+  // Usage history grouped by job
+  app.get("/api/usage/jobs", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const records = await storage.getUsageRecords(req.user.id);
+      res.json({ jobs: summarizeByJob(records) });
+    } catch (error: any) {
+      console.error("Error fetching usage history:", error);
+      res.status(500).json({ message: "Error fetching usage history" });
+    }
+  });
+
+  // Itemized provider calls for one job
+  app.get("/api/usage/jobs/:jobId", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const records = await storage.getUsageRecords(req.user.id, req.params.jobId);
+      if (records.length === 0) {
+        return res.status(404).json({ message: "No usage recorded for this job" });
+      }
+
+      res.json({
+        job: summarizeByJob(records)[0],
+        calls: [...records].reverse(),
+      });
+    } catch (error: any) {
+      console.error("Error fetching job usage:", error);
+      res.status(500).json({ message: "Error fetching job usage" });
+    }
+  });
+}
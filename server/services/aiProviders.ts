@@ -1,94 +1,25 @@
-import OpenAI from "openai";
-import Anthropic from '@anthropic-ai/sdk';
-
-/*
-<important_code_snippet_instructions>
-The newest OpenAI model is "gpt-4o" which was released May 13, 2024. Do not change this unless explicitly requested by the user.
-The newest Anthropic model is "claude-sonnet-4-20250514", not "claude-3-7-sonnet-20250219", "claude-3-7-sonnet-20250219" nor "claude-3-sonnet-20240229". 
-</important_code_snippet_instructions>
-*/
-
-// <important_do_not_delete>
-const DEFAULT_OPENAI_MODEL = "gpt-4o";
-const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-20250514";
-// </important_do_not_delete>
-
-// Lazy initialization to avoid crashes when API keys are missing
-let _openai: OpenAI | null = null;
-let _anthropic: Anthropic | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!_openai) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured. Please add your OpenAI API key in the Secrets tab.");
-    }
-    _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return _openai;
-}
-
-function getAnthropic(): Anthropic {
-  if (!_anthropic) {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error("ANTHROPIC_API_KEY is not configured. Please add your Anthropic API key in the Secrets tab.");
-    }
-    _anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  }
-  return _anthropic;
-}
-
-const PRESET_TEXT: Record<string,string> = {
-  // Advanced Techniques
-  "Mixed cadence + clause sprawl": "Alternate short and long sentences; allow some long sentences to wander with extra clauses.",
-  "Asymmetric emphasis": "Over-elaborate one point; compress or skate past another.",
-  "One aside": "Add a quick parenthetical or em-dash remark — factual, not jokey.",
-  "Hedge twice": "Use two mild uncertainty markers (\"probably,\" \"seems,\" \"roughly,\" \"I think\").",
-  "Local disfluency": "Keep one redundant or slightly awkward phrase that still makes sense.",
-  "Analogy injection": "Insert a short, concrete comparison to something unrelated but illustrative.",
-  "Topic snap": "Abruptly shift focus once, then return.",
-  "Friction detail": "Drop in a small, seemingly unnecessary but real-world-plausible detail.",
-  
-  "Compression — light (−15%)": "Cut filler; merge short clauses; keep meaning. Target ≈15% shorter.",
-  "Compression — medium (−30%)": "Trim hard; delete throat-clearing; tighten syntax. Target ≈30% shorter.",
-  "Compression — heavy (−45%)": "Sever redundancies; collapse repeats; keep core claims. Target ≈45% shorter.",
-  "Mixed cadence": "Alternate short (5–12 words) and long (20–35 words) sentences; avoid uniform rhythm.",
-  "Clause surgery": "Reorder main/subordinate clauses in ~30% of sentences without changing meaning.",
-  "Front-load claim": "Put the main conclusion in sentence 1; evidence follows.",
-  "Back-load claim": "Delay the main conclusion to the final 2–3 sentences.",
-  "Seam/pivot": "Drop smooth connectors once; allow one abrupt thematic pivot.",
-  "Imply one step": "Omit one obvious inferential step; keep it implicit (context makes it recoverable).",
-  "Conditional framing": "Recast one key sentence as: If/Unless …, then …. Keep content identical.",
-  "Local contrast": "Use exactly one contrast marker (but/except/aside) to mark a boundary; add no new facts.",
-  "Scope check": "Replace one absolute with a bounded form (e.g., 'in cases like these').",
-  "Deflate jargon": "Swap nominalizations for plain verbs where safe (e.g., utilization→use).",
-  "Kill stock transitions": "Delete 'Moreover/Furthermore/In conclusion' everywhere.",
-  "Hedge once": "Use exactly one hedge: probably/roughly/more or less.",
-  "Drop intensifiers": "Remove 'very/clearly/obviously/significantly'.",
-  "Low-heat voice": "Prefer plain verbs; avoid showy synonyms.",
-  "Concrete benchmark": "Replace one vague scale with a testable one (e.g., 'enough to X').",
-  "Swap generic example": "If the source has an example, make it slightly more specific; else skip.",
-  "Metric nudge": "Replace 'more/better' with a minimal, source-safe comparator (e.g., 'more than last case').",
-  "Cull repeats": "Delete duplicated sentences/ideas; keep the strongest instance.",
-  "No lists": "Output as continuous prose; remove bullets/numbering.",
-  "No meta": "No prefaces/apologies/phrases like 'as requested'.",
-  "Exact nouns": "Replace ambiguous pronouns with exact nouns.",
-  "Quote once": "If the source has a strong phrase, quote it once; otherwise skip.",
-  "Claim lock": "Do not add examples, scenarios, or data not present in the source.",
-  "Entity lock": "Keep names, counts, and attributions exactly as given.",
-  // Combo presets expand to atomic ones:
-  "Lean & Sharp": "Compression — medium (−30%); Mixed cadence; Imply one step; Kill stock transitions",
-  "Analytic": "Clause surgery; Front-load claim; Scope check; Exact nouns; No lists",
-};
-
-function expandPresets(selected: string[] = []): string[] {
+import {
+  getFailoverOrder,
+  resolveProvider,
+  callProviderChat,
+  streamProviderChat,
+  type ChatMessage,
+  type ChatOptions,
+} from './providerRegistry';
+import { canAttempt, releaseTrial } from './providerHealth';
+import { getPromptJson } from './promptRegistry';
+
+type PresetText = Record<string, string>;
+
+function expandPresets(presetText: PresetText, selected: string[] = []): string[] {
   const out: string[] = [];
   const seen = new Set<string>();
   const add = (name: string) => {
-    const txt = PRESET_TEXT[name];
+    const txt = presetText[name];
     if (!txt) return;
     if (txt.includes(";") && !txt.includes("…")) {
       // combo: split by ';' and add atomic names
-      txt.split(";").map(s => s.trim()).forEach(alias => { if (PRESET_TEXT[alias] && !seen.has(alias)) { seen.add(alias); out.push(alias); }});
+      txt.split(";").map(s => s.trim()).forEach(alias => { if (presetText[alias] && !seen.has(alias)) { seen.add(alias); out.push(alias); }});
     } else {
       if (!seen.has(name)) { seen.add(name); out.push(name); }
     }
@@ -97,17 +28,17 @@ function expandPresets(selected: string[] = []): string[] {
   return out;
 }
 
-function buildPresetBlock(selectedPresets?: string[], customInstructions?: string): string {
-  const expanded = expandPresets(selectedPresets || []);
+function buildPresetBlock(presetText: PresetText, selectedPresets?: string[], customInstructions?: string): string {
+  const expanded = expandPresets(presetText, selectedPresets || []);
   const lines: string[] = [];
-  expanded.forEach(name => { lines.push(`- ${PRESET_TEXT[name]}`); });
+  expanded.forEach(name => { lines.push(`- ${presetText[name]}`); });
   const custom = (customInstructions || "").trim();
   if (custom) lines.push(`- ${custom}`);
   if (lines.length === 0) return "";
   return `Apply ONLY these additional rewrite instructions (no other goals):\n${lines.join("\n")}\n\n`;
 }
 
-function buildRewritePrompt(params: {
+function buildRewritePrompt(presetText: PresetText, params: {
   inputText: string;
   styleText?: string;
   contentMixText?: string;
@@ -135,7 +66,7 @@ But the real solution is clear. First of all, it is only principled generalizati
   }
 
   // <<< PRESETS/APPLIED INSTRUCTIONS HERE >>>
-  prompt += buildPresetBlock(params.selectedPresets, params.customInstructions);
+  prompt += buildPresetBlock(presetText, params.selectedPresets, params.customInstructions);
 
   prompt += `Text to rewrite:\n"${params.inputText}"`;
   return prompt;
@@ -148,48 +79,31 @@ export interface RewriteParams {
   customInstructions?: string;
   selectedPresets?: string[];
   mixingMode?: 'style' | 'content' | 'both';
+  presets?: Record<string, string>;   // rewrite_presets version to apply; the active one is loaded when omitted
 }
 
-// Provider priority order for failover (most preferred first)
-const PROVIDER_PRIORITY = ['anthropic', 'openai', 'deepseek', 'grok'] as const;
-
-// Check if a provider is configured (has API key)
-function isProviderConfigured(provider: string): boolean {
-  switch (provider) {
-    case 'openai': return !!process.env.OPENAI_API_KEY;
-    case 'anthropic': return !!process.env.ANTHROPIC_API_KEY;
-    case 'deepseek': return !!process.env.DEEPSEEK_API_KEY;
-    case 'grok': return !!process.env.GROK_API_KEY;
-    case 'perplexity': return !!process.env.PERPLEXITY_API_KEY;
-    default: return false;
+export class AIProviderService {
+  // Build provider order: preferred first (if configured), then others.
+  // A ZHI 6 (local) preference or LOCAL_LLM_ONLY keeps failover on-premises.
+  private getProviderOrder(preferredProvider?: string): string[] {
+    return getFailoverOrder(preferredProvider);
   }
-}
-
-// Get configured providers in priority order
-function getConfiguredProviders(): string[] {
-  return PROVIDER_PRIORITY.filter(p => isProviderConfigured(p));
-}
 
-export class AIProviderService {
   // Automatic failover: tries providers in sequence until one succeeds
   async rewriteWithFailover(params: RewriteParams, preferredProvider?: string): Promise<string> {
-    const configuredProviders = getConfiguredProviders();
-    
-    if (configuredProviders.length === 0) {
-      throw new Error('No AI providers are configured. Please add API keys.');
-    }
-    
-    // Build provider order: preferred first (if configured), then others
-    let providerOrder: string[];
-    if (preferredProvider && isProviderConfigured(preferredProvider)) {
-      providerOrder = [preferredProvider, ...configuredProviders.filter(p => p !== preferredProvider)];
-    } else {
-      providerOrder = configuredProviders;
-    }
+    const providerOrder = this.getProviderOrder(preferredProvider);
     
     let lastError: Error | null = null;
+    let attempted = 0;
     
     for (const provider of providerOrder) {
+      // Skip providers whose circuit breaker is open
+      const attempt = canAttempt(provider);
+      if (!attempt.allowed) {
+        console.log(`⏭️ Skipping provider ${provider} (circuit open)`);
+        continue;
+      }
+      attempted++;
       try {
         console.log(`🔄 Trying provider: ${provider}`);
         const result = await this.rewriteSingle(provider, params);
@@ -199,199 +113,98 @@ export class AIProviderService {
         console.warn(`⚠️ Provider ${provider} failed: ${error.message}`);
         lastError = error;
         // Continue to next provider
+      } finally {
+        if (attempt.trial) releaseTrial(provider);
       }
     }
     
+    if (attempted === 0) {
+      throw new Error('All AI providers are temporarily unavailable (circuit open). Please try again shortly.');
+    }
+    
     // All providers failed
     throw new Error(`All AI providers failed. Last error: ${lastError?.message}`);
   }
   
   // Single provider call (internal use)
   private async rewriteSingle(provider: string, params: RewriteParams): Promise<string> {
-    switch (provider) {
-      case 'openai': return await this.rewriteWithOpenAI(params);
-      case 'anthropic': return await this.rewriteWithAnthropic(params);
-      case 'deepseek': return await this.rewriteWithDeepSeek(params);
-      case 'grok': return await this.rewriteWithGrok(params);
-      case 'perplexity': return await this.rewriteWithPerplexity(params);
-      default: throw new Error(`Unknown provider: ${provider}`);
-    }
-  }
-
-  async rewriteWithOpenAI(params: RewriteParams): Promise<string> {
-    console.log("🔥 CALLING OPENAI API - Input length:", params.inputText?.length || 0);
-    const prompt = buildRewritePrompt({
+    const providerId = resolveProvider(provider);
+    const presetText = params.presets || (await getPromptJson<PresetText>('rewrite_presets')).value;
+    const prompt = buildRewritePrompt(presetText, {
       inputText: params.inputText,
       styleText: params.styleText,
       contentMixText: params.contentMixText,
       selectedPresets: params.selectedPresets,
       customInstructions: params.customInstructions,
     });
-    console.log("🔥 User prompt length:", prompt.length);
-    
-    try {
-      console.log("🔥 About to make OpenAI API call...");
-      const response = await getOpenAI().chat.completions.create({
-        model: DEFAULT_OPENAI_MODEL,
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 4000,
-      });
+    console.log(`🔥 CALLING ${providerId.toUpperCase()} - Input length: ${params.inputText?.length || 0}, prompt length: ${prompt.length}`);
 
-      console.log("🔥 OpenAI response received, length:", response.choices[0].message.content?.length || 0);
-      return this.cleanMarkup(response.choices[0].message.content || "");
-    } catch (error: any) {
-      console.error("🔥 OpenAI API ERROR:", error);
-      throw new Error(`OpenAI API error: ${error.message}`);
-    }
-  }
-
-  async rewriteWithAnthropic(params: RewriteParams): Promise<string> {
-    console.log("🔥 CALLING ANTHROPIC API - Input length:", params.inputText?.length || 0);
-    const prompt = buildRewritePrompt({
-      inputText: params.inputText,
-      styleText: params.styleText,
-      contentMixText: params.contentMixText,
-      selectedPresets: params.selectedPresets,
-      customInstructions: params.customInstructions,
+    const text = await callProviderChat(providerId, [{ role: "user", content: prompt }], {
+      temperature: 0.7,
+      maxTokens: 4000,
     });
-    console.log("🔥 User prompt length:", prompt.length);
-    
-    try {
-      console.log("🔥 About to make Anthropic API call...");
-      const response = await getAnthropic().messages.create({
-        model: DEFAULT_ANTHROPIC_MODEL,
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 4000,
-        temperature: 0.7,
-      });
-
-      const textBlock = response.content[0];
-      const text = textBlock.type === 'text' ? textBlock.text : '';
-      console.log("🔥 Anthropic response received, length:", text?.length || 0);
-      return this.cleanMarkup(text || "");
-    } catch (error: any) {
-      console.error("🔥 ANTHROPIC API ERROR:", error);
-      throw new Error(`Anthropic API error: ${error.message}`);
-    }
+    return this.cleanMarkup(text);
   }
 
-  async rewriteWithPerplexity(params: RewriteParams): Promise<string> {
-    const prompt = buildRewritePrompt({
-      inputText: params.inputText,
-      styleText: params.styleText,
-      contentMixText: params.contentMixText,
-      selectedPresets: params.selectedPresets,
-      customInstructions: params.customInstructions,
-    });
+  // Streaming failover: yields text deltas. A provider can only be swapped
+  // out before its first delta - once text has reached the caller, errors propagate.
+  async *streamWithFailover(messages: ChatMessage[], options: ChatOptions = {}, preferredProvider?: string): AsyncGenerator<string> {
+    const providerOrder = this.getProviderOrder(preferredProvider);
     
-    try {
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: "llama-3.1-sonar-small-128k-online",
-          messages: [
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Perplexity API error: ${response.statusText}`);
+    let lastError: Error | null = null;
+    let attempted = 0;
+    
+    for (const provider of providerOrder) {
+      const attempt = canAttempt(provider);
+      if (!attempt.allowed) {
+        console.log(`⏭️ Skipping provider ${provider} (circuit open)`);
+        continue;
+      }
+      attempted++;
+      let emitted = false;
+      try {
+        console.log(`🔄 Streaming from provider: ${provider}`);
+        for await (const delta of streamProviderChat(provider, messages, options)) {
+          emitted = true;
+          yield delta;
+        }
+        console.log(`✅ Stream complete with provider: ${provider}`);
+        return;
+      } catch (error: any) {
+        // Mid-stream failures and caller aborts are not retried on another provider
+        if (emitted || options.signal?.aborted) {
+          throw error;
+        }
+        console.warn(`⚠️ Provider ${provider} failed before streaming: ${error.message}`);
+        lastError = error;
+      } finally {
+        if (attempt.trial) releaseTrial(provider);
       }
-
-      const data = await response.json();
-      return this.cleanMarkup(data.choices[0].message.content || "");
-    } catch (error: any) {
-      throw new Error(`Perplexity API error: ${error.message}`);
     }
-  }
-
-  async rewriteWithDeepSeek(params: RewriteParams): Promise<string> {
-    const prompt = buildRewritePrompt({
-      inputText: params.inputText,
-      styleText: params.styleText,
-      contentMixText: params.contentMixText,
-      selectedPresets: params.selectedPresets,
-      customInstructions: params.customInstructions,
-    });
     
-    try {
-      const response = await fetch('https://api.deepseek.com/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: [
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`DeepSeek API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return this.cleanMarkup(data.choices[0].message.content || "");
-    } catch (error: any) {
-      throw new Error(`DeepSeek API error: ${error.message}`);
+    if (attempted === 0) {
+      throw new Error('All AI providers are temporarily unavailable (circuit open). Please try again shortly.');
     }
+    
+    throw new Error(`All AI providers failed. Last error: ${lastError?.message}`);
   }
 
-  async rewriteWithGrok(params: RewriteParams): Promise<string> {
-    const prompt = buildRewritePrompt({
+  // Streaming rewrite - yields raw deltas; callers clean markup on the joined text
+  async *rewriteStream(provider: string, params: RewriteParams, signal?: AbortSignal): AsyncGenerator<string> {
+    console.log(`🔥 STREAMING REWRITE REQUEST - Provider: ${provider}, Input length: ${params.inputText?.length || 0}`);
+    const presetText = params.presets || (await getPromptJson<PresetText>('rewrite_presets')).value;
+    const prompt = buildRewritePrompt(presetText, {
       inputText: params.inputText,
       styleText: params.styleText,
       contentMixText: params.contentMixText,
       selectedPresets: params.selectedPresets,
       customInstructions: params.customInstructions,
     });
-    
-    try {
-      const response = await fetch('https://api.x.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: "grok-3-latest",
-          messages: [
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Grok API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return this.cleanMarkup(data.choices[0].message.content || "");
-    } catch (error: any) {
-      throw new Error(`Grok API error: ${error.message}`);
-    }
+    yield* this.streamWithFailover([{ role: "user", content: prompt }], {
+      temperature: 0.7,
+      maxTokens: 4000,
+      signal,
+    }, provider);
   }
 
   // Main rewrite method - uses automatic failover
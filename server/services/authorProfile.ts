@@ -0,0 +1,309 @@
+/**
+ * Longitudinal Author Profile
+ *
+ * Every analysis a signed-in user runs is stored in `analyses` (with its
+ * per-dimension scores), logged as an "analyze" activity, and folded into running statistics on the user's
+ * `cognitive_profiles` row, so the profile never needs a full rescan. The
+ * profile view adds trend lines per dimension, computed from the stored
+ * analyses, and the user's strongest and weakest traits.
+ */
+
+import { storage } from '../storage';
+import type { Analysis } from '@shared/schema';
+
+const MIN_TREND_POINTS = 3;
+const STABLE_SLOPE = 2;           // points per 30 days below which a trend counts as stable
+const MAX_TREND_POINTS = 100;     // most recent points returned per dimension
+const TRAIT_COUNT = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dimension labels for the built-in evaluation types; the same labels batch exports use
+export const EVALUATION_TYPE_LABELS: Record<string, string> = {
+  intelligence: 'Intelligence',
+  originality: 'Originality',
+  cogency: 'Cogency',
+  overall_quality: 'Overall quality',
+};
+
+export interface AnalysisRecord {
+  text: string;
+  evaluationType: string;
+  provider: string;
+  overallScore: number;
+  scores: Record<string, number>;   // dimension label -> 0-100 score
+  summary?: string;
+  filename?: string;
+}
+
+// Welford accumulator: mean and variance without keeping every score
+export interface RunningStat {
+  count: number;
+  mean: number;
+  m2: number;
+  min: number;
+  max: number;
+  last: number;
+  lastAt: string;
+}
+
+// Stored in cognitive_profiles.learning_behavior
+export interface ProfileStatistics {
+  analyses: number;
+  firstAnalysisAt: string;
+  lastAnalysisAt: string;
+  overall: RunningStat;
+  dimensions: Record<string, RunningStat>;
+  evaluationTypes: Record<string, number>;
+  providers: Record<string, number>;
+}
+
+export interface DimensionTrend {
+  direction: 'improving' | 'declining' | 'stable' | 'insufficient';
+  slopePer30Days: number | null;
+  points: Array<{ date: string; score: number }>;
+}
+
+export interface DimensionProfile {
+  name: string;
+  count: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  latest: number;
+  trend: DimensionTrend;
+}
+
+export interface AuthorProfile {
+  userId: number;
+  analyses: number;
+  firstAnalysisAt: string | null;
+  lastAnalysisAt: string | null;
+  overall: DimensionProfile | null;
+  dimensions: DimensionProfile[];
+  strongestTraits: string[];
+  weakestTraits: string[];
+  evaluationTypes: Record<string, number>;
+  preferredProvider: string | null;
+  lastUpdated: string | null;
+}
+
+// Profile updates are read-modify-write, so each user's updates run one at a time
+const pendingUpdates = new Map<number, Promise<void>>();
+
+function foldScore(stat: RunningStat | undefined, score: number, at: string): RunningStat {
+  if (!stat) {
+    return { count: 1, mean: score, m2: 0, min: score, max: score, last: score, lastAt: at };
+  }
+  const count = stat.count + 1;
+  const delta = score - stat.mean;
+  const mean = stat.mean + delta / count;
+  return {
+    count,
+    mean,
+    m2: stat.m2 + delta * (score - mean),
+    min: Math.min(stat.min, score),
+    max: Math.max(stat.max, score),
+    last: score,
+    lastAt: at
+  };
+}
+
+function foldAnalysis(statistics: ProfileStatistics | null, record: Pick<AnalysisRecord, 'evaluationType' | 'provider' | 'overallScore' | 'scores'>, at: string): ProfileStatistics {
+  const current = statistics || {
+    analyses: 0,
+    firstAnalysisAt: at,
+    lastAnalysisAt: at,
+    overall: undefined as unknown as RunningStat,
+    dimensions: {},
+    evaluationTypes: {},
+    providers: {}
+  };
+  const dimensions = { ...current.dimensions };
+  for (const [name, score] of Object.entries(record.scores)) {
+    if (Number.isFinite(score)) dimensions[name] = foldScore(dimensions[name], score, at);
+  }
+  return {
+    analyses: current.analyses + 1,
+    firstAnalysisAt: current.firstAnalysisAt,
+    lastAnalysisAt: at,
+    overall: foldScore(current.overall, record.overallScore, at),
+    dimensions,
+    evaluationTypes: { ...current.evaluationTypes, [record.evaluationType]: (current.evaluationTypes[record.evaluationType] || 0) + 1 },
+    providers: { ...current.providers, [record.provider]: (current.providers[record.provider] || 0) + 1 }
+  };
+}
+
+function mostFrequent(counts: Record<string, number>): string | null {
+  const entries = Object.entries(counts);
+  if (entries.length === 0) return null;
+  return entries.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+async function saveStatistics(userId: number, statistics: ProfileStatistics): Promise<void> {
+  await storage.updateCognitiveProfile(userId, {
+    learningBehavior: statistics,
+    totalDocumentsProcessed: statistics.analyses,
+    preferredAIProvider: mostFrequent(statistics.providers)
+  });
+}
+
+async function recordAnalysis(userId: number, record: AnalysisRecord): Promise<void> {
+  const document = await storage.createDocument({
+    content: record.text,
+    filename: record.filename,
+    userId,
+    wordCount: record.text.trim().split(/\s+/).filter(Boolean).length
+  });
+  await storage.logActivity({
+    userId,
+    activityType: 'analyze',
+    activityData: { evaluationType: record.evaluationType, provider: record.provider, overallScore: record.overallScore },
+    documentId: document.id
+  });
+  const analysis = await storage.createAnalysis({
+    documentId: document.id,
+    userId,
+    summary: record.summary || `${record.evaluationType} evaluation`,
+    overallScore: Math.round(record.overallScore),
+    overallAssessment: record.evaluationType,
+    dimensions: record.scores,
+    cognitivePatterns: { evaluationType: record.evaluationType, provider: record.provider }
+  });
+
+  const profile = await storage.getCognitiveProfile(userId);
+  const statistics = foldAnalysis(profile?.learningBehavior ?? null, record, new Date(analysis.createdAt).toISOString());
+  await saveStatistics(userId, statistics);
+}
+
+/**
+ * Store an analysis and fold it into the user's profile. Runs in the
+ * background and never throws: a profile failure must not fail the analysis.
+ */
+export function recordUserAnalysis(userId: number | undefined, record: AnalysisRecord): void {
+  if (!userId || !Number.isFinite(record.overallScore)) return;
+
+  const previous = pendingUpdates.get(userId) || Promise.resolve();
+  const update = previous
+    .then(() => recordAnalysis(userId, record))
+    .catch(error => console.warn(`⚠️ Author profile update failed for user ${userId}:`, error.message));
+  pendingUpdates.set(userId, update);
+  update.finally(() => {
+    if (pendingUpdates.get(userId) === update) pendingUpdates.delete(userId);
+  });
+}
+
+// Least-squares slope of score against time, in points per 30 days
+function fitTrend(points: Array<{ date: string; score: number }>): DimensionTrend {
+  const recent = points.slice(-MAX_TREND_POINTS);
+  if (points.length < MIN_TREND_POINTS) {
+    return { direction: 'insufficient', slopePer30Days: null, points: recent };
+  }
+  const xs = points.map(p => new Date(p.date).getTime() / DAY_MS);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = points.reduce((a, p) => a + p.score, 0) / points.length;
+  let sxy = 0;
+  let sxx = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - meanX) * (points[i].score - meanY);
+    sxx += (x - meanX) ** 2;
+  });
+  // All analyses at the same moment: no time axis to fit against
+  if (sxx === 0) return { direction: 'stable', slopePer30Days: 0, points: recent };
+
+  const slope = (sxy / sxx) * 30;
+  const direction = Math.abs(slope) < STABLE_SLOPE ? 'stable' : slope > 0 ? 'improving' : 'declining';
+  return { direction, slopePer30Days: Math.round(slope * 10) / 10, points: recent };
+}
+
+function describeDimension(name: string, stat: RunningStat, points: Array<{ date: string; score: number }>): DimensionProfile {
+  return {
+    name,
+    count: stat.count,
+    mean: Math.round(stat.mean * 10) / 10,
+    stdDev: stat.count > 1 ? Math.round(Math.sqrt(stat.m2 / (stat.count - 1)) * 10) / 10 : 0,
+    min: stat.min,
+    max: stat.max,
+    latest: stat.last,
+    trend: fitTrend(points)
+  };
+}
+
+function rebuildStatistics(history: Analysis[]): ProfileStatistics | null {
+  let statistics: ProfileStatistics | null = null;
+  for (const analysis of history) {
+    const patterns = (analysis.cognitivePatterns || {}) as { evaluationType?: string; provider?: string };
+    statistics = foldAnalysis(statistics, {
+      evaluationType: patterns.evaluationType || analysis.overallAssessment,
+      provider: patterns.provider || 'unknown',
+      overallScore: analysis.overallScore,
+      scores: (analysis.dimensions || {}) as Record<string, number>
+    }, analysis.createdAt.toISOString());
+  }
+  return statistics;
+}
+
+/**
+ * The user's profile: running statistics, per-dimension trends and traits.
+ */
+export async function buildAuthorProfile(userId: number): Promise<AuthorProfile> {
+  const [profile, history] = await Promise.all([
+    storage.getCognitiveProfile(userId),
+    storage.getAnalysesForUser(userId)
+  ]);
+
+  // Profiles predating the running statistics are rebuilt from the stored analyses once
+  let statistics: ProfileStatistics | null = profile?.learningBehavior?.overall ? profile.learningBehavior : null;
+  if (!statistics && history.length > 0) {
+    statistics = rebuildStatistics(history);
+    if (statistics) await saveStatistics(userId, statistics);
+  }
+
+  if (!statistics) {
+    return {
+      userId,
+      analyses: 0,
+      firstAnalysisAt: null,
+      lastAnalysisAt: null,
+      overall: null,
+      dimensions: [],
+      strongestTraits: [],
+      weakestTraits: [],
+      evaluationTypes: {},
+      preferredProvider: null,
+      lastUpdated: profile?.lastUpdated ? new Date(profile.lastUpdated).toISOString() : null
+    };
+  }
+
+  const seriesFor = (name: string | null) => history
+    .map(analysis => ({
+      date: analysis.createdAt.toISOString(),
+      score: name === null ? analysis.overallScore : (analysis.dimensions as Record<string, number> | null)?.[name]
+    }))
+    .filter((point): point is { date: string; score: number } => typeof point.score === 'number');
+
+  const dimensions = Object.entries(statistics.dimensions)
+    .map(([name, stat]) => describeDimension(name, stat, seriesFor(name)))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+  // Traits need at least two observations unless nothing has that many yet
+  const repeated = dimensions.filter(d => d.count > 1);
+  const candidates = [...(repeated.length >= 2 ? repeated : dimensions)].sort((a, b) => b.mean - a.mean);
+  const traitCount = Math.min(TRAIT_COUNT, Math.floor(candidates.length / 2));
+  const strongest = candidates.slice(0, traitCount);
+  const weakest = traitCount > 0 ? candidates.slice(-traitCount).reverse() : [];
+
+  return {
+    userId,
+    analyses: statistics.analyses,
+    firstAnalysisAt: statistics.firstAnalysisAt,
+    lastAnalysisAt: statistics.lastAnalysisAt,
+    overall: describeDimension('Overall', statistics.overall, seriesFor(null)),
+    dimensions,
+    strongestTraits: strongest.map(d => d.name),
+    weakestTraits: weakest.map(d => d.name),
+    evaluationTypes: statistics.evaluationTypes,
+    preferredProvider: mostFrequent(statistics.providers),
+    lastUpdated: profile?.lastUpdated ? new Date(profile.lastUpdated).toISOString() : null
+  };
+}
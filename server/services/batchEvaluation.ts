@@ -0,0 +1,496 @@
+/**
+ * Batch Evaluation
+ *
+ * Scores many uploaded documents (individual files or a zip archive) with one
+ * evaluation. Documents are stored as batch items and evaluated in the
+ * background with bounded concurrency; each item's result is written as soon
+ * as it finishes, so progress survives a restart and unfinished jobs are
+ * resumed on startup. Finished jobs export to XLSX or CSV with per-dimension
+ * scores and a link to each full report.
+ */
+
+import path from 'path';
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import type { BatchItem, BatchJob, User } from '@shared/schema';
+import { storage } from '../storage';
+import { extractTextFromFile } from '../api/documentParser';
+import { type ProviderId } from './providerRegistry';
+import { mapWithConcurrency } from './rateScheduler';
+import { resolveRubric, parseRubricEvaluationType, executeRubricProtocol } from './rubricEvaluation';
+import { recordUserAnalysis } from './authorProfile';
+import { logUserActivity } from './userAnalytics';
+import { runWithUsageContext } from './usageMeter';
+
+export const BATCH_EVALUATIONS = ['quick', 'cognitive', 'originality', 'case', 'fiction'] as const;
+export type BatchEvaluation = typeof BATCH_EVALUATIONS[number];
+
+export const MAX_BATCH_DOCUMENTS = Math.max(1, parseInt(process.env.BATCH_MAX_DOCUMENTS || '200'));
+const BATCH_CONCURRENCY = Math.max(1, parseInt(process.env.BATCH_CONCURRENCY || '3'));
+const MAX_BATCH_UNCOMPRESSED_BYTES = Math.max(1, parseInt(process.env.BATCH_MAX_UNCOMPRESSED_MB || '200')) * 1024 * 1024;
+// Whole upload request; uploads are buffered in memory
+export const MAX_BATCH_UPLOAD_BYTES = Math.max(1, parseInt(process.env.BATCH_MAX_UPLOAD_MB || '100')) * 1024 * 1024;
+const SUPPORTED_EXTENSIONS = ['.txt', '.docx', '.pdf'];
+
+export class BatchRequestError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BatchRequestError';
+  }
+}
+
+export interface BatchDocument {
+  filename: string;
+  content: string;
+}
+
+export interface SkippedBatchFile {
+  filename: string;
+  reason: string;
+}
+
+interface BatchItemResult {
+  overallScore: number;
+  scores: Record<string, number>;   // column label -> score
+  report: string;
+}
+
+type BatchEvaluator = (text: string) => Promise<BatchItemResult>;
+
+const FICTION_DIMENSIONS = [
+  { key: 'worldCoherence', label: 'World coherence' },
+  { key: 'emotionalPlausibility', label: 'Emotional plausibility' },
+  { key: 'thematicDepth', label: 'Thematic depth' },
+  { key: 'narrativeStructure', label: 'Narrative structure' },
+  { key: 'proseControl', label: 'Prose control' },
+] as const;
+
+// Jobs being evaluated by this process, and jobs asked to stop
+const activeJobs = new Set<number>();
+const cancelledJobs = new Set<number>();
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function isZip(file: Express.Multer.File): boolean {
+  return path.extname(file.originalname).toLowerCase() === '.zip' || file.mimetype === 'application/zip';
+}
+
+const expansionError = () =>
+  new BatchRequestError(`Zip archives may expand to at most ${MAX_BATCH_UNCOMPRESSED_BYTES / (1024 * 1024)} MB`);
+
+/**
+ * Inflate one archive entry, giving up as soon as its output passes `budget`
+ * bytes. Entries are streamed because the size an archive declares can lie.
+ */
+async function readEntry(entry: JSZip.JSZipObject, budget: number): Promise<Buffer> {
+  const stream = entry.nodeStream('nodebuffer');
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let done = false;
+    const finish = (error: Error | null) => {
+      if (done) return;
+      done = true;
+      if (error) reject(error);
+      else resolve(Buffer.concat(chunks, size));
+    };
+    stream.on('data', (chunk: Buffer) => {
+      if (done) return;
+      size += chunk.length;
+      if (size > budget) {
+        // Pausing lets JSZip's buffer fill, which stops the inflater; the
+        // listeners stay so its late size-mismatch error is swallowed
+        stream.pause();
+        finish(expansionError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', finish);
+    stream.on('end', () => finish(null));
+  });
+}
+
+async function extractDocument(filename: string, buffer: Buffer, mimetype: string): Promise<string> {
+  const file = { originalname: filename, buffer, mimetype, size: buffer.length } as Express.Multer.File;
+  const document = await extractTextFromFile(file);
+  return document.content;
+}
+
+/**
+ * Extract the text of every supported document in the upload. Zip archives
+ * are expanded; unsupported or unreadable files are reported rather than failing the batch.
+ * The document cap is checked before anything is read, and each archive
+ * entry is inflated as a stream that stops as soon as the total output
+ * passes the size cap.
+ */
+export async function extractBatchDocuments(files: Express.Multer.File[]): Promise<{ documents: BatchDocument[]; skipped: SkippedBatchFile[] }> {
+  const documents: BatchDocument[] = [];
+  const skipped: SkippedBatchFile[] = [];
+  let uncompressedBytes = 0;
+
+  const tooMany = (count: number) =>
+    new BatchRequestError(`A batch can contain at most ${MAX_BATCH_DOCUMENTS} documents (got at least ${count})`);
+  // Every plain file is a document; archive entries are added as each archive is opened
+  let expected = files.filter(file => !isZip(file)).length;
+  if (expected > MAX_BATCH_DOCUMENTS) throw tooMany(expected);
+
+  const addDocument = async (filename: string, buffer: Buffer, mimetype: string) => {
+    if (!SUPPORTED_EXTENSIONS.includes(path.extname(filename).toLowerCase())) {
+      skipped.push({ filename, reason: `unsupported file type (supported: ${SUPPORTED_EXTENSIONS.join(', ')})` });
+      return;
+    }
+    try {
+      const content = await extractDocument(filename, buffer, mimetype);
+      if (!content.trim()) {
+        skipped.push({ filename, reason: 'no text found' });
+        return;
+      }
+      documents.push({ filename, content });
+    } catch (error: any) {
+      skipped.push({ filename, reason: error.message || 'could not be read' });
+    }
+  };
+
+  for (const file of files) {
+    if (!isZip(file)) {
+      await addDocument(file.originalname, file.buffer, file.mimetype);
+      continue;
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(file.buffer);
+    } catch {
+      skipped.push({ filename: file.originalname, reason: 'not a valid zip archive' });
+      continue;
+    }
+    // Skip folders and archive metadata such as __MACOSX/ and .DS_Store
+    const entries = Object.values(zip.files)
+      .filter(entry => !entry.dir && !entry.name.split('/').some(part => part.startsWith('.') || part === '__MACOSX'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    expected += entries.length;
+    if (expected > MAX_BATCH_DOCUMENTS) throw tooMany(expected);
+    for (const entry of entries) {
+      const buffer = await readEntry(entry, MAX_BATCH_UNCOMPRESSED_BYTES - uncompressedBytes);
+      uncompressedBytes += buffer.length;
+      await addDocument(entry.name, buffer, '');
+    }
+  }
+
+  return { documents, skipped };
+}
+
+/**
+ * Check the evaluation name against the user's access. Accepts the built-in
+ * evaluations and "rubric:<id>" for a rubric the user can read.
+ */
+export async function validateBatchEvaluation(evaluation: unknown, user: User): Promise<string> {
+  if (typeof evaluation === 'string' && (BATCH_EVALUATIONS as readonly string[]).includes(evaluation)) {
+    return evaluation;
+  }
+  if (await resolveRubric(evaluation, user)) {
+    return evaluation as string;
+  }
+  throw new BatchRequestError(`Invalid evaluation. Must be one of: ${BATCH_EVALUATIONS.join(', ')}, rubric:<id>`);
+}
+
+async function getEvaluator(evaluation: string, provider: ProviderId): Promise<BatchEvaluator> {
+  const rubricId = parseRubricEvaluationType(evaluation);
+  if (rubricId !== null) {
+    const rubric = await storage.getRubric(rubricId);
+    if (!rubric) throw new Error(`Rubric ${rubricId} no longer exists`);
+    return async (text) => {
+      const result = await executeRubricProtocol(text, provider, rubric);
+      return {
+        overallScore: result.overallScore,
+        scores: Object.fromEntries(result.dimensions.map(d => [d.name, d.score])),
+        report: result.formattedReport
+      };
+    };
+  }
+
+  switch (evaluation as BatchEvaluation) {
+    case 'quick': {
+      const { performQuickAnalysis } = await import('./quickAnalysis');
+      return async (text) => {
+        const result = await performQuickAnalysis(text, provider, 'intelligence');
+        return { overallScore: result.intelligence_score, scores: { Intelligence: result.intelligence_score }, report: result.analysis };
+      };
+    }
+    case 'cognitive':
+    case 'originality': {
+      const { executeFourPhaseProtocol } = await import('./fourPhaseProtocol');
+      const evaluationType = evaluation === 'cognitive' ? 'intelligence' : 'originality';
+      const label = evaluation === 'cognitive' ? 'Intelligence' : 'Originality';
+      return async (text) => {
+        const result = await executeFourPhaseProtocol(text, provider, evaluationType);
+        return { overallScore: result.overallScore, scores: { [label]: result.overallScore }, report: result.formattedReport };
+      };
+    }
+    case 'case': {
+      const { performCaseAssessment, CASE_DIMENSIONS } = await import('./caseAssessment');
+      return async (text) => {
+        const result = await performCaseAssessment(text, provider);
+        return {
+          overallScore: result.overallCaseScore,
+          scores: Object.fromEntries(CASE_DIMENSIONS.map(d => [d.label, result[d.key]])),
+          report: result.detailedAssessment
+        };
+      };
+    }
+    case 'fiction': {
+      const { performFictionAssessment } = await import('./fictionAssessment');
+      return async (text) => {
+        const result = await performFictionAssessment(text, provider);
+        return {
+          overallScore: result.overallFictionScore,
+          scores: {
+            ...Object.fromEntries(FICTION_DIMENSIONS.map(d => [d.label, result[d.key]])),
+            'Overall fiction score': result.overallFictionScore
+          },
+          report: result.detailedAssessment
+        };
+      };
+    }
+    default:
+      throw new Error(`Unknown batch evaluation: ${evaluation}`);
+  }
+}
+
+/**
+ * Store the documents as a new job and start evaluating them in the background.
+ */
+export async function createBatchJob(
+  user: User,
+  evaluation: string,
+  provider: ProviderId,
+  documents: BatchDocument[]
+): Promise<BatchJob> {
+  if (documents.length === 0) {
+    throw new BatchRequestError('No readable documents in the upload');
+  }
+  if (documents.length > MAX_BATCH_DOCUMENTS) {
+    throw new BatchRequestError(`A batch can contain at most ${MAX_BATCH_DOCUMENTS} documents (got ${documents.length})`);
+  }
+
+  const job = await storage.createBatchJob(
+    { userId: user.id, evaluation, provider, status: 'pending' },
+    documents.map((document, i) => ({
+      position: i + 1,
+      filename: document.filename,
+      content: document.content,
+      wordCount: countWords(document.content),
+      status: 'pending'
+    }))
+  );
+  console.log(`📦 Batch ${job.id}: ${documents.length} document(s) queued for ${evaluation} with ${provider}`);
+  logUserActivity(user.id, 'batch', { jobId: job.id, evaluation, provider, documents: documents.length });
+
+  runBatchJob(job.id).catch(error => console.error(`❌ Batch ${job.id} failed:`, error));
+  return job;
+}
+
+async function runBatchJob(jobId: number): Promise<void> {
+  if (activeJobs.has(jobId)) return;
+  activeJobs.add(jobId);
+
+  try {
+    const job = await storage.getBatchJob(jobId);
+    if (!job || job.status === 'cancelled') return;
+
+    await storage.resetRunningBatchItems(jobId);
+    const items = await storage.getBatchItems(jobId);
+    let completedItems = items.filter(item => item.status === 'completed').length;
+    let failedItems = items.filter(item => item.status === 'failed').length;
+    const pending = items.filter(item => item.status === 'pending');
+
+    await storage.updateBatchJob(jobId, { status: 'running', startedAt: job.startedAt ?? new Date() });
+
+    let evaluate: BatchEvaluator;
+    try {
+      evaluate = await getEvaluator(job.evaluation, job.provider as ProviderId);
+    } catch (error: any) {
+      await storage.updateBatchJob(jobId, { status: 'failed', error: error.message, completedAt: new Date() });
+      return;
+    }
+
+    // Items never throw here, so one bad document does not stop the batch
+    await mapWithConcurrency(pending, BATCH_CONCURRENCY, async (item) => {
+      if (cancelledJobs.has(jobId)) return;
+      await storage.updateBatchItem(item.id, { status: 'running' });
+      try {
+        const result = await evaluate(item.content);
+        await storage.updateBatchItem(item.id, {
+          status: 'completed',
+          overallScore: Math.round(result.overallScore),
+          scores: result.scores,
+          report: result.report,
+          error: null,
+          completedAt: new Date()
+        });
+        recordUserAnalysis(job.userId, {
+          text: item.content,
+          evaluationType: job.evaluation,
+          provider: job.provider,
+          overallScore: Math.round(result.overallScore),
+          scores: result.scores,
+          filename: item.filename
+        });
+        completedItems++;
+      } catch (error: any) {
+        console.warn(`⚠️ Batch ${jobId}: ${item.filename} failed - ${error.message}`);
+        await storage.updateBatchItem(item.id, { status: 'failed', error: error.message, completedAt: new Date() });
+        failedItems++;
+      }
+      await storage.updateBatchJob(jobId, { completedItems, failedItems });
+    });
+
+    // Items that never started stay pending; cancelled jobs are not resumed
+    const cancelled = cancelledJobs.has(jobId);
+    await storage.updateBatchJob(jobId, {
+      status: cancelled ? 'cancelled' : 'completed',
+      completedItems,
+      failedItems,
+      completedAt: new Date()
+    });
+    console.log(`✅ Batch ${jobId} ${cancelled ? 'cancelled' : 'completed'}: ${completedItems} scored, ${failedItems} failed`);
+  } catch (error: any) {
+    await storage.updateBatchJob(jobId, { status: 'failed', error: error.message, completedAt: new Date() }).catch(() => {});
+    throw error;
+  } finally {
+    activeJobs.delete(jobId);
+    cancelledJobs.delete(jobId);
+  }
+}
+
+/**
+ * Stop a job. Documents already being evaluated finish; the rest are left unscored.
+ */
+export async function cancelBatchJob(job: BatchJob): Promise<BatchJob | undefined> {
+  if (job.status !== 'pending' && job.status !== 'running') {
+    throw new BatchRequestError(`Batch ${job.id} is already ${job.status}`, 409);
+  }
+  if (activeJobs.has(job.id)) {
+    cancelledJobs.add(job.id);
+  }
+  return storage.updateBatchJob(job.id, { status: 'cancelled', completedAt: new Date() });
+}
+
+/**
+ * Pick up jobs that were pending or running when the server stopped.
+ */
+export async function resumeBatchJobs(): Promise<void> {
+  try {
+    const jobs = await storage.getUnfinishedBatchJobs();
+    for (const job of jobs) {
+      console.log(`📦 Resuming batch ${job.id} (${job.completedItems + job.failedItems}/${job.totalItems} done)`);
+      // No request to inherit from: attribute the resumed calls to the job's owner
+      const owner = await storage.getUser(job.userId);
+      const context = { userId: job.userId, username: owner?.username, endpoint: 'POST /api/batch-jobs', jobId: `batch-${job.id}` };
+      runWithUsageContext(context, () => runBatchJob(job.id))
+        .catch(error => console.error(`❌ Batch ${job.id} failed:`, error));
+    }
+  } catch (error: any) {
+    console.error('❌ Could not resume batch jobs:', error.message);
+  }
+}
+
+// Dimension columns in first-seen order across the job's results
+function dimensionColumns(items: BatchItem[]): string[] {
+  const columns: string[] = [];
+  for (const item of items) {
+    for (const key of Object.keys(item.scores || {})) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return columns;
+}
+
+export function batchReportUrl(baseUrl: string, item: BatchItem): string {
+  return `${baseUrl}/api/batch-jobs/${item.jobId}/items/${item.id}/report`;
+}
+
+/**
+ * Workbook with one row per document: overall and per-dimension scores and a
+ * hyperlink to the full report, plus a summary sheet.
+ */
+export async function buildBatchWorkbook(job: BatchJob, items: BatchItem[], baseUrl: string): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const dimensions = dimensionColumns(items);
+
+  const sheet = workbook.addWorksheet('Results');
+  sheet.columns = [
+    { header: '#', key: 'position', width: 6 },
+    { header: 'File', key: 'filename', width: 40 },
+    { header: 'Words', key: 'wordCount', width: 10 },
+    { header: 'Status', key: 'status', width: 12 },
+    { header: 'Overall Score', key: 'overallScore', width: 14 },
+    ...dimensions.map(label => ({ header: label, key: `dim:${label}`, width: Math.max(14, label.length + 2) })),
+    { header: 'Full Report', key: 'report', width: 16 },
+    { header: 'Error', key: 'error', width: 40 },
+  ];
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  for (const item of items) {
+    const row = sheet.addRow({
+      position: item.position,
+      filename: item.filename,
+      wordCount: item.wordCount,
+      status: item.status,
+      overallScore: item.overallScore ?? undefined,
+      ...Object.fromEntries(dimensions.map(label => [`dim:${label}`, item.scores?.[label]])),
+      error: item.error ?? undefined,
+    });
+    if (item.report) {
+      const cell = row.getCell('report');
+      cell.value = { text: 'Open report', hyperlink: batchReportUrl(baseUrl, item) };
+      cell.font = { color: { argb: 'FF0563C1' }, underline: true };
+    }
+  }
+
+  const scored = items.filter(item => item.overallScore !== null).map(item => item.overallScore as number);
+  const summary = workbook.addWorksheet('Summary');
+  summary.columns = [{ key: 'label', width: 24 }, { key: 'value', width: 30 }];
+  summary.addRows([
+    { label: 'Batch', value: job.id },
+    { label: 'Evaluation', value: job.evaluation },
+    { label: 'Provider', value: job.provider },
+    { label: 'Status', value: job.status },
+    { label: 'Documents', value: job.totalItems },
+    { label: 'Scored', value: job.completedItems },
+    { label: 'Failed', value: job.failedItems },
+    { label: 'Mean overall score', value: scored.length ? Math.round(scored.reduce((a, b) => a + b, 0) / scored.length * 10) / 10 : '' },
+    { label: 'Created', value: job.createdAt.toISOString() },
+    { label: 'Completed', value: job.completedAt ? job.completedAt.toISOString() : '' },
+  ]);
+  summary.getColumn('label').font = { bold: true };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildBatchCsv(items: BatchItem[], baseUrl: string): string {
+  const dimensions = dimensionColumns(items);
+  const header = ['#', 'File', 'Words', 'Status', 'Overall Score', ...dimensions, 'Report URL', 'Error'];
+  const rows = items.map(item => [
+    item.position,
+    item.filename,
+    item.wordCount,
+    item.status,
+    item.overallScore,
+    ...dimensions.map(label => item.scores?.[label]),
+    item.report ? batchReportUrl(baseUrl, item) : '',
+    item.error
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
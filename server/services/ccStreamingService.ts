@@ -378,10 +378,6 @@ async function processJobAsync(jobId: number): Promise<void> {
         timeElapsed: elapsed,
         estimatedRemaining: remaining
       });
-      
-      if (chunk.chunkIndex < chunks.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
     }
     
     broadcastProgress(jobId, 'stitching', 'Running global consistency check...');
@@ -12,9 +12,11 @@ import type {
   InstructionalState,
   MotivationalState,
   MathematicalState,
-  PhilosophicalState
+  PhilosophicalState,
+  NarrativeState
 } from "@shared/schema";
 import { v4 as uuidv4 } from "uuid";
+import { applyNarrativeUpdate, checkNarrativeContinuity, type NarrativeStateUpdate } from "./narrativeContinuity";
 
 // Initialize state template for a given mode (using hyphenated format)
 export function createInitialState(mode: CoherenceModeType): CoherenceState {
@@ -82,6 +84,13 @@ export function createInitialState(mode: CoherenceModeType): CoherenceState {
         dialectic: { objections_raised: [], replies_pending: [] },
         no_equivocation: []
       };
+    case "narrative":
+      return {
+        mode: "narrative",
+        characters: {},
+        timeline: [],
+        setting_facts: {}
+      };
     default:
       throw new Error(`Unknown coherence mode: ${mode}`);
   }
@@ -171,6 +180,7 @@ export async function writeChunkEvaluation(
     .onConflictDoUpdate({
       target: [coherenceChunks.documentId, coherenceChunks.coherenceMode, coherenceChunks.chunkIndex],
       set: {
+        chunkText,
         evaluationResult,
         stateAfter
       }
@@ -198,10 +208,11 @@ export async function readAllChunkEvaluations(
   }));
 }
 
-// Apply state update from chunk evaluation
+// Apply state update from chunk evaluation; chunkIndex stamps facts in modes that cite where they were established
 export function applyStateUpdate(
   currentState: CoherenceState,
-  stateUpdate: Partial<CoherenceState>
+  stateUpdate: Partial<CoherenceState>,
+  chunkIndex: number = 0
 ): CoherenceState {
   const mode = currentState.mode;
   
@@ -346,6 +357,9 @@ export function applyStateUpdate(
       };
     }
     
+    case "narrative":
+      return applyNarrativeUpdate(currentState as NarrativeState, stateUpdate as NarrativeStateUpdate, chunkIndex);
+    
     default:
       return currentState;
   }
@@ -354,7 +368,8 @@ export function applyStateUpdate(
 // Check for violations based on mode
 export function checkViolations(
   state: CoherenceState,
-  stateUpdate: Partial<CoherenceState>
+  stateUpdate: Partial<CoherenceState>,
+  chunkIndex: number = 0
 ): { location: string; type: string; description: string }[] {
   const violations: { location: string; type: string; description: string }[] = [];
   
@@ -465,6 +480,10 @@ export function checkViolations(
       }
       break;
     }
+    
+    case "narrative":
+      violations.push(...checkNarrativeContinuity(state as NarrativeState, stateUpdate as NarrativeStateUpdate, chunkIndex));
+      break;
   }
   
   return violations;
@@ -0,0 +1,251 @@
+/**
+ * Version-to-version coherence diff
+ *
+ * Runs the same global coherence analysis over an original text and its
+ * rewrite, aligns the two chunk sequences by word overlap (chunks may be
+ * split, merged, inserted or dropped by the rewrite), and sorts every strain
+ * location into resolved (only in the original), introduced (only in the
+ * rewrite) or unchanged (in both). Issues are matched within aligned chunk
+ * pairs first, then across the whole document so an issue that moved to a
+ * different chunk still counts as unchanged. Analyses go through the response
+ * cache, so comparing further rewrites against the same original only pays
+ * for the new version.
+ */
+
+import { analyzeGlobalCoherence, detectCoherenceType, COHERENCE_TYPES, type ChunkCoherenceResult, type GlobalCoherenceAnalysisResult } from './coherenceMeter';
+import { withResponseCache } from './responseCache';
+
+const MIN_ALIGN_SIMILARITY = 0.15;   // below this two chunks are not treated as versions of each other
+const MIN_ISSUE_SIMILARITY = 0.5;    // strain locations at least this alike are the same issue
+const PREVIEW_CHARS = 160;
+
+// analyzeGlobalCoherence always runs on Anthropic
+const ANALYSIS_PROVIDER = 'anthropic';
+
+export interface CoherenceIssueChange {
+  issue: string;
+  originalChunk: number | null;
+  revisedChunk: number | null;
+  revisedIssue?: string;             // the rewrite's wording, for unchanged issues
+}
+
+export interface AlignedChunkComparison {
+  originalIndex: number | null;      // null: chunk added by the rewrite
+  revisedIndex: number | null;       // null: chunk dropped by the rewrite
+  similarity: number;
+  originalPreview: string;
+  revisedPreview: string;
+  originalScore: number | null;
+  revisedScore: number | null;
+  scoreDelta: number | null;
+  originalStatus: ChunkCoherenceResult["status"] | null;
+  revisedStatus: ChunkCoherenceResult["status"] | null;
+  resolved: string[];
+  introduced: string[];
+  unchanged: string[];
+}
+
+export interface CoherenceVersionSummary {
+  score: number;
+  assessment: "PASS" | "WEAK" | "FAIL";
+  chunkCount: number;
+}
+
+export interface CoherenceVersionDiff {
+  mode: string;
+  original: CoherenceVersionSummary;
+  revised: CoherenceVersionSummary;
+  scoreDelta: number;
+  chunks: AlignedChunkComparison[];
+  resolved: CoherenceIssueChange[];
+  introduced: CoherenceIssueChange[];
+  unchanged: CoherenceIssueChange[];
+  report: string;
+}
+
+export interface CoherenceDiffOptions {
+  coherenceType?: string;                           // a mode, or "auto-detect" to pick one from the original
+  originalAnalysis?: GlobalCoherenceAnalysisResult; // reuse an analysis of the original under the chosen mode
+  bypassCache?: boolean;
+}
+
+interface Issue {
+  text: string;
+  chunk: number;
+  words: Set<string>;
+}
+
+const contentWords = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9][a-z0-9'-]{2,}/g) || []);
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+const preview = (text: string) => text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS).trim()}…` : text;
+
+/**
+ * Order-preserving alignment of two chunk sequences that maximizes the total
+ * word overlap of the matched pairs; unmatched chunks are returned as gaps.
+ */
+export function alignChunks(original: string[], revised: string[]): { originalIndex: number | null; revisedIndex: number | null; similarity: number }[] {
+  const a = original.map(contentWords);
+  const b = revised.map(contentWords);
+  const sim = a.map(wa => b.map(wb => jaccard(wa, wb)));
+  const best = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const s = sim[i - 1][j - 1];
+      best[i][j] = Math.max(best[i - 1][j], best[i][j - 1], s >= MIN_ALIGN_SIMILARITY ? best[i - 1][j - 1] + s : 0);
+    }
+  }
+
+  const pairs: { originalIndex: number | null; revisedIndex: number | null; similarity: number }[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    const s = i > 0 && j > 0 ? sim[i - 1][j - 1] : 0;
+    if (i > 0 && j > 0 && s >= MIN_ALIGN_SIMILARITY && best[i][j] === best[i - 1][j - 1] + s) {
+      pairs.push({ originalIndex: i - 1, revisedIndex: j - 1, similarity: round(s, 3) });
+      i--; j--;
+    } else if (i > 0 && (j === 0 || best[i][j] === best[i - 1][j])) {
+      pairs.push({ originalIndex: i - 1, revisedIndex: null, similarity: 0 });
+      i--;
+    } else {
+      pairs.push({ originalIndex: null, revisedIndex: j - 1, similarity: 0 });
+      j--;
+    }
+  }
+  return pairs.reverse();
+}
+
+function collectIssues(result: GlobalCoherenceAnalysisResult): Issue[] {
+  return result.chunkResults.flatMap((r, chunk) =>
+    r.strainLocations.filter(s => s && s.trim()).map(text => ({ text, chunk, words: contentWords(text) }))
+  );
+}
+
+// Greedily pair each original issue with its most similar unused revised issue
+function matchIssues(original: Issue[], revised: Issue[], matched: Map<Issue, Issue>, used: Set<Issue>) {
+  const candidates = original.flatMap(o => revised.map(r => ({ o, r, s: jaccard(o.words, r.words) })))
+    .filter(c => c.s >= MIN_ISSUE_SIMILARITY)
+    .sort((x, y) => y.s - x.s);
+  for (const { o, r } of candidates) {
+    if (matched.has(o) || used.has(r)) continue;
+    matched.set(o, r);
+    used.add(r);
+  }
+}
+
+async function analyzeVersion(text: string, mode: string, bypassCache: boolean): Promise<GlobalCoherenceAnalysisResult> {
+  const { value } = await withResponseCache(
+    { scope: 'global-coherence', text, mode, provider: ANALYSIS_PROVIDER },
+    bypassCache,
+    () => analyzeGlobalCoherence(text, mode)
+  );
+  return value;
+}
+
+/**
+ * Analyze both versions under one coherence mode and report what the rewrite
+ * fixed, what it broke and what it left alone.
+ */
+export async function compareCoherenceVersions(
+  originalText: string,
+  revisedText: string,
+  options: CoherenceDiffOptions = {}
+): Promise<CoherenceVersionDiff> {
+  const { coherenceType = "auto-detect", bypassCache = false } = options;
+  const mode = coherenceType === "auto-detect"
+    ? await detectCoherenceType(originalText, ANALYSIS_PROVIDER)
+    : COHERENCE_TYPES.includes(coherenceType) ? coherenceType : "logical-consistency";
+
+  console.log(`🔀 Coherence diff (${mode}): analyzing original and revised versions`);
+  const [original, revised] = await Promise.all([
+    options.originalAnalysis || analyzeVersion(originalText, mode, bypassCache),
+    analyzeVersion(revisedText, mode, bypassCache)
+  ]);
+
+  const alignment = alignChunks(original.chunks, revised.chunks);
+  const originalIssues = collectIssues(original);
+  const revisedIssues = collectIssues(revised);
+  const matched = new Map<Issue, Issue>();
+  const used = new Set<Issue>();
+
+  // Same issue in the aligned chunk pair, then anywhere in the rewrite
+  for (const pair of alignment) {
+    if (pair.originalIndex === null || pair.revisedIndex === null) continue;
+    matchIssues(
+      originalIssues.filter(i => i.chunk === pair.originalIndex),
+      revisedIssues.filter(i => i.chunk === pair.revisedIndex),
+      matched,
+      used
+    );
+  }
+  matchIssues(originalIssues.filter(i => !matched.has(i)), revisedIssues.filter(i => !used.has(i)), matched, used);
+
+  const resolved: CoherenceIssueChange[] = originalIssues
+    .filter(i => !matched.has(i))
+    .map(i => ({ issue: i.text, originalChunk: i.chunk, revisedChunk: null }));
+  const introduced: CoherenceIssueChange[] = revisedIssues
+    .filter(i => !used.has(i))
+    .map(i => ({ issue: i.text, originalChunk: null, revisedChunk: i.chunk }));
+  const unchanged: CoherenceIssueChange[] = originalIssues
+    .filter(i => matched.has(i))
+    .map(i => ({ issue: i.text, originalChunk: i.chunk, revisedChunk: matched.get(i)!.chunk, revisedIssue: matched.get(i)!.text }));
+
+  const chunks: AlignedChunkComparison[] = alignment.map(pair => {
+    const o = pair.originalIndex === null ? null : original.chunkResults[pair.originalIndex];
+    const r = pair.revisedIndex === null ? null : revised.chunkResults[pair.revisedIndex];
+    return {
+      ...pair,
+      originalPreview: pair.originalIndex === null ? "" : preview(original.chunks[pair.originalIndex]),
+      revisedPreview: pair.revisedIndex === null ? "" : preview(revised.chunks[pair.revisedIndex]),
+      originalScore: o ? o.score : null,
+      revisedScore: r ? r.score : null,
+      scoreDelta: o && r ? round(r.score - o.score, 1) : null,
+      originalStatus: o ? o.status : null,
+      revisedStatus: r ? r.status : null,
+      resolved: resolved.filter(c => c.originalChunk === pair.originalIndex && pair.originalIndex !== null).map(c => c.issue),
+      introduced: introduced.filter(c => c.revisedChunk === pair.revisedIndex && pair.revisedIndex !== null).map(c => c.issue),
+      unchanged: unchanged.filter(c => c.revisedChunk === pair.revisedIndex && pair.revisedIndex !== null).map(c => c.revisedIssue || c.issue)
+    };
+  });
+
+  const scoreDelta = round(revised.overallScore - original.overallScore, 1);
+  const cite = (chunk: number | null) => chunk === null ? "" : ` [chunk ${chunk + 1}]`;
+  const report = `
+COHERENCE DIFF (${mode})
+============================================
+
+ORIGINAL: ${original.overallScore}/10 (${original.overallAssessment}), ${original.chunks.length} chunks
+REVISED: ${revised.overallScore}/10 (${revised.overallAssessment}), ${revised.chunks.length} chunks
+CHANGE: ${scoreDelta >= 0 ? "+" : ""}${scoreDelta}
+
+RESOLVED (${resolved.length}):
+${resolved.map(c => `- ${c.issue}${cite(c.originalChunk)}`).join("\n") || "- None"}
+
+INTRODUCED (${introduced.length}):
+${introduced.map(c => `- ${c.issue}${cite(c.revisedChunk)}`).join("\n") || "- None"}
+
+UNCHANGED (${unchanged.length}):
+${unchanged.map(c => `- ${c.revisedIssue || c.issue}${cite(c.revisedChunk)}`).join("\n") || "- None"}
+`.trim();
+
+  console.log(`🔀 Coherence diff (${mode}): ${resolved.length} resolved, ${introduced.length} introduced, ${unchanged.length} unchanged, score ${original.overallScore} → ${revised.overallScore}`);
+
+  return {
+    mode,
+    original: { score: original.overallScore, assessment: original.overallAssessment, chunkCount: original.chunks.length },
+    revised: { score: revised.overallScore, assessment: revised.overallAssessment, chunkCount: revised.chunks.length },
+    scoreDelta,
+    chunks,
+    resolved,
+    introduced,
+    unchanged,
+    report
+  };
+}
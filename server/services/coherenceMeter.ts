@@ -1,5 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { crossChunkReconstruct, CCReconstructionResult } from './crossChunkCoherence';
+import { createAnthropicClient } from './llmClients';
+import { callProviderChat, getChunkWordLimit } from './providerRegistry';
+import { extractLegalDiff, finalizeLegalState } from './legalCoherence';
 
 // Threshold for using Cross-Chunk Coherence system (words)
 const CC_THRESHOLD_WORDS = 1200;
@@ -174,6 +176,26 @@ export interface PhilosophicalState extends BaseCoherenceState {
   no_equivocation: string[];             // list of terms that must not silently change meaning
 }
 
+// LEGAL_STATE: Legal/Contractual (Defined Terms, Cross-References, Obligations)
+export interface LegalObligation {
+  party: string;
+  action: string;
+  polarity: "must" | "must-not" | "may";
+  condition: string | null;       // "if ...", "unless ...", "subject to ..." attached to the duty
+  chunk: number;
+}
+
+export interface LegalState extends BaseCoherenceState {
+  mode: "legal";
+  parties: { name: string; alias: string }[];
+  defined_terms: Record<string, string>;       // term → definition context
+  sections: string[];                          // section / article / schedule labels seen so far
+  cross_references: { ref: string; chunk: number; resolved: boolean }[];
+  obligations: LegalObligation[];
+  conditions: string[];
+  undefined_terms: { term: string; chunk: number }[]; // used as defined terms, no definition yet
+}
+
 // Union type for all coherence states
 export type GlobalCoherenceState = 
   | LogicalConsistencyState
@@ -183,7 +205,8 @@ export type GlobalCoherenceState =
   | InstructionalState
   | MotivationalState
   | MathematicalState
-  | PhilosophicalState;
+  | PhilosophicalState
+  | LegalState;
 
 // Mode-specific diff payloads matching each template's fields
 export interface LogicalConsistencyDiff {
@@ -253,6 +276,21 @@ export interface PhilosophicalDiff {
   equivocation_violations: string[];     // If any, marks FAIL
 }
 
+export interface LegalDiff {
+  mode: "legal";
+  new_parties: { name: string; alias: string }[];
+  new_defined_terms: Record<string, string>;
+  new_sections: string[];
+  new_references: string[];
+  resolved_references: string[];        // earlier references whose section appeared in this chunk
+  new_obligations: LegalObligation[];
+  new_conditions: string[];
+  undefined_terms: string[];            // capitalized terms used without a definition so far
+  resolved_terms: string[];             // earlier undefined terms defined in this chunk
+  dangling_references: string[];        // references to sections not seen so far
+  conflicting_obligations: string[];    // If any, marks FAIL
+}
+
 // Union type for all mode-specific diffs
 export type ModeSpecificDiff = 
   | LogicalConsistencyDiff
@@ -262,7 +300,8 @@ export type ModeSpecificDiff =
   | InstructionalDiff
   | MotivationalDiff
   | MathematicalDiff
-  | PhilosophicalDiff;
+  | PhilosophicalDiff
+  | LegalDiff;
 
 // Backwards-compatible generic diff (for parsing fallback)
 export interface CoherenceStateDiff {
@@ -331,12 +370,44 @@ export interface GlobalCoherenceAnalysisResult {
   overallScore: number;
   overallAssessment: "PASS" | "WEAK" | "FAIL";
   aggregatedAnalysis: string;
+  chunks: string[];
+  initialState: GlobalCoherenceState;   // GCS seeded from the GCO, before any chunk
+  chunkStates: GlobalCoherenceState[];  // GCS after each chunk
 }
 
-const anthropic = new Anthropic({
+const anthropic = createAnthropicClient({
   apiKey: process.env.ANTHROPIC_API_KEY!,
 });
 
+export const COHERENCE_TYPES = ["logical-consistency", "logical-cohesiveness", "scientific-explanatory", "thematic-psychological", "instructional", "motivational", "mathematical", "philosophical", "legal"];
+
+/**
+ * Pick the coherence type a text is attempting to achieve, for "auto-detect"
+ * requests. An answer outside COHERENCE_TYPES falls back to logical-consistency.
+ */
+export async function detectCoherenceType(text: string, provider: string = 'anthropic'): Promise<string> {
+  const prompt = `Analyze this text and determine which coherence type it is attempting to achieve. Choose the SINGLE BEST match from these options:
+
+- logical-consistency: Text focuses on avoiding contradictions and maintaining logical consistency
+- logical-cohesiveness: Text builds arguments where claims actively support each other
+- scientific-explanatory: Text explains phenomena using natural laws and scientific mechanisms
+- thematic-psychological: Text focuses on mood, imagery, emotional trajectory, or psychological feel
+- instructional: Text provides actionable instructions or directives
+- motivational: Text aims to inspire specific feelings or psychological states
+- mathematical: Text contains mathematical proofs, derivations, or quantitative arguments
+- philosophical: Text engages with conceptual rigor, distinctions, and philosophical arguments
+- legal: Contract, policy, or regulation with defined terms, numbered clauses, parties, and obligations
+
+TEXT TO ANALYZE:
+${text.substring(0, 2000)}
+
+Respond with ONLY the coherence type (e.g., "logical-consistency" or "scientific-explanatory"). No explanation needed.`;
+
+  const answer = await callProviderChat(provider, [{ role: "user", content: prompt }], { temperature: 0, maxTokens: 50 });
+  const detected = answer.trim().toLowerCase();
+  return COHERENCE_TYPES.includes(detected) ? detected : "logical-consistency";
+}
+
 // Initialize Global Coherence State (GCS) based on mode
 export function initializeGCS(mode: string, gco: GlobalContextObject): GlobalCoherenceState {
   const baseHistory = [`[Chunk 0] Initial state seeded from GCO`];
@@ -421,6 +492,19 @@ export function initializeGCS(mode: string, gco: GlobalContextObject): GlobalCoh
         no_equivocation: gco.keyConcepts || []
       };
     
+    case "legal":
+      return {
+        mode: "legal",
+        stateHistory: baseHistory,
+        parties: [],
+        defined_terms: {},
+        sections: [],
+        cross_references: [],
+        obligations: [],
+        conditions: [],
+        undefined_terms: []
+      };
+    
     default:
       return {
         mode: "logical-consistency",
@@ -570,6 +654,24 @@ WORKED EXAMPLE:
 - Chunk 3 explicitly marks shift ("structural in the engineering sense") → PASS`;
       break;
     }
+    case "legal": {
+      const s = state as LegalState;
+      stateDetails = `
+LEGAL_STATE:
+- parties: [${s.parties.map(p => `${p.name} ("${p.alias}")`).join(", ") || "None yet"}]
+- defined_terms: [${Object.keys(s.defined_terms).join(", ") || "None yet"}]
+- sections: [${s.sections.join(", ") || "None yet"}]
+- unresolved_references: [${s.cross_references.filter(r => !r.resolved).map(r => r.ref).join(", ") || "None"}]
+- obligations: [${s.obligations.slice(-15).map(o => `${o.party} ${o.polarity === "must" ? "shall" : o.polarity === "must-not" ? "shall not" : "may"} ${o.action}${o.condition ? ` (${o.condition})` : ""}`).join("; ") || "None yet"}]
+- conditions: [${s.conditions.join("; ") || "None"}]
+- undefined_terms: [${s.undefined_terms.map(t => t.term).join(", ") || "None"}]`;
+      workedExample = `
+WORKED EXAMPLE:
+- Chunk 1: Acme Inc. (the "Supplier") agrees to deliver the Goods → parties += Supplier; "Goods" used but not defined
+- Chunk 2: "Goods" means the products in Schedule A → Goods defined; Schedule A must exist
+- Chunk 3: "The Supplier shall not deliver the Goods" → conflicts with chunk 1 obligation → FAIL`;
+      break;
+    }
   }
   
   // Add expected diff format for this mode
@@ -615,6 +717,11 @@ EXPECTED STATE_UPDATE FORMAT:
 EXPECTED STATE_UPDATE FORMAT:
 {"mode":"philosophical","new_concepts":{"term":"role"},"new_distinctions":[["A","B"]],"new_objections":["..."],"objections_replied":["..."],"equivocation_violations":["..."]}`;
       break;
+    case "legal":
+      expectedDiffFormat = `
+EXPECTED STATE_UPDATE FORMAT:
+{"mode":"legal","new_parties":[{"name":"Acme Inc.","alias":"Supplier"}],"new_defined_terms":{"Term":"definition"},"new_sections":["4.2"],"new_references":["7.1"],"new_obligations":[{"party":"Supplier","action":"deliver goods","polarity":"must","condition":null}],"undefined_terms":["..."],"dangling_references":["..."],"conflicting_obligations":["..."]}`;
+      break;
   }
   
   return `
@@ -870,6 +977,37 @@ export function updateGCS(state: GlobalCoherenceState, diff: CoherenceStateDiff,
       };
     }
     
+    case "legal": {
+      const s = state as LegalState;
+      if (ms && ms.mode === "legal") {
+        const d = ms as LegalDiff;
+        // Undefined terms and dangling references stay pending until a later chunk defines them
+        const pendingTerms = s.undefined_terms.filter(t => !d.resolved_terms.includes(t.term));
+        const references = s.cross_references.map(r =>
+          !r.resolved && d.resolved_references.includes(r.ref) ? { ...r, resolved: true } : r
+        );
+        return {
+          ...s,
+          stateHistory: d.conflicting_obligations.length > 0
+            ? [...newHistory, `[CONFLICTING OBLIGATION: ${d.conflicting_obligations.join("; ")}]`]
+            : newHistory,
+          parties: [...s.parties, ...d.new_parties],
+          defined_terms: { ...s.defined_terms, ...d.new_defined_terms },
+          sections: [...s.sections, ...d.new_sections],
+          // updateGCS receives 1-based chunk numbers; stored chunks are 0-based like chunk results
+          cross_references: [
+            ...references,
+            ...d.new_references.map(ref => ({ ref, chunk: chunkIndex - 1, resolved: !d.dangling_references.includes(ref) }))
+          ],
+          obligations: [...s.obligations, ...d.new_obligations],
+          conditions: [...s.conditions, ...d.new_conditions],
+          undefined_terms: [...pendingTerms, ...d.undefined_terms.map(term => ({ term, chunk: chunkIndex - 1 }))]
+        };
+      }
+      // Fallback - legal state only changes through the extracted legal diff
+      return { ...s, stateHistory: newHistory };
+    }
+    
     default:
       return { ...(state as BaseCoherenceState & Record<string, unknown>), stateHistory: newHistory } as GlobalCoherenceState;
   }
@@ -1117,7 +1255,9 @@ Check whether this chunk:
     
     "mathematical": `Check whether this chunk: uses assumptions consistent with the GCO, does not invoke results not yet established, preserves proof direction (forward, backward, contradiction, induction).`,
     
-    "philosophical": `Check whether core concepts retain the same meaning, scope, and contrast classes as defined or implied in the GCO. Flag: equivocation, category drift, or silent redefinition.`
+    "philosophical": `Check whether core concepts retain the same meaning, scope, and contrast classes as defined or implied in the GCO. Flag: equivocation, category drift, or silent redefinition.`,
+    
+    "legal": `Check whether this chunk uses defined terms consistently with their definitions, refers only to sections, schedules and parties that exist, and imposes obligations that do not contradict earlier ones. Flag: undefined capitalized terms, dangling cross-references, conflicting obligations, conditions that cannot be met.`
   };
 
   const gcoSummary = `
@@ -1220,9 +1360,9 @@ Respond with ONLY valid JSON.`;
       };
     }
     
-    return { result, stateDiff };
+    return applyLegalChecks({ result, stateDiff }, chunkText, chunkIndex, gcs);
   } catch {
-    return {
+    return applyLegalChecks({
       result: {
         chunkIndex,
         status: "preserved",
@@ -1232,10 +1372,44 @@ Respond with ONLY valid JSON.`;
         score: 7
       },
       stateDiff: null
-    };
+    }, chunkText, chunkIndex, gcs);
   }
 }
 
+// Attach the extracted legal diff to a chunk's state diff (creating one if the model gave none)
+function withLegalDiff(stateDiff: CoherenceStateDiff | null, chunkText: string, chunkIndex: number, gcs: LegalState): CoherenceStateDiff {
+  return {
+    ...(stateDiff || { newElements: [], resolvedElements: [], abandonedElements: [], levelOrPhaseShift: null, trajectoryChange: null }),
+    modeSpecific: extractLegalDiff(chunkText, gcs, chunkIndex)
+  };
+}
+
+// Legal mode: conflicting obligations weaken the chunk as soon as they appear
+function applyLegalChecks(analysis: ChunkAnalysisWithState, chunkText: string, chunkIndex: number, gcs?: GlobalCoherenceState): ChunkAnalysisWithState {
+  if (!gcs || gcs.mode !== "legal") {
+    return analysis;
+  }
+  const stateDiff = withLegalDiff(analysis.stateDiff, chunkText, chunkIndex, gcs);
+  const conflicts = (stateDiff.modeSpecific as LegalDiff).conflicting_obligations;
+  return {
+    result: conflicts.length > 0 ? flagChunk(analysis.result, conflicts.map(c => `Conflicting obligations: ${c}`)) : analysis.result,
+    stateDiff
+  };
+}
+
+// Each flagged issue costs a point (floor 1) and a "preserved" chunk becomes "weakened"
+function flagChunk(result: ChunkCoherenceResult, issues: string[]): ChunkCoherenceResult {
+  return {
+    ...result,
+    status: result.status === "preserved" ? "weakened" : result.status,
+    strainLocations: [...result.strainLocations, ...issues],
+    score: Math.max(1, result.score - issues.length)
+  };
+}
+
+// Global context object, instructions and the reply sent alongside each chunk
+const GLOBAL_CHUNK_RESERVED_TOKENS = 8000;
+
 // Full global coherence analysis with chunking
 export async function analyzeGlobalCoherence(
   fullText: string,
@@ -1244,15 +1418,15 @@ export async function analyzeGlobalCoherence(
 ): Promise<GlobalCoherenceAnalysisResult> {
   
   // Validate coherence mode
-  const validModes = ["logical-consistency", "logical-cohesiveness", "scientific-explanatory", "thematic-psychological", "instructional", "motivational", "mathematical", "philosophical"];
-  const normalizedMode = validModes.includes(coherenceMode) ? coherenceMode : "logical-consistency";
+  const normalizedMode = COHERENCE_TYPES.includes(coherenceMode) ? coherenceMode : "logical-consistency";
   
-  // Split into chunks (~400 words each for API context limits)
+  // Split into chunks (~400 words each, capped by the Anthropic context window)
   const words = fullText.split(/\s+/);
   const chunks: string[] = [];
+  const chunkSize = getChunkWordLimit('anthropic', wordsPerChunk, GLOBAL_CHUNK_RESERVED_TOKENS);
   
-  for (let i = 0; i < words.length; i += wordsPerChunk) {
-    chunks.push(words.slice(i, i + wordsPerChunk).join(' '));
+  for (let i = 0; i < words.length; i += chunkSize) {
+    chunks.push(words.slice(i, i + chunkSize).join(' '));
   }
 
   // STEP 1: Extract Global Context Object
@@ -1267,12 +1441,14 @@ export async function analyzeGlobalCoherence(
   // STEP 1: Initialize Global Coherence State (GCS) for the selected mode
   // This applies to ALL modes, not just scientific-explanatory
   let gcs = initializeGCS(normalizedMode, gco);
+  const initialState = gcs;
   console.log(`Initialized Global Coherence State for mode: ${normalizedMode}`);
   
   // STEP 2 & 3: Analyze each chunk with GCO + GCS injection
   // Thread GCS through each chunk as state transitions
   console.log(`Analyzing ${chunks.length} chunks with GCS state tracking (mode: ${normalizedMode})...`);
   const chunkResults: ChunkCoherenceResult[] = [];
+  const chunkStates: GlobalCoherenceState[] = [];
   
   for (let i = 0; i < chunks.length; i++) {
     const analysisResult = await analyzeChunkWithGCO(chunks[i], i, gco, normalizedMode, gcs);
@@ -1283,6 +1459,14 @@ export async function analyzeGlobalCoherence(
       gcs = updateGCS(gcs, analysisResult.stateDiff, i + 1);
       console.log(`Chunk ${i + 1}: Updated GCS state`);
     }
+    chunkStates.push(gcs);
+  }
+  
+  // Legal mode: terms never defined and references never resolved are flagged where they were used
+  if (gcs.mode === "legal") {
+    for (const { chunkIndex, issue } of finalizeLegalState(gcs)) {
+      chunkResults[chunkIndex] = flagChunk(chunkResults[chunkIndex], [issue]);
+    }
   }
   
   // Calculate overall score
@@ -1340,7 +1524,10 @@ ${r.repairSuggestions.length > 0 ? `Repair Suggestions: ${r.repairSuggestions.jo
     chunkResults,
     overallScore,
     overallAssessment,
-    aggregatedAnalysis
+    aggregatedAnalysis,
+    chunks,
+    initialState,
+    chunkStates
   };
 }
 
@@ -1353,15 +1540,15 @@ export async function rewriteWithGlobalCoherence(
 ): Promise<{ rewrittenText: string; gco: GlobalContextObject; changes: string }> {
   
   // Validate coherence mode
-  const validModes = ["logical-consistency", "logical-cohesiveness", "scientific-explanatory", "thematic-psychological", "instructional", "motivational", "mathematical", "philosophical"];
-  const normalizedMode = validModes.includes(coherenceMode) ? coherenceMode : "logical-consistency";
+  const normalizedMode = COHERENCE_TYPES.includes(coherenceMode) ? coherenceMode : "logical-consistency";
   
-  // Split into chunks (~400 words each for API context limits)
+  // Split into chunks (~400 words each, capped by the Anthropic context window)
   const words = fullText.split(/\s+/);
   const chunks: string[] = [];
+  const chunkSize = getChunkWordLimit('anthropic', wordsPerChunk, GLOBAL_CHUNK_RESERVED_TOKENS);
   
-  for (let i = 0; i < words.length; i += wordsPerChunk) {
-    chunks.push(words.slice(i, i + wordsPerChunk).join(' '));
+  for (let i = 0; i < words.length; i += chunkSize) {
+    chunks.push(words.slice(i, i + chunkSize).join(' '));
   }
 
   // Extract GCO first
@@ -1402,7 +1589,8 @@ The output should read like it was written by a skilled professional writer, not
     "instructional": "Ensure steps are in correct order, no skipped prerequisites, and maintain actionability throughout.",
     "motivational": "Keep emotional direction aligned. Avoid motivational reversals or dilution of urgency/encouragement.",
     "mathematical": "Ensure proof steps follow from assumptions. Don't invoke unestablished results. Maintain proof direction.",
-    "philosophical": "Preserve concept meanings throughout. Avoid equivocation, category drift, or silent redefinition of terms."
+    "philosophical": "Preserve concept meanings throughout. Avoid equivocation, category drift, or silent redefinition of terms.",
+    "legal": "Use defined terms exactly as defined and keep party names stable. Every cross-reference must point to an existing section. Never introduce an obligation that contradicts an earlier one."
   };
 
   const gcoSummary = `
@@ -1512,10 +1700,12 @@ STATE_UPDATE:
           levelOrPhaseShift: stateUpdate.levelOrPhaseShift || null,
           trajectoryChange: stateUpdate.trajectoryChange || null
         };
-        gcs = updateGCS(gcs, diff, i + 1);
+        gcs = updateGCS(gcs, gcs.mode === "legal" ? withLegalDiff(diff, rewrittenChunks[i], i, gcs) : diff, i + 1);
       } catch {
         // Ignore parse errors for state update
       }
+    } else if (gcs.mode === "legal") {
+      gcs = updateGCS(gcs, withLegalDiff(null, rewrittenChunks[i], i, gcs), i + 1);
     }
   }
 
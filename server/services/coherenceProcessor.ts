@@ -1,5 +1,3 @@
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
 import {
   generateDocumentId,
   createInitialState,
@@ -16,9 +14,24 @@ import type {
   CoherenceModeType, 
   ChunkEvaluationResult 
 } from "@shared/schema";
+import { createAnthropicClient, createOpenAIClient } from "./llmClients";
+import { getChunkWordLimit } from "./providerRegistry";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
+const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+const COHERENCE_MODES: CoherenceModeType[] = [
+  "logical-consistency", "logical-cohesiveness", "scientific-explanatory",
+  "thematic-psychological", "instructional", "motivational",
+  "mathematical", "philosophical", "narrative"
+];
+
+export function isCoherenceMode(value: unknown): value is CoherenceModeType {
+  return typeof value === "string" && (COHERENCE_MODES as string[]).includes(value);
+}
+
+// Evaluation prompt, running state and the 2000-token evaluation reply
+const EVALUATION_RESERVED_TOKENS = 6000;
 
 // Chunk text into segments of ~1000 words
 function chunkText(text: string, maxWords: number = 1000): string[] {
@@ -107,6 +120,13 @@ function getEvaluationCriteria(mode: CoherenceModeType): string {
       return `- PASS: concepts stable, distinctions maintained, dialectic progressed
 - FAIL: equivocation, collapsed distinction, unanswered objection`;
     
+    case "narrative":
+      return `- PASS: characters keep their established traits, whereabouts and knowledge; events follow the story's chronology or are marked as flashbacks; setting facts hold
+- FAIL: a dead character reappears, an event happens before one already narrated without a flashback, a trait or setting fact contradicts an earlier chunk, a character knows something they never learned or changes place without a transition
+- Cite the earlier chunk in every violation ("died in chunk 2")
+- state_update for this mode: {"characters": {"<name>": {"traits": {"<stable trait>": "<value>"}, "location": "...", "status": "alive" | "dead" | "missing", "knowledge": ["facts learned in this chunk"]}}, "appearances": ["characters acting or speaking in the story's present, not in flashbacks, memories or dreams"], "events": [{"event": "...", "story_time": <days since the story opens>, "flashback": true | false}], "setting_facts": {"<fixed fact>": "<value>"}}
+- Only report stable traits (appearance, age, occupation, kinship), not moods`;
+    
     default:
       return "";
   }
@@ -128,6 +148,7 @@ Choose ONE mode from:
 - motivational: Encouragement, warnings, or persuasion
 - mathematical: Mathematical proofs or formal derivations
 - philosophical: Conceptual analysis with distinctions
+- narrative: Fiction with characters, events and a setting
 
 Respond with ONLY the mode name (e.g., "logical-consistency"), no explanation.`;
 
@@ -139,14 +160,9 @@ Respond with ONLY the mode name (e.g., "logical-consistency"), no explanation.`;
       max_tokens: 50
     });
 
-    const mode = response.choices[0]?.message?.content?.trim().toLowerCase() as CoherenceModeType;
-    const validModes: CoherenceModeType[] = [
-      "logical-consistency", "logical-cohesiveness", "scientific-explanatory",
-      "thematic-psychological", "instructional", "motivational",
-      "mathematical", "philosophical"
-    ];
+    const mode = response.choices[0]?.message?.content?.trim().toLowerCase();
 
-    if (validModes.includes(mode)) {
+    if (isCoherenceMode(mode)) {
       return mode;
     }
     return "logical-cohesiveness"; // Default fallback
@@ -268,6 +284,46 @@ Respond with ONLY valid JSON matching the state template structure.`;
   }
 }
 
+// Evaluate a chunk after the first against the state before it; rule-based
+// violations are merged in and demote a "preserved" verdict to "weakened"
+async function evaluateAgainstState(
+  mode: CoherenceModeType,
+  currentState: CoherenceState,
+  chunkText: string,
+  chunkIndex: number,
+  totalChunks: number,
+  provider: "openai" | "anthropic"
+): Promise<{ evaluation: ChunkEvaluationResult; stateAfter: CoherenceState }> {
+  const evaluation = await evaluateChunk(mode, currentState, chunkText, chunkIndex, totalChunks, provider);
+  
+  // Check for violations
+  const violations = checkViolations(currentState, evaluation.state_update, chunkIndex);
+  const allViolations = [...evaluation.violations, ...violations];
+  
+  // Update status based on violations
+  let status = evaluation.status;
+  if (allViolations.length > 0 && status === "preserved") {
+    status = "weakened";
+  }
+
+  return {
+    evaluation: { ...evaluation, violations: allViolations, status },
+    stateAfter: applyStateUpdate(currentState, evaluation.state_update, chunkIndex)
+  };
+}
+
+function determineOverallStatus(chunkResults: { status: string }[]): "coherent" | "weakened" | "incoherent" {
+  const brokenCount = chunkResults.filter(c => c.status === "broken").length;
+  const weakenedCount = chunkResults.filter(c => c.status === "weakened").length;
+  
+  if (brokenCount > 0) {
+    return "incoherent";
+  } else if (weakenedCount > chunkResults.length / 3) {
+    return "weakened";
+  }
+  return "coherent";
+}
+
 // Main sequential processing function
 export async function processDocumentSequentially(
   text: string,
@@ -288,7 +344,7 @@ export async function processDocumentSequentially(
 }> {
   // Step 1: Generate document ID and chunk text
   const documentId = generateDocumentId();
-  const chunks = chunkText(text, 1000);
+  const chunks = chunkText(text, getChunkWordLimit(provider, 1000, EVALUATION_RESERVED_TOKENS));
   
   // Step 2: Auto-detect mode if not provided
   const coherenceMode = mode || await autoDetectMode(chunks[0]);
@@ -299,7 +355,7 @@ export async function processDocumentSequentially(
   
   // Evaluate first chunk
   const firstEval = await evaluateChunk(coherenceMode, initialState, chunks[0], 0, chunks.length, provider);
-  const firstStateAfter = applyStateUpdate(initialState, firstEval.state_update);
+  const firstStateAfter = applyStateUpdate(initialState, firstEval.state_update, 0);
   await updateCoherenceState(documentId, coherenceMode, firstStateAfter);
   await writeChunkEvaluation(documentId, coherenceMode, 0, chunks[0], firstEval, firstStateAfter);
 
@@ -324,35 +380,18 @@ export async function processDocumentSequentially(
     }
 
     // Evaluate chunk against current state
-    const evaluation = await evaluateChunk(coherenceMode, currentState, chunks[i], i, chunks.length, provider);
-    
-    // Check for violations
-    const violations = checkViolations(currentState, evaluation.state_update);
-    const allViolations = [...evaluation.violations, ...violations];
-    
-    // Update status based on violations
-    let status = evaluation.status;
-    if (allViolations.length > 0 && status === "preserved") {
-      status = "weakened";
-    }
-
-    // Apply state update
-    const newState = applyStateUpdate(currentState, evaluation.state_update);
+    const { evaluation, stateAfter: newState } = await evaluateAgainstState(coherenceMode, currentState, chunks[i], i, chunks.length, provider);
     
     // WRITE updated state to database
     await updateCoherenceState(documentId, coherenceMode, newState);
     
     // Write chunk evaluation
-    await writeChunkEvaluation(documentId, coherenceMode, i, chunks[i], {
-      ...evaluation,
-      violations: allViolations,
-      status
-    }, newState);
+    await writeChunkEvaluation(documentId, coherenceMode, i, chunks[i], evaluation, newState);
 
     chunkResults.push({
       index: i,
-      status,
-      violations: allViolations,
+      status: evaluation.status,
+      violations: evaluation.violations,
       repairs: evaluation.repairs
     });
   }
@@ -364,17 +403,7 @@ export async function processDocumentSequentially(
   }
 
   // Determine overall status
-  const brokenCount = chunkResults.filter(c => c.status === "broken").length;
-  const weakenedCount = chunkResults.filter(c => c.status === "weakened").length;
-  
-  let overallStatus: "coherent" | "weakened" | "incoherent";
-  if (brokenCount > 0) {
-    overallStatus = "incoherent";
-  } else if (weakenedCount > chunks.length / 3) {
-    overallStatus = "weakened";
-  } else {
-    overallStatus = "coherent";
-  }
+  const overallStatus = determineOverallStatus(chunkResults);
 
   // Generate summary
   const summary = generateSummary(coherenceMode, chunkResults, finalState, overallStatus);
@@ -443,3 +472,184 @@ export async function getDocumentStatus(
     }))
   };
 }
+
+export class CoherenceRevisionError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "CoherenceRevisionError";
+  }
+}
+
+// Documents with a revision in progress; a second edit would race on the stored chunks
+const revisionsInProgress = new Set<string>();
+
+type ChunkVerdict = {
+  status: "preserved" | "weakened" | "broken";
+  violations: { location: string; type: string; description: string }[];
+};
+
+export interface CoherenceRevisionResult {
+  documentId: string;
+  mode: CoherenceModeType;
+  editedChunk: { index: number; before: ChunkVerdict; after: ChunkVerdict; repairs: { location: string; suggestion: string }[] };
+  reevaluatedChunks: number[];
+  convergedAt: number | null;
+  changedVerdicts: { index: number; before: ChunkVerdict; after: ChunkVerdict; repairs: { location: string; suggestion: string }[] }[];
+  chunks: { index: number; status: "preserved" | "weakened" | "broken"; violations: ChunkVerdict["violations"]; repairs: { location: string; suggestion: string }[] }[];
+  finalState: CoherenceState;
+  overallStatus: "coherent" | "weakened" | "incoherent";
+  summary: string;
+}
+
+// Wording noise the LLM introduces between runs: case, spacing, quotes, trailing punctuation
+function normalizeEntry(text: string): string {
+  return text.toLowerCase().replace(/[\u2018\u2019\u201c\u201d"'`]/g, "").replace(/\s+/g, " ").replace(/[\s.,;:!?]+$/, "").trim();
+}
+
+/**
+ * Structural form of a state for convergence checks: object keys are
+ * normalized and sorted, lists become sets of normalized entries (order and
+ * duplicates carry no meaning), and strings are compared after normalization.
+ */
+function structuralForm(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return Array.from(new Set(value.map(v => JSON.stringify(structuralForm(v))))).sort();
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined && v !== null && v !== "")
+      .map(([key, v]) => [normalizeEntry(key), structuralForm(v)] as const);
+    return entries.sort(([a], [b]) => a.localeCompare(b));
+  }
+  return typeof value === "string" ? normalizeEntry(value) : value;
+}
+
+function statesMatch(a: CoherenceState, b: CoherenceState): boolean {
+  return JSON.stringify(structuralForm(a)) === JSON.stringify(structuralForm(b));
+}
+
+function verdictChanged(before: ChunkVerdict, after: ChunkVerdict): boolean {
+  if (before.status !== after.status) return true;
+  const signature = (v: ChunkVerdict) => v.violations.map(x => `${x.type}|${x.location}`).sort().join("\n");
+  return signature(before) !== signature(after);
+}
+
+/**
+ * Re-evaluate a stored document after one chunk has been edited. The state
+ * before the edited chunk is reloaded from the stored chunk evaluations, the
+ * chunk is evaluated with its new text, and later chunks are re-evaluated
+ * only while the resulting state differs from the stored one; once the
+ * states converge, every later verdict stands as stored. One revision per
+ * document runs at a time; a concurrent edit is rejected with 409.
+ */
+export async function reevaluateEditedChunk(
+  documentId: string,
+  mode: CoherenceModeType,
+  chunkIndex: number,
+  newText: string,
+  provider: "openai" | "anthropic" = "openai"
+): Promise<CoherenceRevisionResult> {
+  if (revisionsInProgress.has(documentId)) {
+    throw new CoherenceRevisionError(`Document ${documentId} is already being revised; retry when that edit finishes`, 409);
+  }
+  revisionsInProgress.add(documentId);
+  try {
+    return await reevaluateChunk(documentId, mode, chunkIndex, newText, provider);
+  } finally {
+    revisionsInProgress.delete(documentId);
+  }
+}
+
+async function reevaluateChunk(
+  documentId: string,
+  mode: CoherenceModeType,
+  chunkIndex: number,
+  newText: string,
+  provider: "openai" | "anthropic"
+): Promise<CoherenceRevisionResult> {
+  const stored = await readAllChunkEvaluations(documentId, mode);
+  if (stored.length === 0) {
+    throw new CoherenceRevisionError(`No stored ${mode} evaluation for document ${documentId}`, 404);
+  }
+  if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= stored.length) {
+    throw new CoherenceRevisionError(`chunkIndex must be between 0 and ${stored.length - 1}`, 400);
+  }
+  if (stored.some((c, i) => c.chunkIndex !== i || !c.stateAfter)) {
+    throw new CoherenceRevisionError(`Stored evaluation for document ${documentId} is incomplete; re-run the full analysis`, 409);
+  }
+
+  const totalChunks = stored.length;
+  const texts = stored.map(c => c.chunkText || "");
+  texts[chunkIndex] = newText;
+
+  const verdictOf = (e: ChunkEvaluationResult): ChunkVerdict => ({ status: e.status, violations: e.violations });
+  const results = stored.map(c => ({
+    index: c.chunkIndex,
+    status: c.evaluationResult.status,
+    violations: c.evaluationResult.violations,
+    repairs: c.evaluationResult.repairs
+  }));
+
+  // The edited chunk: chunk 0 seeds the state, so its initial state is re-extracted
+  let evaluation: ChunkEvaluationResult;
+  let stateAfter: CoherenceState;
+  if (chunkIndex === 0) {
+    const initialState = await extractInitialState(mode, newText, provider);
+    evaluation = await evaluateChunk(mode, initialState, newText, 0, totalChunks, provider);
+    stateAfter = applyStateUpdate(initialState, evaluation.state_update, 0);
+  } else {
+    ({ evaluation, stateAfter } = await evaluateAgainstState(mode, stored[chunkIndex - 1].stateAfter, newText, chunkIndex, totalChunks, provider));
+  }
+  await writeChunkEvaluation(documentId, mode, chunkIndex, newText, evaluation, stateAfter);
+  results[chunkIndex] = { index: chunkIndex, status: evaluation.status, violations: evaluation.violations, repairs: evaluation.repairs };
+
+  const editedChunk = {
+    index: chunkIndex,
+    before: verdictOf(stored[chunkIndex].evaluationResult),
+    after: verdictOf(evaluation),
+    repairs: evaluation.repairs
+  };
+  const reevaluatedChunks = [chunkIndex];
+  const changedVerdicts: typeof editedChunk[] = [];
+
+  // Propagate forward until the state matches what was stored at the same point
+  let convergedAt: number | null = statesMatch(stateAfter, stored[chunkIndex].stateAfter) ? chunkIndex : null;
+  for (let i = chunkIndex + 1; i < totalChunks && convergedAt === null; i++) {
+    const next = await evaluateAgainstState(mode, stateAfter, texts[i], i, totalChunks, provider);
+    stateAfter = next.stateAfter;
+    await writeChunkEvaluation(documentId, mode, i, texts[i], next.evaluation, stateAfter);
+    reevaluatedChunks.push(i);
+    results[i] = { index: i, status: next.evaluation.status, violations: next.evaluation.violations, repairs: next.evaluation.repairs };
+
+    const before = verdictOf(stored[i].evaluationResult);
+    const after = verdictOf(next.evaluation);
+    if (verdictChanged(before, after)) {
+      changedVerdicts.push({ index: i, before, after, repairs: next.evaluation.repairs });
+    }
+    if (statesMatch(stateAfter, stored[i].stateAfter)) {
+      convergedAt = i;
+    }
+  }
+
+  // Without convergence the final state has changed
+  const finalState = convergedAt === null ? stateAfter : stored[totalChunks - 1].stateAfter;
+  if (convergedAt === null) {
+    await updateCoherenceState(documentId, mode, finalState);
+  }
+
+  console.log(`🔁 Coherence revision ${documentId} (${mode}): chunk ${chunkIndex + 1} edited, ${reevaluatedChunks.length} re-evaluated, ${changedVerdicts.length} downstream verdicts changed${convergedAt === null ? ", no convergence" : `, converged at chunk ${convergedAt + 1}`}`);
+
+  const overallStatus = determineOverallStatus(results);
+  return {
+    documentId,
+    mode,
+    editedChunk,
+    reevaluatedChunks,
+    convergedAt,
+    changedVerdicts,
+    chunks: results,
+    finalState,
+    overallStatus,
+    summary: generateSummary(mode, results, finalState, overallStatus)
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Coherence Timeline
+ *
+ * Turns the Global Coherence State snapshots from analyzeGlobalCoherence
+ * (the seeded state plus the state after each chunk) into a per-item
+ * history: when each commitment, open thread or setting was introduced,
+ * resolved, contradicted or superseded. Items are tracked by comparing
+ * consecutive snapshots, so the timeline works for both the mode-specific
+ * and the generic state diffs.
+ */
+
+import type {
+  GlobalCoherenceState,
+  LogicalConsistencyState,
+  LogicalCohesivenessState,
+  ScientificExplanatoryState,
+  ThematicPsychologicalState,
+  InstructionalState,
+  MotivationalState,
+  MathematicalState,
+  PhilosophicalState,
+  LegalState
+} from './coherenceMeter';
+import { obligationsConflict, describeObligation } from './legalCoherence';
+
+export type TimelineItemKind = 'commitment' | 'open-thread' | 'setting';
+export type TimelineEventType = 'introduced' | 'resolved' | 'contradicted' | 'superseded';
+
+export interface TimelineEvent {
+  chunkIndex: number | null;       // null: seeded from the global context before the first chunk
+  type: TimelineEventType;
+  detail?: string;
+}
+
+export interface TimelineItem {
+  id: string;
+  kind: TimelineItemKind;
+  category: string;
+  label: string;
+  status: 'active' | 'open' | TimelineEventType;
+  events: TimelineEvent[];
+}
+
+export interface CoherenceTimeline {
+  mode: string;
+  chunkCount: number;
+  items: TimelineItem[];
+}
+
+interface StateEntry {
+  key: string;
+  kind: TimelineItemKind;
+  category: string;
+  label: string;
+  value?: string;                  // for keyed entries (concept roles, settings); a changed value is an event
+}
+
+interface Contradiction {
+  keys: string[];
+  detail: string;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function listEntries(values: string[], category: string, kind: TimelineItemKind): StateEntry[] {
+  return values.filter(v => v && v.trim()).map(label => ({ key: `${category}:${normalize(label)}`, kind, category, label }));
+}
+
+function settingEntry(value: string | number, category: string): StateEntry[] {
+  const label = String(value ?? '').trim();
+  return label ? [{ key: category, kind: 'setting', category, label, value: label }] : [];
+}
+
+function mapEntries(values: Record<string, string>, category: string): StateEntry[] {
+  return Object.entries(values || {}).map(([term, role]) => ({
+    key: `${category}:${normalize(term)}`,
+    kind: 'commitment' as const,
+    category,
+    label: role ? `${term}: ${role}` : term,
+    value: role
+  }));
+}
+
+// What each mode's state commits to, leaves open, or sets
+function stateEntries(state: GlobalCoherenceState): StateEntry[] {
+  switch (state.mode) {
+    case 'logical-consistency': {
+      const s = state as LogicalConsistencyState;
+      return [
+        ...listEntries(s.assertions, 'Assertion', 'commitment'),
+        ...listEntries(s.negations, 'Negation', 'commitment'),
+        ...listEntries(s.disjoint_pairs.map(([a, b]) => `${a} ⟂ ${b}`), 'Disjoint pair', 'commitment')
+      ];
+    }
+    case 'logical-cohesiveness': {
+      const s = state as LogicalCohesivenessState;
+      return [
+        ...settingEntry(s.thesis, 'Thesis'),
+        ...settingEntry(s.current_stage, 'Stage'),
+        ...listEntries(s.support_queue, 'Claim awaiting support', 'open-thread')
+      ];
+    }
+    case 'scientific-explanatory': {
+      const s = state as ScientificExplanatoryState;
+      return [
+        ...settingEntry(s.level, 'Explanatory level'),
+        ...listEntries(s.causal_graph_nodes, 'Causal variable', 'commitment'),
+        ...listEntries(s.causal_edges.map(e => `${e.from} → ${e.to} (${e.direction})`), 'Causal link', 'commitment'),
+        ...listEntries(s.active_feedback_loops.filter(l => l.status !== 'resolved').map(l => l.name), 'Feedback loop', 'open-thread'),
+        ...mapEntries(s.mechanism_requirements, 'Mechanism')
+      ];
+    }
+    case 'thematic-psychological': {
+      const s = state as ThematicPsychologicalState;
+      return [
+        ...settingEntry(s.dominant_affect, 'Affect'),
+        ...settingEntry(s.tempo, 'Tempo'),
+        ...settingEntry(s.stance, 'Stance')
+      ];
+    }
+    case 'instructional': {
+      const s = state as InstructionalState;
+      return [
+        ...settingEntry(s.goal, 'Goal'),
+        ...listEntries(s.steps_done, 'Step', 'commitment'),
+        ...listEntries(s.prereqs, 'Prerequisite', 'open-thread'),
+        ...listEntries(s.open_loops, 'Promised step', 'open-thread')
+      ];
+    }
+    case 'motivational': {
+      const s = state as MotivationalState;
+      return [
+        ...settingEntry(s.direction, 'Direction'),
+        ...settingEntry(s.intensity, 'Intensity'),
+        ...settingEntry(s.target, 'Target')
+      ];
+    }
+    case 'mathematical': {
+      const s = state as MathematicalState;
+      return [
+        ...settingEntry(s.goal, 'Goal'),
+        ...settingEntry(s.proof_method, 'Proof method'),
+        ...listEntries(s.givens, 'Given', 'commitment'),
+        ...listEntries(s.proved, 'Proved', 'commitment')
+      ];
+    }
+    case 'philosophical': {
+      const s = state as PhilosophicalState;
+      return [
+        ...mapEntries(s.core_concepts, 'Concept'),
+        ...listEntries(s.distinctions.map(([a, b]) => `${a} vs ${b}`), 'Distinction', 'commitment'),
+        ...listEntries(s.dialectic.replies_pending, 'Objection awaiting reply', 'open-thread')
+      ];
+    }
+    case 'legal': {
+      const s = state as LegalState;
+      return [
+        ...listEntries(s.parties.map(p => p.name === p.alias ? p.alias : `${p.name} ("${p.alias}")`), 'Party', 'commitment'),
+        ...listEntries(Object.keys(s.defined_terms), 'Defined term', 'commitment'),
+        ...listEntries(s.obligations.map(describeObligation), 'Obligation', 'commitment'),
+        ...listEntries(s.cross_references.filter(r => !r.resolved).map(r => r.ref), 'Unresolved reference', 'open-thread'),
+        ...listEntries(s.undefined_terms.map(t => t.term), 'Undefined term', 'open-thread')
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+// Contradictions visible in a single state; each is reported once, at the chunk that created it
+function stateContradictions(state: GlobalCoherenceState): Contradiction[] {
+  switch (state.mode) {
+    case 'logical-consistency': {
+      const s = state as LogicalConsistencyState;
+      const asserted = new Set(s.assertions.map(normalize));
+      const found: Contradiction[] = s.negations
+        .filter(n => asserted.has(normalize(n)))
+        .map(n => ({
+          keys: [`Assertion:${normalize(n)}`, `Negation:${normalize(n)}`],
+          detail: `"${n}" is both asserted and denied`
+        }));
+      for (const [a, b] of s.disjoint_pairs) {
+        if (asserted.has(normalize(a)) && asserted.has(normalize(b))) {
+          found.push({
+            keys: [`Assertion:${normalize(a)}`, `Assertion:${normalize(b)}`],
+            detail: `"${a}" and "${b}" are both asserted but cannot both hold`
+          });
+        }
+      }
+      return found;
+    }
+    case 'scientific-explanatory': {
+      const s = state as ScientificExplanatoryState;
+      const found: Contradiction[] = [];
+      s.causal_edges.forEach((edge, i) => {
+        for (const other of s.causal_edges.slice(i + 1)) {
+          if (normalize(edge.from) === normalize(other.from) && normalize(edge.to) === normalize(other.to) && edge.direction !== other.direction) {
+            found.push({
+              keys: [edge, other].map(e => `Causal link:${normalize(`${e.from} → ${e.to} (${e.direction})`)}`),
+              detail: `${edge.from} is said to both raise and lower ${edge.to}`
+            });
+          }
+        }
+      });
+      return found;
+    }
+    case 'philosophical': {
+      const s = state as PhilosophicalState;
+      return s.stateHistory
+        .map(entry => entry.match(/^\[EQUIVOCATION DETECTED: (.*)\]$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .flatMap(match => match[1].split(',').map(term => term.trim()).filter(Boolean))
+        .map(term => ({ keys: [`Concept:${normalize(term)}`], detail: `"${term}" shifts meaning` }));
+    }
+    case 'legal': {
+      const s = state as LegalState;
+      const found: Contradiction[] = [];
+      s.obligations.forEach((obligation, i) => {
+        for (const other of s.obligations.slice(i + 1)) {
+          if (obligationsConflict(obligation, other)) {
+            found.push({
+              keys: [obligation, other].map(o => `Obligation:${normalize(describeObligation(o))}`),
+              detail: `"${describeObligation(obligation)}" conflicts with "${describeObligation(other)}"`
+            });
+          }
+        }
+      });
+      return found;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Build the timeline from the seeded state and the state after each chunk.
+ */
+export function buildCoherenceTimeline(initialState: GlobalCoherenceState, chunkStates: GlobalCoherenceState[]): CoherenceTimeline {
+  const items: TimelineItem[] = [];
+  const current = new Map<string, TimelineItem>();
+  const reported = new Set<string>();
+  let nextId = 0;
+
+  const introduce = (entry: StateEntry, chunkIndex: number | null, detail?: string) => {
+    const item: TimelineItem = {
+      id: `item-${nextId++}`,
+      kind: entry.kind,
+      category: entry.category,
+      label: entry.label,
+      status: entry.kind === 'open-thread' ? 'open' : 'active',
+      events: [{ chunkIndex, type: 'introduced', ...(detail ? { detail } : {}) }]
+    };
+    items.push(item);
+    current.set(entry.key, item);
+  };
+  const record = (item: TimelineItem, event: TimelineEvent) => {
+    item.events.push(event);
+    item.status = event.type;
+  };
+  const contradictions = (state: GlobalCoherenceState, chunkIndex: number | null) => {
+    for (const contradiction of stateContradictions(state)) {
+      const signature = `${contradiction.keys.join('|')}|${contradiction.detail}`;
+      if (reported.has(signature)) continue;
+      reported.add(signature);
+      for (const key of contradiction.keys) {
+        const item = current.get(key);
+        if (item) record(item, { chunkIndex, type: 'contradicted', detail: contradiction.detail });
+      }
+    }
+  };
+
+  let previous = new Map(stateEntries(initialState).map(entry => [entry.key, entry]));
+  previous.forEach(entry => introduce(entry, null));
+  contradictions(initialState, null);
+
+  chunkStates.forEach((state, chunkIndex) => {
+    const next = new Map(stateEntries(state).map(entry => [entry.key, entry]));
+
+    previous.forEach((entry, key) => {
+      const item = current.get(key);
+      if (next.has(key) || !item) return;
+      record(item, { chunkIndex, type: entry.kind === 'open-thread' ? 'resolved' : 'superseded' });
+      current.delete(key);
+    });
+
+    next.forEach((entry, key) => {
+      const before = previous.get(key);
+      const item = current.get(key);
+      if (!before || !item) {
+        introduce(entry, chunkIndex);
+      } else if (before.value !== entry.value) {
+        if (entry.kind === 'setting') {
+          // A new setting replaces the old one rather than contradicting it
+          record(item, { chunkIndex, type: 'superseded', detail: `now ${entry.label}` });
+          introduce(entry, chunkIndex, `was ${before.label}`);
+        } else {
+          record(item, { chunkIndex, type: 'contradicted', detail: `${before.value} → ${entry.value}` });
+          item.label = entry.label;
+        }
+      }
+    });
+
+    contradictions(state, chunkIndex);
+    previous = next;
+  });
+
+  return {
+    mode: initialState.mode,
+    chunkCount: chunkStates.length,
+    items
+  };
+}
@@ -10,21 +10,33 @@ import {
   ContentAddition,
   ChapterInfo
 } from "@shared/schema";
+import { createAnthropicClient, createOpenAIClient } from "./llmClients";
+import { mapWithConcurrency, CHUNK_CONCURRENCY } from "./rateScheduler";
+import { getChunkWordLimit, getProviderMaxTokens } from "./providerRegistry";
 
 // Lazy initialization to avoid crashes when API keys are missing at startup
 let _anthropic: Anthropic | null = null;
 let _openai: OpenAI | null = null;
-function getAnthropic() { if (!_anthropic) _anthropic = new Anthropic(); return _anthropic; }
-function getOpenAI() { if (!_openai) _openai = new OpenAI(); return _openai; }
+function getAnthropic() { if (!_anthropic) _anthropic = createAnthropicClient(); return _anthropic; }
+function getOpenAI() { if (!_openai) _openai = createOpenAIClient(); return _openai; }
 
 const PRIMARY_MODEL = "claude-sonnet-4-5-20250929";
 const FALLBACK_MODEL = "gpt-4-turbo";
 
 const MAX_INPUT_WORDS = 100000; // Support up to 100k words
-const TARGET_CHUNK_SIZE = 800; // Larger chunks = fewer API calls = more coherent output
-const CHUNK_DELAY_MS = 2000;
+const PREFERRED_CHUNK_SIZE = 800; // Larger chunks = fewer API calls = more coherent output
+const CHUNK_PROMPT_TOKENS = 6000; // Skeleton, instructions and neighbouring context sent with each chunk
 const MAX_CHUNK_RETRIES = 2;
 
+// Chunk size that fits both the primary (Anthropic) and fallback (OpenAI) context windows
+function targetChunkSize(): number {
+  return Math.min(
+    ...(["anthropic", "openai"] as const).map(p =>
+      getChunkWordLimit(p, PREFERRED_CHUNK_SIZE, CHUNK_PROMPT_TOKENS + getProviderMaxTokens(p))
+    )
+  );
+}
+
 // Length mode types
 type LengthMode = 'heavy_compression' | 'moderate_compression' | 'maintain' | 'moderate_expansion' | 'heavy_expansion';
 
@@ -171,7 +183,7 @@ export function calculateLengthConfig(
   const targetMid = Math.floor((actualMin + actualMax) / 2);
   const lengthRatio = targetMid / totalInputWords;
   const lengthMode = getLengthMode(lengthRatio);
-  const numChunks = Math.ceil(totalInputWords / TARGET_CHUNK_SIZE);
+  const numChunks = Math.ceil(totalInputWords / targetChunkSize());
   const chunkTargetWords = Math.ceil(targetMid / numChunks);
   
   return {
@@ -615,7 +627,7 @@ export function smartChunk(text: string): ChunkBoundary[] {
   const words = text.trim().split(/\s+/);
   const totalWords = words.length;
   
-  if (totalWords <= TARGET_CHUNK_SIZE) {
+  if (totalWords <= targetChunkSize()) {
     return [{
       start: 0,
       end: text.length,
@@ -648,7 +660,7 @@ export function smartChunk(text: string): ChunkBoundary[] {
     
     const paraWords = para.split(/\s+/).length;
     
-    if (currentWordCount + paraWords > TARGET_CHUNK_SIZE && currentWordCount > 0) {
+    if (currentWordCount + paraWords > targetChunkSize() && currentWordCount > 0) {
       chunks.push({
         start: currentStart,
         end: charPosition,
@@ -676,7 +688,7 @@ export function smartChunk(text: string): ChunkBoundary[] {
   }
   
   // If paragraph chunking still produced only 1 chunk (paragraphs too large), fall back to sentence chunking
-  if (chunks.length === 1 && totalWords > TARGET_CHUNK_SIZE) {
+  if (chunks.length === 1 && totalWords > targetChunkSize()) {
     console.log(`[CC] Paragraph chunking produced only 1 chunk for ${totalWords} words, falling back to sentence-based chunking`);
     return sentenceBasedChunk(text, totalWords);
   }
@@ -703,7 +715,7 @@ function sentenceBasedChunk(text: string, totalWords: number): ChunkBoundary[] {
     
     const sentenceWords = sentence.trim().split(/\s+/).length;
     
-    if (currentWordCount + sentenceWords > TARGET_CHUNK_SIZE && currentWordCount > 0) {
+    if (currentWordCount + sentenceWords > targetChunkSize() && currentWordCount > 0) {
       chunks.push({
         start: currentStart,
         end: charPosition,
@@ -731,7 +743,7 @@ function sentenceBasedChunk(text: string, totalWords: number): ChunkBoundary[] {
   }
   
   // If we still only have 1 chunk (very long sentences), force word-based splitting
-  if (chunks.length === 1 && totalWords > TARGET_CHUNK_SIZE) {
+  if (chunks.length === 1 && totalWords > targetChunkSize()) {
     console.log(`[CC] Sentence chunking still produced 1 chunk, using word-based splitting`);
     return wordBasedChunk(text, totalWords);
   }
@@ -743,7 +755,7 @@ function sentenceBasedChunk(text: string, totalWords: number): ChunkBoundary[] {
 function wordBasedChunk(text: string, totalWords: number): ChunkBoundary[] {
   const words = text.trim().split(/\s+/);
   const chunks: ChunkBoundary[] = [];
-  const numChunks = Math.ceil(totalWords / TARGET_CHUNK_SIZE);
+  const numChunks = Math.ceil(totalWords / targetChunkSize());
   const wordsPerChunk = Math.ceil(totalWords / numChunks);
   
   for (let i = 0; i < numChunks; i++) {
@@ -1176,7 +1188,7 @@ export async function crossChunkReconstruct(
     throw new Error(`Input exceeds maximum of ${MAX_INPUT_WORDS} words (got ${wordCount})`);
   }
   
-  if (wordCount <= TARGET_CHUNK_SIZE) {
+  if (wordCount <= targetChunkSize()) {
     console.log(`[CC] Short document (${wordCount} words), using single-pass reconstruction`);
     return {
       reconstructedText: text,
@@ -1206,29 +1218,26 @@ export async function crossChunkReconstruct(
   const chunkBoundaries = smartChunk(text);
   console.log(`[CC] Created ${chunkBoundaries.length} chunks, per-chunk target ~${lengthConfig.chunkTargetWords} words`);
   
-  console.log("[CC] Pass 2: Constrained chunk reconstruction (sequential with delays)...");
-  const processedChunks: { text: string; delta: ChunkDelta }[] = [];
-  let totalOutputWords = 0;
-  
-  for (let i = 0; i < chunkBoundaries.length; i++) {
-    const { outputText, delta } = await reconstructChunkConstrained(
-      chunkBoundaries[i].text,
-      i,
-      chunkBoundaries.length,
-      skeleton,
-      contentAnalysis,
-      undefined, // Let lengthConfig determine target
-      undefined, // onCheckpoint
-      lengthConfig
-    );
-    processedChunks.push({ text: outputText, delta });
-    totalOutputWords += countWords(outputText);
-    
-    if (i < chunkBoundaries.length - 1) {
-      console.log(`[CC] Waiting ${CHUNK_DELAY_MS}ms before next chunk...`);
-      await delay(CHUNK_DELAY_MS);
+  console.log(`[CC] Pass 2: Constrained chunk reconstruction (up to ${CHUNK_CONCURRENCY} chunks in parallel)...`);
+  // Chunks depend only on the skeleton, so they run concurrently; the rate scheduler paces the calls
+  const processedChunks: { text: string; delta: ChunkDelta }[] = await mapWithConcurrency(
+    chunkBoundaries,
+    CHUNK_CONCURRENCY,
+    async (chunk, i) => {
+      const { outputText, delta } = await reconstructChunkConstrained(
+        chunk.text,
+        i,
+        chunkBoundaries.length,
+        skeleton,
+        contentAnalysis,
+        undefined, // Let lengthConfig determine target
+        undefined, // onCheckpoint
+        lengthConfig
+      );
+      return { text: outputText, delta };
     }
-  }
+  );
+  const totalOutputWords = processedChunks.reduce((sum, chunk) => sum + countWords(chunk.text), 0);
   
   console.log(`[CC] All chunks processed. Total output: ${totalOutputWords} words (target: ${lengthConfig.targetMin}-${lengthConfig.targetMax})`);
   
@@ -1,4 +1,3 @@
-import Anthropic from "@anthropic-ai/sdk";
 import { db } from "../db";
 import { 
   reconstructionDocuments, 
@@ -10,11 +9,11 @@ import {
   type StitchResult
 } from "@shared/schema";
 import { eq, and, lt, asc } from "drizzle-orm";
+import { createAnthropicClient } from "./llmClients";
 
-const anthropic = new Anthropic();
+const anthropic = createAnthropicClient();
 const PRIMARY_MODEL = "claude-sonnet-4-5-20250929";
 const CHUNK_SIZE_WORDS = 1000;
-const CHUNK_DELAY_MS = 15000;
 const WORD_THRESHOLD = 1000;
 
 function countWords(text: string): number {
@@ -544,10 +543,6 @@ export async function resumeFromLastChunk(sessionId: number): Promise<number> {
   return resumeFrom;
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 export async function runFullReconstruction(
   text: string,
   customInstructions?: string,
@@ -591,12 +586,8 @@ export async function runFullReconstruction(
         };
       }
       
+      // Each chunk reads the prior deltas, so chunks stay sequential; pacing comes from the rate scheduler
       await processChunk(sessionId, i, totalChunks, onProgress, startTime);
-      
-      if (i < totalChunks - 1) {
-        console.log(`[DB-CC] Waiting ${CHUNK_DELAY_MS / 1000}s before next chunk...`);
-        await delay(CHUNK_DELAY_MS);
-      }
     }
     
     if (onProgress) {
@@ -0,0 +1,245 @@
+/**
+ * Ensemble Scoring
+ *
+ * Runs one evaluation across several providers, or several samples from one
+ * provider, and summarizes how much the scores agree: median, spread, a
+ * robust confidence band and outlier flags. Members run concurrently; the rate
+ * scheduler still governs each provider. A failed member is reported with its
+ * error and left out of the statistics rather than failing the ensemble.
+ */
+
+import { PROVIDERS, getConfiguredProviders, isProviderConfigured, tryResolveProvider, type ProviderId } from './providerRegistry';
+import { isMockMode } from './mockProvider';
+
+export interface EnsembleRequest {
+  providers?: string[];         // ZHI aliases or provider ids; defaults to every configured provider
+  samples?: number;             // > 1 with a single provider samples that provider repeatedly
+}
+
+export interface EnsembleMember<T> {
+  provider: ProviderId;
+  label: string;
+  sample: number;               // 1-based sample index within the provider
+  score: number | null;
+  outlier: boolean;
+  result?: T;
+  error?: string;
+}
+
+export interface EnsembleStats {
+  mode: 'providers' | 'samples';
+  count: number;                // members with a score
+  median: number | null;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  spread: number | null;        // max - min
+  stdDev: number | null;
+  band: { low: number; high: number } | null;
+  agreement: 'high' | 'moderate' | 'low' | null;
+  outliers: string[];           // member keys, e.g. "zhi2" or "zhi1#3"
+}
+
+export interface EnsembleResult<T> extends EnsembleStats {
+  members: EnsembleMember<T>[];
+}
+
+// Serializable member for API responses: the report text instead of the full result
+export interface EnsembleMemberView {
+  provider: ProviderId;
+  alias: string;
+  label: string;
+  sample: number;
+  score: number | null;
+  outlier: boolean;
+  formattedReport?: string;
+  error?: string;
+}
+
+export interface EnsembleView extends EnsembleStats {
+  members: EnsembleMemberView[];
+}
+
+// Thrown for malformed ensemble requests; routes answer these with 400
+export class EnsembleRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnsembleRequestError';
+  }
+}
+
+export const MAX_ENSEMBLE_SIZE = 6;
+const MAX_SAMPLES = 5;
+const OUTLIER_MIN_POINTS = 10;      // never flag members closer than this to the median
+const OUTLIER_MAD_MULTIPLIER = 3;
+const MAD_TO_SIGMA = 1.4826;        // scales median absolute deviation to a normal standard deviation
+
+/**
+ * Read the `ensemble` field of a request body: `true`, a sample count, or
+ * `{ providers, samples }`. Returns null when ensemble mode is off.
+ */
+export function parseEnsembleRequest(value: unknown, provider?: string): EnsembleRequest | null {
+  if (value === undefined || value === null || value === false) return null;
+  if (value === true) return {};
+  if (typeof value === 'number') {
+    return { providers: provider ? [provider] : undefined, samples: value };
+  }
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    const { providers, samples } = value as any;
+    return {
+      providers: Array.isArray(providers) ? providers.map(String) : undefined,
+      samples: typeof samples === 'number' ? samples : undefined
+    };
+  }
+  throw new EnsembleRequestError('ensemble must be true, a sample count, or { providers, samples }');
+}
+
+function memberKey(member: { provider: ProviderId; sample: number }, mode: EnsembleStats['mode']): string {
+  const alias = PROVIDERS[member.provider].alias;
+  return mode === 'samples' ? `${alias}#${member.sample}` : alias;
+}
+
+function planMembers(request: EnsembleRequest): { mode: EnsembleStats['mode']; plan: Array<{ provider: ProviderId; sample: number }> } {
+  const requested = request.providers && request.providers.length > 0
+    ? request.providers.map(name => {
+        const id = tryResolveProvider(name);
+        if (!id) throw new EnsembleRequestError(`Unknown provider: ${name}`);
+        return id;
+      })
+    : getConfiguredProviders();
+  const providers = Array.from(new Set(requested));
+
+  if (providers.length === 0) {
+    throw new EnsembleRequestError('No AI providers are configured. Please add API keys.');
+  }
+
+  const samples = Math.min(MAX_SAMPLES, Math.max(1, Math.floor(request.samples || 1)));
+  if (providers.length === 1 && samples === 1) {
+    throw new EnsembleRequestError('An ensemble needs at least two providers or samples > 1');
+  }
+
+  const plan = providers.flatMap(provider =>
+    Array.from({ length: samples }, (_, i) => ({ provider, sample: i + 1 }))
+  );
+  if (plan.length > MAX_ENSEMBLE_SIZE) {
+    throw new EnsembleRequestError(`An ensemble can run at most ${MAX_ENSEMBLE_SIZE} evaluations (requested ${plan.length})`);
+  }
+
+  return { mode: samples > 1 ? 'samples' : 'providers', plan };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Agreement statistics over member scores. Outliers are members further from
+ * the median than max(10 points, 3 x MAD); the band is median ± 1.96 robust
+ * standard deviations and the agreement label uses the spread of the rest.
+ */
+export function summarizeScores<T>(members: EnsembleMember<T>[], mode: EnsembleStats['mode']): EnsembleStats {
+  const scored = members.filter(m => m.score !== null);
+  const scores = scored.map(m => m.score as number);
+
+  if (scores.length === 0) {
+    return { mode, count: 0, median: null, mean: null, min: null, max: null, spread: null, stdDev: null, band: null, agreement: null, outliers: [] };
+  }
+
+  const med = median(scores);
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const stdDev = Math.sqrt(scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length);
+  const mad = median(scores.map(s => Math.abs(s - med)));
+  const outlierThreshold = Math.max(OUTLIER_MIN_POINTS, OUTLIER_MAD_MULTIPLIER * MAD_TO_SIGMA * mad);
+
+  // Outliers need at least three scores - with two there is no majority to deviate from
+  for (const member of scored) {
+    member.outlier = scores.length >= 3 && Math.abs((member.score as number) - med) > outlierThreshold;
+  }
+
+  const inliers = scored.filter(m => !m.outlier).map(m => m.score as number);
+  const inlierSpread = Math.max(...inliers) - Math.min(...inliers);
+  const halfWidth = 1.96 * MAD_TO_SIGMA * mad;
+
+  return {
+    mode,
+    count: scores.length,
+    median: round1(med),
+    mean: round1(mean),
+    min: Math.min(...scores),
+    max: Math.max(...scores),
+    spread: Math.max(...scores) - Math.min(...scores),
+    stdDev: round1(stdDev),
+    band: { low: round1(Math.max(0, med - halfWidth)), high: round1(Math.min(100, med + halfWidth)) },
+    agreement: inlierSpread <= 5 ? 'high' : inlierSpread <= 12 ? 'moderate' : 'low',
+    outliers: scored.filter(m => m.outlier).map(m => memberKey(m, mode))
+  };
+}
+
+/**
+ * Run `evaluate` once per ensemble member and summarize the scores.
+ */
+export async function runEnsemble<T>(
+  request: EnsembleRequest,
+  evaluate: (provider: ProviderId, sample: number) => Promise<T>,
+  getScore: (result: T) => number | null | undefined
+): Promise<EnsembleResult<T>> {
+  const { mode, plan } = planMembers(request);
+  console.log(`🎯 Ensemble (${mode}): ${plan.map(m => memberKey(m, mode)).join(', ')}`);
+
+  const members = await Promise.all(plan.map(async ({ provider, sample }): Promise<EnsembleMember<T>> => {
+    const member: EnsembleMember<T> = { provider, label: PROVIDERS[provider].label, sample, score: null, outlier: false };
+    if (!isMockMode() && !isProviderConfigured(provider)) {
+      return { ...member, error: `${PROVIDERS[provider].label} is not configured` };
+    }
+    try {
+      const result = await evaluate(provider, sample);
+      const score = getScore(result);
+      return { ...member, result, score: typeof score === 'number' && Number.isFinite(score) ? score : null };
+    } catch (error: any) {
+      console.warn(`⚠️ Ensemble member ${memberKey(member, mode)} failed: ${error.message}`);
+      return { ...member, error: error.message };
+    }
+  }));
+
+  const stats = summarizeScores(members, mode);
+  if (stats.count === 0) {
+    throw new Error(`Every ensemble evaluation failed. First error: ${members.find(m => m.error)?.error}`);
+  }
+
+  console.log(`🎯 Ensemble median ${stats.median} (spread ${stats.spread}, ${stats.agreement} agreement${stats.outliers.length ? `, outliers: ${stats.outliers.join(', ')}` : ''})`);
+  return { ...stats, members };
+}
+
+/**
+ * The scored, non-outlier member closest to the median - the report shown
+ * when an ensemble has to stand in for a single evaluation.
+ */
+export function representativeMember<T>(ensemble: EnsembleResult<T>): EnsembleMember<T> {
+  const candidates = ensemble.members.filter(m => m.score !== null && !m.outlier);
+  return candidates.reduce((best, m) =>
+    Math.abs((m.score as number) - (ensemble.median as number)) < Math.abs((best.score as number) - (ensemble.median as number)) ? m : best
+  );
+}
+
+export function viewEnsemble<T>(ensemble: EnsembleResult<T>, getReport: (result: T) => string | undefined): EnsembleView {
+  const { members, ...stats } = ensemble;
+  return {
+    ...stats,
+    members: members.map(m => ({
+      provider: m.provider,
+      alias: PROVIDERS[m.provider].alias,
+      label: m.label,
+      sample: m.sample,
+      score: m.score,
+      outlier: m.outlier,
+      formattedReport: m.result !== undefined ? getReport(m.result) : undefined,
+      error: m.error
+    }))
+  };
+}
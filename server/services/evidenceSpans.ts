@@ -0,0 +1,176 @@
+/**
+ * Span-anchored Evidence
+ *
+ * After an evaluation is scored, the provider is asked for verbatim quotes
+ * that justify each dimension score, with character offsets into the source
+ * text. Offsets are never trusted as given: a span is kept only when the
+ * quoted text is actually found in the source. A wrong offset is corrected to
+ * the nearest real occurrence, and a quote that does not occur is dropped.
+ * Evidence is supplementary: if it cannot be collected the evaluation is
+ * still returned, just without spans.
+ */
+
+import { z } from 'zod';
+import { requestStructured } from './structuredOutput';
+
+export interface EvidenceDimension {
+  key: string;                  // result field, e.g. "proofEffectiveness"
+  label: string;                // shown to the provider, e.g. "Proof effectiveness"
+  score: number;
+}
+
+export interface EvidenceSpan {
+  quote: string;                // exactly text.slice(start, end)
+  start: number;                // 0-based character offset into the source text
+  end: number;                  // exclusive
+  reason?: string;              // why the passage supports the score
+  relocated: boolean;           // the provider's offsets were wrong and were corrected
+}
+
+// Dimension key -> supporting spans, in document order
+export type DimensionEvidence = Record<string, EvidenceSpan[]>;
+
+const MAX_SPANS_PER_DIMENSION = 3;
+const MIN_QUOTE_LENGTH = 8;
+const MAX_SOURCE_CHARS = 60000;   // longer texts are quoted from their opening section only
+
+const evidenceItemSchema = z.object({
+  dimension: z.string().describe('dimension key'),
+  quote: z.string().describe('exact quotation from the text'),
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  reason: z.string().describe('one sentence on why this passage supports the score').optional(),
+});
+
+const evidenceResponseSchema = z.object({
+  evidence: z.array(evidenceItemSchema),
+});
+
+export type RawEvidenceItem = z.infer<typeof evidenceItemSchema>;
+
+// Case- and whitespace-insensitive form of a string, with a map back to the original offsets
+function normalizeWithMap(value: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let lastWasSpace = false;
+  for (let i = 0; i < value.length; i++) {
+    let ch = value[i];
+    if (/\s/.test(ch)) {
+      if (lastWasSpace || normalized.length === 0) continue;
+      ch = ' ';
+      lastWasSpace = true;
+    } else {
+      lastWasSpace = false;
+      ch = ch.replace(/[‘’]/, "'").replace(/[“”]/, '"').replace(/[–—]/, '-').toLowerCase();
+    }
+    normalized += ch;
+    offsets.push(i);
+  }
+  return { normalized: normalized.trimEnd(), offsets };
+}
+
+// Occurrence of `needle` in `haystack` closest to `hint`, or -1
+function nearestIndexOf(haystack: string, needle: string, hint: number): number {
+  let best = -1;
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + 1)) {
+    if (best === -1 || Math.abs(i - hint) < Math.abs(best - hint)) best = i;
+    if (i > hint) break;
+  }
+  return best;
+}
+
+/**
+ * Check one quoted span against the source text. Returns the span with
+ * corrected offsets, or null when the quote does not occur in the text.
+ */
+export function anchorSpan(text: string, item: Pick<RawEvidenceItem, 'quote' | 'start' | 'end' | 'reason'>): EvidenceSpan | null {
+  const quote = item.quote.trim().replace(/^["'“‘]+|["'”’]+$/g, '').trim();
+  if (quote.length < MIN_QUOTE_LENGTH) return null;
+
+  if (text.slice(item.start, item.end) === quote) {
+    return { quote, start: item.start, end: item.end, reason: item.reason, relocated: false };
+  }
+
+  const exact = nearestIndexOf(text, quote, item.start);
+  if (exact !== -1) {
+    return { quote, start: exact, end: exact + quote.length, reason: item.reason, relocated: true };
+  }
+
+  // Providers often normalize whitespace, quotes and dashes when quoting
+  const source = normalizeWithMap(text);
+  const target = normalizeWithMap(quote).normalized;
+  const hint = source.offsets.findIndex(offset => offset >= item.start);
+  const found = nearestIndexOf(source.normalized, target, hint === -1 ? 0 : hint);
+  if (found === -1) return null;
+
+  const start = source.offsets[found];
+  const end = source.offsets[found + target.length - 1] + 1;
+  return { quote: text.slice(start, end), start, end, reason: item.reason, relocated: true };
+}
+
+/**
+ * Validate raw provider evidence against the source text and group it by
+ * dimension. Unknown dimensions, unverifiable quotes and duplicates are dropped.
+ */
+export function anchorEvidence(text: string, items: RawEvidenceItem[], dimensions: EvidenceDimension[]): DimensionEvidence {
+  const evidence: DimensionEvidence = {};
+  for (const dimension of dimensions) evidence[dimension.key] = [];
+  let rejected = 0;
+
+  for (const item of items) {
+    const spans = evidence[item.dimension];
+    const span = spans ? anchorSpan(text, item) : null;
+    if (!spans || !span || spans.length >= MAX_SPANS_PER_DIMENSION) {
+      rejected++;
+      continue;
+    }
+    if (!spans.some(existing => existing.start === span.start && existing.end === span.end)) {
+      spans.push(span);
+    }
+  }
+
+  for (const key of Object.keys(evidence)) {
+    evidence[key].sort((a, b) => a.start - b.start);
+  }
+  if (rejected > 0) {
+    console.log(`🔎 Evidence: dropped ${rejected} span(s) that could not be anchored in the source text`);
+  }
+  return evidence;
+}
+
+function buildEvidencePrompt(text: string, dimensions: EvidenceDimension[]): string {
+  const list = dimensions.map(d => `- ${d.key} (${d.label}): scored ${d.score}/100`).join('\n');
+  return `The text below has already been evaluated. For each scored dimension, quote up to ${MAX_SPANS_PER_DIMENSION} passages from the text that most directly justify that score - strengths for a high score, weaknesses for a low one.
+
+DIMENSIONS:
+${list}
+
+Rules:
+- "dimension" must be one of the dimension keys above.
+- "quote" must be copied exactly from the text, character for character - one sentence or clause, not a paraphrase.
+- "start" and "end" are the 0-based character offsets of the quote in the text (end is exclusive).
+
+TEXT:
+${text.slice(0, MAX_SOURCE_CHARS)}`;
+}
+
+/**
+ * Ask the provider for evidence spans supporting each dimension score.
+ * Never throws; returns empty span lists when evidence cannot be collected.
+ */
+export async function collectEvidence(provider: string, text: string, dimensions: EvidenceDimension[]): Promise<DimensionEvidence> {
+  try {
+    const response = await requestStructured(provider, [
+      { role: 'system', content: 'You are an exacting evaluator who cites the text verbatim.' },
+      { role: 'user', content: buildEvidencePrompt(text, dimensions) }
+    ], { name: 'evidence spans', schema: evidenceResponseSchema, maxRetries: 1 }, { temperature: 0.1, maxTokens: 2000 });
+
+    const evidence = anchorEvidence(text, response.evidence, dimensions);
+    const total = Object.values(evidence).reduce((sum, spans) => sum + spans.length, 0);
+    console.log(`🔎 Evidence: ${total} anchored span(s) across ${dimensions.length} dimension(s)`);
+    return evidence;
+  } catch (error: any) {
+    console.warn(`⚠️ Evidence spans unavailable from ${provider}: ${error.message}`);
+    return Object.fromEntries(dimensions.map(d => [d.key, []]));
+  }
+}
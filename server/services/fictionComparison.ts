@@ -1,3 +1,5 @@
+import { callProviderChat, resolveProvider } from './providerRegistry';
+
 export interface FictionComparisonResult {
   winnerDocument: 'A' | 'B';
   documentAScore: number;
@@ -109,83 +111,10 @@ function parseFictionComparisonResponse(response: string): FictionComparisonResu
 
 async function makeFictionComparisonRequest(prompt: string, provider: string): Promise<string> {
   const systemMessage = "You are an expert fiction critic and literary analyst specializing in comparative analysis.";
-  
-  switch (provider) {
-    case 'openai':
-      const OpenAI = (await import("openai")).default;
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      const openaiResponse = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: systemMessage },
-          { role: "user", content: prompt }
-        ],
-        temperature: 0.2
-      });
-      return openaiResponse.choices[0].message.content || "";
-
-    case 'anthropic':
-      const Anthropic = (await import('@anthropic-ai/sdk')).default;
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-      const anthropicResponse = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219",
-        max_tokens: 4000,
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2
-      });
-      return anthropicResponse.content[0].type === 'text' ? anthropicResponse.content[0].text : "";
-
-    case 'perplexity':
-      const perplexityResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: "sonar",
-          messages: [
-            { role: "system", content: systemMessage },
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.2
-        })
-      });
-      
-      if (!perplexityResponse.ok) {
-        throw new Error(`Perplexity API error: ${perplexityResponse.status}`);
-      }
-      
-      const perplexityData: any = await perplexityResponse.json();
-      return perplexityData.choices?.[0]?.message?.content || "";
-
-    case 'deepseek':
-      const deepseekResponse = await fetch('https://api.deepseek.com/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: [
-            { role: "system", content: systemMessage },
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.2
-        })
-      });
-      
-      if (!deepseekResponse.ok) {
-        throw new Error(`DeepSeek API error: ${deepseekResponse.status}`);
-      }
-      
-      const deepseekData: any = await deepseekResponse.json();
-      return deepseekData.choices?.[0]?.message?.content || "";
-
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
-  }
+  return callProviderChat(resolveProvider(provider), [
+    { role: "system", content: systemMessage },
+    { role: "user", content: prompt }
+  ], { temperature: 0.2, maxTokens: 4000 });
 }
 
 export async function performFictionComparison(
@@ -1,56 +1,11 @@
 // EXACT USER-SPECIFIED 4-PHASE INTELLIGENCE EVALUATION PROTOCOL
 
-const EXACT_COMPLETE_QUESTIONS = `IS IT INSIGHTFUL? 
-DOES IT DEVELOP POINTS? (OR, IF IT IS A SHORT EXCERPT, IS THERE EVIDENCE THAT IT WOULD DEVELOP POINTS IF EXTENDED)? 
-IS THE ORGANIZATION MERELY SEQUENTIAL (JUST ONE POINT AFTER ANOTHER, LITTLE OR NO LOGICAL SCAFFOLDING)? OR ARE THE IDEAS ARRANGED, NOT JUST SEQUENTIALLY BUT HIERARCHICALLY? 
-IF THE POINTS IT MAKES ARE NOT INSIGHTFUL, DOES IT OPERATE SKILLFULLY WITH CANONS OF LOGIC/REASONING. 
-ARE THE POINTS CLICHES? OR ARE THEY "FRESH"? 
-DOES IT USE TECHNICAL JARGON TO OBFUSCATE OR TO RENDER MORE PRECISE? 
-IS IT ORGANIC? DO POINTS DEVELOP IN AN ORGANIC, NATURAL WAY? DO THEY 'UNFOLD'? OR ARE THEY FORCED AND ARTIFICIAL? 
-DOES IT OPEN UP NEW DOMAINS? OR, ON THE CONTRARY, DOES IT SHUT OFF INQUIRY (BY CONDITIONALIZING FURTHER DISCUSSION OF THE MATTERS ON ACCEPTANCE OF ITS INTERNAL AND POSSIBLY VERY FAULTY LOGIC)? 
-IS IT ACTUALLY INTELLIGENT OR JUST THE WORK OF SOMEBODY WHO, JUDGING BY THE SUBJECT-MATTER, IS PRESUMED TO BE INTELLIGENT (BUT MAY NOT BE)? 
-IS IT REAL OR IS IT PHONY? 
-DO THE SENTENCES EXHIBIT COMPLEX AND COHERENT INTERNAL LOGIC? 
-IS THE PASSAGE GOVERNED BY A STRONG CONCEPT? OR IS THE ONLY ORGANIZATION DRIVEN PURELY BY EXPOSITORY (AS OPPOSED TO EPISTEMIC) NORMS?
-IS THERE SYSTEM-LEVEL CONTROL OVER IDEAS? IN OTHER WORDS, DOES THE AUTHOR SEEM TO RECALL WHAT HE SAID EARLIER AND TO BE IN A POSITION TO INTEGRATE IT INTO POINTS HE HAS MADE SINCE THEN? 
-ARE THE POINTS 'REAL'? ARE THEY FRESH? OR IS SOME INSTITUTION OR SOME ACCEPTED VEIN OF PROPAGANDA OR ORTHODOXY JUST USING THE AUTHOR AS A MOUTH PIECE?
-IS THE WRITING EVASIVE OR DIRECT? 
-ARE THE STATEMENTS AMBIGUOUS? 
-DOES THE PROGRESSION OF THE TEXT DEVELOP ACCORDING TO WHO SAID WHAT OR ACCORDING TO WHAT ENTAILS OR CONFIRMS WHAT? 
-DOES THE AUTHOR USER OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK OF IDEAS?
-
-ADDITIONAL CRITICAL QUESTIONS:
-ARE THERE TERMS THAT ARE UNDEFINED BUT SHOULD BE DEFINED, IN THE SENSE THAT, WITHOUT DEFINITIONS, IT IS DIFFICULT OR IMPOSSIBLE TO KNOW WHAT IS BEING SAID OR THEREFORE TO EVALUATE WHAT IS BEING SAID?
-ARE THERE "FREE VARIABLES" IN THE TEXT? IE ARE THERE QUALIFICATIONS OR POINTS THAT ARE MADE BUT DO NOT CONNECT TO ANYTHING LATER OR EARLIER?
-DO NEW STATEMENTS DEVELOP OUT OF OLD ONES? OR ARE THEY MERELY "ADDED" TO PREVIOUS ONES, WITHOUT IN ANY SENSE BEING GENERATED BY THEM?
-DO NEW STATEMENTS CLARIFY OR DO THEY LEAD TO MORE LACK OF CLARITY?
-IS THE PASSAGE ACTUALLY (PALPABLY) SMART? OR IS ONLY "PRESUMPTION-SMART"?
-IF YOUR JUDGMENT IS THAT IT IS INSIGHTFUL, CAN YOU STATEMENT THAT INSIGHT IN A SINGLE SENTENCE?
-HOW WELL DOES IT MAKE ITS CASE?
-IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING IMPOSTOR SCAFFOLDING?
-IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?
-IF I WERE TO GIVE A LOW SCORE TO THIS PASSAGE, WOULD I BE PENALIZING ACTUAL INTELLIGENCE OWING TO A LACK OF CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?
-
-🚨 CRITICAL NEW DIMENSION: GENUINE DEPTH VS. FAUX POSTURING 🚨
-IS THIS GENUINE INTELLIGENCE OR FAUX-INTELLECTUAL PLACEHOLDER CONTENT?
-- HIERARCHICAL LOGIC: Do ideas actually derive logically from each other? Or is the text just SEQUENTIAL/CHRONOLOGICAL listing ("First... Second... Third...") without logical dependencies?
-- TERMS WITH DETERMINATE PROPERTIES: Are technical terms grounded with clear meanings? Or are they VAGUE PLACEHOLDERS/BUZZWORDS cited but never defined (e.g., "Myth of the Mental", "disjunctivism", "linguistic idealism" mentioned but not explained)?
-- IDEA-DRIVEN VS. AUTHOR-DRIVEN: Does the argument develop based on what entails/confirms what? Or is it AUTHOR-DRIVEN LISTING of "dialogues" and name-dropping without substance?
-- MEANINGFUL CRITIQUE VS. ASSERTION: Are claims substantiated? Or does text just ASSERT things are "problematic/dubious/faulty" without explaining why?
-- SOCIAL POSTURING: Does text turn intellectual questions into "social exchanges" ("dialogues", "accusations", "X says Y says Z")? This is FAUX-INTELLECTUAL.
-
-⚠️ FAUX-INTELLECTUAL MARKERS (MASSIVE SCORE PENALTIES):
-- Sequential listing disguised as argument → SCORE ≤20/100
-- Buzzwords/jargon shuffled without grounding → SCORE ≤20/100
-- Author-driven "dialogue" replacing idea-driven logic → SCORE ≤20/100
-- Vague umbrella claims assuming buzzwords have meaning they lack → SCORE ≤20/100
-- Turning philosophy into social posturing ("X accuses Y of...") → SCORE ≤20/100
-
-✅ GENUINE INTELLIGENCE MARKERS (HIGH SCORES):
-- Hierarchical argumentation where claims build on each other → SCORE 90+
-- Terms with canonical/determinate meanings used precisely → SCORE 90+
-- Idea-driven logic (what entails what) → SCORE 90+
-- Concrete logical relationships and substantive critique → SCORE 90+`;
+import { callProviderChat, estimateContextTokens, getChunkWordLimit, getProviderMaxTokens, type ProviderId } from './providerRegistry';
+import { finalScoreSchema, resolveStructured, trailingJsonInstruction } from './structuredOutput';
+import { getPrompt } from './promptRegistry';
+import { collectEvidence, type DimensionEvidence } from './evidenceSpans';
+
+const SCORE_INSTRUCTION = trailingJsonInstruction(finalScoreSchema);
 
 // PHASE 1: Complete protocol with all questions exactly as specified
 function createPhase1Prompt(text: string, questions: string): string {
@@ -175,7 +130,7 @@ Remember: INTELLIGENCE assessment, NOT academic grading. Brilliant but crazy = h
 
 EVERY single assessment MUST be backed by direct quotations from the text. Generic platitudes without evidence are completely unacceptable.
 
-Write in plain text only. End with: FINAL SCORE: [actual number]/100
+Write in plain text only. ${SCORE_INSTRUCTION}
 
 TEXT:
 ${text}`;
@@ -200,7 +155,7 @@ CRITICAL REQUIREMENTS (SAME AS BEFORE):
 
 Your response must prove you read this specific text through extensive quotations and detailed discussion.
 
-End with: FINAL SCORE: [NUMBER]/100
+${SCORE_INSTRUCTION}
 
 TEXT:
 ${text}`;
@@ -211,16 +166,18 @@ function createPhase3Prompt(score: number): string {
   const peopleOutperforming = 100 - score;
   return `You ask the LLM if its numerical scores (N/100, e.g. 99/100, 42/100) are consistent with the fact that those are to be taken to mean that (100-N) people out of 100 outperform the author in the relevant respect. So if a score of ${score}/100 is awarded to a paper, that means that ${peopleOutperforming}/100 people in Walmart are running rings around this person. Is this consistent with your assessment?
 
-FINAL SCORE: [NUMBER]/100`;
+${SCORE_INSTRUCTION}`;
 }
 
 // PHASE 4: Accept and report what the LLM says
 function createPhase4Prompt(): string {
   return `At this point, you accept and report what the LLM says.
 
-FINAL SCORE: [NUMBER]/100`;
+${SCORE_INSTRUCTION}`;
 }
 
+const PHASE_MAX_TOKENS = 4000;
+
 // Text chunking function for large texts - 500 words per chunk
 function chunkText(text: string, maxWordsPerChunk: number = 500): string[] {
   const words = text.split(' ');
@@ -238,131 +195,49 @@ function chunkText(text: string, maxWordsPerChunk: number = 500): string[] {
 
 // Generic LLM caller
 async function callLLMProvider(
-  provider: 'openai' | 'anthropic' | 'perplexity' | 'deepseek' | 'grok',
+  provider: ProviderId,
   messages: Array<{role: string, content: string}>
 ): Promise<string> {
   try {
-    if (provider === 'openai') {
-      const OpenAI = (await import('openai')).default;
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: messages as any,
-        temperature: 0.1
-      });
-      
-      return completion.choices[0]?.message?.content || '';
-    } else if (provider === 'anthropic') {
-      const Anthropic = (await import('@anthropic-ai/sdk')).default;
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-      
-      const completion = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219",
-        max_tokens: 4000,
-        messages: messages as any,
-        temperature: 0.1
-      });
-      
-      return completion.content[0]?.type === 'text' ? completion.content[0].text : '';
-    } else if (provider === 'perplexity') {
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "sonar",
-          messages: messages,
-          temperature: 0.1
-        })
-      });
-      
-      const data = await response.json();
-      return data.choices?.[0]?.message?.content || '';
-    } else if (provider === 'deepseek') {
-      const response = await fetch('https://api.deepseek.com/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: messages,
-          temperature: 0.1
-        })
-      });
-      
-      const data = await response.json();
-      return data.choices?.[0]?.message?.content || '';
-    } else if (provider === 'grok') {
-      const response = await fetch('https://api.x.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "grok-3",
-          messages: messages,
-          temperature: 0.1
-        })
-      });
-      
-      const data = await response.json();
-      return data.choices?.[0]?.message?.content || '';
-    }
-    
-    return '';
+    return await callProviderChat(provider, messages, { temperature: 0.1, maxTokens: PHASE_MAX_TOKENS });
   } catch (error) {
     console.error(`Error calling ${provider}:`, error);
-    return '';
+    throw error;
   }
 }
 
-// Score extraction function
-function extractScore(text: string): number {
-  console.log(`EXTRACTING SCORE FROM RESPONSE LENGTH: ${text.length}`);
-  
-  // Look for final score pattern first
-  const finalScoreMatch = text.match(/FINAL SCORE:\s*(\d+)\/100/i);
-  if (finalScoreMatch) {
-    const score = parseInt(finalScoreMatch[1]);
-    console.log(`EXTRACTED FINAL SCORE FORMAT: ${score}/100`);
-    return score;
-  }
-  
-  // Look for explicit numerical score
-  const explicitMatch = text.match(/(\d+)\/100/g);
-  if (explicitMatch && explicitMatch.length > 0) {
-    const lastMatch = explicitMatch[explicitMatch.length - 1];
-    const score = parseInt(lastMatch.split('/')[0]);
-    console.log(`EXTRACTED NUMERICAL SCORE: ${score}/100`);
-    return score;
-  }
-  
-  console.log('NO SCORE FOUND, defaulting to 0');
-  return 0;
+// Run one phase: prose analysis ending in a schema-validated score.
+// A missing or invalid score is re-asked, then reported as a StructuredOutputError.
+async function runScoredPhase(
+  provider: ProviderId,
+  phase: string,
+  prompt: string
+): Promise<{ score: number; response: string }> {
+  const messages = [{ role: 'user', content: prompt }];
+  const raw = await callLLMProvider(provider, messages);
+  const { data, text } = await resolveStructured(provider, messages, raw, {
+    name: `four-phase ${phase}`,
+    schema: finalScoreSchema
+  }, { temperature: 0.1, maxTokens: 500 });
+  const score = Math.round(data.finalScore);
+  console.log(`${phase.toUpperCase()} SCORE: ${score}/100`);
+  return { score, response: text };
 }
 
 // NORMAL PROTOCOL - Phase 1 only
 export async function executeNormalProtocol(
   text: string,
-  provider: 'openai' | 'anthropic' | 'perplexity' | 'deepseek' | 'grok'
+  provider: ProviderId
 ): Promise<any> {
   console.log(`NORMAL INTELLIGENCE ANALYSIS WITH ${provider.toUpperCase()} - PHASE 1 ONLY`);
   console.log(`EXECUTING PHASE 1 ONLY FOR INTELLIGENCE WITH ${provider.toUpperCase()}`);
   
-  const questions = EXACT_COMPLETE_QUESTIONS;
+  const questionsPrompt = await getPrompt('intelligence_questions');
+  const questions = questionsPrompt.content;
   
   // PHASE 1: Initial evaluation
   const phase1Prompt = createPhase1Prompt(text, questions);
-  const phase1Response = await callLLMProvider(provider, [
-    { role: 'user', content: phase1Prompt }
-  ]);
-  let finalScore = extractScore(phase1Response);
+  const { score: finalScore, response: phase1Response } = await runScoredPhase(provider, 'phase 1', phase1Prompt);
   
   console.log(`PHASE 1 COMPLETE: Score ${finalScore}/100`);
   
@@ -376,23 +251,28 @@ export async function executeNormalProtocol(
     analysis: cleanedResponse,
     evaluationType: 'intelligence',
     formattedReport: cleanedResponse,
-    rawResponse: phase1Response // DEBUG: Include raw response
+    rawResponse: phase1Response, // DEBUG: Include raw response
+    promptVersions: { intelligence_questions: questionsPrompt.version }
   };
 }
 
 // COMPREHENSIVE PROTOCOL - All 4 phases with chunking for high quality
 export async function executeComprehensiveProtocol(
   text: string,
-  provider: 'openai' | 'anthropic' | 'deepseek' | 'perplexity' | 'grok'
+  provider: ProviderId
 ): Promise<any> {
   console.log(`CHUNKED 4-PHASE INTELLIGENCE EVALUATION: Analyzing ${text.length} characters with protocol`);
   console.log(`EXECUTING CHUNKED 4-PHASE PROTOCOL FOR INTELLIGENCE WITH ${provider.toUpperCase()}`);
   
-  const questions = EXACT_COMPLETE_QUESTIONS;
+  const questionsPrompt = await getPrompt('intelligence_questions');
+  const questions = questionsPrompt.content;
   
-  // CHUNK THE TEXT FOR HIGH QUALITY ANALYSIS - 500 words per chunk
-  const chunks = chunkText(text, 500); // 500 words per chunk as requested
-  console.log(`TEXT SPLIT INTO ${chunks.length} CHUNKS (500 words each) for comprehensive analysis`);
+  // CHUNK THE TEXT FOR HIGH QUALITY ANALYSIS - 500 words per chunk, fewer if the
+  // provider's context window can't hold the phase 1 prompt plus its completion
+  const reservedTokens = estimateContextTokens(createPhase1Prompt('', questions)) + Math.min(PHASE_MAX_TOKENS, getProviderMaxTokens(provider));
+  const wordsPerChunk = getChunkWordLimit(provider, 500, reservedTokens);
+  const chunks = chunkText(text, wordsPerChunk);
+  console.log(`TEXT SPLIT INTO ${chunks.length} CHUNKS (${wordsPerChunk} words each) for comprehensive analysis`);
   
   let combinedAnalyses: string[] = [];
   let chunkScores: number[] = [];
@@ -403,12 +283,10 @@ export async function executeComprehensiveProtocol(
     console.log(`PHASE 1 CHUNK ${i+1}/${chunks.length}: Analyzing ${chunk.length} characters`);
     
     const chunkPrompt = createPhase1Prompt(chunk, questions);
-    const chunkResponse = await callLLMProvider(provider, [
-      { role: 'user', content: chunkPrompt }
-    ]);
+    const chunkResult = await runScoredPhase(provider, `phase 1 chunk ${i+1}`, chunkPrompt);
     
-    combinedAnalyses.push(chunkResponse);
-    chunkScores.push(extractScore(chunkResponse));
+    combinedAnalyses.push(chunkResult.response);
+    chunkScores.push(chunkResult.score);
     
     console.log(`CHUNK ${i+1} SCORE: ${chunkScores[i]}/100`);
   }
@@ -427,10 +305,7 @@ export async function executeComprehensiveProtocol(
   if (phase1Score < 95) {
     console.log(`PHASE 2: Score ${phase1Score} < 95, applying pushback to first chunk`);
     const phase2Prompt = createPhase2Prompt(phase1Score, chunks[0], questions);
-    phase2Response = await callLLMProvider(provider, [
-      { role: 'user', content: phase2Prompt }
-    ]);
-    phase2Score = extractScore(phase2Response);
+    ({ score: phase2Score, response: phase2Response } = await runScoredPhase(provider, 'phase 2', phase2Prompt));
   } else {
     console.log(`PHASE 2: Score ${phase1Score} >= 95, no pushback needed`);
     phase2Response = 'No pushback needed - score was already >= 95/100';
@@ -439,27 +314,13 @@ export async function executeComprehensiveProtocol(
   // PHASE 3: Walmart metric check
   console.log("PHASE 3: Walmart metric consistency check");
   const phase3Prompt = createPhase3Prompt(phase2Score);
-  const phase3Response = await callLLMProvider(provider, [
-    { role: 'user', content: phase3Prompt }
-  ]);
-  let phase3Score = extractScore(phase3Response);
+  const { score: phase3Score, response: phase3Response } = await runScoredPhase(provider, 'phase 3', phase3Prompt);
   
   // PHASE 4: Final validation and acceptance
   console.log("PHASE 4: Final validation");
   const phase4Prompt = createPhase4Prompt();
-  const phase4Response = await callLLMProvider(provider, [
-    { role: 'user', content: phase4Prompt }
-  ]);
-  let finalScore = extractScore(phase4Response);
-  
-  // Use Phase 4 score, or best previous score if Phase 4 fails
-  if (finalScore <= 0 || finalScore > 100) {
-    // Only use fallback if Phase 4 completely failed to extract a score
-    finalScore = Math.max(phase1Score, phase2Score, phase3Score);
-    console.log(`PHASE 4 RESULT: Score extraction failed, using best previous score ${finalScore}/100`);
-  } else {
-    console.log(`PHASE 4 RESULT: Final score ${finalScore}/100`);
-  }
+  const { score: finalScore, response: phase4Response } = await runScoredPhase(provider, 'phase 4', phase4Prompt);
+  console.log(`PHASE 4 RESULT: Final score ${finalScore}/100`);
   
   // Clean up response formatting
   const cleanResponse = (text: string) => {
@@ -500,14 +361,27 @@ export async function executeComprehensiveProtocol(
     analysis: cleanResponse(combinedText), // Combined analysis from all chunks
     phases, // Detailed breakdown of all phases
     evaluationType: 'intelligence',
-    formattedReport: cleanResponse(combinedText) // Combined comprehensive analysis
+    formattedReport: cleanResponse(combinedText), // Combined comprehensive analysis
+    promptVersions: { intelligence_questions: questionsPrompt.version }
   };
 }
 
+// Quoted spans supporting the overall score, keyed like the result field (overallScore)
+export async function collectProtocolEvidence(
+  text: string,
+  provider: string,
+  evaluationType: string,
+  overallScore: number
+): Promise<DimensionEvidence> {
+  return collectEvidence(provider, text, [
+    { key: 'overallScore', label: `Overall ${evaluationType.replace(/_/g, ' ')}`, score: overallScore }
+  ]);
+}
+
 // Unified function for backward compatibility 
 export async function executeFourPhaseProtocol(
   text: string,
-  provider: 'openai' | 'anthropic' | 'perplexity' | 'deepseek' | 'grok',
+  provider: ProviderId,
   evaluationType: string = 'intelligence',
   mode: 'normal' | 'comprehensive' = 'comprehensive'
 ): Promise<any> {
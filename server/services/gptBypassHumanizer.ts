@@ -1,17 +1,6 @@
 // GPT Bypass Humanizer - Complete Implementation
 import { checkForAI } from '../api/gptZero';
-
-// Map ZHI names to actual provider names
-function mapZhiToProvider(zhiName: string): string {
-  const mapping: Record<string, string> = {
-    'zhi1': 'openai',
-    'zhi2': 'anthropic', 
-    'zhi3': 'deepseek',
-    'zhi4': 'perplexity',
-    'zhi5': 'grok'
-  };
-  return mapping[zhiName] || zhiName;
-}
+import { callProviderChat, resolveProvider } from './providerRegistry';
 
 interface HumanizerRequest {
   boxA: string; // AI-written text to humanize
@@ -204,7 +193,7 @@ export async function evaluateWithGPTZero(text: string): Promise<number> {
 // Core humanization function
 export async function performHumanization(request: HumanizerRequest): Promise<HumanizerResult> {
   const { boxA, boxB, provider, customInstructions, stylePresets } = request;
-  const actualProvider = mapZhiToProvider(provider);
+  const actualProvider = resolveProvider(provider);
   
   // Get original AI score
   const originalAIScore = await evaluateWithGPTZero(boxA);
@@ -215,20 +204,8 @@ export async function performHumanization(request: HumanizerRequest): Promise<Hu
   console.log(`Performing humanization with ${actualProvider}...`);
   console.log(`Original AI Score: ${originalAIScore}% Human`);
   
-  let humanizedText = '';
-  
   try {
-    if (actualProvider === 'openai') {
-      humanizedText = await callOpenAI(prompt);
-    } else if (actualProvider === 'anthropic') {
-      humanizedText = await callAnthropic(prompt);
-    } else if (actualProvider === 'deepseek') {
-      humanizedText = await callDeepSeek(prompt);
-    } else if (actualProvider === 'perplexity') {
-      humanizedText = await callPerplexity(prompt);
-    } else {
-      throw new Error(`Unsupported provider: ${actualProvider}`);
-    }
+    const humanizedText = await callLLM(actualProvider, prompt);
     
     // Get humanized AI score
     const humanizedAIScore = await evaluateWithGPTZero(humanizedText);
@@ -293,95 +270,13 @@ ${customInstructions.trim()}`;
   return prompt;
 }
 
-// API call functions
-async function callOpenAI(prompt: string): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-      temperature: 0.7,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content.trim();
-}
-
-async function callAnthropic(prompt: string): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': process.env.ANTHROPIC_API_KEY!,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-7-sonnet-20250219',
-      max_tokens: 4000,
-      messages: [{ role: 'user', content: prompt }]
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Anthropic API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.content[0].text.trim();
-}
-
-async function callDeepSeek(prompt: string): Promise<string> {
-  const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'deepseek-chat',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-    }),
+// Provider call through the shared registry
+async function callLLM(provider: string, prompt: string): Promise<string> {
+  const text = await callProviderChat(provider, [{ role: 'user', content: prompt }], {
+    maxTokens: 4000,
+    temperature: 0.7,
   });
-
-  if (!response.ok) {
-    throw new Error(`DeepSeek API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content.trim();
-}
-
-async function callPerplexity(prompt: string): Promise<string> {
-  const response = await fetch('https://api.perplexity.ai/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'llama-3.1-sonar-small-128k-online',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Perplexity API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content.trim();
+  return text.trim();
 }
 
 // Process chunked text
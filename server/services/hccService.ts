@@ -9,12 +9,14 @@ import {
 } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { callAIWithFailover, cleanMarkdown } from "./aiFailover";
+import { createAnthropicClient, createOpenAIClient } from "./llmClients";
+import { mapWithConcurrency, CHUNK_CONCURRENCY } from "./rateScheduler";
 
 // Lazy initialization to avoid crashes when API keys are missing at startup
 let _anthropic: Anthropic | null = null;
 let _openai: OpenAI | null = null;
-function getAnthropic() { if (!_anthropic) _anthropic = new Anthropic(); return _anthropic; }
-function getOpenAI() { if (!_openai) _openai = new OpenAI(); return _openai; }
+function getAnthropic() { if (!_anthropic) _anthropic = createAnthropicClient(); return _anthropic; }
+function getOpenAI() { if (!_openai) _openai = createOpenAIClient(); return _openai; }
 
 const PRIMARY_MODEL = "claude-sonnet-4-5-20250929";
 const FALLBACK_MODEL = "gpt-4-turbo";
@@ -23,7 +25,6 @@ const VIRTUAL_PART_SIZE = 25000;
 const VIRTUAL_CHAPTER_SIZE = 5000;
 const TARGET_CHUNK_SIZE = 500;
 const MAX_HCC_WORDS = 100000;
-const CHUNK_DELAY_MS = 2000;
 const MAX_CHUNK_RETRIES = 2;
 
 async function callWithFallback(
@@ -686,10 +687,8 @@ export async function processHccDocument(
         const chapterSkeleton = `Master Thesis: ${bookSkeleton.masterThesis}\nContext: ${compressedPart}`;
         
         const chapterChunks = smartChunk(chapterText);
-        const processedChunks: { text: string; delta: any }[] = [];
-        
-        for (let k = 0; k < chapterChunks.length; k++) {
-          const chunk = chapterChunks[k];
+        // Chunks within a chapter are independent; the rate scheduler paces the calls
+        const processedChunks: { text: string; delta: any }[] = await mapWithConcurrency(chapterChunks, CHUNK_CONCURRENCY, async (chunk, k) => {
           const chunkTargetWords = Math.round(chunk.wordCount * lengthConfig.lengthRatio);
           
           const [chunkRecord] = await db.insert(hccChunks).values({
@@ -722,13 +721,8 @@ export async function processHccDocument(
             checkpointCallback
           );
           
-          processedChunks.push({ text: result.processedText, delta: result.delta });
-          
-          if (k < chapterChunks.length - 1) {
-            console.log(`[HCC] Waiting ${CHUNK_DELAY_MS}ms before next chunk...`);
-            await delay(CHUNK_DELAY_MS);
-          }
-        }
+          return { text: result.processedText, delta: result.delta };
+        });
         
         const stitchedChapter = await stitchChapter(chapterSkeleton, processedChunks);
         
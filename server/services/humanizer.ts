@@ -1,16 +1,6 @@
 // GPT Bypass Humanizer - Rewrite text to match exact style patterns
 
-// Map ZHI names to actual provider names
-function mapZhiToProvider(zhiName: string): string {
-  const mapping: Record<string, string> = {
-    'zhi1': 'openai',
-    'zhi2': 'anthropic', 
-    'zhi3': 'deepseek',
-    'zhi4': 'perplexity',
-    'zhi5': 'grok'
-  };
-  return mapping[zhiName] || zhiName;
-}
+import { callProviderChat, resolveProvider } from "./providerRegistry";
 
 interface HumanizerRequest {
   boxA: string; // Sample text for style reference
@@ -37,7 +27,7 @@ export async function performHumanization({
   customInstructions
 }: HumanizerRequest): Promise<HumanizerResult> {
   
-  const actualProvider = mapZhiToProvider(provider);
+  const actualProvider = resolveProvider(provider);
   
   // Construct the style matching prompt
   const prompt = buildStyleMatchingPrompt(boxA, boxB, boxC, customInstructions);
@@ -47,28 +37,9 @@ export async function performHumanization({
   console.log(`Box B length: ${boxB.length} chars`);
   console.log(`Box C length: ${boxC.length} chars`);
   
-  let rewrittenText = '';
-  let styleAnalysis = '';
-  
   try {
-    if (actualProvider === 'openai') {
-      const result = await callOpenAI(prompt);
-      ({ rewrittenText, styleAnalysis } = parseHumanizerResponse(result));
-    } else if (actualProvider === 'anthropic') {
-      const result = await callAnthropic(prompt);
-      ({ rewrittenText, styleAnalysis } = parseHumanizerResponse(result));
-    } else if (actualProvider === 'deepseek') {
-      const result = await callDeepSeek(prompt);
-      ({ rewrittenText, styleAnalysis } = parseHumanizerResponse(result));
-    } else if (actualProvider === 'perplexity') {
-      const result = await callPerplexity(prompt);
-      ({ rewrittenText, styleAnalysis } = parseHumanizerResponse(result));
-    } else if (actualProvider === 'grok') {
-      const result = await callGrok(prompt);
-      ({ rewrittenText, styleAnalysis } = parseHumanizerResponse(result));
-    } else {
-      throw new Error(`Unsupported provider: ${actualProvider}`);
-    }
+    const result = await callLLM(actualProvider, prompt);
+    const { rewrittenText, styleAnalysis } = parseHumanizerResponse(result);
     
     return {
       originalText: boxC,
@@ -159,122 +130,12 @@ function parseHumanizerResponse(response: string): { rewrittenText: string; styl
   return { rewrittenText, styleAnalysis };
 }
 
-// OpenAI API call
-async function callOpenAI(prompt: string): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-      temperature: 0.7,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
-}
-
-// Anthropic API call  
-async function callAnthropic(prompt: string): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': process.env.ANTHROPIC_API_KEY!,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-7-sonnet-20250219',
-      max_tokens: 4000,
-      messages: [{ role: 'user', content: prompt }]
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Anthropic API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.content[0].text;
-}
-
-// DeepSeek API call
-async function callDeepSeek(prompt: string): Promise<string> {
-  const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'deepseek-chat',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-    }),
+// Provider call through the shared registry
+async function callLLM(provider: string, prompt: string): Promise<string> {
+  return callProviderChat(provider, [{ role: 'user', content: prompt }], {
+    maxTokens: 4000,
+    temperature: 0.7,
   });
-
-  if (!response.ok) {
-    throw new Error(`DeepSeek API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
-}
-
-// Perplexity API call
-async function callPerplexity(prompt: string): Promise<string> {
-  const response = await fetch('https://api.perplexity.ai/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'llama-3.1-sonar-small-128k-online',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Perplexity API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
-}
-
-// Grok API call
-async function callGrok(prompt: string): Promise<string> {
-  const response = await fetch('https://api.x.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'grok-3',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-      temperature: 0.7,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Grok API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
 }
 
 // Text chunking for large inputs
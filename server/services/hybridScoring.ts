@@ -0,0 +1,281 @@
+/**
+ * Hybrid scoring
+ *
+ * Blends the LLM's intelligence score with deterministic text metrics from
+ * semanticAnalysis (semantic density, token entropy, lexical rarity). The
+ * blend is a ridge regression fitted on the calibration corpus: for every
+ * scored calibration result, the target is the midpoint of the sample's
+ * expected band and the predictors are the LLM score plus the sample's text
+ * metrics. Each hybrid score is reported as the corpus baseline plus one
+ * contribution per component, so the result explains itself.
+ */
+
+import { storage } from '../storage';
+import type { CalibrationResult, CalibrationSample } from '@shared/schema';
+import { analyzeSemanticDensity } from './semanticAnalysis';
+import { PROVIDERS, tryResolveProvider, type ProviderId } from './providerRegistry';
+
+const RIDGE_LAMBDA = 1;          // on standardized predictors; shrinks toward the corpus mean
+const MIN_TRAINING_ROWS = 8;     // below this, results from every provider are pooled
+
+export const HYBRID_COMPONENTS = ['llmScore', 'semanticDensity', 'tokenEntropy', 'lexicalRarity'] as const;
+export type HybridComponent = typeof HYBRID_COMPONENTS[number];
+
+const COMPONENT_LABELS: Record<HybridComponent, string> = {
+  llmScore: 'LLM judgment',
+  semanticDensity: 'Semantic density',
+  tokenEntropy: 'Token entropy',
+  lexicalRarity: 'Lexical rarity',
+};
+
+// Sentence-level means, each 0-1
+export interface TextFeatures {
+  semanticDensity: number;
+  tokenEntropy: number;
+  lexicalRarity: number;
+}
+
+export interface HybridModel {
+  provider: string;                // provider the model was fitted for, or "pooled"
+  trainingRows: number;
+  baseline: number;                // mean target score of the training rows
+  intercept: number;
+  weights: Record<HybridComponent, number>;   // points per unit of each raw predictor
+  means: Record<HybridComponent, number>;     // training means, the zero point of each contribution
+  influence: Record<HybridComponent, number>; // share of standardized weight, sums to 1
+  rmse: number;                    // hybrid fit error on the training rows
+  llmOnlyRmse: number;             // error of the raw LLM score on the same rows
+}
+
+export interface HybridComponentScore {
+  component: HybridComponent;
+  label: string;
+  value: number;
+  weight: number;
+  contribution: number;            // points added to the baseline for this document
+  influence: number;
+}
+
+export interface HybridScore {
+  score: number;
+  llmScore: number;
+  baseline: number;
+  components: HybridComponentScore[];
+  model: {
+    provider: string;
+    trainingRows: number;
+    rmse: number;
+    llmOnlyRmse: number;
+  };
+}
+
+export class HybridScoringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HybridScoringError';
+  }
+}
+
+interface TrainingRow {
+  target: number;
+  predictors: Record<HybridComponent, number>;
+}
+
+// Fitted models keyed by provider and the newest calibration run they include
+const modelCache = new Map<string, HybridModel | null>();
+const featureCache = new Map<number, TextFeatures>();
+
+export async function extractTextFeatures(text: string): Promise<TextFeatures> {
+  const { sentences } = await analyzeSemanticDensity(text);
+  const mean = (key: keyof TextFeatures) =>
+    sentences.length === 0 ? 0 : sentences.reduce((sum, unit) => sum + unit[key], 0) / sentences.length;
+  return {
+    semanticDensity: mean('semanticDensity'),
+    tokenEntropy: mean('tokenEntropy'),
+    lexicalRarity: mean('lexicalRarity')
+  };
+}
+
+async function sampleFeatures(sample: CalibrationSample): Promise<TextFeatures> {
+  let features = featureCache.get(sample.id);
+  if (!features) {
+    features = await extractTextFeatures(sample.content);
+    featureCache.set(sample.id, features);
+  }
+  return features;
+}
+
+// Solve A x = b by Gaussian elimination with partial pivoting
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col];
+      for (let j = col; j <= n; j++) m[r][j] -= factor * m[col][j];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = m[i][n];
+    for (let j = i + 1; j < n; j++) sum -= m[i][j] * x[j];
+    x[i] = sum / m[i][i];
+  }
+  return x;
+}
+
+const rootMeanSquare = (errors: number[]) => Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length);
+
+/**
+ * Ridge regression on standardized predictors, converted back to raw units.
+ */
+export function fitHybridModel(provider: string, rows: TrainingRow[]): HybridModel {
+  const n = rows.length;
+  const baseline = rows.reduce((sum, row) => sum + row.target, 0) / n;
+  const stats = HYBRID_COMPONENTS.map(component => {
+    const values = rows.map(row => row.predictors[component]);
+    const mean = values.reduce((a, b) => a + b, 0) / n;
+    const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n);
+    return { component, mean, sd };
+  });
+
+  // Constant predictors carry no information and are left out of the fit
+  const used = stats.filter(s => s.sd > 1e-9);
+  const z = rows.map(row => used.map(s => (row.predictors[s.component] - s.mean) / s.sd));
+  const y = rows.map(row => row.target - baseline);
+  const gram = used.map((_, i) => used.map((_, j) =>
+    z.reduce((sum, zr) => sum + zr[i] * zr[j], 0) + (i === j ? RIDGE_LAMBDA : 0)
+  ));
+  const moment = used.map((_, i) => z.reduce((sum, zr, r) => sum + zr[i] * y[r], 0));
+  const standardized = used.length > 0 ? solve(gram, moment) : [];
+
+  const weights = Object.fromEntries(HYBRID_COMPONENTS.map(c => [c, 0])) as Record<HybridComponent, number>;
+  const means = Object.fromEntries(stats.map(s => [s.component, s.mean])) as Record<HybridComponent, number>;
+  const influence = Object.fromEntries(HYBRID_COMPONENTS.map(c => [c, 0])) as Record<HybridComponent, number>;
+  const totalInfluence = standardized.reduce((sum, w) => sum + Math.abs(w), 0);
+  used.forEach((s, i) => {
+    weights[s.component] = standardized[i] / s.sd;
+    influence[s.component] = totalInfluence > 0 ? Math.abs(standardized[i]) / totalInfluence : 0;
+  });
+  const intercept = baseline - HYBRID_COMPONENTS.reduce((sum, c) => sum + weights[c] * means[c], 0);
+
+  const predict = (row: TrainingRow) => intercept + HYBRID_COMPONENTS.reduce((sum, c) => sum + weights[c] * row.predictors[c], 0);
+  return {
+    provider,
+    trainingRows: n,
+    baseline,
+    intercept,
+    weights,
+    means,
+    influence,
+    rmse: rootMeanSquare(rows.map(row => predict(row) - row.target)),
+    llmOnlyRmse: rootMeanSquare(rows.map(row => row.predictors.llmScore - row.target))
+  };
+}
+
+async function trainingRows(results: CalibrationResult[], samples: Map<number, CalibrationSample>): Promise<TrainingRow[]> {
+  const rows: TrainingRow[] = [];
+  for (const result of results) {
+    const sample = samples.get(result.sampleId);
+    if (result.score === null || !sample) continue;
+    rows.push({
+      target: (result.expectedMin + result.expectedMax) / 2,
+      predictors: { llmScore: result.score, ...(await sampleFeatures(sample)) }
+    });
+  }
+  return rows;
+}
+
+/**
+ * The hybrid model for a provider, fitted on its completed calibration runs.
+ * Providers with too few calibration results use a model pooled across all
+ * providers. Returns null when the corpus has never been scored.
+ */
+export async function getHybridModel(provider: string): Promise<HybridModel | null> {
+  const providerId = tryResolveProvider(provider) || provider;
+  const runs = await storage.getCompletedCalibrationRuns();
+  if (runs.length === 0) return null;
+
+  const newestRun = Math.max(...runs.map(run => run.id));
+  const cacheKey = `${providerId}@${newestRun}`;
+  if (modelCache.has(cacheKey)) return modelCache.get(cacheKey)!;
+
+  const samples = new Map((await storage.getCalibrationSamples(true)).map(sample => [sample.id, sample]));
+  const providerRuns = runs.filter(run => run.provider === providerId);
+  let rows = providerRuns.length > 0
+    ? await trainingRows(await storage.getCalibrationResults(providerRuns.map(run => run.id)), samples)
+    : [];
+  let fittedFor: string = providerId;
+  if (rows.length < MIN_TRAINING_ROWS) {
+    rows = await trainingRows(await storage.getCalibrationResults(runs.map(run => run.id)), samples);
+    fittedFor = 'pooled';
+  }
+
+  const model = rows.length >= MIN_TRAINING_ROWS ? fitHybridModel(fittedFor, rows) : null;
+  if (model) {
+    console.log(`⚖️ Hybrid model for ${providerId} (${fittedFor}, ${rows.length} rows): RMSE ${model.rmse.toFixed(1)} vs LLM-only ${model.llmOnlyRmse.toFixed(1)}`);
+  }
+  modelCache.set(cacheKey, model);
+  return model;
+}
+
+/**
+ * The provider's hybrid model, or a HybridScoringError when there is none.
+ * Routes call this before running the paid LLM evaluation.
+ */
+export async function requireHybridModel(provider: string): Promise<HybridModel> {
+  const model = await getHybridModel(provider);
+  if (!model) {
+    throw new HybridScoringError('Hybrid scoring needs calibration results; run a calibration benchmark first');
+  }
+  return model;
+}
+
+/**
+ * Blend an LLM intelligence score for this text with its text metrics.
+ */
+export async function computeHybridScore(text: string, llmScore: number, provider: string): Promise<HybridScore> {
+  const model = await requireHybridModel(provider);
+
+  const predictors: Record<HybridComponent, number> = { llmScore, ...(await extractTextFeatures(text)) };
+  const components = HYBRID_COMPONENTS.map(component => ({
+    component,
+    label: COMPONENT_LABELS[component],
+    value: Math.round(predictors[component] * 1000) / 1000,
+    weight: Math.round(model.weights[component] * 1000) / 1000,
+    contribution: Math.round(model.weights[component] * (predictors[component] - model.means[component]) * 10) / 10,
+    influence: Math.round(model.influence[component] * 1000) / 1000
+  }));
+  const raw = model.baseline + components.reduce((sum, c) => sum + c.contribution, 0);
+
+  return {
+    score: Math.round(Math.min(100, Math.max(0, raw))),
+    llmScore,
+    baseline: Math.round(model.baseline * 10) / 10,
+    components,
+    model: {
+      provider: model.provider === 'pooled' ? 'pooled' : PROVIDERS[model.provider as ProviderId]?.alias || model.provider,
+      trainingRows: model.trainingRows,
+      rmse: Math.round(model.rmse * 10) / 10,
+      llmOnlyRmse: Math.round(model.llmOnlyRmse * 10) / 10
+    }
+  };
+}
+
+// Plain-text breakdown appended to reports
+export function formatHybridBreakdown(hybrid: HybridScore): string {
+  const lines = hybrid.components.map(c =>
+    `- ${c.label}: ${c.component === 'llmScore' ? c.value : c.value.toFixed(3)} → ${c.contribution >= 0 ? '+' : ''}${c.contribution} points (${Math.round(c.influence * 100)}% of model weight)`
+  );
+  return `HYBRID SCORE: ${hybrid.score}/100
+
+Calibration baseline: ${hybrid.baseline}
+${lines.join('\n')}
+
+Fitted on ${hybrid.model.trainingRows} calibration results (${hybrid.model.provider}); fit error ±${hybrid.model.rmse} vs ±${hybrid.model.llmOnlyRmse} for the LLM score alone.`;
+}
@@ -1,5 +1,5 @@
 import { executeFourPhaseProtocol } from './fourPhaseProtocol';
-import fetch from 'node-fetch';
+import { callProviderChat, streamProviderChat, resolveProvider } from './providerRegistry';
 
 // Utility to strip markdown formatting from text
 function stripMarkdown(text: string): string {
@@ -50,6 +50,10 @@ interface IntelligentRewriteRequest {
   styleSample?: string;
   provider: LLMProvider;
   useExternalKnowledge?: boolean;
+  // Streaming hooks: pipeline stage changes and rewrite text deltas
+  onProgress?: (stage: 'evaluating-original' | 'rewriting' | 'evaluating-rewrite') => void;
+  onDelta?: (delta: string) => void;
+  signal?: AbortSignal;   // stops the pipeline between steps and the rewrite stream mid-way
 }
 
 interface IntelligentRewriteResult {
@@ -62,18 +66,6 @@ interface IntelligentRewriteResult {
   rewriteReport: string;
 }
 
-// Map ZHI names to actual provider names
-function mapZhiToProvider(zhiName: string): string {
-  const mapping: Record<string, string> = {
-    'zhi1': 'openai',
-    'zhi2': 'anthropic', 
-    'zhi3': 'deepseek',
-    'zhi4': 'perplexity',
-    'zhi5': 'grok'
-  };
-  return mapping[zhiName] || zhiName;
-}
-
 // Default high-quality style samples
 const DEFAULT_STYLE_SAMPLES = {
   philosophical: `One cannot have the concept of a red object without having the concept of an extended object. But the word "red" doesn't contain the word "extended." In general, our concepts are interconnected in ways in which the corresponding words are not interconnected. This is not an accidental fact about the English language or about any other language: it is inherent in what a language is that the cognitive abilities corresponding to a person's abilities to use words cannot possibly be reflected in semantic relations holding among those words.`,
@@ -115,8 +107,8 @@ function isFiction(text: string): boolean {
 }
 
 export async function performIntelligentRewrite(request: IntelligentRewriteRequest): Promise<IntelligentRewriteResult> {
-  const { text, customInstructions, styleSample, provider: rawProvider, useExternalKnowledge } = request;
-  const provider = mapZhiToProvider(rawProvider) as LLMProvider;
+  const { text, customInstructions, styleSample, provider: rawProvider, useExternalKnowledge, onProgress, onDelta, signal } = request;
+  const provider = resolveProvider(rawProvider) as LLMProvider;
   
   console.log(`Starting intelligent rewrite with ${provider}${useExternalKnowledge ? ' (with external knowledge)' : ''}`);
   
@@ -128,6 +120,7 @@ export async function performIntelligentRewrite(request: IntelligentRewriteReque
   
   // Step 2: Get baseline score using 4-phase protocol
   console.log('Step 2: Evaluating original text...');
+  onProgress?.('evaluating-original');
   const originalEvaluation = await executeFourPhaseProtocol(text, provider);
   const originalScore = originalEvaluation.overallScore;
   
@@ -201,85 +194,19 @@ OUTPUT REQUIREMENTS:
 COMPLETE ${isTextFiction ? 'STORY' : 'ESSAY'}:`;
 
   let rewrittenText: string;
+  signal?.throwIfAborted();
+  onProgress?.('rewriting');
   try {
-    // Use the same LLM call pattern as other services
-    if (provider === 'openai') {
-      const OpenAI = (await import('openai')).default;
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: basePrompt }],
-        temperature: 0.3,
-        max_tokens: 8000
-      });
-      
-      rewrittenText = completion.choices[0]?.message?.content || '';
-    } else if (provider === 'anthropic') {
-      const Anthropic = (await import('@anthropic-ai/sdk')).default;
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-      
-      const completion = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219",
-        max_tokens: 8000,
-        messages: [{ role: "user", content: basePrompt }],
-        temperature: 0.3
-      });
-      
-      rewrittenText = completion.content[0]?.type === 'text' ? completion.content[0].text : '';
-    } else if (provider === 'perplexity') {
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "sonar",
-          messages: [{ role: "user", content: basePrompt }],
-          temperature: 0.3,
-          max_tokens: 8000
-        })
-      });
-      
-      const data: any = await response.json();
-      rewrittenText = data.choices[0]?.message?.content || '';
-    } else if (provider === 'deepseek') {
-      const response = await fetch('https://api.deepseek.com/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: [{ role: "user", content: basePrompt }],
-          temperature: 0.3,
-          max_tokens: 8000
-        })
-      });
-      
-      const data: any = await response.json();
-      rewrittenText = data.choices[0]?.message?.content || '';
-    } else if (provider === 'grok') {
-      const response = await fetch('https://api.x.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "grok-3",
-          messages: [{ role: "user", content: basePrompt }],
-          temperature: 0.3,
-          max_tokens: 8000
-        })
-      });
-      
-      const data: any = await response.json();
-      rewrittenText = data.choices[0]?.message?.content || '';
+    const messages = [{ role: "user", content: basePrompt }];
+    const chatOptions = { temperature: 0.3, maxTokens: 8000, signal };
+    if (onDelta) {
+      rewrittenText = '';
+      for await (const delta of streamProviderChat(provider, messages, chatOptions)) {
+        rewrittenText += delta;
+        onDelta(delta);
+      }
     } else {
-      throw new Error(`Unsupported provider: ${provider}`);
+      rewrittenText = await callProviderChat(provider, messages, chatOptions);
     }
     
     // Strip out AI commentary and markdown formatting
@@ -300,6 +227,8 @@ COMPLETE ${isTextFiction ? 'STORY' : 'ESSAY'}:`;
 
   // Step 5: Evaluate the rewritten text
   console.log('Step 2: Evaluating rewritten text...');
+  signal?.throwIfAborted();
+  onProgress?.('evaluating-rewrite');
   const rewrittenEvaluation = await executeFourPhaseProtocol(rewrittenText, provider);
   const rewrittenScore = rewrittenEvaluation.overallScore;
   
@@ -0,0 +1,287 @@
+/**
+ * Legal / contractual coherence
+ *
+ * Deterministic extraction of the LEGAL_STATE diff for a chunk of a contract
+ * or policy document: parties, defined terms, section headings and
+ * cross-references, obligations and the conditions attached to them. The
+ * diff flags capitalized terms used without a definition, references to
+ * sections that do not exist (yet) and obligations that contradict earlier
+ * ones. Terms and sections may legitimately be defined after their first
+ * use, so undefined terms and dangling references stay pending in the state
+ * until the whole document has been read (see finalizeLegalState).
+ */
+
+import type { LegalState, LegalDiff, LegalObligation } from './coherenceMeter';
+
+const PARTY_ROLES = new Set([
+  'party', 'parties', 'buyer', 'seller', 'licensor', 'licensee', 'company', 'employer', 'employee',
+  'contractor', 'consultant', 'client', 'customer', 'supplier', 'vendor', 'provider', 'landlord',
+  'tenant', 'lessor', 'lessee', 'lender', 'borrower', 'discloser', 'disclosing party', 'recipient',
+  'receiving party', 'purchaser', 'guarantor', 'member', 'user', 'subscriber', 'partner'
+]);
+
+const CORPORATE_SUFFIX = /\b(?:Inc|LLC|L\.L\.C|Ltd|Limited|Corporation|Corp|Company|Co|GmbH|AG|plc|PLC|LLP|LP|L\.P|S\.A|N\.V|B\.V|Pty)\.?(?=\s|,|$)/;
+
+// Capitalized words that are not defined terms when they follow a determiner
+const NOT_DEFINED_TERMS = new Set([
+  'section', 'sections', 'clause', 'clauses', 'article', 'articles', 'schedule', 'exhibit', 'annex', 'appendix',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'united states', 'united kingdom', 'european union', 'state', 'court', 'courts', 'internet', 'english'
+]);
+
+const DETERMINER = /\b(?:[Tt]he|[Tt]his|[Tt]hat|[Ss]uch|[Aa]ny|[Ee]ach|[Ee]ither|[Nn]either|[Aa]ll|[Nn]o|[Ii]ts|[Tt]heir|[Hh]is|[Hh]er)\s+((?:[A-Z][a-z][A-Za-z'-]*)(?:\s+(?:of\s+)?[A-Z][a-z][A-Za-z'-]*){0,3})/g;
+
+const MODALS: Array<{ pattern: string; polarity: LegalObligation['polarity'] }> = [
+  { pattern: 'shall not', polarity: 'must-not' },
+  { pattern: 'must not', polarity: 'must-not' },
+  { pattern: 'will not', polarity: 'must-not' },
+  { pattern: 'may not', polarity: 'must-not' },
+  { pattern: 'agrees? not to', polarity: 'must-not' },
+  { pattern: 'is not permitted to', polarity: 'must-not' },
+  { pattern: 'shall', polarity: 'must' },
+  { pattern: 'must', polarity: 'must' },
+  { pattern: 'agrees? to', polarity: 'must' },
+  { pattern: 'is required to', polarity: 'must' },
+  { pattern: 'undertakes to', polarity: 'must' },
+  { pattern: 'may', polarity: 'may' },
+];
+
+const OBLIGATION = new RegExp(
+  `(?:^|[\\s(,;:])(?:[Tt]he\\s+|[Ee]ach\\s+|[Ee]ither\\s+)?((?:[A-Z][A-Za-z'-]*)(?:[ \\t]+[A-Z][A-Za-z'-]*){0,3})\\s+(${MODALS.map(m => m.pattern).join('|')})\\s+(?:be\\s+)?([^.;:]+)`,
+  'g'
+);
+
+const CONDITION = /\b(if|unless|provided that|subject to|upon|in the event that|except where|except as)\b\s+([^,.;]{3,120})/i;
+
+const SECTION_HEADING = /(?:^|[.:;!?]\s+)(?:(?:Section|Clause|Article|§)\s*)?(\d+(?:\.\d+)*)\.?\s+(?=[A-Z])/g;
+const ARTICLE_HEADING = /(?:^|[.:;!?]\s+)ARTICLE\s+([IVXLC]+|\d+)\b/gi;
+const ATTACHMENT_HEADING = /(?:^|[.:;!?]\s+)(Schedule|Exhibit|Annex|Appendix)\s+([A-Z]|\d+)\b[.:]?\s+(?=[A-Z])/g;
+const SECTION_REFERENCE = /\b(?:Sections?|Clauses?|§§?)\s*(\d+(?:\.\d+)*(?:\([a-z0-9]+\))*(?:\s*(?:,|and|or|through|to)\s*\d+(?:\.\d+)*(?:\([a-z0-9]+\))*)*)/g;
+const ARTICLE_REFERENCE = /\bArticles?\s+([IVXLC]+|\d+)\b/g;
+const ATTACHMENT_REFERENCE = /\b(Schedule|Exhibit|Annex|Appendix)\s+([A-Z]|\d+)\b/g;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+const stripQuotes = (text: string) => text.replace(/[“”]/g, '"').replace(/[‘’]/g, "'");
+
+// Singular/plural forms count as the same defined term ("Party" / "Parties")
+function termForms(term: string): string[] {
+  const t = normalize(term);
+  return [t, t.replace(/ies$/, 'y'), t.replace(/e?s$/, ''), `${t}s`];
+}
+
+function isDefined(term: string, defined: Set<string>): boolean {
+  const key = normalize(term);
+  return termForms(term).some(form => defined.has(form)) || Array.from(defined).some(d => termForms(d).includes(key));
+}
+
+function actionKey(text: string): string {
+  return normalize(text)
+    .replace(/\b(?:the|a|an)\b/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 8)
+    .join(' ');
+}
+
+// Word-prefix match so "pay the Fees" and "pay the Fees within 30 days" are the same duty
+function sameAction(a: string, b: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length > 0 && (longer === shorter || longer.startsWith(`${shorter} `));
+}
+
+export function obligationsConflict(a: LegalObligation, b: LegalObligation): boolean {
+  if (normalize(a.party) !== normalize(b.party) && !termForms(a.party).includes(normalize(b.party))) return false;
+  if (!sameAction(a.action, b.action)) return false;
+  // Differently conditioned duties can both hold ("shall pay if X", "shall not pay unless Y")
+  if ((a.condition || '') !== (b.condition || '')) return false;
+  const polarities = new Set([a.polarity, b.polarity]);
+  return polarities.has('must-not') && (polarities.has('must') || polarities.has('may'));
+}
+
+export function describeObligation(o: LegalObligation): string {
+  const modal = o.polarity === 'must' ? 'shall' : o.polarity === 'must-not' ? 'shall not' : 'may';
+  return `${o.party} ${modal} ${o.action}${o.condition ? ` (${o.condition})` : ''}`;
+}
+
+function describeReference(ref: string): string {
+  if (/^\d/.test(ref)) return `Section ${ref}`;
+  const [kind, id] = ref.split(' ');
+  return `${kind.charAt(0).toUpperCase()}${kind.slice(1)} ${id.toUpperCase()}`;
+}
+
+function sectionResolves(ref: string, sections: Set<string>): boolean {
+  if (sections.has(ref)) return true;
+  // "Section 4" is satisfied by a "4.1" heading
+  return /^\d+(\.\d+)*$/.test(ref) && Array.from(sections).some(s => s.startsWith(`${ref}.`));
+}
+
+function extractDefinitions(text: string): Array<{ term: string; definition: string; index: number }> {
+  const found: Array<{ term: string; definition: string; index: number }> = [];
+  // Parenthetical definitions: Acme Corp. (the "Supplier"); each a "Party"
+  for (const match of Array.from(text.matchAll(/\(([^()]*"[A-Z][^"]{0,60}"[^()]*)\)/g))) {
+    const context = text.slice(Math.max(0, match.index! - 150), match.index!).trim();
+    for (const term of Array.from(match[1].matchAll(/"([A-Z][^"]{0,60})"/g))) {
+      found.push({ term: term[1].trim(), definition: context.slice(-100), index: match.index! });
+    }
+  }
+  // Collective definitions outside parentheses: each a "Party", together the "Parties"
+  for (const match of Array.from(text.matchAll(/\b(?:each|together|collectively)\s+(?:a|an|the)?\s*"([A-Z][^"]{0,60})"/g))) {
+    found.push({ term: match[1].trim(), definition: text.slice(Math.max(0, match.index! - 100), match.index!).trim(), index: match.index! });
+  }
+  // Definitions-section style: "Confidential Information" means ...
+  for (const match of Array.from(text.matchAll(/"([A-Z][^"]{0,60})"\s+(?:means|shall mean|has the meaning|refers to|includes|is defined)\s+([^.;]{0,100})/g))) {
+    found.push({ term: match[1].trim(), definition: match[2].trim(), index: match.index! });
+  }
+  return found;
+}
+
+function partyName(context: string, alias: string): string {
+  const corporate = Array.from(context.matchAll(/([A-Z][\w&'.-]*(?:\s+(?:[A-Z][\w&'.-]*|of|and|&))*,?\s+(?:Inc|LLC|L\.L\.C|Ltd|Limited|Corporation|Corp|Company|Co|GmbH|AG|plc|PLC|LLP|LP|L\.P|S\.A|N\.V|B\.V|Pty)\.?)/g));
+  if (corporate.length > 0) return corporate[corporate.length - 1][1].trim();
+  const named = Array.from(context.matchAll(/([A-Z][\w&'.-]*(?:\s+[A-Z][\w&'.-]*)+)/g));
+  return named.length > 0 ? named[named.length - 1][1].trim() : alias;
+}
+
+function extractSections(text: string): { sections: string[]; headingSpans: Array<[number, number]> } {
+  const sections: string[] = [];
+  const headingSpans: Array<[number, number]> = [];
+  for (const match of Array.from(text.matchAll(SECTION_HEADING))) {
+    sections.push(match[1]);
+    headingSpans.push([match.index!, match.index! + match[0].length]);
+  }
+  for (const match of Array.from(text.matchAll(ARTICLE_HEADING))) {
+    sections.push(`article ${match[1].toLowerCase()}`);
+    headingSpans.push([match.index!, match.index! + match[0].length]);
+  }
+  for (const match of Array.from(text.matchAll(ATTACHMENT_HEADING))) {
+    sections.push(`${match[1].toLowerCase()} ${match[2].toLowerCase()}`);
+    headingSpans.push([match.index!, match.index! + match[0].length]);
+  }
+  return { sections, headingSpans };
+}
+
+function extractReferences(text: string, headingSpans: Array<[number, number]>): string[] {
+  const inHeading = (index: number) => headingSpans.some(([start, end]) => index >= start && index < end);
+  const refs: string[] = [];
+  for (const match of Array.from(text.matchAll(SECTION_REFERENCE))) {
+    if (inHeading(match.index!)) continue;
+    for (const ref of Array.from(match[1].matchAll(/\d+(?:\.\d+)*/g))) refs.push(ref[0]);
+  }
+  for (const match of Array.from(text.matchAll(ARTICLE_REFERENCE))) {
+    if (!inHeading(match.index!)) refs.push(`article ${match[1].toLowerCase()}`);
+  }
+  for (const match of Array.from(text.matchAll(ATTACHMENT_REFERENCE))) {
+    if (!inHeading(match.index!)) refs.push(`${match[1].toLowerCase()} ${match[2].toLowerCase()}`);
+  }
+  return Array.from(new Set(refs));
+}
+
+function extractObligations(text: string, chunkIndex: number): LegalObligation[] {
+  const obligations: LegalObligation[] = [];
+  for (const sentence of text.split(/(?<=[.;!?])\s+/)) {
+    const condition = sentence.match(CONDITION);
+    for (const match of Array.from(sentence.matchAll(OBLIGATION))) {
+      const party = match[1].trim();
+      if (NOT_DEFINED_TERMS.has(normalize(party)) || /^(?:If|Unless|Upon|Notwithstanding|Subject|Except|In|Where|When|Nothing)$/.test(party)) continue;
+      const modal = normalize(match[2]);
+      const polarity = MODALS.find(m => new RegExp(`^${m.pattern}$`).test(modal))!.polarity;
+      const action = actionKey(match[3]);
+      if (!action) continue;
+      obligations.push({
+        party,
+        action,
+        polarity,
+        condition: condition ? normalize(`${condition[1]} ${condition[2]}`) : null,
+        chunk: chunkIndex
+      });
+    }
+  }
+  return obligations;
+}
+
+/**
+ * The LEGAL_STATE diff for one chunk, read against the state before it.
+ */
+export function extractLegalDiff(chunkText: string, state: LegalState, chunkIndex: number): LegalDiff {
+  const text = stripQuotes(chunkText);
+
+  // Definitions and parties
+  const newDefinedTerms: Record<string, string> = {};
+  const newParties: LegalState['parties'] = [];
+  for (const { term, definition } of extractDefinitions(text)) {
+    if (state.defined_terms[term] === undefined) newDefinedTerms[term] = definition;
+    const isParty = PARTY_ROLES.has(normalize(term)) || CORPORATE_SUFFIX.test(definition);
+    if (isParty && !state.parties.some(p => normalize(p.alias) === normalize(term)) && !newParties.some(p => p.alias === term)) {
+      newParties.push({ name: partyName(definition, term), alias: term });
+    }
+  }
+  const defined = new Set([
+    ...Object.keys(state.defined_terms),
+    ...Object.keys(newDefinedTerms),
+    ...state.parties.flatMap(p => [p.alias, p.name]),
+    ...newParties.flatMap(p => [p.alias, p.name])
+  ].map(normalize));
+
+  // Capitalized terms used like defined terms ("the Effective Date") without a definition so far
+  const pending = new Set(state.undefined_terms.map(t => normalize(t.term)));
+  const undefinedTerms: string[] = [];
+  for (const match of Array.from(text.matchAll(DETERMINER))) {
+    const term = match[1].trim();
+    const key = normalize(term);
+    if (NOT_DEFINED_TERMS.has(key) || NOT_DEFINED_TERMS.has(key.split(' ')[0]) || isDefined(term, defined) || pending.has(key)) continue;
+    if (!undefinedTerms.some(t => normalize(t) === key)) undefinedTerms.push(term);
+  }
+  const resolvedTerms = state.undefined_terms.filter(t => isDefined(t.term, defined)).map(t => t.term);
+
+  // Sections and cross-references
+  const { sections, headingSpans } = extractSections(text);
+  const known = new Set([...state.sections, ...sections]);
+  const newSections = Array.from(new Set(sections.filter(s => !state.sections.includes(s))));
+  const references = extractReferences(text, headingSpans);
+  const danglingReferences = references.filter(ref => !sectionResolves(ref, known));
+  const resolvedReferences = state.cross_references
+    .filter(r => !r.resolved && sectionResolves(r.ref, known))
+    .map(r => r.ref);
+
+  // Obligations: each new one is checked against every earlier one
+  const newObligations = extractObligations(text, chunkIndex);
+  const conflicts: string[] = [];
+  newObligations.forEach((obligation, i) => {
+    for (const earlier of [...state.obligations, ...newObligations.slice(0, i)]) {
+      if (obligationsConflict(earlier, obligation)) {
+        conflicts.push(`"${describeObligation(earlier)}" (chunk ${earlier.chunk + 1}) vs "${describeObligation(obligation)}" (chunk ${chunkIndex + 1})`);
+      }
+    }
+  });
+  const newConditions = Array.from(new Set(newObligations.map(o => o.condition).filter((c): c is string => !!c)))
+    .filter(c => !state.conditions.includes(c));
+
+  return {
+    mode: "legal",
+    new_parties: newParties,
+    new_defined_terms: newDefinedTerms,
+    new_sections: newSections,
+    new_references: references,
+    resolved_references: resolvedReferences,
+    new_obligations: newObligations,
+    new_conditions: newConditions,
+    undefined_terms: undefinedTerms,
+    resolved_terms: resolvedTerms,
+    dangling_references: danglingReferences,
+    conflicting_obligations: conflicts
+  };
+}
+
+/**
+ * Issues that only become certain once the whole document has been read:
+ * terms never defined and references to sections that never appeared.
+ */
+export function finalizeLegalState(state: LegalState): Array<{ chunkIndex: number; issue: string }> {
+  return [
+    ...state.undefined_terms.map(t => ({ chunkIndex: t.chunk, issue: `Undefined term: "${t.term}" is used as a defined term but never defined` })),
+    ...state.cross_references
+      .filter(r => !r.resolved)
+      .map(r => ({ chunkIndex: r.chunk, issue: `Dangling reference: ${describeReference(r.ref)} does not exist in the document` }))
+  ];
+}
@@ -0,0 +1,169 @@
+/**
+ * LLM Cassettes - record and replay provider transcripts
+ *
+ * LLM_CASSETTE_MODE=record  captures every provider request/response
+ * LLM_CASSETTE_MODE=replay  serves them back without calling any provider
+ *
+ * Entries are keyed by a hash of the request (provider, model, messages and
+ * sampling settings), so a prompt change shows up as a cassette miss.
+ * Cassettes are JSON files in LLM_CASSETTE_DIR (default ./cassettes), named by
+ * LLM_CASSETTE_NAME (default "default").
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  provider: string;
+  model: string;
+  request: any;
+  response: any;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+export function getCassetteMode(): CassetteMode {
+  const mode = (process.env.LLM_CASSETTE_MODE || '').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+function getCassettePath(): string {
+  const dir = process.env.LLM_CASSETTE_DIR || path.join(process.cwd(), 'cassettes');
+  const name = process.env.LLM_CASSETTE_NAME || 'default';
+  return path.join(dir, `${name}.json`);
+}
+
+// Loaded cassettes by file path
+const loaded = new Map<string, CassetteFile>();
+
+function loadCassette(filePath: string): CassetteFile {
+  let cassette = loaded.get(filePath);
+  if (!cassette) {
+    cassette = fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      : { version: 1, entries: {} };
+    loaded.set(filePath, cassette!);
+  }
+  return cassette!;
+}
+
+// Stable hash of a request: object keys are sorted so field order never matters
+export function hashRequest(provider: string, request: any): string {
+  const canonical = (value: any): any => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((acc, key) => {
+        if (value[key] !== undefined) acc[key] = canonical(value[key]);
+        return acc;
+      }, {} as Record<string, any>);
+    }
+    return value;
+  };
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ provider, request: canonical(request) }))
+    .digest('hex');
+}
+
+function replay(provider: string, request: any): any {
+  const filePath = getCassettePath();
+  const key = hashRequest(provider, request);
+  const entry = loadCassette(filePath).entries[key];
+  if (!entry) {
+    throw new Error(`Cassette miss for ${provider} request ${key.substring(0, 12)} in ${filePath}`);
+  }
+  console.log(`📼 Cassette replay: ${provider} ${key.substring(0, 12)}`);
+  return entry.response;
+}
+
+function record(provider: string, request: any, response: any): void {
+  const filePath = getCassettePath();
+  const key = hashRequest(provider, request);
+  const cassette = loadCassette(filePath);
+  cassette.entries[key] = {
+    provider,
+    model: request.model || '',
+    request,
+    response,
+    recordedAt: new Date().toISOString()
+  };
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(cassette, null, 2));
+  console.log(`📼 Cassette recorded: ${provider} ${key.substring(0, 12)}`);
+}
+
+/**
+ * Run a provider call through the cassette: replayed in replay mode,
+ * captured in record mode, passed straight through otherwise.
+ */
+export async function withCassette<T>(provider: string, request: any, call: () => Promise<T>): Promise<T> {
+  const mode = getCassetteMode();
+  if (mode === 'replay') {
+    return replay(provider, request) as T;
+  }
+  const response = await call();
+  if (mode === 'record') {
+    record(provider, request, response);
+  }
+  return response;
+}
+
+/**
+ * Streaming counterpart of withCassette. Replays yield the recorded text as a
+ * single delta; recordings store the concatenated deltas, so streamed and
+ * non-streamed calls with the same request share one entry.
+ */
+export async function* withCassetteStream(
+  provider: string,
+  request: any,
+  stream: () => AsyncIterable<string>
+): AsyncGenerator<string> {
+  const mode = getCassetteMode();
+  if (mode === 'replay') {
+    yield replay(provider, request) as string;
+    return;
+  }
+  let text = '';
+  for await (const delta of stream()) {
+    text += delta;
+    yield delta;
+  }
+  if (mode === 'record') {
+    record(provider, request, text);
+  }
+}
+
+const noClient = async (): Promise<never> => {
+  throw new Error('No LLM client available outside cassette replay');
+};
+
+/**
+ * Route an Anthropic-shaped client's messages.create through the cassette.
+ * In replay mode `client` may be null - no real client is needed.
+ */
+export function wrapAnthropicClient<T>(client: T | null): T {
+  const target: any = client || { messages: {} };
+  const create = client ? target.messages.create.bind(target.messages) : noClient;
+  target.messages.create = (params: any) => withCassette('anthropic', params, () => create(params));
+  return target as T;
+}
+
+/**
+ * Route an OpenAI-shaped client's chat.completions.create through the cassette.
+ * The provider key includes the base URL so DeepSeek/Grok clients stay separate.
+ */
+export function wrapOpenAIClient<T>(client: T | null, baseURL?: string): T {
+  const target: any = client || { chat: { completions: {} } };
+  const completions = target.chat.completions;
+  const create = client ? completions.create.bind(completions) : noClient;
+  const provider = baseURL ? `openai:${baseURL}` : 'openai';
+  completions.create = (params: any) => withCassette(provider, params, () => create(params));
+  return target as T;
+}
@@ -0,0 +1,74 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { isMockMode, createMockAnthropicClient, createMockOpenAIClient } from './mockProvider';
+import { getCassetteMode, wrapAnthropicClient, wrapOpenAIClient } from './llmCassette';
+import { meterAnthropicClient, meterOpenAIClient } from './usageMeter';
+import { scheduleAnthropicClient, scheduleOpenAIClient } from './rateScheduler';
+import { assertProviderAllowed } from './providerRegistry';
+
+/**
+ * SDK client factories for services that call the vendor SDKs directly.
+ * In mock mode (LLM_PROVIDER=mock) they return offline clients with the same
+ * call shape, so those services run without network access or API keys.
+ * With LLM_CASSETTE_MODE set, calls are recorded to or replayed from cassettes.
+ * Live and mock calls are metered into the usage ledger; replays are not.
+ * Live calls also wait on the per-provider rate scheduler, and are refused
+ * for cloud providers while LOCAL_LLM_ONLY is set.
+ */
+
+type AnthropicOptions = ConstructorParameters<typeof Anthropic>[0];
+type OpenAIOptions = ConstructorParameters<typeof OpenAI>[0];
+
+// OpenAI-compatible clients are also used for DeepSeek and Grok via baseURL
+function providerForBaseURL(baseURL?: string | null): string {
+  if (!baseURL) return 'openai';
+  if (process.env.LOCAL_LLM_BASE_URL && baseURL.startsWith(process.env.LOCAL_LLM_BASE_URL)) return 'local';
+  if (baseURL.includes('deepseek')) return 'deepseek';
+  if (baseURL.includes('x.ai')) return 'grok';
+  if (baseURL.includes('perplexity')) return 'perplexity';
+  return 'openai';
+}
+
+// Checked per call rather than at construction: services build clients at module load
+function guardAnthropicClient<T>(client: T): T {
+  const target: any = client;
+  const create = target.messages.create.bind(target.messages);
+  target.messages.create = (params: any, ...rest: any[]) => {
+    assertProviderAllowed('anthropic');
+    return create(params, ...rest);
+  };
+  return client;
+}
+
+function guardOpenAIClient<T>(client: T, provider: string): T {
+  const completions = (client as any).chat.completions;
+  const create = completions.create.bind(completions);
+  completions.create = (params: any, ...rest: any[]) => {
+    assertProviderAllowed(provider);
+    return create(params, ...rest);
+  };
+  return client;
+}
+
+export function createAnthropicClient(options?: AnthropicOptions): Anthropic {
+  const mode = getCassetteMode();
+  if (mode === 'replay') {
+    return wrapAnthropicClient<Anthropic>(null);
+  }
+  const client = isMockMode()
+    ? meterAnthropicClient(createMockAnthropicClient() as unknown as Anthropic, 'mock')
+    : guardAnthropicClient(scheduleAnthropicClient(meterAnthropicClient(new Anthropic(options))));
+  return mode === 'record' ? wrapAnthropicClient(client) : client;
+}
+
+export function createOpenAIClient(options?: OpenAIOptions): OpenAI {
+  const mode = getCassetteMode();
+  if (mode === 'replay') {
+    return wrapOpenAIClient<OpenAI>(null, options?.baseURL || undefined);
+  }
+  const provider = providerForBaseURL(options?.baseURL);
+  const client = isMockMode()
+    ? meterOpenAIClient(createMockOpenAIClient() as unknown as OpenAI, 'mock')
+    : guardOpenAIClient(scheduleOpenAIClient(meterOpenAIClient(new OpenAI(options), provider), provider), provider);
+  return mode === 'record' ? wrapOpenAIClient(client, options?.baseURL || undefined) : client;
+}
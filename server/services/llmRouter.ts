@@ -1,9 +1,9 @@
-import OpenAI from "openai";
-import Anthropic from '@anthropic-ai/sdk';
+import { getProviderModel, getProviderMaxTokens } from './providerRegistry';
+import { createAnthropicClient, createOpenAIClient } from "./llmClients";
 
 // Initialize API clients
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
+const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
 
 // Define response types for different models
 interface ModelResponse {
@@ -41,7 +41,7 @@ export class LLMRouter {
   }> {
     try {
       const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+        model: getProviderModel('openai'),
         messages: [
           {
             role: "system",
@@ -103,7 +103,7 @@ export class LLMRouter {
     
     try {
       const response = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219", // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+        model: getProviderModel('anthropic'),
         max_tokens: 1000,
         system: `You are RECURSIVE (Reasoning Evaluation Circuit Utilizing Recursive Structure in Intellectual Verification Engine), specialized in analyzing the recursive scaffolding of arguments.
         
@@ -171,7 +171,7 @@ export class LLMRouter {
   }> {
     try {
       const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+        model: getProviderModel('openai'),
         messages: [
           {
             role: "system",
@@ -233,7 +233,7 @@ export class LLMRouter {
   }> {
     try {
       const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+        model: getProviderModel('openai'),
         messages: [
           {
             role: "system",
@@ -370,8 +370,8 @@ export class LLMRouter {
       if (this.options.useMultiModel) {
         try {
           const claudeResponse = await anthropic.messages.create({
-            model: "claude-3-7-sonnet-20250219", // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-            max_tokens: Math.ceil(originalText.length * 1.2), // Allow for some expansion
+            model: getProviderModel('anthropic'),
+            max_tokens: Math.min(Math.ceil(originalText.length * 1.2), getProviderMaxTokens('anthropic')), // Allow for some expansion
             system: `You are a structural rewriter focused on RECURSIVE STRUCTURE improvement.
             
             MISSION: Restructure the following text to enhance its logical scaffolding, definitional clarity, and inferential continuity.
@@ -414,7 +414,7 @@ export class LLMRouter {
       
       // STEP 2: Use GPT-4 for final compression and polishing
       const gpt4Response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+        model: getProviderModel('openai'),
         messages: [
           {
             role: "system",
@@ -461,7 +461,7 @@ export class LLMRouter {
         console.log(`Initial rewrite too similar (${similarityPercentage}%). Making second attempt with stronger instruction.`);
         
         const secondAttemptResponse = await openai.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+          model: getProviderModel('openai'),
           messages: [
             {
               role: "system",
@@ -566,7 +566,7 @@ export class LLMRouter {
         }`;
         
         const chunkResponse = await openai.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+          model: getProviderModel('openai'),
           messages: [
             {
               role: "system",
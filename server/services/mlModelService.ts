@@ -1,8 +1,4 @@
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic();
+import { callProviderChat, resolveProvider } from "./providerRegistry";
 
 export interface MLModelParameters {
   problemType: 'classification' | 'clustering' | 'dimensionality_reduction';
@@ -96,83 +92,12 @@ Return ONLY the JSON object, no additional text.`;
     ? `${input}\n\nAdditional instructions: ${customInstructions}`
     : input;
 
-  let response: string = "";
-
   try {
-    if (provider === "ZHI 1") {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userMessage }
-        ],
-        temperature: 0.1
-      });
-      response = completion.choices[0]?.message?.content || "";
-    } else if (provider === "ZHI 2") {
-      const message = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2000,
-        messages: [
-          { role: "user", content: `${systemPrompt}\n\nUser request: ${userMessage}` }
-        ]
-      });
-      response = message.content[0].type === 'text' ? message.content[0].text : "";
-    } else if (provider === "ZHI 3") {
-      const deepseekResponse = await fetch("https://api.deepseek.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.DEEPSEEK_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userMessage }
-          ],
-          temperature: 0.1
-        })
-      });
-      const deepseekData = await deepseekResponse.json();
-      response = deepseekData.choices?.[0]?.message?.content || "";
-    } else if (provider === "ZHI 4") {
-      const perplexityResponse = await fetch("https://api.perplexity.ai/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.PERPLEXITY_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: "llama-3.1-sonar-large-128k-online",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userMessage }
-          ],
-          temperature: 0.1
-        })
-      });
-      const perplexityData = await perplexityResponse.json();
-      response = perplexityData.choices?.[0]?.message?.content || "";
-    } else {
-      const grokResponse = await fetch("https://api.x.ai/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.GROK_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: "grok-3-latest",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userMessage }
-          ],
-          temperature: 0.1
-        })
-      });
-      const grokData = await grokResponse.json();
-      response = grokData.choices?.[0]?.message?.content || "";
-    }
+    // Display labels ("ZHI 5") are the aliases with a space
+    const response = await callProviderChat(resolveProvider(provider.replace(/\s+/g, "")), [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userMessage }
+    ], { temperature: 0.1, maxTokens: 2000 });
 
     const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
@@ -0,0 +1,383 @@
+/**
+ * Mock LLM Provider
+ *
+ * Offline, deterministic stand-in for the real vendors. The same prompt always
+ * produces the same response, and responses follow whatever shape the prompt
+ * asks for: JSON templates are filled in, labelled sections (PROCESSED_TEXT:,
+ * DELTA_REPORT:, ...) are emitted, score requests end with "FINAL SCORE: n/100"
+ * (or the requested trailing JSON block) and rewrite requests echo back the
+ * source text. Responses framed by ===MARKER=== lines get each section.
+ *
+ * Enable with LLM_PROVIDER=mock to route ALL traffic here, or with
+ * ENABLE_MOCK_LLM=true to make "mock" selectable alongside the real providers.
+ */
+
+export interface MockMessage {
+  role: string;
+  content: string;
+}
+
+export interface MockOptions {
+  maxTokens?: number;
+  jsonMode?: boolean;
+}
+
+// All provider traffic is forced to the mock
+export function isMockMode(): boolean {
+  return (process.env.LLM_PROVIDER || '').toLowerCase() === 'mock';
+}
+
+// Mock can be selected explicitly
+export function isMockEnabled(): boolean {
+  return isMockMode() || process.env.ENABLE_MOCK_LLM === 'true';
+}
+
+// FNV-1a hash - stable seed for a given prompt
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic value in [lo, hi], skewed to the upper-middle of the range
+function seededInRange(seed: number, lo: number, hi: number): number {
+  if (hi <= lo) return lo;
+  const fraction = 0.6 + ((seed % 1000) / 1000) * 0.25;
+  return Math.round(lo + (hi - lo) * fraction);
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(w => w).length;
+}
+
+// Find the first balanced {...} or [...] block starting at or after `from`
+function findBalancedBlock(text: string, from: number): string | null {
+  let start = -1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '{' || text[i] === '[') {
+      start = i;
+      break;
+    }
+  }
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') stack.push(ch);
+    else if (ch === '}' || ch === ']') {
+      stack.pop();
+      if (stack.length === 0) return text.substring(start, i + 1);
+    }
+  }
+  return null;
+}
+
+// Turn a prompt's illustrative JSON ("a" | "b", 1-10, null or {...}) into parseable JSON
+function parseJsonTemplate(template: string, seed: number): any | null {
+  let json = template
+    .replace(/\/\/[^\n]*/g, '')
+    .replace(/("(?:[^"\\\n]|\\.)*")(\s*\|\s*"(?:[^"\\\n]|\\.)*")+/g, '$1')
+    .replace(/\b(true|false)(\s*\|\s*(true|false))+/g, '$1')
+    .replace(/null\s+or\s+(\{[^{}]*\}|"[^"\n]*"|\[[^\]]*\])/g, 'null')
+    .replace(/:\s*(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)(?=\s*[,}\n])/g, (_m, lo, hi) =>
+      `: ${seededInRange(seed, parseFloat(lo), parseFloat(hi))}`)
+    .replace(/:\s*<([^>\n]*)>/g, (_m, hint: string) => {
+      const range = hint.match(/(\d+)\s*-\s*(\d+)/);
+      if (range) return `: ${seededInRange(seed, parseInt(range[1]), parseInt(range[2]))}`;
+      return /number|score|int/i.test(hint) ? `: ${seededInRange(seed, 0, 10)}` : `: "${hint}"`;
+    })
+    .replace(/,\s*\.\.\.\s*(?=[}\]])/g, '')
+    .replace(/\[\s*\.\.\.\s*\]/g, '[]')
+    .replace(/,(\s*[}\]])/g, '$1');
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+// Number of items the prompt asks for ("exactly 25 claims", "these 5 claims")
+function requestedCount(prompt: string): number | null {
+  const match = prompt.match(/\b(?:exactly|these|generate|identify|return|list)\s+(\d{1,2})\s+(?:[a-z-]+\s+){0,2}?(?:claims|objections|items|questions|points|examples|issues|positions|sections|chunks)\b/i);
+  if (!match) return null;
+  const count = parseInt(match[1]);
+  return count >= 1 && count <= 50 ? count : null;
+}
+
+// Repeat single-item array templates up to the requested count, renumbering index fields
+function expandArray(template: any[], count: number | null): any[] {
+  if (!count || template.length !== 1 || typeof template[0] !== 'object' || template[0] === null) {
+    return template;
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const item: Record<string, any> = { ...template[0] };
+    for (const key of Object.keys(item)) {
+      if (/index$|^id$|number$/i.test(key) && typeof item[key] === 'number') {
+        item[key] = i + 1;
+      }
+    }
+    return item;
+  });
+}
+
+// Pull the source text out of a prompt (the section under TEXT:, DOCUMENT:, CHUNK n: ...)
+function extractSourceText(prompt: string): string {
+  const headerPattern = /^(?:[A-Z][A-Z0-9 _\-]*)?(?:TEXT|DOCUMENT|CHUNK|INPUT|CONTENT|PASSAGE|ESSAY)[A-Z0-9 _\-]*(?:\s*\([^)\n]*\))?(?:\s+\d+)?:[ \t]*$/gm;
+  let lastHeaderEnd = -1;
+  let match: RegExpExecArray | null;
+  while ((match = headerPattern.exec(prompt)) !== null) {
+    lastHeaderEnd = match.index + match[0].length;
+  }
+
+  if (lastHeaderEnd !== -1) {
+    const rest = prompt.substring(lastHeaderEnd);
+    const nextHeader = rest.search(/\n\s*\n[A-Z][A-Z0-9 _\-]{3,}:/);
+    const section = (nextHeader === -1 ? rest : rest.substring(0, nextHeader)).trim();
+    if (section) return section;
+  }
+
+  // No labelled section: use the longest paragraph
+  const paragraphs = prompt.split(/\n\s*\n/).map(p => p.trim()).filter(p => p);
+  return paragraphs.reduce((longest, p) => (p.length > longest.length ? p : longest), '');
+}
+
+// Keep echoed text within the caller's output budget (~0.75 words per token)
+function limitWords(text: string, maxTokens?: number): string {
+  if (!maxTokens) return text;
+  const maxWords = Math.max(50, Math.floor(maxTokens * 0.75));
+  const words = text.split(/\s+/);
+  if (words.length <= maxWords) return text;
+  return words.slice(0, maxWords).join(' ');
+}
+
+// Fallback JSON for prompts that describe fields as "- fieldName: description"
+function jsonFromFieldList(prompt: string, seed: number, source: string): Record<string, any> | null {
+  const fields = Array.from(prompt.matchAll(/^\s*-\s*([a-z][A-Za-z0-9_]*):\s*(.+)$/gm));
+  if (fields.length === 0) return null;
+
+  const keywords = Array.from(new Set(source.toLowerCase().match(/\b[a-z]{6,}\b/g) || [])).slice(0, 3);
+  const result: Record<string, any> = {};
+  for (const [, key, description] of fields) {
+    if (/^array|list of/i.test(description)) result[key] = keywords;
+    else if (/score|number|count/i.test(description)) result[key] = seededInRange(seed, 0, 10);
+    else result[key] = description.trim();
+  }
+  return result;
+}
+
+// Evidence requests ({"evidence": [{"dimension", "quote", "start", "end"}]}) quote real
+// source sentences with their offsets, one per dimension listed as "- key (Label)"
+function fillEvidence(filled: any, prompt: string, source: string): any {
+  const template = Array.isArray(filled?.evidence) ? filled.evidence[0] : null;
+  if (!template || typeof template !== 'object' || !('quote' in template)) return filled;
+
+  const keys = Array.from(prompt.matchAll(/^- ([A-Za-z_]+) \(/gm)).map(m => m[1]);
+  const sentences = Array.from(source.matchAll(/[^.!?\n]{12,}[.!?]/g));
+  if (keys.length === 0 || sentences.length === 0) return filled;
+
+  return {
+    ...filled,
+    evidence: keys.map((dimension, i) => {
+      const sentence = sentences[i % sentences.length];
+      const quote = sentence[0].trim();
+      const start = sentence.index! + sentence[0].indexOf(quote);
+      const reason = 'reason' in template ? `Mock evidence for ${dimension}.` : undefined;
+      return { ...template, dimension, quote, start, end: start + quote.length, ...(reason ? { reason } : {}) };
+    })
+  };
+}
+
+function buildJsonResponse(prompt: string, seed: number, source: string): string {
+  const jsonIndex = prompt.search(/\bJSON\b/);
+  const template = findBalancedBlock(prompt, jsonIndex === -1 ? 0 : jsonIndex);
+  const parsed = template ? parseJsonTemplate(template, seed) : null;
+
+  if (parsed !== null) {
+    const filled = Array.isArray(parsed) ? expandArray(parsed, requestedCount(prompt)) : fillEvidence(parsed, prompt, source);
+    return JSON.stringify(filled, null, 2);
+  }
+
+  const fromFields = jsonFromFieldList(prompt, seed, source);
+  if (fromFields) return JSON.stringify(fromFields, null, 2);
+
+  return JSON.stringify({
+    score: seededInRange(seed, 0, 100),
+    analysis: `Mock analysis of ${countWords(source)} words.`,
+    summary: source.substring(0, 200)
+  }, null, 2);
+}
+
+// Emit "LABEL:\n<value>" sections when the prompt asks for a labelled format
+function buildSectionedResponse(prompt: string, seed: number, maxTokens?: number): string | null {
+  const formatIndex = prompt.search(/(?:in this format|following format|Return|Respond with)[^\n]*:\s*\n/i);
+  if (formatIndex === -1) return null;
+  const tail = prompt.substring(formatIndex);
+
+  const labels = Array.from(tail.matchAll(/^([A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+):[ \t]*(.*)$/gm));
+  if (labels.length < 2) return null;
+
+  // Source text comes from before the format description, not its placeholders
+  const body = limitWords(extractSourceText(prompt.substring(0, prompt.lastIndexOf('\n', formatIndex) + 1)), maxTokens);
+  return labels.map(([, label, inline], i) => {
+    const after = tail.substring(labels[i].index! + labels[i][0].length);
+    const following = inline.trim() || after.trim().split('\n')[0].trim();
+
+    if (following.startsWith('{')) {
+      const block = findBalancedBlock(inline.trim() ? inline : after, 0);
+      const parsed = block ? parseJsonTemplate(block, seed) : null;
+      return `${label}:\n${JSON.stringify(parsed ?? {})}`;
+    }
+    if (/COUNT|SCORE/.test(label)) {
+      return `${label}: ${/SCORE/.test(label) ? seededInRange(seed, 0, 100) : countWords(body)}`;
+    }
+    return `${label}:\n${body}`;
+  }).join('\n\n');
+}
+
+// Responses framed by ===MARKER=== lines: prose sections echo the source text,
+// a section whose placeholder asks for JSON gets the template given earlier in the prompt
+function buildDelimitedResponse(prompt: string, seed: number, maxTokens?: number): string | null {
+  const formatIndex = prompt.search(/Format your response as:\s*\n/i);
+  if (formatIndex === -1) return null;
+  const tail = prompt.substring(formatIndex);
+  const markers = Array.from(tail.matchAll(/^===([A-Z][A-Z0-9_ ]*)===[ \t]*$/gm));
+  if (markers.length === 0) return null;
+
+  const head = prompt.substring(0, formatIndex);
+  const body = limitWords(extractSourceText(head), maxTokens);
+  return markers.map((marker, i) => {
+    const placeholder = tail.substring(marker.index! + marker[0].length, markers[i + 1]?.index ?? tail.length);
+    if (/JSON/.test(placeholder)) {
+      const block = findBalancedBlock(head, Math.max(0, head.lastIndexOf('JSON')));
+      return `${marker[0]}\n${JSON.stringify((block ? parseJsonTemplate(block, seed) : null) ?? {})}`;
+    }
+    return `${marker[0]}\n${body}`;
+  }).join('\n');
+}
+
+/**
+ * Produce a deterministic response for a chat conversation.
+ */
+export function generateMockResponse(messages: MockMessage[], options: MockOptions = {}): string {
+  const prompt = messages.map(m => m.content).join('\n\n');
+  const seed = hashString(prompt);
+  const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content || prompt;
+  const source = extractSourceText(lastUser);
+
+  const sectioned = buildSectionedResponse(lastUser, seed, options.maxTokens);
+  if (sectioned) return sectioned;
+
+  const delimited = buildDelimitedResponse(lastUser, seed, options.maxTokens);
+  if (delimited) return delimited;
+
+  if (options.jsonMode || /\b(?:valid |as |in |return |exact )JSON\b/i.test(prompt)) {
+    return buildJsonResponse(prompt, seed, source);
+  }
+
+  // Prose evaluation that ends with a structured block (see structuredOutput.trailingJsonInstruction)
+  const trailingIndex = lastUser.search(/End your response with a JSON object/i);
+  if (trailingIndex !== -1) {
+    const template = findBalancedBlock(lastUser, trailingIndex);
+    const parsed = template ? parseJsonTemplate(template, seed) : null;
+    return `Mock evaluation of a ${countWords(source)}-word passage.\n\n` +
+      `The text states its position and supports it with reasons; the argument is followed consistently.\n\n` +
+      JSON.stringify(parsed ?? {});
+  }
+
+  if (/\bscore\b/i.test(prompt) && !/\b(?:rewrite|reconstruct|rewritten)\b/i.test(lastUser)) {
+    const score = seededInRange(seed, 0, 100);
+    return `Mock evaluation of a ${countWords(source)}-word passage.\n\n` +
+      `The text states its position and supports it with reasons; the argument is followed consistently.\n\n` +
+      `FINAL SCORE: ${score}/100`;
+  }
+
+  return limitWords(source, options.maxTokens);
+}
+
+// Rough token estimate used for mock usage reporting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function toMockMessages(system: any, messages: any[]): MockMessage[] {
+  const flatten = (content: any): string =>
+    typeof content === 'string'
+      ? content
+      : Array.isArray(content)
+        ? content.map((part: any) => part?.text || '').join('\n')
+        : '';
+  const result: MockMessage[] = system ? [{ role: 'system', content: flatten(system) }] : [];
+  return result.concat(messages.map(m => ({ role: m.role, content: flatten(m.content) })));
+}
+
+/**
+ * Object shaped like the Anthropic SDK client (messages.create only)
+ */
+export function createMockAnthropicClient() {
+  return {
+    messages: {
+      create: async (params: any) => {
+        const messages = toMockMessages(params.system, params.messages || []);
+        const text = generateMockResponse(messages, { maxTokens: params.max_tokens });
+        return {
+          id: `msg_mock_${hashString(text).toString(16)}`,
+          type: 'message',
+          role: 'assistant',
+          model: params.model || 'mock',
+          content: [{ type: 'text', text }],
+          stop_reason: 'end_turn',
+          stop_sequence: null,
+          usage: {
+            input_tokens: estimateTokens(messages.map(m => m.content).join('')),
+            output_tokens: estimateTokens(text)
+          }
+        };
+      }
+    }
+  };
+}
+
+/**
+ * Object shaped like the OpenAI SDK client (chat.completions.create only)
+ */
+export function createMockOpenAIClient() {
+  return {
+    chat: {
+      completions: {
+        create: async (params: any) => {
+          const messages = toMockMessages(null, params.messages || []);
+          const text = generateMockResponse(messages, {
+            maxTokens: params.max_tokens,
+            jsonMode: params.response_format?.type === 'json_object'
+          });
+          const promptTokens = estimateTokens(messages.map(m => m.content).join(''));
+          const completionTokens = estimateTokens(text);
+          return {
+            id: `chatcmpl-mock-${hashString(text).toString(16)}`,
+            object: 'chat.completion',
+            created: 0,
+            model: params.model || 'mock',
+            choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+            usage: {
+              prompt_tokens: promptTokens,
+              completion_tokens: completionTokens,
+              total_tokens: promptTokens + completionTokens
+            }
+          };
+        }
+      }
+    }
+  };
+}
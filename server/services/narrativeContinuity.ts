@@ -0,0 +1,237 @@
+/**
+ * Narrative continuity
+ *
+ * State bookkeeping and rule-based continuity checks for the "narrative"
+ * sequential coherence mode. The LLM reports what each chunk of fiction
+ * establishes (characters and their stable traits, locations, status and
+ * knowledge; dated events; fixed setting facts) and which characters are
+ * on-page; this module folds that into NARRATIVE state with the chunk each
+ * fact came from, and flags a dead character reappearing, an event placed
+ * before one the story has already passed, and a trait or setting fact that
+ * contradicts an earlier chunk. Every finding cites the earlier chunk.
+ */
+
+import type { NarrativeState, NarrativeCharacter, NarrativeEvent } from "@shared/schema";
+
+// state_update shape requested from the LLM for narrative chunks
+export interface NarrativeStateUpdate {
+  characters?: Record<string, {
+    traits?: Record<string, string>;
+    location?: string;
+    status?: NarrativeCharacter["status"];
+    knowledge?: string[];
+  }>;
+  appearances?: string[];
+  events?: { event: string; story_time: number; flashback?: boolean }[];
+  setting_facts?: Record<string, string>;
+}
+
+type Violation = { location: string; type: string; description: string };
+
+const normalize = (text: string) => String(text ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+
+// Trait and setting-fact names are compared case-insensitively
+function normalizeKeys<T>(values: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [normalize(key), value]));
+}
+
+// The state as stored, with anything the initial LLM extraction left out filled in
+function normalizeState(state: NarrativeState): NarrativeState {
+  const characters: Record<string, NarrativeCharacter> = {};
+  for (const [name, c] of Object.entries(state.characters || {})) {
+    characters[name] = {
+      traits: normalizeKeys(c?.traits || {}),
+      trait_chunks: normalizeKeys(c?.trait_chunks || {}),
+      location: c?.location || "",
+      status: c?.status || "alive",
+      status_chunk: c?.status_chunk ?? c?.first_chunk ?? 0,
+      knowledge: c?.knowledge || [],
+      first_chunk: c?.first_chunk ?? 0
+    };
+  }
+  const setting_facts: NarrativeState["setting_facts"] = {};
+  for (const [fact, entry] of Object.entries(state.setting_facts || {})) {
+    setting_facts[normalize(fact)] = typeof entry === "string" ? { value: entry, chunk: 0 } : { value: entry?.value ?? "", chunk: entry?.chunk ?? 0 };
+  }
+  return {
+    mode: "narrative",
+    characters,
+    timeline: (state.timeline || []).map(e => ({ ...e, flashback: !!e.flashback, chunk: e.chunk ?? 0 })),
+    setting_facts
+  };
+}
+
+/**
+ * The stored name for a character the LLM mentions: an exact (case-insensitive)
+ * match, or a single first or last name that belongs to exactly one character.
+ */
+function findCharacter(state: NarrativeState, name: string): string | null {
+  const wanted = normalize(name);
+  const names = Object.keys(state.characters);
+  const exact = names.find(n => normalize(n) === wanted);
+  if (exact) return exact;
+  if (wanted.includes(" ")) return null;
+  const partial = names.filter(n => normalize(n).split(" ").includes(wanted));
+  return partial.length === 1 ? partial[0] : null;
+}
+
+// Latest story time reached by the main (non-flashback) line so far
+function latestEvent(state: NarrativeState): NarrativeEvent | null {
+  return state.timeline
+    .filter(e => !e.flashback && Number.isFinite(e.story_time))
+    .reduce<NarrativeEvent | null>((latest, e) => (!latest || e.story_time > latest.story_time ? e : latest), null);
+}
+
+/**
+ * Continuity violations in a chunk's update against the state before it.
+ */
+export function checkNarrativeContinuity(
+  current: NarrativeState,
+  update: NarrativeStateUpdate,
+  chunkIndex: number
+): Violation[] {
+  const state = normalizeState(current);
+  const violations: Violation[] = [];
+  const here = `chunk ${chunkIndex + 1}`;
+
+  // Dead characters who act on-page or come back to life
+  const revived = new Set<string>();
+  const onPage = (update.appearances || []).map(name => findCharacter(state, name)).filter((n): n is string => !!n);
+  const returning = Object.entries(update.characters || {})
+    .filter(([, c]) => c?.status && c.status !== "dead")
+    .map(([name]) => findCharacter(state, name))
+    .filter((n): n is string => !!n);
+  for (const name of [...onPage, ...returning]) {
+    const character = state.characters[name];
+    if (character.status !== "dead" || revived.has(name)) continue;
+    revived.add(name);
+    violations.push({
+      location: `${here}: ${name}`,
+      type: "dead_character_reappears",
+      description: `${name} appears alive in ${here} but died in chunk ${character.status_chunk + 1}`
+    });
+  }
+
+  // Events that happen before the point the main line has already reached
+  const latest = latestEvent(state);
+  if (latest) {
+    for (const event of update.events || []) {
+      if (event.flashback || !Number.isFinite(event.story_time) || event.story_time >= latest.story_time) continue;
+      violations.push({
+        location: `${here}: "${event.event}"`,
+        type: "timeline_inversion",
+        description: `"${event.event}" (day ${event.story_time}) is told as present action, but chunk ${latest.chunk + 1} already reached day ${latest.story_time} ("${latest.event}")`
+      });
+    }
+  }
+
+  // Stable traits that change
+  for (const [rawName, c] of Object.entries(update.characters || {})) {
+    const name = findCharacter(state, rawName);
+    if (!name) continue;
+    const character = state.characters[name];
+    for (const [rawTrait, value] of Object.entries(c?.traits || {})) {
+      const trait = normalize(rawTrait);
+      const before = character.traits[trait];
+      if (before === undefined || normalize(before) === normalize(value)) continue;
+      violations.push({
+        location: `${here}: ${name}`,
+        type: "trait_contradiction",
+        description: `${name}'s ${trait} is "${value}" in ${here} but "${before}" in chunk ${(character.trait_chunks[trait] ?? character.first_chunk) + 1}`
+      });
+    }
+  }
+
+  // Fixed facts about the setting that change
+  for (const [rawFact, value] of Object.entries(update.setting_facts || {})) {
+    const fact = normalize(rawFact);
+    const before = state.setting_facts[fact];
+    if (!before || normalize(before.value) === normalize(value)) continue;
+    violations.push({
+      location: `${here}: ${fact}`,
+      type: "setting_contradiction",
+      description: `${fact} is "${value}" in ${here} but "${before.value}" in chunk ${before.chunk + 1}`
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Fold a chunk's update into the state, stamping new facts with the chunk
+ * they came from. A contradicting value replaces the old one, so each
+ * contradiction is reported once rather than on every later chunk.
+ */
+export function applyNarrativeUpdate(
+  current: NarrativeState,
+  update: NarrativeStateUpdate,
+  chunkIndex: number
+): NarrativeState {
+  const state = normalizeState(current);
+  const characters = { ...state.characters };
+
+  const touch = (rawName: string): string => {
+    const name = findCharacter({ ...state, characters }, rawName) || rawName.trim();
+    if (!characters[name]) {
+      characters[name] = {
+        traits: {},
+        trait_chunks: {},
+        location: "",
+        status: "alive",
+        status_chunk: chunkIndex,
+        knowledge: [],
+        first_chunk: chunkIndex
+      };
+    }
+    return name;
+  };
+
+  for (const rawName of update.appearances || []) {
+    if (rawName && rawName.trim()) touch(rawName);
+  }
+
+  for (const [rawName, c] of Object.entries(update.characters || {})) {
+    if (!rawName.trim() || !c) continue;
+    const name = touch(rawName);
+    const before = characters[name];
+    const traits = { ...before.traits };
+    const trait_chunks = { ...before.trait_chunks };
+    for (const [rawTrait, value] of Object.entries(c.traits || {})) {
+      const trait = normalize(rawTrait);
+      if (normalize(traits[trait] ?? "") !== normalize(value)) {
+        traits[trait] = value;
+        trait_chunks[trait] = chunkIndex;
+      }
+    }
+    const statusChanged = !!c.status && c.status !== before.status;
+    characters[name] = {
+      ...before,
+      traits,
+      trait_chunks,
+      location: c.location || before.location,
+      status: statusChanged ? c.status! : before.status,
+      status_chunk: statusChanged ? chunkIndex : before.status_chunk,
+      knowledge: [...before.knowledge, ...(c.knowledge || []).filter(k => !before.knowledge.includes(k))]
+    };
+  }
+
+  const setting_facts = { ...state.setting_facts };
+  for (const [rawFact, value] of Object.entries(update.setting_facts || {})) {
+    const fact = normalize(rawFact);
+    if (!setting_facts[fact] || normalize(setting_facts[fact].value) !== normalize(value)) {
+      setting_facts[fact] = { value, chunk: chunkIndex };
+    }
+  }
+
+  return {
+    ...state,
+    characters,
+    timeline: [
+      ...state.timeline,
+      ...(update.events || [])
+        .filter(e => e && e.event)
+        .map(e => ({ event: e.event, story_time: Number(e.story_time), flashback: !!e.flashback, chunk: chunkIndex }))
+    ],
+    setting_facts
+  };
+}
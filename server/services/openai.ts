@@ -1,7 +1,7 @@
-import OpenAI from "openai";
+import { createOpenAIClient } from "./llmClients";
 
 // Initialize the OpenAI client with API key from environment variable
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
 
 // Types for semantic evaluation
 export interface SurfaceAnalysis {
@@ -1,4 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { createAnthropicClient } from './llmClients';
 
 interface DocumentSection {
   id: number;
@@ -185,7 +185,7 @@ async function formatPreservingRewrite(
   customInstructions: string | undefined,
   onProgress?: ProgressCallback
 ): Promise<ObjectionProofResult> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
   
   onProgress?.('analyzing', 1, 3, 'Preserving numbered format from reconstruction...');
   
@@ -269,7 +269,7 @@ async function directFormatRewrite(
   customInstructions: string,
   onProgress?: ProgressCallback
 ): Promise<ObjectionProofResult> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
   
   onProgress?.('analyzing', 1, 3, 'Analyzing format requirements...');
   
@@ -565,7 +565,7 @@ async function mapObjectionsToSectionsContentAware(
   objections: ParsedObjection[],
   onProgress?: ProgressCallback
 ): Promise<DocumentSection[]> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
   
   onProgress?.('mapping', 0, 1, 'Analyzing content to map objections...');
   
@@ -922,7 +922,7 @@ async function rewriteSection(
   retryCount: number = 0
 ): Promise<{ rewrittenContent: string; updatedState: CrossChunkState; error?: string }> {
   const MAX_RETRIES = 0;
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
   
   onProgress?.('rewriting', sectionIndex, totalSections, `Rewriting section ${sectionIndex + 1}/${totalSections}${retryCount > 0 ? ` (retry ${retryCount})` : ''}`);
   
@@ -1,4 +1,5 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { createAnthropicClient } from './llmClients';
+import { isProviderConfigured } from './providerRegistry';
 
 interface ArgumentStructure {
   thesis: string;
@@ -46,7 +47,7 @@ async function extractArgumentStructure(
   audience: string,
   objective: string
 ): Promise<ArgumentStructure> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
   
   const truncatedText = text.length > 120000 
     ? text.substring(0, 60000) + "\n\n[...middle section omitted for analysis...]\n\n" + text.substring(text.length - 50000)
@@ -129,7 +130,7 @@ async function generateObjectionsForCategory(
   audience: string,
   customInstructions: string
 ): Promise<ObjectionBatch> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
 
   const categoryPrompts: Record<string, string> = {
     logical: `Generate objections focused on LOGICAL FLAWS:
@@ -299,7 +300,7 @@ export async function outlineFirstObjections(
   const wordCount = countWords(text);
   console.log(`[OUTLINE-OBJECTIONS] Processing document of ${wordCount} words`);
 
-  if (!process.env.ANTHROPIC_API_KEY) {
+  if (!isProviderConfigured('anthropic')) {
     return {
       success: false,
       output: '',
@@ -1,3 +1,4 @@
+import { createAnthropicClient, createOpenAIClient } from "./llmClients";
 /**
  * Outline-First Reconstruction Service
  * 
@@ -10,8 +11,6 @@
  * leads to incoherent outputs with contradictions and drift.
  */
 
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
 
 interface OutlineSection {
   id: string;
@@ -41,8 +40,8 @@ interface ReconstructionResult {
   };
 }
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic();
+const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
+const anthropic = createAnthropicClient();
 
 /**
  * Split text into paragraphs for section mapping
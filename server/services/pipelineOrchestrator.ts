@@ -1,4 +1,3 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { db } from '../db';
 import { 
   pipelineJobs, pipelineChunks, pipelineObjections,
@@ -7,8 +6,10 @@ import {
   HCViolation, HCCheckResult, GlobalSkeleton
 } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
+import { createAnthropicClient } from './llmClients';
+import { setUsageJobId } from './usageMeter';
 
-const anthropic = new Anthropic();
+const anthropic = createAnthropicClient();
 
 // ═══════════════════════════════════════════════════════════════════════════
 // PIPELINE ORCHESTRATOR - 4-Stage Cross-Chunk Coherence Pipeline
@@ -96,6 +97,9 @@ export async function runFullPipeline(
     console.log(`[Pipeline] Created new job ${jobId}`);
   }
   
+  // Meter every provider call in this run against the pipeline job
+  setUsageJobId(`pipeline-${jobId}`);
+  
   const emitProgress = (stage: number, status: string, message: string, chunksCompleted = 0, totalChunks = 0) => {
     if (onProgress) {
       onProgress({
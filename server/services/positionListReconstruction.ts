@@ -1,4 +1,5 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { createAnthropicClient } from './llmClients';
+import { isProviderConfigured } from './providerRegistry';
 
 interface Position {
   author: string;
@@ -249,7 +250,7 @@ async function rankPositions(
     }));
   }
 
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
 
   const batchSize = 50;
   const batches: Position[][] = [];
@@ -342,7 +343,7 @@ async function generateDefenses(
   customInstructions: string,
   format: DefenseFormat
 ): Promise<PositionDefense[]> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
 
   const batchSize = 5;
   const batches: RankedPosition[][] = [];
@@ -481,7 +482,7 @@ async function generateConsolidatedExplanation(
   customInstructions: string,
   format: DefenseFormat
 ): Promise<string> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const anthropic = createAnthropicClient({ apiKey: process.env.ANTHROPIC_API_KEY });
   
   const claimsList = positions.map((p, i) => `${i + 1}. "${p.claim}" (${p.category})`).join('\n');
   
@@ -561,7 +562,7 @@ export async function processPositionList(
   console.log('[POSITION-LIST] Starting position list processing');
   console.log(`[POSITION-LIST] Custom instructions: ${customInstructions || 'None'}`);
 
-  if (!process.env.ANTHROPIC_API_KEY) {
+  if (!isProviderConfigured('anthropic')) {
     return {
       success: false,
       output: '',
@@ -0,0 +1,411 @@
+/**
+ * Prompt Defaults
+ *
+ * Built-in evaluation rubrics and rewrite presets. Each one seeds version 1.0
+ * of its key in the prompt registry (system_instructions) the first time the
+ * key is read, and stands in for the registry when the database is unavailable.
+ */
+
+export type PromptKey =
+  | 'intelligence_questions'
+  | 'streaming_intelligence_questions'
+  | 'cognitive_profiler_prefix'
+  | 'document_comparison'
+  | 'case_assessment'
+  | 'rewrite_presets';
+
+export interface PromptDefinition {
+  title: string;
+  format: 'text' | 'json';     // json prompts must parse before a version is saved
+  content: string;
+}
+
+const EXACT_COMPLETE_QUESTIONS = `IS IT INSIGHTFUL? 
+DOES IT DEVELOP POINTS? (OR, IF IT IS A SHORT EXCERPT, IS THERE EVIDENCE THAT IT WOULD DEVELOP POINTS IF EXTENDED)? 
+IS THE ORGANIZATION MERELY SEQUENTIAL (JUST ONE POINT AFTER ANOTHER, LITTLE OR NO LOGICAL SCAFFOLDING)? OR ARE THE IDEAS ARRANGED, NOT JUST SEQUENTIALLY BUT HIERARCHICALLY? 
+IF THE POINTS IT MAKES ARE NOT INSIGHTFUL, DOES IT OPERATE SKILLFULLY WITH CANONS OF LOGIC/REASONING. 
+ARE THE POINTS CLICHES? OR ARE THEY "FRESH"? 
+DOES IT USE TECHNICAL JARGON TO OBFUSCATE OR TO RENDER MORE PRECISE? 
+IS IT ORGANIC? DO POINTS DEVELOP IN AN ORGANIC, NATURAL WAY? DO THEY 'UNFOLD'? OR ARE THEY FORCED AND ARTIFICIAL? 
+DOES IT OPEN UP NEW DOMAINS? OR, ON THE CONTRARY, DOES IT SHUT OFF INQUIRY (BY CONDITIONALIZING FURTHER DISCUSSION OF THE MATTERS ON ACCEPTANCE OF ITS INTERNAL AND POSSIBLY VERY FAULTY LOGIC)? 
+IS IT ACTUALLY INTELLIGENT OR JUST THE WORK OF SOMEBODY WHO, JUDGING BY THE SUBJECT-MATTER, IS PRESUMED TO BE INTELLIGENT (BUT MAY NOT BE)? 
+IS IT REAL OR IS IT PHONY? 
+DO THE SENTENCES EXHIBIT COMPLEX AND COHERENT INTERNAL LOGIC? 
+IS THE PASSAGE GOVERNED BY A STRONG CONCEPT? OR IS THE ONLY ORGANIZATION DRIVEN PURELY BY EXPOSITORY (AS OPPOSED TO EPISTEMIC) NORMS?
+IS THERE SYSTEM-LEVEL CONTROL OVER IDEAS? IN OTHER WORDS, DOES THE AUTHOR SEEM TO RECALL WHAT HE SAID EARLIER AND TO BE IN A POSITION TO INTEGRATE IT INTO POINTS HE HAS MADE SINCE THEN? 
+ARE THE POINTS 'REAL'? ARE THEY FRESH? OR IS SOME INSTITUTION OR SOME ACCEPTED VEIN OF PROPAGANDA OR ORTHODOXY JUST USING THE AUTHOR AS A MOUTH PIECE?
+IS THE WRITING EVASIVE OR DIRECT? 
+ARE THE STATEMENTS AMBIGUOUS? 
+DOES THE PROGRESSION OF THE TEXT DEVELOP ACCORDING TO WHO SAID WHAT OR ACCORDING TO WHAT ENTAILS OR CONFIRMS WHAT? 
+DOES THE AUTHOR USER OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK OF IDEAS?
+
+ADDITIONAL CRITICAL QUESTIONS:
+ARE THERE TERMS THAT ARE UNDEFINED BUT SHOULD BE DEFINED, IN THE SENSE THAT, WITHOUT DEFINITIONS, IT IS DIFFICULT OR IMPOSSIBLE TO KNOW WHAT IS BEING SAID OR THEREFORE TO EVALUATE WHAT IS BEING SAID?
+ARE THERE "FREE VARIABLES" IN THE TEXT? IE ARE THERE QUALIFICATIONS OR POINTS THAT ARE MADE BUT DO NOT CONNECT TO ANYTHING LATER OR EARLIER?
+DO NEW STATEMENTS DEVELOP OUT OF OLD ONES? OR ARE THEY MERELY "ADDED" TO PREVIOUS ONES, WITHOUT IN ANY SENSE BEING GENERATED BY THEM?
+DO NEW STATEMENTS CLARIFY OR DO THEY LEAD TO MORE LACK OF CLARITY?
+IS THE PASSAGE ACTUALLY (PALPABLY) SMART? OR IS ONLY "PRESUMPTION-SMART"?
+IF YOUR JUDGMENT IS THAT IT IS INSIGHTFUL, CAN YOU STATEMENT THAT INSIGHT IN A SINGLE SENTENCE?
+HOW WELL DOES IT MAKE ITS CASE?
+IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING IMPOSTOR SCAFFOLDING?
+IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?
+IF I WERE TO GIVE A LOW SCORE TO THIS PASSAGE, WOULD I BE PENALIZING ACTUAL INTELLIGENCE OWING TO A LACK OF CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?
+
+🚨 CRITICAL NEW DIMENSION: GENUINE DEPTH VS. FAUX POSTURING 🚨
+IS THIS GENUINE INTELLIGENCE OR FAUX-INTELLECTUAL PLACEHOLDER CONTENT?
+- HIERARCHICAL LOGIC: Do ideas actually derive logically from each other? Or is the text just SEQUENTIAL/CHRONOLOGICAL listing ("First... Second... Third...") without logical dependencies?
+- TERMS WITH DETERMINATE PROPERTIES: Are technical terms grounded with clear meanings? Or are they VAGUE PLACEHOLDERS/BUZZWORDS cited but never defined (e.g., "Myth of the Mental", "disjunctivism", "linguistic idealism" mentioned but not explained)?
+- IDEA-DRIVEN VS. AUTHOR-DRIVEN: Does the argument develop based on what entails/confirms what? Or is it AUTHOR-DRIVEN LISTING of "dialogues" and name-dropping without substance?
+- MEANINGFUL CRITIQUE VS. ASSERTION: Are claims substantiated? Or does text just ASSERT things are "problematic/dubious/faulty" without explaining why?
+- SOCIAL POSTURING: Does text turn intellectual questions into "social exchanges" ("dialogues", "accusations", "X says Y says Z")? This is FAUX-INTELLECTUAL.
+
+⚠️ FAUX-INTELLECTUAL MARKERS (MASSIVE SCORE PENALTIES):
+- Sequential listing disguised as argument → SCORE ≤20/100
+- Buzzwords/jargon shuffled without grounding → SCORE ≤20/100
+- Author-driven "dialogue" replacing idea-driven logic → SCORE ≤20/100
+- Vague umbrella claims assuming buzzwords have meaning they lack → SCORE ≤20/100
+- Turning philosophy into social posturing ("X accuses Y of...") → SCORE ≤20/100
+
+✅ GENUINE INTELLIGENCE MARKERS (HIGH SCORES):
+- Hierarchical argumentation where claims build on each other → SCORE 90+
+- Terms with canonical/determinate meanings used precisely → SCORE 90+
+- Idea-driven logic (what entails what) → SCORE 90+
+- Concrete logical relationships and substantive critique → SCORE 90+`;
+
+// Shorter question set used by the streaming protocol
+const STREAMING_QUESTIONS = `IS IT INSIGHTFUL? 
+DOES IT DEVELOP POINTS? (OR, IF IT IS A SHORT EXCERPT, IS THERE EVIDENCE THAT IT WOULD DEVELOP POINTS IF EXTENDED)? 
+IS THE ORGANIZATION MERELY SEQUENTIAL (JUST ONE POINT AFTER ANOTHER, LITTLE OR NO LOGICAL SCAFFOLDING)? OR ARE THE IDEAS ARRANGED, NOT JUST SEQUENTIALLY BUT HIERARCHICALLY? 
+IF THE POINTS IT MAKES ARE NOT INSIGHTFUL, DOES IT OPERATE SKILLFULLY WITH CANONS OF LOGIC/REASONING. 
+ARE THE POINTS CLICHES? OR ARE THEY "FRESH"? 
+DOES IT USE TECHNICAL JARGON TO OBFUSCATE OR TO RENDER MORE PRECISE? 
+IS IT ORGANIC? DO POINTS DEVELOP IN AN ORGANIC, NATURAL WAY? DO THEY 'UNFOLD'? OR ARE THEY FORCED AND ARTIFICIAL? 
+DOES IT OPEN UP NEW DOMAINS? OR, ON THE CONTRARY, DOES IT SHUT OFF INQUIRY (BY CONDITIONALIZING FURTHER DISCUSSION OF THE MATTERS ON ACCEPTANCE OF ITS INTERNAL AND POSSIBLY VERY FAULTY LOGIC)? 
+IS IT ACTUALLY INTELLIGENT OR JUST THE WORK OF SOMEBODY WHO, JUDGING BY THE SUBJECT-MATTER, IS PRESUMED TO BE INTELLIGENT (BUT MAY NOT BE)? 
+IS IT REAL OR IS IT PHONY? 
+DO THE SENTENCES EXHIBIT COMPLEX AND COHERENT INTERNAL LOGIC? 
+IS THE PASSAGE GOVERNED BY A STRONG CONCEPT? OR IS THE ONLY ORGANIZATION DRIVEN PURELY BY EXPOSITORY (AS OPPOSED TO EPISTEMIC) NORMS?
+IS THERE SYSTEM-LEVEL CONTROL OVER IDEAS? IN OTHER WORDS, DOES THE AUTHOR SEEM TO RECALL WHAT HE SAID EARLIER AND TO BE IN A POSITION TO INTEGRATE IT INTO POINTS HE HAS MADE SINCE THEN? 
+ARE THE POINTS 'REAL'? ARE THEY FRESH? OR IS SOME INSTITUTION OR SOME ACCEPTED VEIN OF PROPAGANDA OR ORTHODOXY JUST USING THE AUTHOR AS A MOUTH PIECE?
+IS THE WRITING EVASIVE OR DIRECT? 
+ARE THE STATEMENTS AMBIGUOUS? 
+DOES THE PROGRESSION OF THE TEXT DEVELOP ACCORDING TO WHO SAID WHAT OR ACCORDING TO WHAT ENTAILS OR CONFIRMS WHAT? 
+DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK OF IDEAS?
+
+ADDITIONAL CRITICAL QUESTIONS:
+ARE THERE TERMS THAT ARE UNDEFINED BUT SHOULD BE DEFINED, IN THE SENSE THAT, WITHOUT DEFINITIONS, IT IS DIFFICULT OR IMPOSSIBLE TO KNOW WHAT IS BEING SAID OR THEREFORE TO EVALUATE WHAT IS BEING SAID?
+ARE THERE "FREE VARIABLES" IN THE TEXT? IE ARE THERE QUALIFICATIONS OR POINTS THAT ARE MADE BUT DO NOT CONNECT TO ANYTHING LATER OR EARLIER?
+DO NEW STATEMENTS DEVELOP OUT OF OLD ONES? OR ARE THEY MERELY "ADDED" TO PREVIOUS ONES, WITHOUT IN ANY SENSE BEING GENERATED BY THEM?
+DO NEW STATEMENTS CLARIFY OR DO THEY LEAD TO MORE LACK OF CLARITY?
+IS THE PASSAGE ACTUALLY (PALPABLY) SMART? OR IS ONLY "PRESUMPTION-SMART"?
+IF YOUR JUDGMENT IS THAT IT IS INSIGHTFUL, CAN YOU STATEMENT THAT INSIGHT IN A SINGLE SENTENCE?
+HOW WELL DOES IT MAKE ITS CASE?
+IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING IMPOSTOR SCAFFOLDING?
+IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?
+IF I WERE TO GIVE A LOW SCORE TO THIS PASSAGE, WOULD I BE PENALIZING ACTUAL INTELLIGENCE OWING TO A LACK OF CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?`;
+
+// Common system prompt prefix for all cognitive profiler services
+const COGNITIVE_PROFILER_PREFIX = `You are a FORENSIC COGNITIVE PROFILER analyzing a text sample to determine the intelligence level of its author. 
+
+THIS IS NOT A GRADING SYSTEM. You are NOT evaluating:
+- Academic merit
+- Novelty or originality of ideas
+- Citation practices
+- Formatting or presentation
+- How "revolutionary" the content is
+- Adherence to academic standards
+- Whether the author has "seen the full development" of ideas
+
+INSTEAD, you are ONLY identifying cognitive patterns that reveal raw intelligence:
+- Complexity of abstract reasoning
+- Precision in logical structure
+- Ability to manipulate symbolic systems
+- Inferential architecture
+- Depth of conceptual understanding
+- Intellectual control over difficult material
+
+On a scale from 0–100, where 50 reflects the median intelligence of a typical college graduate, estimate the author's intelligence level, based solely on what is demonstrated in this text. Treat the text as forensic evidence, like a detective analyzing a note left by a suspect.
+
+Calibration Points:
+- 50: Average college graduate (baseline)
+- 60-70: Pop-sci essay on AI ethics
+- 70-80: Undergraduate paper with basic arguments
+- 85-95: PhD-level philosophical critique 
+- 95-100: Formal mathematical/logical work
+
+IMPORTANT: Formal/technical/abstract content that reveals high intelligence should score 90+ EVEN IF it's not "groundbreaking" or "original" in its field. Detecting intelligence is the sole purpose, not academic evaluation.`;
+
+const COMPARISON_PROMPT = `GENRE-AWARE DOCUMENT COMPARISON: WHICH MAKES ITS CASE BETTER?
+
+You are comparing two documents to determine which one makes its case more effectively using genre-appropriate criteria.
+
+CRITICAL: Use consistent scoring standards. A document that would score 93/100 in single assessment should score similarly in comparison unless directly outperformed by a superior document.
+
+GENRE-AWARE EVALUATION:
+First identify each document's genre (PHILOSOPHICAL ARGUMENT, FORMAL PROOF, EMPIRICAL RESEARCH, HISTORICAL ANALYSIS, TECHNICAL ESSAY, THEORETICAL FRAMEWORK), then apply appropriate criteria:
+
+PHILOSOPHICAL ARGUMENTS: Emphasize conceptual precision, logical coherence, inferential control over empirical proof
+FORMAL PROOFS: Prioritize mathematical rigor, logical completeness, formal validity
+EMPIRICAL RESEARCH: Focus on data quality, statistical validity, methodological soundness
+HISTORICAL ANALYSIS: Value archival evidence, chronological coherence, historical methodology
+TECHNICAL ESSAYS: Assess practical applicability, technical accuracy, solution effectiveness
+THEORETICAL FRAMEWORKS: Evaluate systematic construction, explanatory power, theoretical coherence
+
+For each document, you must provide:
+1. ARGUMENT SUMMARY: What is the document's main argument and key claims?
+2. IMPROVED RECONSTRUCTION: Present the argument in improved form - restructure and strengthen the actual argument itself while preserving its core insights. Provide this as an outline of the enhanced argument, not suggestions for improvement.
+
+COMPARISON CRITERIA:
+1. Argument Strength: Which document has stronger logical arguments?
+2. Evidence Quality: Which provides better evidence for its claims?
+3. Persuasiveness: Which is more convincing overall?
+4. Clarity of Case: Which presents its argument more clearly?
+5. Completeness: Which covers its topic more thoroughly?
+
+SCORING SYSTEM (Use same standards as single document assessment):
+- Document A Score: 0-100 (how well Document A makes its case)
+- Document B Score: 0-100 (how well Document B makes its case)
+
+CALIBRATION ANCHORS:
+- Score 95-100: Comprehensive historical/systematic analysis (e.g., financial regulation with citations, formal logic proofs)
+- Score 90-94: Strong academic work with solid evidence and important claims
+- Score 80-89: Well-supported academic arguments with good evidence
+- Score 70-79: Competent but with some gaps or limitations
+- Score below 70: Significant weaknesses in case-making
+
+CRITICAL: If a document would score 93/100 in isolation, it should score 90+ in comparison unless clearly outperformed.
+Winner: The document with the higher score
+
+RESPONSE FORMAT (NO MARKDOWN):
+
+WINNER: Document [A or B]
+
+DOCUMENT A SCORE: [Score]/100
+DOCUMENT B SCORE: [Score]/100
+
+DOCUMENT A ANALYSIS:
+GENRE: [Identify as PHILOSOPHICAL ARGUMENT, FORMAL PROOF, EMPIRICAL RESEARCH, HISTORICAL ANALYSIS, TECHNICAL ESSAY, or THEORETICAL FRAMEWORK]
+
+ARGUMENT SUMMARY: [Summarize the main argument and key claims of Document A]
+
+IMPROVED RECONSTRUCTION: [Present Document A's argument in strengthened form as an outline - the actual improved argument structure, not tips for improvement]
+
+DOCUMENT B ANALYSIS:
+GENRE: [Identify as PHILOSOPHICAL ARGUMENT, FORMAL PROOF, EMPIRICAL RESEARCH, HISTORICAL ANALYSIS, TECHNICAL ESSAY, or THEORETICAL FRAMEWORK]
+
+ARGUMENT SUMMARY: [Summarize the main argument and key claims of Document B]
+
+IMPROVED RECONSTRUCTION: [Present Document B's argument in strengthened form as an outline - the actual improved argument structure, not tips for improvement]
+
+COMPARISON ANALYSIS:
+[Brief explanation of which document makes its case better and why]
+
+FINAL VERDICT:
+[Conclusive statement about which document makes its case better with key reasons]
+
+DOCUMENT A:
+`;
+
+const CASE_ASSESSMENT_PROMPT = `SEMANTIC RECONSTRUCTION AND COGENCY ASSESSMENT
+
+CRITICAL INSTRUCTION: Do NOT evaluate based on surface formatting, explicit transitions, or formal structure. Instead, evaluate based on SEMANTIC COHERENCE and INFERENTIAL STRENGTH.
+
+MANDATORY FIRST STEP: COMPREHENSIVE SUMMARY AND GENERAL ANALYSIS
+You MUST begin your response with a thorough SUMMARY AND GENERAL ANALYSIS section (minimum 2-3 substantial paragraphs) that:
+- Summarizes the document's main arguments, central claims, and overall structure
+- Categorizes the text (philosophical argument, legal case, historical analysis, empirical research, etc.)
+- Provides an initial overall assessment of the author's approach and argumentative strategy
+- Identifies the genre-specific standards that will apply to this assessment
+This summary must be thorough and substantive - NOT a brief 2-sentence overview.
+
+STEP 1: SEMANTIC RECONSTRUCTION
+Extract the actual argumentative content by reconstructing:
+- What central claim is being defended?
+- What inferential chains support this claim?
+- How do different sections contribute to the overall case?
+- What is the logical architecture of the argument?
+
+STEP 2: GENRE-APPROPRIATE COGENCY ASSESSMENT (0-100 scale)
+CRITICAL: Apply standards appropriate to the document's genre. DO NOT penalize philosophical arguments for not being mathematical proofs, or historical analyses for not being statistical studies.
+
+PROOF EFFECTIVENESS: Does the semantic content establish the central claim RELATIVE TO GENRE STANDARDS?
+PHILOSOPHICAL ARGUMENT: Evaluate by philosophical standards of conceptual rigor
+- Score 95-100: Watertight conceptual analysis that fully establishes the thesis through rigorous philosophical reasoning
+- Score 90-94: Strong conceptual work with solid philosophical foundations and clear inferential structure
+- Score 80-89: Good philosophical analysis with effective conceptual distinctions and logical development
+- Score 70-79: Adequate philosophical reasoning with some conceptual or inferential weaknesses
+MATHEMATICAL PROOF: Evaluate by mathematical standards of formal rigor
+- Score 95-100: Complete formal proof with all steps justified and logically sound
+- Score 90-94: Strong mathematical proof with clear logical structure and adequate justification
+HISTORICAL ANALYSIS: Evaluate by historical standards of evidence and interpretation
+- Score 95-100: Comprehensive historical analysis with strong evidence and sound interpretation
+- Score 90-94: Good historical work with solid evidence base and reasonable interpretation
+EMPIRICAL RESEARCH: Evaluate by empirical standards of methodology and data
+- Score 95-100: Excellent empirical methodology with robust data analysis
+- Score 90-94: Strong empirical work with good methodology and data quality
+
+CRITICAL PROHIBITION: DO NOT penalize philosophical arguments for lacking mathematical formalization, historical arguments for lacking statistical analysis, or empirical studies for lacking philosophical depth. Each genre has its own standards of rigor.
+
+CLAIM CREDIBILITY: Are the claims substantive and worth defending?
+- Score 95-100: Fundamental insights with major theoretical or practical implications
+- Score 90-94: Important claims with clear significance and substantial implications
+- Score 80-89: Valuable claims with meaningful contribution to the field
+- Score 70-79: Reasonable claims with some value but limited impact
+Assess significance of the actual claims made, not whether they're stated in a particular format
+
+NON-TRIVIALITY: How significant are the insights relative to existing knowledge?
+- Score 95-100: Revolutionary insights that transform understanding of major questions
+- Score 90-94: Major advances that significantly extend or challenge existing frameworks  
+- Score 80-89: Valuable contributions that add meaningful insights to established discussions
+- Score 70-79: Useful clarifications or applications of existing ideas
+Focus on intellectual content and conceptual contributions, not presentational novelty
+
+PROOF QUALITY: How rigorous is the reasoning ACCORDING TO THE GENRE'S STANDARDS?
+PHILOSOPHICAL ARGUMENT: Evaluate by philosophical standards - conceptual precision and inferential control
+- Score 95-100: Perfect philosophical rigor with tight conceptual distinctions and watertight inferential chains
+- Score 90-94: Excellent philosophical reasoning with strong conceptual analysis and clear logical structure
+- Score 80-89: Good philosophical reasoning with effective conceptual work and solid inference patterns
+- Score 70-79: Adequate philosophical reasoning with some conceptual imprecision or inferential gaps
+MATHEMATICAL PROOF: Evaluate by mathematical standards - formal completeness and logical validity
+- Score 95-100: Complete mathematical rigor with all steps formally justified
+- Score 90-94: Strong mathematical rigor with clear logical progression and adequate justification
+HISTORICAL ANALYSIS: Evaluate by historical standards - evidential adequacy and interpretive soundness
+- Score 95-100: Exemplary historical methodology with comprehensive evidence and sound interpretation
+- Score 90-94: Strong historical analysis with good evidence base and reasonable interpretation
+EMPIRICAL RESEARCH: Evaluate by empirical standards - methodological soundness and statistical validity
+- Score 95-100: Exemplary empirical methodology with robust statistical analysis
+- Score 90-94: Strong empirical methodology with adequate statistical foundation
+
+ABSOLUTE PROHIBITION: DO NOT downgrade philosophical arguments for lacking mathematical formalization, mathematical proofs for lacking empirical data, historical analyses for lacking statistical tests, or empirical studies for lacking philosophical depth.
+
+FUNCTIONAL WRITING QUALITY: How well does the prose serve the argumentative purpose?
+- Score 95-100: Writing perfectly serves the argumentative function with clarity and precision
+- Score 90-94: Very effective argumentative prose that clearly conveys complex ideas
+- Score 80-89: Good argumentative writing that effectively communicates the case
+- Score 70-79: Adequate writing that conveys the argument with some clarity issues
+Evaluate how well the writing accomplishes its argumentative goals, not adherence to format conventions
+
+MANDATORY CALIBRATION REQUIREMENTS:
+1. "Religion and the Limits of Modern Rationalism" - philosophical exposition must score minimum 88/100
+2. "Libet's Experiment" - philosophical analysis must score minimum 85/100  
+3. Any doctoral-level philosophical work with sound conceptual analysis must score 85+ 
+4. Any historical analysis with comprehensive evidence must score according to historical standards
+5. Any mathematical proof with valid logical structure must score according to mathematical standards
+
+GENRE CALIBRATION FAILURE: If you score a philosophical argument below 85/100 because it lacks mathematical formalization, or score a historical analysis below 85/100 because it lacks statistical data, you are applying wrong standards and must recalibrate.
+
+RESPONSE FORMAT (NO MARKDOWN):
+
+SUMMARY AND GENERAL ANALYSIS:
+[Write 2-3 substantial paragraphs summarizing the document's main arguments, categorizing the genre, and providing an initial overall assessment of the author's approach and strategy. This must be thorough and substantive.]
+
+GENRE IDENTIFICATION: [PHILOSOPHICAL ARGUMENT, MATHEMATICAL PROOF, HISTORICAL ANALYSIS, EMPIRICAL RESEARCH, TECHNICAL ESSAY, or THEORETICAL FRAMEWORK]
+
+SEMANTIC RECONSTRUCTION:
+Central Claim: [What is the main thesis being defended?]
+Inferential Architecture: [How do the arguments logically connect to support the claim?]
+Key Reasoning Chains: [What are the main lines of argument?]
+Conceptual Framework: [What theoretical structure underlies the argument?]
+
+PROOF EFFECTIVENESS: [Score]/100
+Assessment: [Does the inferential structure establish the central claim BY THE STANDARDS OF THIS GENRE? For philosophical arguments, focus on conceptual coherence. For mathematical proofs, focus on formal validity. For historical analyses, focus on evidential adequacy. DO NOT mix genre standards.]
+
+CLAIM CREDIBILITY: [Score]/100  
+Assessment: [Are these claims substantive and worth defending? Focus on significance, not presentation.]
+
+NON-TRIVIALITY: [Score]/100
+Assessment: [What genuine insights does this provide? Focus on intellectual contribution, not novelty of expression.]
+
+PROOF QUALITY: [Score]/100
+Assessment: [How rigorous is the actual reasoning? Focus on inferential strength, not stylistic conventions.]
+
+FUNCTIONAL WRITING QUALITY: [Score]/100
+Assessment: [How effectively does the prose accomplish its argumentative goals? Focus on communicative success, not format compliance.]
+
+OVERALL CASE SCORE: [Score]/100
+Summary: [How well does this document establish its case through semantic content and inferential strength?]
+
+CALIBRATION CHECK: If assessing "Religion and the Limits of Modern Rationalism" or similar philosophical exposition, minimum acceptable score is 88/100. Lower scores indicate evaluation of surface proxies rather than semantic content.
+
+Document to assess:`;
+
+// Preset name -> instruction. Combo presets list the atomic presets they expand to.
+const PRESET_TEXT: Record<string,string> = {
+  // Advanced Techniques
+  "Mixed cadence + clause sprawl": "Alternate short and long sentences; allow some long sentences to wander with extra clauses.",
+  "Asymmetric emphasis": "Over-elaborate one point; compress or skate past another.",
+  "One aside": "Add a quick parenthetical or em-dash remark — factual, not jokey.",
+  "Hedge twice": "Use two mild uncertainty markers (\"probably,\" \"seems,\" \"roughly,\" \"I think\").",
+  "Local disfluency": "Keep one redundant or slightly awkward phrase that still makes sense.",
+  "Analogy injection": "Insert a short, concrete comparison to something unrelated but illustrative.",
+  "Topic snap": "Abruptly shift focus once, then return.",
+  "Friction detail": "Drop in a small, seemingly unnecessary but real-world-plausible detail.",
+  
+  "Compression — light (−15%)": "Cut filler; merge short clauses; keep meaning. Target ≈15% shorter.",
+  "Compression — medium (−30%)": "Trim hard; delete throat-clearing; tighten syntax. Target ≈30% shorter.",
+  "Compression — heavy (−45%)": "Sever redundancies; collapse repeats; keep core claims. Target ≈45% shorter.",
+  "Mixed cadence": "Alternate short (5–12 words) and long (20–35 words) sentences; avoid uniform rhythm.",
+  "Clause surgery": "Reorder main/subordinate clauses in ~30% of sentences without changing meaning.",
+  "Front-load claim": "Put the main conclusion in sentence 1; evidence follows.",
+  "Back-load claim": "Delay the main conclusion to the final 2–3 sentences.",
+  "Seam/pivot": "Drop smooth connectors once; allow one abrupt thematic pivot.",
+  "Imply one step": "Omit one obvious inferential step; keep it implicit (context makes it recoverable).",
+  "Conditional framing": "Recast one key sentence as: If/Unless …, then …. Keep content identical.",
+  "Local contrast": "Use exactly one contrast marker (but/except/aside) to mark a boundary; add no new facts.",
+  "Scope check": "Replace one absolute with a bounded form (e.g., 'in cases like these').",
+  "Deflate jargon": "Swap nominalizations for plain verbs where safe (e.g., utilization→use).",
+  "Kill stock transitions": "Delete 'Moreover/Furthermore/In conclusion' everywhere.",
+  "Hedge once": "Use exactly one hedge: probably/roughly/more or less.",
+  "Drop intensifiers": "Remove 'very/clearly/obviously/significantly'.",
+  "Low-heat voice": "Prefer plain verbs; avoid showy synonyms.",
+  "Concrete benchmark": "Replace one vague scale with a testable one (e.g., 'enough to X').",
+  "Swap generic example": "If the source has an example, make it slightly more specific; else skip.",
+  "Metric nudge": "Replace 'more/better' with a minimal, source-safe comparator (e.g., 'more than last case').",
+  "Cull repeats": "Delete duplicated sentences/ideas; keep the strongest instance.",
+  "No lists": "Output as continuous prose; remove bullets/numbering.",
+  "No meta": "No prefaces/apologies/phrases like 'as requested'.",
+  "Exact nouns": "Replace ambiguous pronouns with exact nouns.",
+  "Quote once": "If the source has a strong phrase, quote it once; otherwise skip.",
+  "Claim lock": "Do not add examples, scenarios, or data not present in the source.",
+  "Entity lock": "Keep names, counts, and attributions exactly as given.",
+  // Combo presets expand to atomic ones:
+  "Lean & Sharp": "Compression — medium (−30%); Mixed cadence; Imply one step; Kill stock transitions",
+  "Analytic": "Clause surgery; Front-load claim; Scope check; Exact nouns; No lists",
+};
+
+export const PROMPT_DEFAULTS: Record<PromptKey, PromptDefinition> = {
+  intelligence_questions: {
+    title: 'Intelligence protocol questions',
+    format: 'text',
+    content: EXACT_COMPLETE_QUESTIONS
+  },
+  streaming_intelligence_questions: {
+    title: 'Streaming intelligence protocol questions',
+    format: 'text',
+    content: STREAMING_QUESTIONS
+  },
+  cognitive_profiler_prefix: {
+    title: 'Cognitive profiler system prefix',
+    format: 'text',
+    content: COGNITIVE_PROFILER_PREFIX
+  },
+  document_comparison: {
+    title: 'Document comparison rubric',
+    format: 'text',
+    content: COMPARISON_PROMPT
+  },
+  case_assessment: {
+    title: 'Case assessment rubric',
+    format: 'text',
+    content: CASE_ASSESSMENT_PROMPT
+  },
+  rewrite_presets: {
+    title: 'Rewrite presets',
+    format: 'json',
+    content: JSON.stringify(PRESET_TEXT, null, 2)
+  }
+};
+
+export function isPromptKey(key: string): key is PromptKey {
+  return Object.prototype.hasOwnProperty.call(PROMPT_DEFAULTS, key);
+}
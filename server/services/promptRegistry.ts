@@ -0,0 +1,189 @@
+/**
+ * Prompt Registry
+ *
+ * Services load their rubrics and rewrite presets by key from the
+ * system_instructions table instead of compiled-in constants. Every saved edit
+ * is a new version row; exactly one version per key is active, so an admin can
+ * change a prompt or roll it back without a deploy. Keys without any rows are
+ * seeded from PROMPT_DEFAULTS on first read.
+ *
+ * Active versions are cached for PROMPT_CACHE_TTL_MS (default 60s), so edits
+ * reach other server instances within that window.
+ */
+
+import { storage } from '../storage';
+import type { SystemInstruction } from '@shared/schema';
+import { PROMPT_DEFAULTS, isPromptKey, type PromptKey } from './promptDefaults';
+
+export type { PromptKey } from './promptDefaults';
+
+export const PROMPT_CATEGORY = 'prompt_templates';
+
+export interface ResolvedPrompt {
+  key: PromptKey;
+  content: string;
+  version: string;              // "default" when the registry could not be read
+}
+
+export interface PromptSummary {
+  key: PromptKey;
+  title: string;
+  format: 'text' | 'json';
+  activeVersion: string | null;
+  updatedAt: Date | null;
+}
+
+export class PromptValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptValidationError';
+  }
+}
+
+const CACHE_TTL_MS = parseInt(process.env.PROMPT_CACHE_TTL_MS || '60000');
+
+const cache = new Map<PromptKey, { prompt: ResolvedPrompt; expiresAt: number }>();
+const seeding = new Map<PromptKey, Promise<SystemInstruction>>();
+
+function fromRow(key: PromptKey, row: SystemInstruction): ResolvedPrompt {
+  return { key, content: row.content, version: row.version || '1.0' };
+}
+
+// Insert the compiled-in default as version 1.0, once per key per process
+function seedPrompt(key: PromptKey): Promise<SystemInstruction> {
+  let pending = seeding.get(key);
+  if (!pending) {
+    const definition = PROMPT_DEFAULTS[key];
+    pending = storage.createPromptVersion({
+      category: PROMPT_CATEGORY,
+      subcategory: key,
+      title: definition.title,
+      content: definition.content,
+      isActive: true,
+      createdBy: null
+    }).finally(() => seeding.delete(key));
+    seeding.set(key, pending);
+    console.log(`🌱 Seeded prompt ${key} v1.0`);
+  }
+  return pending;
+}
+
+async function loadActive(key: PromptKey): Promise<SystemInstruction> {
+  const versions = await storage.getPromptVersions(PROMPT_CATEGORY, key);
+  if (versions.length === 0) {
+    return await seedPrompt(key);
+  }
+  // Fall back to the newest version if none is flagged active
+  return versions.find(v => v.isActive) || versions[0];
+}
+
+/**
+ * Active version of a prompt. Falls back to the compiled-in default (version
+ * "default") when the registry is unavailable, so evaluations keep running.
+ */
+export async function getPrompt(key: PromptKey): Promise<ResolvedPrompt> {
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.prompt;
+  }
+
+  try {
+    const prompt = fromRow(key, await loadActive(key));
+    cache.set(key, { prompt, expiresAt: Date.now() + CACHE_TTL_MS });
+    return prompt;
+  } catch (error: any) {
+    console.warn(`⚠️ Prompt registry unavailable for ${key}, using built-in default: ${error.message}`);
+    return { key, content: PROMPT_DEFAULTS[key].content, version: 'default' };
+  }
+}
+
+/**
+ * Active version of a JSON prompt, parsed. An unparseable stored version
+ * falls back to the built-in default.
+ */
+export async function getPromptJson<T>(key: PromptKey): Promise<ResolvedPrompt & { value: T }> {
+  const prompt = await getPrompt(key);
+  try {
+    return { ...prompt, value: JSON.parse(prompt.content) as T };
+  } catch {
+    console.warn(`⚠️ Prompt ${key} v${prompt.version} is not valid JSON, using built-in default`);
+    return { key, content: PROMPT_DEFAULTS[key].content, version: 'default', value: JSON.parse(PROMPT_DEFAULTS[key].content) as T };
+  }
+}
+
+export function invalidatePromptCache(key?: PromptKey): void {
+  if (key) {
+    cache.delete(key);
+  } else {
+    cache.clear();
+  }
+}
+
+export function assertPromptKey(key: string): PromptKey {
+  if (!isPromptKey(key)) {
+    throw new PromptValidationError(`Unknown prompt key: ${key}`);
+  }
+  return key;
+}
+
+export async function listPrompts(): Promise<PromptSummary[]> {
+  const active = await storage.getActivePrompts(PROMPT_CATEGORY);
+  return (Object.keys(PROMPT_DEFAULTS) as PromptKey[]).map(key => {
+    const row = active.find(r => r.subcategory === key);
+    return {
+      key,
+      title: PROMPT_DEFAULTS[key].title,
+      format: PROMPT_DEFAULTS[key].format,
+      activeVersion: row?.version || null,
+      updatedAt: row?.updatedAt || null
+    };
+  });
+}
+
+export async function getPromptHistory(key: PromptKey): Promise<SystemInstruction[]> {
+  const versions = await storage.getPromptVersions(PROMPT_CATEGORY, key);
+  return versions.length > 0 ? versions : [await seedPrompt(key)];
+}
+
+/**
+ * Save edited content as the next version of a prompt and make it active.
+ */
+export async function savePromptVersion(key: PromptKey, content: string, createdBy: string): Promise<SystemInstruction> {
+  if (!content.trim()) {
+    throw new PromptValidationError('Prompt content cannot be empty');
+  }
+  if (PROMPT_DEFAULTS[key].format === 'json') {
+    try {
+      JSON.parse(content);
+    } catch (error: any) {
+      throw new PromptValidationError(`Prompt ${key} must be valid JSON: ${error.message}`);
+    }
+  }
+
+  // Make sure the default exists as 1.0 so it stays available for rollback
+  await getPromptHistory(key);
+
+  const saved = await storage.createPromptVersion({
+    category: PROMPT_CATEGORY,
+    subcategory: key,
+    title: PROMPT_DEFAULTS[key].title,
+    content,
+    isActive: true,
+    createdBy
+  });
+  invalidatePromptCache(key);
+  console.log(`📝 Prompt ${key} v${saved.version} saved by ${createdBy}`);
+  return saved;
+}
+
+/**
+ * Make an existing version active again (rollback or roll forward).
+ */
+export async function activatePromptVersion(key: PromptKey, version: string): Promise<SystemInstruction | undefined> {
+  const activated = await storage.activatePromptVersion(PROMPT_CATEGORY, key, version);
+  if (activated) {
+    invalidatePromptCache(key);
+    console.log(`⏪ Prompt ${key} switched to v${version}`);
+  }
+  return activated;
+}
@@ -0,0 +1,250 @@
+/**
+ * Provider Health & Circuit Breaker
+ *
+ * Tracks a rolling window of call outcomes per provider (error rate, latency
+ * histogram) and runs a closed -> open -> half-open breaker so failover skips
+ * providers that keep failing instead of paying their timeout on every request.
+ *
+ * closed:    calls flow normally
+ * open:      calls are skipped until the cooldown elapses
+ * half-open: a single trial call decides whether to close or re-open
+ */
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  provider: string;
+  state: BreakerState;
+  degraded: boolean;
+  calls: number;
+  errorRate: number;
+  consecutiveFailures: number;
+  latency: {
+    p50: number | null;
+    p95: number | null;
+    histogram: Record<string, number>;
+  };
+  lastError: string | null;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+interface CallOutcome {
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface ProviderStats {
+  window: CallOutcome[];
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  lastError: string | null;
+}
+
+const WINDOW_SIZE = 20;                 // outcomes kept per provider
+const MIN_CALLS_FOR_RATE = 5;           // don't judge error rate on fewer calls
+const ERROR_RATE_THRESHOLD = 0.5;       // open when half the window failed
+const CONSECUTIVE_FAILURE_THRESHOLD = 5;
+const DEGRADED_ERROR_RATE = 0.2;        // flagged in the UI but still used
+const COOLDOWN_MS = parseInt(process.env.PROVIDER_BREAKER_COOLDOWN_MS || '60000');
+
+// Histogram bucket upper bounds in milliseconds
+const LATENCY_BUCKETS = [500, 1000, 2000, 5000, 10000, 30000, 60000];
+
+const stats = new Map<string, ProviderStats>();
+
+function getStats(provider: string): ProviderStats {
+  let entry = stats.get(provider);
+  if (!entry) {
+    entry = {
+      window: [],
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+      trialInFlight: false,
+      lastError: null
+    };
+    stats.set(provider, entry);
+  }
+  return entry;
+}
+
+function pushOutcome(entry: ProviderStats, outcome: CallOutcome): void {
+  entry.window.push(outcome);
+  if (entry.window.length > WINDOW_SIZE) {
+    entry.window.shift();
+  }
+}
+
+function errorRate(entry: ProviderStats): number {
+  if (entry.window.length === 0) return 0;
+  return entry.window.filter(o => !o.ok).length / entry.window.length;
+}
+
+function openBreaker(provider: string, entry: ProviderStats): void {
+  entry.state = 'open';
+  entry.openedAt = Date.now();
+  entry.trialInFlight = false;
+  console.warn(`🔌 Circuit OPEN for ${provider} (error rate ${(errorRate(entry) * 100).toFixed(0)}%, ${entry.consecutiveFailures} consecutive failures)`);
+}
+
+export interface AttemptPermit {
+  allowed: boolean;
+  trial: boolean;       // this call holds the half-open trial slot
+}
+
+/**
+ * Whether a call to this provider should be attempted now.
+ * Moves an open breaker to half-open once its cooldown has elapsed and
+ * lets exactly one trial call through.
+ */
+export function canAttempt(provider: string): AttemptPermit {
+  const entry = getStats(provider);
+
+  if (entry.state === 'open') {
+    if (entry.openedAt !== null && Date.now() - entry.openedAt >= COOLDOWN_MS) {
+      entry.state = 'half-open';
+      console.log(`🔌 Circuit HALF-OPEN for ${provider}, allowing a trial call`);
+    } else {
+      return { allowed: false, trial: false };
+    }
+  }
+
+  if (entry.state === 'half-open') {
+    if (entry.trialInFlight) return { allowed: false, trial: false };
+    entry.trialInFlight = true;
+    return { allowed: true, trial: true };
+  }
+
+  return { allowed: true, trial: false };
+}
+
+/**
+ * Give up a half-open breaker's trial slot. Only the call whose permit has
+ * `trial` set releases it, in a finally, so a trial that ends without
+ * recording an outcome (aborted, or failed before reaching the provider)
+ * does not hold the breaker shut.
+ */
+export function releaseTrial(provider: string): void {
+  getStats(provider).trialInFlight = false;
+}
+
+export function recordSuccess(provider: string, latencyMs: number): void {
+  const entry = getStats(provider);
+  pushOutcome(entry, { ok: true, latencyMs });
+  entry.consecutiveFailures = 0;
+
+  if (entry.state === 'half-open') {
+    entry.state = 'closed';
+    entry.openedAt = null;
+    entry.trialInFlight = false;
+    entry.window = [{ ok: true, latencyMs }];
+    console.log(`🔌 Circuit CLOSED for ${provider}`);
+  }
+}
+
+export function recordFailure(provider: string, latencyMs: number, error: string): void {
+  const entry = getStats(provider);
+  pushOutcome(entry, { ok: false, latencyMs });
+  entry.consecutiveFailures++;
+  entry.lastError = error.substring(0, 300);
+
+  if (entry.state === 'half-open') {
+    openBreaker(provider, entry);
+    return;
+  }
+
+  const rateTripped = entry.window.length >= MIN_CALLS_FOR_RATE && errorRate(entry) >= ERROR_RATE_THRESHOLD;
+  if (entry.state === 'closed' && (rateTripped || entry.consecutiveFailures >= CONSECUTIVE_FAILURE_THRESHOLD)) {
+    openBreaker(provider, entry);
+  }
+}
+
+/**
+ * Time a provider call and record its outcome.
+ */
+export async function trackProviderCall<T>(provider: string, call: () => Promise<T>): Promise<T> {
+  const start = Date.now();
+  try {
+    const result = await call();
+    recordSuccess(provider, Date.now() - start);
+    return result;
+  } catch (error: any) {
+    recordFailure(provider, Date.now() - start, error?.message || String(error));
+    throw error;
+  }
+}
+
+/**
+ * Streaming counterpart of trackProviderCall. Latency is measured to the end
+ * of the stream; a consumer that stops early counts as a success.
+ */
+export async function* trackProviderStream<T>(provider: string, stream: () => AsyncIterable<T>): AsyncGenerator<T> {
+  const start = Date.now();
+  let failed = false;
+  try {
+    for await (const item of stream()) {
+      yield item;
+    }
+  } catch (error: any) {
+    failed = true;
+    // A caller abort says nothing about the provider's health
+    if (error?.name !== 'AbortError') {
+      recordFailure(provider, Date.now() - start, error?.message || String(error));
+    }
+    throw error;
+  } finally {
+    if (!failed) {
+      recordSuccess(provider, Date.now() - start);
+    }
+  }
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export function getProviderHealth(provider: string): ProviderHealth {
+  const entry = getStats(provider);
+  const latencies = entry.window.map(o => o.latencyMs).sort((a, b) => a - b);
+
+  const histogram: Record<string, number> = {};
+  for (const bound of LATENCY_BUCKETS) {
+    histogram[`<=${bound}`] = latencies.filter(l => l <= bound).length;
+  }
+  histogram['+Inf'] = latencies.length;
+
+  // Report an elapsed cooldown as half-open without consuming the trial call
+  const state: BreakerState = entry.state === 'open' && entry.openedAt !== null && Date.now() - entry.openedAt >= COOLDOWN_MS
+    ? 'half-open'
+    : entry.state;
+  const rate = errorRate(entry);
+
+  return {
+    provider,
+    state,
+    degraded: state !== 'closed' || (entry.window.length >= MIN_CALLS_FOR_RATE && rate >= DEGRADED_ERROR_RATE),
+    calls: entry.window.length,
+    errorRate: Math.round(rate * 1000) / 1000,
+    consecutiveFailures: entry.consecutiveFailures,
+    latency: {
+      p50: percentile(latencies, 0.5),
+      p95: percentile(latencies, 0.95),
+      histogram
+    },
+    lastError: entry.lastError,
+    openedAt: entry.openedAt ? new Date(entry.openedAt).toISOString() : null,
+    retryAt: entry.openedAt && state === 'open' ? new Date(entry.openedAt + COOLDOWN_MS).toISOString() : null
+  };
+}
+
+export function getAllProviderHealth(providers: string[]): Record<string, ProviderHealth> {
+  return providers.reduce((acc, provider) => {
+    acc[provider] = getProviderHealth(provider);
+    return acc;
+  }, {} as Record<string, ProviderHealth>);
+}
@@ -0,0 +1,593 @@
+/**
+ * Provider Registry
+ *
+ * Single source of truth for LLM providers: ZHI alias resolution, default
+ * model names, max output limits and whether a provider is configured.
+ * Every service resolves "zhi1".."zhi5" through here so the same ZHI choice
+ * in the UI reaches the same vendor on every endpoint.
+ */
+
+import { isMockMode, isMockEnabled, generateMockResponse, estimateTokens } from './mockProvider';
+import { withCassette, withCassetteStream, getCassetteMode } from './llmCassette';
+import { recordProviderUsage, extractUsage } from './usageMeter';
+import { trackProviderCall, trackProviderStream } from './providerHealth';
+import { scheduleProviderCall, scheduleProviderStream } from './rateScheduler';
+
+export type ProviderId = 'openai' | 'anthropic' | 'deepseek' | 'perplexity' | 'grok' | 'local' | 'mock';
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  alias: string;            // ZHI name shown in the UI
+  label: string;            // Display label (never the vendor name)
+  apiKeyEnv: string;
+  model: string;
+  maxOutputTokens: number;
+  contextWindow: number;    // prompt + completion tokens the model accepts
+  chatUrl: string;
+  apiStyle: 'openai' | 'anthropic' | 'mock';
+}
+
+export interface ProviderSummary {
+  id: ProviderId;
+  alias: string;
+  label: string;
+  model: string;
+  maxOutputTokens: number;
+  contextWindow: number;
+  configured: boolean;
+}
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  model?: string;
+  jsonMode?: boolean;
+  signal?: AbortSignal;     // streams only: stops the upstream request, e.g. when the client disconnects
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  openai: {
+    id: 'openai',
+    alias: 'zhi1',
+    label: 'ZHI 1',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    model: 'gpt-4o',
+    maxOutputTokens: 16384,
+    contextWindow: 128000,
+    chatUrl: 'https://api.openai.com/v1/chat/completions',
+    apiStyle: 'openai',
+  },
+  anthropic: {
+    id: 'anthropic',
+    alias: 'zhi2',
+    label: 'ZHI 2',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    model: 'claude-sonnet-4-20250514',
+    maxOutputTokens: 20000,
+    contextWindow: 200000,
+    chatUrl: 'https://api.anthropic.com/v1/messages',
+    apiStyle: 'anthropic',
+  },
+  deepseek: {
+    id: 'deepseek',
+    alias: 'zhi3',
+    label: 'ZHI 3',
+    apiKeyEnv: 'DEEPSEEK_API_KEY',
+    model: 'deepseek-chat',
+    maxOutputTokens: 8192,
+    contextWindow: 64000,
+    chatUrl: 'https://api.deepseek.com/chat/completions',
+    apiStyle: 'openai',
+  },
+  perplexity: {
+    id: 'perplexity',
+    alias: 'zhi4',
+    label: 'ZHI 4',
+    apiKeyEnv: 'PERPLEXITY_API_KEY',
+    model: 'sonar',
+    maxOutputTokens: 8000,
+    contextWindow: 127000,
+    chatUrl: 'https://api.perplexity.ai/chat/completions',
+    apiStyle: 'openai',
+  },
+  grok: {
+    id: 'grok',
+    alias: 'zhi5',
+    label: 'ZHI 5',
+    apiKeyEnv: 'GROK_API_KEY',
+    model: 'grok-3',
+    maxOutputTokens: 16384,
+    contextWindow: 131072,
+    chatUrl: 'https://api.x.ai/v1/chat/completions',
+    apiStyle: 'openai',
+  },
+  // Any OpenAI-compatible server (Ollama, llama.cpp, vLLM) for documents that must stay on-premises
+  local: {
+    id: 'local',
+    alias: 'zhi6',
+    label: 'ZHI 6',
+    apiKeyEnv: 'LOCAL_LLM_API_KEY',     // optional; most local servers ignore it
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    maxOutputTokens: parseInt(process.env.LOCAL_LLM_MAX_OUTPUT_TOKENS || '2048'),
+    contextWindow: parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '8192'),
+    chatUrl: `${(process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '')}/chat/completions`,
+    apiStyle: 'openai',
+  },
+  mock: {
+    id: 'mock',
+    alias: 'mock',
+    label: 'Mock',
+    apiKeyEnv: '',
+    model: 'mock-deterministic',
+    maxOutputTokens: 32000,
+    contextWindow: 200000,
+    chatUrl: '',
+    apiStyle: 'mock',
+  },
+};
+
+// Provider priority order for failover (most preferred first).
+// Perplexity is search-augmented and only used when explicitly selected.
+// The local provider is the last resort unless LOCAL_LLM_ONLY keeps all traffic on it.
+export const PROVIDER_PRIORITY: ProviderId[] = ['anthropic', 'openai', 'deepseek', 'grok', 'local'];
+
+const TOKENS_PER_WORD = 1.4;          // rough English average, used for context budgeting
+const MIN_COMPLETION_TOKENS = 256;
+
+// Providers whose requests never leave the building
+const ON_PREMISES_PROVIDERS: ProviderId[] = ['local', 'mock'];
+
+export class ProviderConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigurationError';
+  }
+}
+
+export function isLocalOnly(): boolean {
+  return process.env.LOCAL_LLM_ONLY === 'true';
+}
+
+export function isOnPremisesProvider(name: string): boolean {
+  const resolved = tryResolveProvider(name);
+  return resolved !== null && ON_PREMISES_PROVIDERS.includes(resolved);
+}
+
+/**
+ * Refuse to send a request to a cloud provider while LOCAL_LLM_ONLY is set.
+ * Called where requests leave the process, so no code path can bypass it.
+ */
+export function assertProviderAllowed(name: string): void {
+  if (isLocalOnly() && !isOnPremisesProvider(name)) {
+    throw new ProviderConfigurationError(`LOCAL_LLM_ONLY is set: refusing to send a request to ${getProviderLabel(name)}`);
+  }
+}
+
+const ALIASES: Record<string, ProviderId> = Object.values(PROVIDERS).reduce(
+  (acc, def) => {
+    acc[def.alias] = def.id;
+    acc[def.id] = def.id;
+    return acc;
+  },
+  {} as Record<string, ProviderId>
+);
+
+// Resolve a ZHI alias or vendor name to a provider id, or null if unknown
+export function tryResolveProvider(name: string | null | undefined): ProviderId | null {
+  if (!name) return null;
+  return ALIASES[name.trim().toLowerCase()] || null;
+}
+
+// Resolve a ZHI alias or vendor name to a provider id
+export function resolveProvider(name: string | null | undefined): ProviderId {
+  const resolved = tryResolveProvider(name);
+  if (!resolved) {
+    throw new Error(`Unknown provider: ${name}`);
+  }
+  return resolved;
+}
+
+export function getProviderDefinition(name: string): ProviderDefinition {
+  return PROVIDERS[resolveProvider(name)];
+}
+
+export function getProviderModel(name: string): string {
+  return getProviderDefinition(name).model;
+}
+
+export function getProviderMaxTokens(name: string): number {
+  return getProviderDefinition(name).maxOutputTokens;
+}
+
+// Rough token count of a prompt for context-window budgeting
+export function estimateContextTokens(text: string): number {
+  return Math.ceil((text.match(/\S+/g)?.length || 0) * TOKENS_PER_WORD);
+}
+
+export function getProviderContextWindow(name: string): number {
+  return getProviderDefinition(name).contextWindow;
+}
+
+/**
+ * Largest chunk (in words) that fits the provider's context window alongside
+ * `reservedTokens` of prompt scaffolding and completion. Never exceeds
+ * `preferredWords`, so large-context providers keep their usual chunk size.
+ */
+export function getChunkWordLimit(name: string, preferredWords: number, reservedTokens: number): number {
+  const available = getProviderContextWindow(name) - reservedTokens;
+  const fitting = Math.floor(available / TOKENS_PER_WORD);
+  return Math.max(100, Math.min(preferredWords, fitting));
+}
+
+export function getProviderLabel(name: string): string {
+  const resolved = tryResolveProvider(name);
+  return resolved ? PROVIDERS[resolved].label : name;
+}
+
+// Check if a provider is configured (has API key).
+// In mock mode and cassette replay every provider is.
+export function isProviderConfigured(name: string): boolean {
+  const resolved = tryResolveProvider(name);
+  if (!resolved) return false;
+  if (isMockMode() || getCassetteMode() === 'replay') return true;
+  if (resolved === 'mock') return isMockEnabled();
+  if (resolved === 'local') return !!process.env.LOCAL_LLM_BASE_URL;
+  if (isLocalOnly()) return false;
+  return !!process.env[PROVIDERS[resolved].apiKeyEnv];
+}
+
+// Get configured providers in priority order (only the mock in mock mode)
+export function getConfiguredProviders(): ProviderId[] {
+  if (isMockMode()) return ['mock'];
+  return PROVIDER_PRIORITY.filter(p => isProviderConfigured(p));
+}
+
+/**
+ * Failover order for a request: the preferred provider first (if configured),
+ * then the other configured providers. When the preferred provider is
+ * on-premises, or LOCAL_LLM_ONLY is set, only on-premises providers are
+ * tried - the request fails rather than falling back to a cloud vendor.
+ */
+export function getFailoverOrder(preferredProvider?: string): ProviderId[] {
+  const preferred = tryResolveProvider(preferredProvider);
+  const onPremisesOnly = isLocalOnly() || (preferred !== null && isOnPremisesProvider(preferred));
+  const candidates = getConfiguredProviders().filter(p => !onPremisesOnly || isOnPremisesProvider(p));
+
+  if (candidates.length === 0) {
+    throw new ProviderConfigurationError(onPremisesOnly
+      ? 'No on-premises AI provider is configured. Set LOCAL_LLM_BASE_URL; documents are not sent to cloud providers.'
+      : 'No AI providers are configured. Please add API keys.');
+  }
+  if (preferred && candidates.includes(preferred)) {
+    return [preferred, ...candidates.filter(p => p !== preferred)];
+  }
+  return candidates;
+}
+
+// Public view of the registry for /api/providers (no secrets)
+export function listProviders(): ProviderSummary[] {
+  return Object.values(PROVIDERS).map(def => ({
+    id: def.id,
+    alias: def.alias,
+    label: def.label,
+    model: def.model,
+    maxOutputTokens: def.maxOutputTokens,
+    contextWindow: def.contextWindow,
+    configured: isProviderConfigured(def.id),
+  }));
+}
+
+/**
+ * Send a chat completion to a single provider and return the response text.
+ * Accepts ZHI aliases. System messages are hoisted for Anthropic.
+ * In mock mode every provider answers with the offline mock; with
+ * LLM_CASSETTE_MODE set the exchange is recorded or replayed. Live calls
+ * wait on the provider's rate scheduler.
+ */
+export async function callProviderChat(
+  provider: string,
+  messages: ChatMessage[],
+  options: ChatOptions = {}
+): Promise<string> {
+  const def = getProviderDefinition(provider);
+  const request = {
+    model: options.model || def.model,
+    messages,
+    temperature: options.temperature ?? 0.7,
+    maxTokens: completionBudget(def, messages, options.maxTokens ?? 4000),
+    jsonMode: !!options.jsonMode,
+  };
+
+  return withCassette(def.id, request, () => {
+    if (def.apiStyle === 'mock' || isMockMode()) {
+      return Promise.resolve(mockChatResponse(messages, request));
+    }
+    // 429s are retried inside the scheduler, so the breaker sees only the final outcome
+    return trackProviderCall(def.id, () => scheduleProviderCall(def.id, () => sendChatRequest(def, request)));
+  });
+}
+
+/**
+ * Stream a chat completion from a single provider, yielding text deltas.
+ * Same request shape, mock handling, cassettes, metering and health tracking
+ * as callProviderChat; the mock answer is emitted word by word.
+ */
+export async function* streamProviderChat(
+  provider: string,
+  messages: ChatMessage[],
+  options: ChatOptions = {}
+): AsyncGenerator<string> {
+  const def = getProviderDefinition(provider);
+  const request = {
+    model: options.model || def.model,
+    messages,
+    temperature: options.temperature ?? 0.7,
+    maxTokens: completionBudget(def, messages, options.maxTokens ?? 4000),
+    jsonMode: !!options.jsonMode,
+  };
+
+  const { signal } = options;
+  signal?.throwIfAborted();
+  const deltas = withCassetteStream(def.id, request, () => {
+    if (def.apiStyle === 'mock' || isMockMode()) {
+      return streamMockResponse(messages, request);
+    }
+    return trackProviderStream(def.id, () => scheduleProviderStream(def.id, () => sendChatStreamRequest(def, request, signal)));
+  });
+  for await (const delta of deltas) {
+    // Leaving the loop returns the inner generators, which cancels the response body
+    signal?.throwIfAborted();
+    yield delta;
+  }
+}
+
+// Requested completion tokens, capped by the model's output limit and by what
+// is left of its context window after the prompt
+function completionBudget(def: ProviderDefinition, messages: ChatMessage[], requested: number): number {
+  const promptTokens = messages.reduce((sum, m) => sum + estimateContextTokens(m.content), 0);
+  const remaining = Math.max(MIN_COMPLETION_TOKENS, def.contextWindow - promptTokens);
+  return Math.min(requested, def.maxOutputTokens, remaining);
+}
+
+// Offline mock answer, metered with estimated token counts
+function mockChatResponse(messages: ChatMessage[], request: { maxTokens: number; jsonMode: boolean }): string {
+  const text = generateMockResponse(messages, { maxTokens: request.maxTokens, jsonMode: request.jsonMode });
+  void recordProviderUsage({
+    provider: 'mock',
+    model: PROVIDERS.mock.model,
+    promptTokens: estimateTokens(messages.map(m => m.content).join('')),
+    completionTokens: estimateTokens(text),
+  });
+  return text;
+}
+
+async function* streamMockResponse(
+  messages: ChatMessage[],
+  request: { maxTokens: number; jsonMode: boolean }
+): AsyncGenerator<string> {
+  const text = mockChatResponse(messages, request);
+  for (const piece of text.match(/\S+\s*|\s+/g) || []) {
+    yield piece;
+  }
+}
+
+// Report token usage from a provider response to the usage ledger
+function meterChatResponse(provider: ProviderId, model: string, data: any): void {
+  const usage = extractUsage(data);
+  if (usage) {
+    void recordProviderUsage({ provider, model: data.model || model, ...usage });
+  }
+}
+
+// HTTP failure carrying status and headers so the scheduler can honor retry-after
+async function providerHttpError(def: ProviderDefinition, response: globalThis.Response): Promise<Error> {
+  const errorText = await response.text();
+  return Object.assign(new Error(`${def.label} API error: ${response.status} - ${errorText}`), {
+    status: response.status,
+    headers: response.headers
+  });
+}
+
+async function sendChatRequest(
+  def: ProviderDefinition,
+  request: { model: string; messages: ChatMessage[]; temperature: number; maxTokens: number; jsonMode: boolean }
+): Promise<string> {
+  assertProviderAllowed(def.id);
+  const apiKey = process.env[def.apiKeyEnv] || '';
+  if (!apiKey && def.id !== 'local') {
+    throw new Error(`${def.apiKeyEnv} is not configured`);
+  }
+
+  const { model, messages, temperature, maxTokens } = request;
+
+  if (def.apiStyle === 'anthropic') {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const response = await fetch(def.chatUrl, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        ...(system ? { system } : {}),
+        messages: messages.filter(m => m.role !== 'system'),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await providerHttpError(def, response);
+    }
+
+    const data: any = await response.json();
+    meterChatResponse(def.id, model, data);
+    return data.content?.[0]?.type === 'text' ? data.content[0].text : '';
+  }
+
+  const response = await fetch(def.chatUrl, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      stream: false,
+      ...(request.jsonMode && def.id !== 'perplexity' ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    throw await providerHttpError(def, response);
+  }
+
+  const data: any = await response.json();
+  meterChatResponse(def.id, model, data);
+  return data.choices?.[0]?.message?.content || '';
+}
+
+// Yield the data payloads of a server-sent event stream, buffering partial lines
+async function* readEventData(response: globalThis.Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          yield line.slice(6).trim();
+        }
+      }
+    }
+  } finally {
+    // Closes the upstream connection when the consumer stops early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+async function* sendChatStreamRequest(
+  def: ProviderDefinition,
+  request: { model: string; messages: ChatMessage[]; temperature: number; maxTokens: number; jsonMode: boolean },
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  assertProviderAllowed(def.id);
+  const apiKey = process.env[def.apiKeyEnv] || '';
+  if (!apiKey && def.id !== 'local') {
+    throw new Error(`${def.apiKeyEnv} is not configured`);
+  }
+
+  const { model, messages, temperature, maxTokens } = request;
+
+  if (def.apiStyle === 'anthropic') {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const response = await fetch(def.chatUrl, {
+      method: 'POST',
+      signal,
+      headers: {
+        'x-api-key': apiKey,
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        stream: true,
+        ...(system ? { system } : {}),
+        messages: messages.filter(m => m.role !== 'system'),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await providerHttpError(def, response);
+    }
+
+    // Input tokens arrive in message_start, output tokens in message_delta
+    const usage = { input_tokens: 0, output_tokens: 0 };
+    for await (const data of readEventData(response)) {
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch (e) {
+        continue;
+      }
+      if (event.type === 'message_start') {
+        usage.input_tokens = event.message?.usage?.input_tokens || 0;
+      } else if (event.type === 'message_delta' && event.usage) {
+        usage.output_tokens = event.usage.output_tokens || 0;
+      } else if (event.type === 'content_block_delta' && event.delta?.text) {
+        yield event.delta.text;
+      } else if (event.type === 'error') {
+        throw new Error(`${def.label} stream error: ${event.error?.message || 'unknown'}`);
+      }
+    }
+    meterChatResponse(def.id, model, { usage });
+    return;
+  }
+
+  const response = await fetch(def.chatUrl, {
+    method: 'POST',
+    signal,
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      stream: true,
+      // Perplexity reports usage on its chunks without being asked
+      ...(def.id !== 'perplexity' ? { stream_options: { include_usage: true } } : {}),
+      ...(request.jsonMode && def.id !== 'perplexity' ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    throw await providerHttpError(def, response);
+  }
+
+  let usageChunk: any = null;
+  for await (const data of readEventData(response)) {
+    if (data === '[DONE]') break;
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch (e) {
+      continue;
+    }
+    if (chunk.usage) {
+      usageChunk = chunk;
+    }
+    const content = chunk.choices?.[0]?.delta?.content;
+    if (content) {
+      yield content;
+    }
+  }
+  if (usageChunk) {
+    meterChatResponse(def.id, model, usageChunk);
+  }
+}
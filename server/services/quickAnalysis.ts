@@ -1,6 +1,9 @@
 // EXACT INTELLIGENCE PROTOCOL IMPLEMENTATION ACCORDING TO USER SPECIFICATION
 // This implements the comprehensive intelligence protocol exactly as specified
 
+import { callProviderChat, resolveProvider } from './providerRegistry';
+import { finalScoreSchema, resolveStructured, StructuredOutputError, trailingJsonInstruction } from './structuredOutput';
+
 const EXACT_INTELLIGENCE_QUESTIONS = `IS IT INSIGHTFUL? 
 DOES IT DEVELOP POINTS? (OR, IF IT IS A SHORT EXCERPT, IS THERE EVIDENCE THAT IT WOULD DEVELOP POINTS IF EXTENDED)? 
 IS THE ORGANIZATION MERELY SEQUENTIAL (JUST ONE POINT AFTER ANOTHER, LITTLE OR NO LOGICAL SCAFFOLDING)? OR ARE THE IDEAS ARRANGED, NOT JUST SEQUENTIALLY BUT HIERARCHICALLY? 
@@ -36,99 +39,16 @@ const PARADIGM_PSEUDO_INTELLECTUAL_PASSAGE = `In this dissertation, I critically
 
 // Direct AI API call function
 async function callLLMProvider(provider: string, messages: Array<{role: string, content: string}>): Promise<string> {
-  const actualProvider = mapZhiToProvider(provider);
-  
-  if (actualProvider === 'openai') {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: messages,
-        max_tokens: 4000,
-        temperature: 0.7,
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
-    
-  } else if (actualProvider === 'anthropic') {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': process.env.ANTHROPIC_API_KEY!,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-7-sonnet-20250219',
-        max_tokens: 4000,
-        messages: messages
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Anthropic API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return data.content[0].text;
-    
-  } else if (actualProvider === 'deepseek') {
-    const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'deepseek-chat',
-        messages: messages,
-        max_tokens: 4000,
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`DeepSeek API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
-  }
-  
-  throw new Error(`Unsupported provider: ${actualProvider}`);
+  return callProviderChat(resolveProvider(provider), messages, { temperature: 0.7, maxTokens: 4000 });
 }
 
-function mapZhiToProvider(zhiName: string): string {
-  const mapping: Record<string, string> = {
-    'zhi1': 'openai',
-    'zhi2': 'anthropic', 
-    'zhi3': 'deepseek',
-  };
-  return mapping[zhiName] || zhiName;
-}
-
-function extractScore(response: string): number {
-  const scoreMatches = response.match(/(?:FINAL SCORE|Score|score):\s*(\d+)(?:\/100)?/i);
-  if (scoreMatches) {
-    return parseInt(scoreMatches[1]);
-  }
-  
-  const numberMatches = response.match(/(\d+)\/100/g);
-  if (numberMatches) {
-    const lastMatch = numberMatches[numberMatches.length - 1];
-    return parseInt(lastMatch.split('/')[0]);
-  }
-  
-  return 0;
+// Validate the score block that ends an assessment; re-asked if missing or invalid
+async function extractScore(provider: string, messages: Array<{role: string, content: string}>, response: string) {
+  const { data, text } = await resolveStructured(resolveProvider(provider), messages, response, {
+    name: 'quick analysis',
+    schema: finalScoreSchema
+  }, { temperature: 0.1, maxTokens: 500 });
+  return { score: Math.round(data.finalScore), text };
 }
 
 // Remove all markdown formatting to display clean text
@@ -302,7 +222,7 @@ USE THE FOLLOWING PASSAGE AS A PARADIGM OF A PHONY, PSEUDO-INTELLECTUAL, NOT ACT
 
 REMEMBER: Every single assessment MUST be backed by direct quotations from the text. Generic platitudes without evidence are completely unacceptable.
 
-Now answer the questions about this text and give a score out of 100. End with: FINAL SCORE: [number]/100
+Now answer the questions about this text and give a score out of 100. ${trailingJsonInstruction(finalScoreSchema)}
 
 TEXT:
 ${text}`;
@@ -317,12 +237,11 @@ export async function performQuickAnalysis(
   
   try {
     const prompt = createIntelligenceAssessmentPrompt(text);
-    const response = await callLLMProvider(provider, [
-      { role: 'user', content: prompt }
-    ]);
+    const messages = [{ role: 'user', content: prompt }];
+    const response = await callLLMProvider(provider, messages);
     
-    const score = extractScore(response);
-    const cleanResponse = cleanMarkdownFormatting(response);
+    const { score, text: analysisText } = await extractScore(provider, messages, response);
+    const cleanResponse = cleanMarkdownFormatting(analysisText);
     console.log(`${evaluationType} analysis complete - Score: ${score}/100`);
     
     return {
@@ -336,6 +255,9 @@ export async function performQuickAnalysis(
     
   } catch (error) {
     console.error(`${evaluationType} analysis error with ${provider}:`, error);
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
     throw new Error(`${evaluationType} analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -0,0 +1,322 @@
+/**
+ * Adaptive Rate Scheduler
+ *
+ * Shared per-provider scheduling for every live LLM call, replacing the fixed
+ * sleeps the chunked pipelines used between chunks. Each provider gets a
+ * token bucket (requests per minute) and a concurrency cap. A 429 pauses the
+ * provider for its retry-after window, halves its request rate and retries
+ * the call; successes recover the rate gradually.
+ *
+ * Limits are "provider=rpm/concurrency" pairs in LLM_RATE_LIMITS, e.g.
+ * LLM_RATE_LIMITS="anthropic=50/4,openai=500/8".
+ */
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  maxConcurrent: number;
+}
+
+export interface RateLimitState {
+  provider: string;
+  requestsPerMinute: number;
+  effectiveRequestsPerMinute: number;
+  maxConcurrent: number;
+  active: number;
+  queued: number;
+  pausedUntil: string | null;
+}
+
+interface ProviderSchedule {
+  limit: RateLimit;
+  tokens: number;
+  lastRefill: number;
+  rateFactor: number;           // 0.1-1, multiplied into requestsPerMinute
+  active: number;
+  pausedUntil: number;
+  waiters: Array<() => void>;
+}
+
+const DEFAULT_LIMITS: Record<string, RateLimit> = {
+  openai: { requestsPerMinute: 500, maxConcurrent: 8 },
+  anthropic: { requestsPerMinute: 50, maxConcurrent: 4 },
+  deepseek: { requestsPerMinute: 60, maxConcurrent: 4 },
+  perplexity: { requestsPerMinute: 50, maxConcurrent: 3 },
+  grok: { requestsPerMinute: 60, maxConcurrent: 4 },
+  local: { requestsPerMinute: 600, maxConcurrent: 1 },  // a single local GPU serves one request at a time
+};
+const FALLBACK_LIMIT: RateLimit = { requestsPerMinute: 60, maxConcurrent: 4 };
+
+const MAX_RATE_LIMIT_RETRIES = 4;
+const MIN_RATE_FACTOR = 0.1;
+const RATE_RECOVERY_STEP = 0.05;        // added to rateFactor per success
+const DEFAULT_BACKOFF_MS = 2000;        // doubled per retry when no retry-after is sent
+const MAX_BACKOFF_MS = 120000;
+
+// Independent chunks processed at once by the chunked pipelines
+export const CHUNK_CONCURRENCY = Math.max(1, parseInt(process.env.LLM_CHUNK_CONCURRENCY || '3'));
+
+const schedules = new Map<string, ProviderSchedule>();
+
+function parseLimitOverrides(): Record<string, RateLimit> {
+  const overrides: Record<string, RateLimit> = {};
+  for (const entry of (process.env.LLM_RATE_LIMITS || '').split(',')) {
+    const match = entry.trim().match(/^(\w+)=(\d+)(?:\/(\d+))?$/);
+    if (!match) continue;
+    const base = DEFAULT_LIMITS[match[1]] || FALLBACK_LIMIT;
+    overrides[match[1]] = {
+      requestsPerMinute: Math.max(1, parseInt(match[2])),
+      maxConcurrent: match[3] ? Math.max(1, parseInt(match[3])) : base.maxConcurrent
+    };
+  }
+  return overrides;
+}
+
+const LIMIT_OVERRIDES = parseLimitOverrides();
+
+export function getRateLimit(provider: string): RateLimit {
+  return LIMIT_OVERRIDES[provider] || DEFAULT_LIMITS[provider] || FALLBACK_LIMIT;
+}
+
+function getSchedule(provider: string): ProviderSchedule {
+  let schedule = schedules.get(provider);
+  if (!schedule) {
+    const limit = getRateLimit(provider);
+    schedule = {
+      limit,
+      tokens: limit.maxConcurrent,
+      lastRefill: Date.now(),
+      rateFactor: 1,
+      active: 0,
+      pausedUntil: 0,
+      waiters: []
+    };
+    schedules.set(provider, schedule);
+  }
+  return schedule;
+}
+
+function tokensPerMs(schedule: ProviderSchedule): number {
+  return (schedule.limit.requestsPerMinute * schedule.rateFactor) / 60000;
+}
+
+function refill(schedule: ProviderSchedule): void {
+  const now = Date.now();
+  // Bursts are capped at the concurrency limit
+  schedule.tokens = Math.min(
+    schedule.limit.maxConcurrent,
+    schedule.tokens + (now - schedule.lastRefill) * tokensPerMs(schedule)
+  );
+  schedule.lastRefill = now;
+}
+
+function wakeNext(schedule: ProviderSchedule): void {
+  schedule.waiters.shift()?.();
+}
+
+// Resolve after `ms`, or earlier when a slot is released
+function waitForSlot(schedule: ProviderSchedule, ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = Number.isFinite(ms) ? setTimeout(done, Math.max(1, ms)) : null;
+    function done() {
+      if (timer) clearTimeout(timer);
+      const index = schedule.waiters.indexOf(done);
+      if (index !== -1) schedule.waiters.splice(index, 1);
+      resolve();
+    }
+    schedule.waiters.push(done);
+  });
+}
+
+/**
+ * Wait for a concurrency slot and a request token. Returns the release function.
+ */
+async function acquire(provider: string): Promise<() => void> {
+  const schedule = getSchedule(provider);
+
+  while (true) {
+    refill(schedule);
+    const now = Date.now();
+
+    if (now >= schedule.pausedUntil && schedule.active < schedule.limit.maxConcurrent && schedule.tokens >= 1) {
+      schedule.tokens -= 1;
+      schedule.active++;
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        schedule.active--;
+        wakeNext(schedule);
+      };
+    }
+
+    const wait = now < schedule.pausedUntil
+      ? schedule.pausedUntil - now
+      : schedule.active >= schedule.limit.maxConcurrent
+        ? Infinity
+        : (1 - schedule.tokens) / tokensPerMs(schedule);
+    await waitForSlot(schedule, wait);
+  }
+}
+
+function readHeader(headers: any, name: string): string | null {
+  if (!headers) return null;
+  if (typeof headers.get === 'function') return headers.get(name);
+  return headers[name] ?? null;
+}
+
+/**
+ * How long to wait before retrying after this error, or null when the error
+ * is not a rate limit. Honors retry-after-ms / retry-after (seconds or date).
+ */
+export function rateLimitDelay(error: any, attempt: number): number | null {
+  const status = error?.status ?? error?.response?.status;
+  if (status !== 429) return null;
+
+  const headers = error?.headers ?? error?.response?.headers;
+  const retryAfterMs = parseFloat(readHeader(headers, 'retry-after-ms') || '');
+  if (!isNaN(retryAfterMs)) return Math.min(retryAfterMs, MAX_BACKOFF_MS);
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (!isNaN(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.min(Math.max(0, date - Date.now()), MAX_BACKOFF_MS);
+  }
+
+  return Math.min(DEFAULT_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
+function onRateLimited(provider: string, waitMs: number): void {
+  const schedule = getSchedule(provider);
+  schedule.pausedUntil = Math.max(schedule.pausedUntil, Date.now() + waitMs);
+  schedule.rateFactor = Math.max(MIN_RATE_FACTOR, schedule.rateFactor / 2);
+  schedule.tokens = 0;
+}
+
+function onSuccess(provider: string): void {
+  const schedule = getSchedule(provider);
+  schedule.rateFactor = Math.min(1, schedule.rateFactor + RATE_RECOVERY_STEP);
+}
+
+/**
+ * Run a provider call under its rate limit, retrying 429s after their
+ * retry-after window. Other errors are thrown unchanged.
+ */
+export async function scheduleProviderCall<T>(provider: string, call: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquire(provider);
+    try {
+      const result = await call();
+      onSuccess(provider);
+      return result;
+    } catch (error: any) {
+      const wait = rateLimitDelay(error, attempt);
+      if (wait === null || attempt >= MAX_RATE_LIMIT_RETRIES) throw error;
+      onRateLimited(provider, wait);
+      console.warn(`⏳ ${provider} rate limited, retrying in ${Math.round(wait)}ms (${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Streaming counterpart of scheduleProviderCall. The slot is held until the
+ * stream ends; a 429 is only retried before the first item is yielded.
+ */
+export async function* scheduleProviderStream<T>(provider: string, stream: () => AsyncIterable<T>): AsyncGenerator<T> {
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquire(provider);
+    let started = false;
+    try {
+      for await (const item of stream()) {
+        started = true;
+        yield item;
+      }
+      onSuccess(provider);
+      return;
+    } catch (error: any) {
+      const wait = started ? null : rateLimitDelay(error, attempt);
+      if (wait === null || attempt >= MAX_RATE_LIMIT_RETRIES) throw error;
+      onRateLimited(provider, wait);
+      console.warn(`⏳ ${provider} rate limited, retrying stream in ${Math.round(wait)}ms (${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Schedule an Anthropic-shaped client's messages.create calls.
+ */
+export function scheduleAnthropicClient<T>(client: T, provider = 'anthropic'): T {
+  const target: any = client;
+  const create = target.messages.create.bind(target.messages);
+  target.messages.create = (params: any, ...rest: any[]) =>
+    scheduleProviderCall(provider, () => create(params, ...rest));
+  return client;
+}
+
+/**
+ * Schedule an OpenAI-shaped client's chat.completions.create calls.
+ */
+export function scheduleOpenAIClient<T>(client: T, provider = 'openai'): T {
+  const completions = (client as any).chat.completions;
+  const create = completions.create.bind(completions);
+  completions.create = (params: any, ...rest: any[]) =>
+    scheduleProviderCall(provider, () => create(params, ...rest));
+  return client;
+}
+
+/**
+ * Map over independent items with at most `limit` in flight, preserving order.
+ * The provider scheduler still governs the actual request rate.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker);
+  const outcomes = await Promise.allSettled(workers);
+  const rejected = outcomes.find((o): o is PromiseRejectedResult => o.status === 'rejected');
+  if (rejected) throw rejected.reason;
+  return results;
+}
+
+export function getRateLimitState(provider: string): RateLimitState {
+  const schedule = getSchedule(provider);
+  return {
+    provider,
+    requestsPerMinute: schedule.limit.requestsPerMinute,
+    effectiveRequestsPerMinute: Math.round(schedule.limit.requestsPerMinute * schedule.rateFactor),
+    maxConcurrent: schedule.limit.maxConcurrent,
+    active: schedule.active,
+    queued: schedule.waiters.length,
+    pausedUntil: schedule.pausedUntil > Date.now() ? new Date(schedule.pausedUntil).toISOString() : null
+  };
+}
+
+export function getAllRateLimitStates(providers: string[]): Record<string, RateLimitState> {
+  return providers.reduce((acc, provider) => {
+    acc[provider] = getRateLimitState(provider);
+    return acc;
+  }, {} as Record<string, RateLimitState>);
+}
@@ -15,6 +15,7 @@ import {
   parseTargetLength,
   calculateLengthConfig,
 } from "./crossChunkCoherence";
+import { createAnthropicClient } from "./llmClients";
 
 type LengthMode = 'heavy_compression' | 'moderate_compression' | 'maintain' | 'moderate_expansion' | 'heavy_expansion';
 
@@ -29,7 +30,7 @@ interface LengthConfig {
 
 let _anthropic: Anthropic | null = null;
 function getAnthropic(): Anthropic {
-  if (!_anthropic) _anthropic = new Anthropic();
+  if (!_anthropic) _anthropic = createAnthropicClient();
   return _anthropic;
 }
 
@@ -163,10 +164,6 @@ export async function performRecursiveRewrite(
       });
 
       runningWordCount += countWords(result.outputText);
-
-      if (i < chunks.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 1500));
-      }
     }
 
     onProgress?.("stitching", "Running global consistency check...", 85);
@@ -0,0 +1,137 @@
+/**
+ * Response Cache
+ *
+ * Persistent, content-addressed cache for evaluation endpoints. Entries are
+ * keyed by hash(text, mode, provider, model, prompt version), so the same
+ * document evaluated the same way is only paid for once until the entry expires.
+ * Activating another registry version of a scope's prompts changes the key;
+ * bump a scope's PROMPT_VERSIONS entry when its compiled-in prompts change.
+ */
+
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { tryResolveProvider, getProviderModel } from './providerRegistry';
+import { isMockMode } from './mockProvider';
+import { getPrompt, type PromptKey } from './promptRegistry';
+
+export type CacheScope = 'four-phase' | 'quick-analysis' | 'case-assessment' | 'rubric' | 'global-coherence';
+
+export const PROMPT_VERSIONS: Record<CacheScope, string> = {
+  'four-phase': '1',
+  'quick-analysis': '1',
+  'case-assessment': '2',
+  'rubric': '1',
+  'global-coherence': '1',
+};
+
+// Registry prompts each scope's results depend on
+const SCOPE_PROMPTS: Record<CacheScope, PromptKey[]> = {
+  'four-phase': ['intelligence_questions'],
+  'quick-analysis': [],
+  'case-assessment': ['case_assessment'],
+  'rubric': [],
+  'global-coherence': [],
+};
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export interface CacheKeyParams {
+  scope: CacheScope;
+  text: string;
+  mode?: string;
+  provider: string;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  cached: boolean;
+  cachedAt: string | null;
+}
+
+function getTtlMs(): number {
+  const hours = parseFloat(process.env.RESPONSE_CACHE_TTL_HOURS || '');
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+async function describeKey(params: CacheKeyParams) {
+  const provider = tryResolveProvider(params.provider) || params.provider;
+  const model = isMockMode() ? 'mock' : (tryResolveProvider(provider) ? getProviderModel(provider) : 'unknown');
+  const registryVersions = await Promise.all(
+    SCOPE_PROMPTS[params.scope].map(async key => `${key}@${(await getPrompt(key)).version}`)
+  );
+  return {
+    provider,
+    model,
+    mode: params.mode || '',
+    promptVersion: [PROMPT_VERSIONS[params.scope], ...registryVersions].join('+'),
+  };
+}
+
+export async function buildCacheKey(params: CacheKeyParams): Promise<string> {
+  const { provider, model, mode, promptVersion } = await describeKey(params);
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([params.scope, params.text, mode, provider, model, promptVersion]))
+    .digest('hex');
+}
+
+// Per-request bypass: { bypassCache: true } in the body or ?nocache=1
+export function isCacheBypassed(req: { body?: any; query?: any }): boolean {
+  return req.body?.bypassCache === true || req.query?.nocache === '1' || req.query?.nocache === 'true';
+}
+
+/**
+ * Look up a live cache entry. Cache failures are logged and treated as a miss.
+ */
+export async function getCachedResponse<T>(params: CacheKeyParams): Promise<{ value: T; cachedAt: string } | null> {
+  try {
+    const entry = await storage.getCachedResponse(await buildCacheKey(params));
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    await storage.recordCacheHit(entry.id);
+    console.log(`💾 Cache HIT: ${params.scope} (${entry.provider}, hit ${entry.hitCount + 1})`);
+    return { value: entry.response as T, cachedAt: entry.createdAt.toISOString() };
+  } catch (error: any) {
+    console.warn(`⚠️ Response cache lookup failed: ${error.message}`);
+    return null;
+  }
+}
+
+export async function setCachedResponse<T>(params: CacheKeyParams, value: T): Promise<void> {
+  try {
+    const { provider, model, mode, promptVersion } = await describeKey(params);
+    await storage.setCachedResponse({
+      cacheKey: await buildCacheKey(params),
+      scope: params.scope,
+      mode,
+      provider,
+      model,
+      promptVersion,
+      response: value as any,
+      expiresAt: new Date(Date.now() + getTtlMs()),
+    });
+  } catch (error: any) {
+    console.warn(`⚠️ Response cache write failed: ${error.message}`);
+  }
+}
+
+/**
+ * Serve from cache when possible, otherwise compute and store the result.
+ */
+export async function withResponseCache<T>(
+  params: CacheKeyParams,
+  bypass: boolean,
+  compute: () => Promise<T>
+): Promise<CachedResult<T>> {
+  if (!bypass) {
+    const hit = await getCachedResponse<T>(params);
+    if (hit) {
+      return { value: hit.value, cached: true, cachedAt: hit.cachedAt };
+    }
+  }
+
+  const value = await compute();
+  await setCachedResponse(params, value);
+  return { value, cached: false, cachedAt: null };
+}
@@ -0,0 +1,282 @@
+/**
+ * Rubric Evaluation
+ *
+ * Users define their own rubrics (named dimensions with weights, the
+ * questions to answer for each, and score anchors) and select one as the
+ * evaluation type "rubric:<id>". The provider answers each dimension's
+ * questions in prose and ends with a structured block holding one score and
+ * rationale per dimension; the overall score is the weighted average, so the
+ * result always follows the rubric's own dimensions.
+ */
+
+import type { Response } from 'express';
+import { z } from 'zod';
+import type { Rubric, User } from '@shared/schema';
+import { storage } from '../storage';
+import { resolveStructured, trailingJsonInstruction } from './structuredOutput';
+import { callProviderChat, streamProviderChat, type ChatMessage } from './providerRegistry';
+import { collectEvidence, type DimensionEvidence } from './evidenceSpans';
+
+export const RUBRIC_TYPE_PREFIX = 'rubric:';
+
+const MAX_SOURCE_CHARS = 60000;
+
+export interface RubricDimensionScore {
+  key: string;
+  name: string;
+  weight: number;
+  score: number;
+  rationale: string;
+}
+
+export interface RubricEvaluationResult {
+  provider: string;
+  overallScore: number;
+  analysis: string;
+  formattedReport: string;
+  evaluationType: string;
+  rubric: { id: number; name: string };
+  dimensions: RubricDimensionScore[];
+}
+
+export class RubricAccessError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'RubricAccessError';
+  }
+}
+
+// Rubric id from an evaluationType such as "rubric:12", or null for the built-in types
+export function parseRubricEvaluationType(evaluationType: unknown): number | null {
+  if (typeof evaluationType !== 'string' || !evaluationType.startsWith(RUBRIC_TYPE_PREFIX)) {
+    return null;
+  }
+  const id = Number(evaluationType.slice(RUBRIC_TYPE_PREFIX.length));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new RubricAccessError(`Invalid rubric evaluation type: ${evaluationType}`, 400);
+  }
+  return id;
+}
+
+// Owners can always read a rubric; team members can read rubrics shared with their team
+export function canReadRubric(rubric: Rubric, user: User | undefined): boolean {
+  if (!user) return false;
+  return rubric.userId === user.id || (!!rubric.team && rubric.team === user.team);
+}
+
+export function canEditRubric(rubric: Rubric, user: User | undefined): boolean {
+  return !!user && rubric.userId === user.id;
+}
+
+/**
+ * Load the rubric named by an evaluationType. Returns null for the built-in
+ * evaluation types and throws RubricAccessError when the rubric cannot be used.
+ */
+export async function resolveRubric(evaluationType: unknown, user: User | undefined): Promise<Rubric | null> {
+  const id = parseRubricEvaluationType(evaluationType);
+  if (id === null) return null;
+
+  if (!user) {
+    throw new RubricAccessError('Sign in to evaluate with a saved rubric', 401);
+  }
+  const rubric = await storage.getRubric(id);
+  if (!rubric || !canReadRubric(rubric, user)) {
+    throw new RubricAccessError(`Rubric ${id} not found`, 404);
+  }
+  return rubric;
+}
+
+// Cache mode for a rubric evaluation; editing a rubric changes it, so stale results are never served
+export function rubricCacheMode(rubric: Rubric): string {
+  return `${RUBRIC_TYPE_PREFIX}${rubric.id}@${rubric.updatedAt.toISOString()}`;
+}
+
+// { dimensions: { <key>: { score, rationale } } } with exactly the rubric's keys
+function buildResultSchema(rubric: Rubric) {
+  const dimensionResult = z.object({
+    score: z.number().min(0).max(100),
+    rationale: z.string().describe('one or two sentences'),
+  });
+  return z.object({
+    dimensions: z.object(Object.fromEntries(rubric.dimensions.map(d => [d.key, dimensionResult]))),
+  });
+}
+
+function buildRubricPrompt(text: string, rubric: Rubric, schema: z.ZodTypeAny): string {
+  const totalWeight = rubric.dimensions.reduce((sum, d) => sum + d.weight, 0);
+  const sections = rubric.dimensions.map(d => {
+    const share = Math.round((d.weight / totalWeight) * 100);
+    const questions = d.questions.map(q => `  - ${q}`).join('\n');
+    const anchors = [...d.anchors]
+      .sort((a, b) => b.score - a.score)
+      .map(a => `  ${a.score}/100: ${a.description}`)
+      .join('\n');
+    return `${d.name} [${d.key}] (weight ${share}%)\nQuestions:\n${questions}${anchors ? `\nScore anchors:\n${anchors}` : ''}`;
+  }).join('\n\n');
+
+  return `Evaluate the text below against the rubric "${rubric.name}".${rubric.description ? `\n${rubric.description}` : ''}
+
+For each dimension, answer its questions about the text, then give the dimension a score from 0 to 100. Where score anchors are given, place the text relative to them.
+
+RUBRIC DIMENSIONS:
+
+${sections}
+
+Write in plain text only, one section per dimension in the order above.
+${trailingJsonInstruction(schema)}
+
+TEXT:
+${text.slice(0, MAX_SOURCE_CHARS)}`;
+}
+
+// Weighted average of the dimension scores, rounded to a whole score
+export function weightedRubricScore(dimensions: Array<{ weight: number; score: number }>): number {
+  const totalWeight = dimensions.reduce((sum, d) => sum + d.weight, 0);
+  if (totalWeight <= 0) return 0;
+  return Math.round(dimensions.reduce((sum, d) => sum + d.weight * d.score, 0) / totalWeight);
+}
+
+function formatRubricReport(rubric: Rubric, dimensions: RubricDimensionScore[], overallScore: number, analysis: string): string {
+  const lines = dimensions.map(d => `${d.name}: ${Math.round(d.score)}/100 - ${d.rationale}`);
+  return `${rubric.name.toUpperCase()}\n\n${lines.join('\n')}\n\n${analysis}\n\nFINAL SCORE: ${overallScore}/100`;
+}
+
+function buildRubricRequest(text: string, rubric: Rubric) {
+  const schema = buildResultSchema(rubric);
+  const messages: ChatMessage[] = [
+    { role: 'user', content: buildRubricPrompt(text, rubric, schema) }
+  ];
+  return { schema, messages };
+}
+
+/**
+ * Score a text against every dimension of a rubric in one provider call.
+ */
+export async function executeRubricProtocol(text: string, provider: string, rubric: Rubric): Promise<RubricEvaluationResult> {
+  const { schema, messages } = buildRubricRequest(text, rubric);
+
+  console.log(`📐 RUBRIC "${rubric.name}": scoring ${rubric.dimensions.length} dimension(s) with ${provider}`);
+  const raw = await callProviderChat(provider, messages, { temperature: 0.1, maxTokens: 4000 });
+  return scoreRubricResponse(provider, rubric, messages, schema, raw);
+}
+
+// Scores from a finished response; only the JSON is re-asked when it is missing or invalid
+async function scoreRubricResponse(
+  provider: string,
+  rubric: Rubric,
+  messages: ChatMessage[],
+  schema: z.ZodTypeAny,
+  raw: string
+): Promise<RubricEvaluationResult> {
+  const { data, text: prose } = await resolveStructured(provider, messages, raw, {
+    name: `rubric ${rubric.id}`,
+    schema
+  }, { temperature: 0.1 });
+
+  const scored = data.dimensions as Record<string, { score: number; rationale: string }>;
+  const dimensions: RubricDimensionScore[] = rubric.dimensions.map(d => ({
+    key: d.key,
+    name: d.name,
+    weight: d.weight,
+    score: Math.round(scored[d.key].score),
+    rationale: scored[d.key].rationale
+  }));
+  const overallScore = weightedRubricScore(dimensions);
+  const analysis = prose.replace(/\*{1,3}/g, '').replace(/#{1,6}\s*/g, '').trim();
+
+  return {
+    provider,
+    overallScore,
+    analysis,
+    formattedReport: formatRubricReport(rubric, dimensions, overallScore, analysis),
+    evaluationType: `${RUBRIC_TYPE_PREFIX}${rubric.id}`,
+    rubric: { id: rubric.id, name: rubric.name },
+    dimensions
+  };
+}
+
+// Quoted spans supporting each rubric dimension, keyed by dimension key
+export async function collectRubricEvidence(text: string, provider: string, result: RubricEvaluationResult): Promise<DimensionEvidence> {
+  return collectEvidence(provider, text, result.dimensions.map(d => ({ key: d.key, label: d.name, score: d.score })));
+}
+
+/**
+ * Streaming counterpart of executeRubricProtocol for /api/stream-comprehensive.
+ * The analysis is relayed token by token; output follows the phase format of
+ * the built-in streaming protocol and ends with the FINAL SCORE line the
+ * client parses.
+ */
+export async function streamRubricProtocol(text: string, provider: string, rubric: Rubric, res: Response, signal?: AbortSignal): Promise<void> {
+  res.write(`📐 RUBRIC: ${rubric.name} (${rubric.dimensions.length} dimensions)\n\n`);
+  res.write(`🔍 PHASE 1: Answering the rubric questions...\n\n`);
+  res.write(`📄 ANALYSIS:\n`);
+
+  const { schema, messages } = buildRubricRequest(text, rubric);
+  console.log(`📐 RUBRIC "${rubric.name}": streaming ${rubric.dimensions.length} dimension(s) with ${provider}`);
+
+  // Relay the prose as it arrives; the trailing JSON block starts on its own line and is held back
+  let raw = '';
+  let written = 0;
+  for await (const delta of streamProviderChat(provider, messages, { temperature: 0.1, maxTokens: 4000, signal })) {
+    raw += delta;
+    const jsonStart = raw.search(/\n\s*\{/);
+    const visible = jsonStart === -1 ? raw.length : jsonStart;
+    if (visible > written) {
+      res.write(raw.slice(written, visible));
+      (res as any).flush?.();
+      written = visible;
+    }
+  }
+
+  const result = await scoreRubricResponse(provider, rubric, messages, schema, raw);
+
+  res.write(`\n\n✅ PHASE 1 COMPLETE\n\n`);
+  res.write(`📊 DIMENSION SCORES:\n`);
+  for (const d of result.dimensions) {
+    res.write(`${d.name} (weight ${d.weight}): ${d.score}/100 - ${d.rationale}\n`);
+  }
+  res.write(`\n🎯 FINAL SCORE: ${result.overallScore}/100\n\n`);
+  res.write(`\n🏁 RUBRIC EVALUATION COMPLETE\n`);
+}
+
+/**
+ * Rubric counterpart of performQuickComparison: both documents are scored
+ * against the rubric and compared dimension by dimension.
+ */
+export async function compareWithRubric(documentA: string, documentB: string, provider: string, rubric: Rubric) {
+  const [resultA, resultB] = await Promise.all([
+    executeRubricProtocol(documentA, provider, rubric),
+    executeRubricProtocol(documentB, provider, rubric)
+  ]);
+  const winner = resultA.overallScore >= resultB.overallScore ? 'A' : 'B';
+  const strongest = (result: RubricEvaluationResult) =>
+    [...result.dimensions].sort((a, b) => b.score - a.score).slice(0, 2).map(d => `${d.name}: ${d.score}/100`);
+
+  const toAnalysis = (result: RubricEvaluationResult, id: number) => ({
+    id,
+    formattedReport: result.formattedReport,
+    overallScore: result.overallScore,
+    provider,
+    summary: result.analysis,
+    analysis: result.analysis,
+    dimensions: result.dimensions
+  });
+
+  return {
+    analysisA: toAnalysis(resultA, Date.now()),
+    analysisB: toAnalysis(resultB, Date.now() + 1),
+    comparison: {
+      documentA: { score: resultA.overallScore, strengths: strongest(resultA), style: [`Rubric: ${rubric.name}`] },
+      documentB: { score: resultB.overallScore, strengths: strongest(resultB), style: [`Rubric: ${rubric.name}`] },
+      comparisonTable: [
+        ...resultA.dimensions.map((d, i) => ({
+          dimension: d.name,
+          documentA: `${d.score}/100`,
+          documentB: `${resultB.dimensions[i].score}/100`
+        })),
+        { dimension: 'Weighted Score', documentA: `${resultA.overallScore}/100`, documentB: `${resultB.overallScore}/100` }
+      ],
+      finalJudgment: `Document ${winner} scores higher on "${rubric.name}" (${Math.max(resultA.overallScore, resultB.overallScore)}/100 vs ${Math.min(resultA.overallScore, resultB.overallScore)}/100).`
+    }
+  };
+}
@@ -1,35 +1,6 @@
 import { Response } from 'express';
-
-const EXACT_COMPLETE_QUESTIONS = `IS IT INSIGHTFUL? 
-DOES IT DEVELOP POINTS? (OR, IF IT IS A SHORT EXCERPT, IS THERE EVIDENCE THAT IT WOULD DEVELOP POINTS IF EXTENDED)? 
-IS THE ORGANIZATION MERELY SEQUENTIAL (JUST ONE POINT AFTER ANOTHER, LITTLE OR NO LOGICAL SCAFFOLDING)? OR ARE THE IDEAS ARRANGED, NOT JUST SEQUENTIALLY BUT HIERARCHICALLY? 
-IF THE POINTS IT MAKES ARE NOT INSIGHTFUL, DOES IT OPERATE SKILLFULLY WITH CANONS OF LOGIC/REASONING. 
-ARE THE POINTS CLICHES? OR ARE THEY "FRESH"? 
-DOES IT USE TECHNICAL JARGON TO OBFUSCATE OR TO RENDER MORE PRECISE? 
-IS IT ORGANIC? DO POINTS DEVELOP IN AN ORGANIC, NATURAL WAY? DO THEY 'UNFOLD'? OR ARE THEY FORCED AND ARTIFICIAL? 
-DOES IT OPEN UP NEW DOMAINS? OR, ON THE CONTRARY, DOES IT SHUT OFF INQUIRY (BY CONDITIONALIZING FURTHER DISCUSSION OF THE MATTERS ON ACCEPTANCE OF ITS INTERNAL AND POSSIBLY VERY FAULTY LOGIC)? 
-IS IT ACTUALLY INTELLIGENT OR JUST THE WORK OF SOMEBODY WHO, JUDGING BY THE SUBJECT-MATTER, IS PRESUMED TO BE INTELLIGENT (BUT MAY NOT BE)? 
-IS IT REAL OR IS IT PHONY? 
-DO THE SENTENCES EXHIBIT COMPLEX AND COHERENT INTERNAL LOGIC? 
-IS THE PASSAGE GOVERNED BY A STRONG CONCEPT? OR IS THE ONLY ORGANIZATION DRIVEN PURELY BY EXPOSITORY (AS OPPOSED TO EPISTEMIC) NORMS?
-IS THERE SYSTEM-LEVEL CONTROL OVER IDEAS? IN OTHER WORDS, DOES THE AUTHOR SEEM TO RECALL WHAT HE SAID EARLIER AND TO BE IN A POSITION TO INTEGRATE IT INTO POINTS HE HAS MADE SINCE THEN? 
-ARE THE POINTS 'REAL'? ARE THEY FRESH? OR IS SOME INSTITUTION OR SOME ACCEPTED VEIN OF PROPAGANDA OR ORTHODOXY JUST USING THE AUTHOR AS A MOUTH PIECE?
-IS THE WRITING EVASIVE OR DIRECT? 
-ARE THE STATEMENTS AMBIGUOUS? 
-DOES THE PROGRESSION OF THE TEXT DEVELOP ACCORDING TO WHO SAID WHAT OR ACCORDING TO WHAT ENTAILS OR CONFIRMS WHAT? 
-DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK OF IDEAS?
-
-ADDITIONAL CRITICAL QUESTIONS:
-ARE THERE TERMS THAT ARE UNDEFINED BUT SHOULD BE DEFINED, IN THE SENSE THAT, WITHOUT DEFINITIONS, IT IS DIFFICULT OR IMPOSSIBLE TO KNOW WHAT IS BEING SAID OR THEREFORE TO EVALUATE WHAT IS BEING SAID?
-ARE THERE "FREE VARIABLES" IN THE TEXT? IE ARE THERE QUALIFICATIONS OR POINTS THAT ARE MADE BUT DO NOT CONNECT TO ANYTHING LATER OR EARLIER?
-DO NEW STATEMENTS DEVELOP OUT OF OLD ONES? OR ARE THEY MERELY "ADDED" TO PREVIOUS ONES, WITHOUT IN ANY SENSE BEING GENERATED BY THEM?
-DO NEW STATEMENTS CLARIFY OR DO THEY LEAD TO MORE LACK OF CLARITY?
-IS THE PASSAGE ACTUALLY (PALPABLY) SMART? OR IS ONLY "PRESUMPTION-SMART"?
-IF YOUR JUDGMENT IS THAT IT IS INSIGHTFUL, CAN YOU STATEMENT THAT INSIGHT IN A SINGLE SENTENCE?
-HOW WELL DOES IT MAKE ITS CASE?
-IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING IMPOSTOR SCAFFOLDING?
-IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?
-IF I WERE TO GIVE A LOW SCORE TO THIS PASSAGE, WOULD I BE PENALIZING ACTUAL INTELLIGENCE OWING TO A LACK OF CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?`;
+import { callProviderChat } from './providerRegistry';
+import { getPrompt } from './promptRegistry';
 
 // Generic LLM caller
 async function callLLMProvider(
@@ -39,77 +10,10 @@ async function callLLMProvider(
   try {
     console.log(`CALLING ${provider.toUpperCase()} with prompt length: ${messages[0]?.content?.length || 0}`);
     
-    if (provider === 'openai') {
-      const OpenAI = (await import('openai')).default;
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: messages as any,
-        temperature: 0.1,
-        max_tokens: 4000
-      });
-      
-      const result = completion.choices?.[0]?.message?.content || '';
-      console.log(`${provider.toUpperCase()} RESPONSE LENGTH: ${result.length}`);
-      console.log(`${provider.toUpperCase()} RESPONSE PREVIEW: "${result.substring(0, 200)}..."`);
-      return result;
-    } else if (provider === 'anthropic') {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'x-api-key': process.env.ANTHROPIC_API_KEY!,
-          'Content-Type': 'application/json',
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: "claude-3-sonnet-20240229",
-          max_tokens: 4000,
-          temperature: 0.1,
-          messages: messages
-        })
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`ANTHROPIC API ERROR: ${response.status} - ${errorText}`);
-        return '';
-      }
-      
-      const data = await response.json();
-      const result = data.content?.[0]?.text || '';
-      console.log(`${provider.toUpperCase()} RESPONSE LENGTH: ${result.length}`);
-      console.log(`${provider.toUpperCase()} RESPONSE PREVIEW: "${result.substring(0, 200)}..."`);
-      return result;
-    } else if (provider === 'deepseek') {
-      const response = await fetch('https://api.deepseek.com/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: messages,
-          temperature: 0.1,
-          max_tokens: 4000
-        })
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`DEEPSEEK API ERROR: ${response.status} - ${errorText}`);
-        return '';
-      }
-      
-      const data = await response.json();
-      const result = data.choices?.[0]?.message?.content || '';
-      console.log(`${provider.toUpperCase()} RESPONSE LENGTH: ${result.length}`);
-      console.log(`${provider.toUpperCase()} RESPONSE PREVIEW: "${result.substring(0, 200)}..."`);
-      return result;
-    }
-    
-    return '';
+    const result = await callProviderChat(provider, messages, { temperature: 0.1, maxTokens: 4000 });
+    console.log(`${provider.toUpperCase()} RESPONSE LENGTH: ${result.length}`);
+    console.log(`${provider.toUpperCase()} RESPONSE PREVIEW: "${result.substring(0, 200)}..."`);
+    return result;
   } catch (error) {
     console.error(`ERROR CALLING ${provider.toUpperCase()}:`, error);
     return '';
@@ -145,7 +49,8 @@ export async function executeStreamingComprehensiveProtocol(
   provider: 'openai' | 'anthropic' | 'deepseek',
   res: Response
 ): Promise<void> {
-  const questions = EXACT_COMPLETE_QUESTIONS;
+  const questionsPrompt = await getPrompt('streaming_intelligence_questions');
+  const questions = questionsPrompt.content;
   
   // PHASE 1: Answer the 28 questions
   res.write(`🔍 PHASE 1: Answering the 28 questions...\n\n`);
@@ -286,4 +191,5 @@ CRITICAL: Do not use markdown formatting. Write in plain text only. End with exa
   
   res.write(`\n🏁 4-PHASE PROTOCOL COMPLETE\n`);
   res.write(`📊 Final Intelligence Score: ${finalScore}/100\n`);
+  res.write(`🧾 Prompt version: streaming_intelligence_questions v${questionsPrompt.version}\n`);
 }
\ No newline at end of file
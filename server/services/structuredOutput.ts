@@ -0,0 +1,206 @@
+/**
+ * Structured Outputs
+ *
+ * Evaluators declare a zod schema for the values they need (scores, flags,
+ * lists) instead of scraping numbers out of free text. Providers are asked for
+ * JSON (json_object mode where the vendor supports it), the reply is validated
+ * against the schema, and an invalid reply is re-asked with the validation
+ * errors. When every attempt fails a StructuredOutputError is thrown - callers
+ * report it rather than substituting a default score.
+ */
+
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { callProviderChat, type ChatMessage, type ChatOptions } from './providerRegistry';
+
+export interface StructuredSpec<T> {
+  name: string;                 // evaluator name, used in logs and errors
+  schema: z.ZodType<T>;
+  maxRetries?: number;          // re-asks after the first attempt (default 2)
+}
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T; text: string }
+  | { success: false; error: string };
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly evaluator: string,
+    public readonly issues: string,
+    public readonly rawResponse: string,
+    public readonly attempts: number
+  ) {
+    super(`${evaluator}: provider returned an invalid structured response after ${attempts} attempt(s) - ${issues}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+
+// Shared schema for the single-score evaluators
+export const finalScoreSchema = z.object({
+  finalScore: z.number().min(0).max(100),
+});
+
+/**
+ * Render a schema as an illustrative JSON template for the prompt,
+ * e.g. {"finalScore": <number 0-100>, "verdict": "pass" | "fail"}
+ */
+export function describeSchema(schema: z.ZodTypeAny): string {
+  const def: any = schema._def;
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const fields = Object.entries(shape).map(([key, value]) => `"${key}": ${describeSchema(value)}`);
+    return `{${fields.join(', ')}}`;
+  }
+  if (schema instanceof z.ZodArray) {
+    return `[${describeSchema(def.type)}, ...]`;
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return describeSchema(def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return describeSchema(def.schema);
+  }
+  if (schema instanceof z.ZodEnum) {
+    return (def.values as string[]).map(v => `"${v}"`).join(' | ');
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return JSON.stringify(def.value);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return 'true | false';
+  }
+  if (schema instanceof z.ZodNumber) {
+    const checks: Array<{ kind: string; value: number }> = def.checks || [];
+    const min = checks.find(c => c.kind === 'min')?.value;
+    const max = checks.find(c => c.kind === 'max')?.value;
+    return min !== undefined && max !== undefined ? `<number ${min}-${max}>` : '<number>';
+  }
+  if (schema instanceof z.ZodString) {
+    return `"<${schema.description || 'string'}>"`;
+  }
+  return '<value>';
+}
+
+// Instruction for prose responses that end with a structured block
+export function trailingJsonInstruction(schema: z.ZodTypeAny): string {
+  return `End your response with a JSON object on its own line, exactly in this shape: ${describeSchema(schema)}`;
+}
+
+// Find the last balanced {...} block in a response
+function findLastJsonObject(text: string): { json: string; start: number } | null {
+  for (let end = text.lastIndexOf('}'); end !== -1; end = end > 0 ? text.lastIndexOf('}', end - 1) : -1) {
+    let depth = 0;
+    for (let i = end; i >= 0; i--) {
+      if (text[i] === '}') depth++;
+      else if (text[i] === '{') depth--;
+      if (depth === 0) {
+        const candidate = text.substring(i, end + 1);
+        try {
+          JSON.parse(candidate);
+          return { json: candidate, start: i };
+        } catch {
+          break;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a response against a schema. Accepts a bare JSON reply (optionally
+ * fenced) or prose that ends with a JSON object; `text` is the prose with the
+ * JSON block removed.
+ */
+export function parseStructured<T>(raw: string, schema: z.ZodType<T>): StructuredParseResult<T> {
+  const unfenced = raw.replace(/```(?:json)?/gi, '').trim();
+  const block = findLastJsonObject(unfenced);
+  if (!block) {
+    return { success: false, error: 'no JSON object found in the response' };
+  }
+
+  const result = schema.safeParse(JSON.parse(block.json));
+  if (!result.success) {
+    return { success: false, error: fromZodError(result.error).message };
+  }
+  return { success: true, data: result.data, text: unfenced.substring(0, block.start).trim() };
+}
+
+function correctionMessage(schema: z.ZodTypeAny, error: string): ChatMessage {
+  return {
+    role: 'user',
+    content: `Your previous response could not be used (${error}). Respond again with valid JSON only, no other text, in exactly this shape:\n${describeSchema(schema)}`
+  };
+}
+
+async function reask<T>(
+  provider: string,
+  conversation: ChatMessage[],
+  spec: StructuredSpec<T>,
+  options: ChatOptions,
+  firstError: string,
+  firstRaw: string
+): Promise<T> {
+  const maxRetries = spec.maxRetries ?? DEFAULT_MAX_RETRIES;
+  let messages = conversation;
+  let error = firstError;
+  let raw = firstRaw;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    console.warn(`🔁 ${spec.name}: invalid structured response (${error}), re-asking (${attempt}/${maxRetries})`);
+    messages = [...messages, { role: 'assistant', content: raw }, correctionMessage(spec.schema, error)];
+    raw = await callProviderChat(provider, messages, { ...options, jsonMode: true });
+
+    const parsed = parseStructured(raw, spec.schema);
+    if (parsed.success) {
+      return parsed.data;
+    }
+    error = parsed.error;
+  }
+
+  throw new StructuredOutputError(spec.name, error, raw, maxRetries + 1);
+}
+
+/**
+ * Ask a provider for a JSON-only reply matching the schema.
+ */
+export async function requestStructured<T>(
+  provider: string,
+  messages: ChatMessage[],
+  spec: StructuredSpec<T>,
+  options: ChatOptions = {}
+): Promise<T> {
+  const instruction = `Respond with valid JSON only, no other text, in exactly this shape:\n${describeSchema(spec.schema)}`;
+  const last = messages[messages.length - 1];
+  const prompt: ChatMessage[] = [...messages.slice(0, -1), { ...last, content: `${last.content}\n\n${instruction}` }];
+
+  const raw = await callProviderChat(provider, prompt, { ...options, jsonMode: true });
+  const parsed = parseStructured(raw, spec.schema);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  return reask(provider, prompt, spec, options, parsed.error, raw);
+}
+
+/**
+ * Validate the structured block at the end of a prose response that has
+ * already been generated. Only the JSON is re-asked when it is missing or
+ * invalid, so the prose is never regenerated.
+ */
+export async function resolveStructured<T>(
+  provider: string,
+  messages: ChatMessage[],
+  raw: string,
+  spec: StructuredSpec<T>,
+  options: ChatOptions = {}
+): Promise<{ data: T; text: string }> {
+  const parsed = parseStructured(raw, spec.schema);
+  if (parsed.success) {
+    return { data: parsed.data, text: parsed.text };
+  }
+  const data = await reask(provider, messages, spec, options, parsed.error, raw);
+  return { data, text: raw.trim() };
+}
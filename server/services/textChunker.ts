@@ -1,15 +1,26 @@
 import { TextChunk } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { tryResolveProvider, getChunkWordLimit, getProviderMaxTokens } from "./providerRegistry";
 
 export class TextChunkerService {
   private readonly CHUNK_SIZE = 500; // words per chunk
   private readonly OVERLAP_SIZE = 50; // word overlap between chunks
+  private readonly PROMPT_TOKENS = 1500; // rewrite instructions sent with each chunk
 
-  chunkText(text: string): TextChunk[] {
+  // Chunk size for the provider that will rewrite the chunks, so each fits its context window
+  private chunkSizeFor(provider?: string): number {
+    const resolved = tryResolveProvider(provider);
+    if (!resolved) return this.CHUNK_SIZE;
+    return getChunkWordLimit(resolved, this.CHUNK_SIZE, this.PROMPT_TOKENS + getProviderMaxTokens(resolved));
+  }
+
+  chunkText(text: string, provider?: string): TextChunk[] {
     const words = text.trim().split(/\s+/);
     const totalWords = words.length;
+    const chunkSize = this.chunkSizeFor(provider);
+    const overlapSize = Math.min(this.OVERLAP_SIZE, Math.floor(chunkSize / 10));
     
-    if (totalWords <= this.CHUNK_SIZE) {
+    if (totalWords <= chunkSize) {
       return [{
         id: randomUUID(),
         content: text,
@@ -22,7 +33,7 @@ export class TextChunkerService {
     let currentStart = 0;
 
     while (currentStart < totalWords) {
-      const currentEnd = Math.min(currentStart + this.CHUNK_SIZE, totalWords);
+      const currentEnd = Math.min(currentStart + chunkSize, totalWords);
       const chunkWords = words.slice(currentStart, currentEnd);
       const chunkContent = chunkWords.join(' ');
 
@@ -34,10 +45,10 @@ export class TextChunkerService {
       });
 
       // Move to next chunk with overlap
-      currentStart = currentEnd - this.OVERLAP_SIZE;
+      currentStart = currentEnd - overlapSize;
       
       // Ensure we don't create tiny final chunks
-      if (totalWords - currentStart < this.CHUNK_SIZE / 2) {
+      if (totalWords - currentStart < chunkSize / 2) {
         break;
       }
     }
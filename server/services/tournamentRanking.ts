@@ -0,0 +1,371 @@
+/**
+ * Tournament Ranking
+ *
+ * Ranks N documents from head-to-head judgments instead of absolute scores.
+ * The provider only ever answers "which of these two is stronger?", which is
+ * far more repeatable than a 0-100 score. Pairs are scheduled adaptively:
+ * an opening round pairs every document once, and later rounds pick the
+ * pairs whose outcome is most uncertain under the current fit. A
+ * Bradley-Terry model is fitted to all outcomes (ties count half a win each)
+ * and reported on an Elo-like scale with 95% confidence intervals.
+ */
+
+import { z } from 'zod';
+import type { Rubric } from '@shared/schema';
+import { requestStructured, StructuredOutputError } from './structuredOutput';
+import { mapWithConcurrency, CHUNK_CONCURRENCY } from './rateScheduler';
+
+export const MIN_TOURNAMENT_DOCUMENTS = 3;
+export const MAX_TOURNAMENT_DOCUMENTS = 32;
+export const MAX_TOURNAMENT_COMPARISONS = 200;
+
+const MAX_DOCUMENT_CHARS = 20000;   // per document in a comparison prompt
+const PRIOR_STRENGTH = 0.1;         // ridge prior on log-strengths; keeps undefeated documents finite
+const RATING_SCALE = 400 / Math.LN10;
+const RATING_BASE = 1500;
+const Z_95 = 1.96;
+
+export const TOURNAMENT_CRITERIA = ['intelligence', 'originality', 'cogency', 'overall_quality'];
+export type TournamentCriterion = 'intelligence' | 'originality' | 'cogency' | 'overall_quality';
+
+export interface TournamentDocument {
+  label: string;
+  content: string;
+}
+
+export interface TournamentComparison {
+  round: number;
+  a: number;                        // document index shown first
+  b: number;                        // document index shown second
+  winner: number | null;            // document index, null for a tie
+  margin: 'slight' | 'clear' | 'decisive';
+  rationale: string;
+}
+
+export interface TournamentStanding {
+  rank: number;
+  index: number;
+  label: string;
+  rating: number;
+  ciLow: number;
+  ciHigh: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  comparisons: number;
+}
+
+// Head-to-head record of the row document against the column document
+export interface MatrixCell {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface TournamentResult {
+  model: 'bradley-terry';
+  criterion: string;
+  provider: string;
+  documents: Array<{ index: number; label: string }>;
+  ranking: TournamentStanding[];
+  matrix: Array<Array<MatrixCell | null>>;
+  comparisons: TournamentComparison[];
+  failedComparisons: number;
+}
+
+export interface TournamentOptions {
+  provider: string;
+  criterion?: TournamentCriterion;
+  rubric?: Rubric | null;           // judge against a saved rubric instead of a built-in criterion
+  maxComparisons?: number;
+  onProgress?: (stage: string) => void;
+  signal?: AbortSignal;             // no further rounds are scheduled once aborted
+}
+
+export class TournamentRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TournamentRequestError';
+  }
+}
+
+const CRITERION_DESCRIPTIONS: Record<TournamentCriterion, string> = {
+  intelligence: 'the intelligence displayed by the author: insight, depth, precision and the quality of the reasoning',
+  originality: 'originality: how far the text goes beyond received ideas and standard treatments',
+  cogency: 'cogency: how well the claims are supported and how compelling the argument is',
+  overall_quality: 'overall quality as a piece of writing and thought',
+};
+
+const judgmentSchema = z.object({
+  winner: z.enum(['A', 'B', 'tie']),
+  margin: z.enum(['slight', 'clear', 'decisive']),
+  rationale: z.string().describe('two or three sentences'),
+});
+
+// Default budget: about 3 comparisons per document, at most every pair in both orders
+export function defaultComparisonBudget(count: number): number {
+  return Math.min(count * (count - 1), 3 * count);
+}
+
+function describeCriterion(options: TournamentOptions): string {
+  if (options.rubric) {
+    const dimensions = options.rubric.dimensions
+      .map(d => `- ${d.name} (weight ${d.weight}): ${d.questions.join(' ')}`)
+      .join('\n');
+    return `the rubric "${options.rubric.name}":\n${dimensions}`;
+  }
+  return CRITERION_DESCRIPTIONS[options.criterion || 'intelligence'];
+}
+
+async function judgePair(provider: string, criterion: string, first: TournamentDocument, second: TournamentDocument) {
+  const prompt = `Compare the two texts below and decide which is stronger with respect to ${criterion}
+
+Judge the texts on their merits, not on length or on the order in which they appear. Answer "tie" only if you genuinely cannot separate them.
+
+TEXT A:
+${first.content.slice(0, MAX_DOCUMENT_CHARS)}
+
+TEXT B:
+${second.content.slice(0, MAX_DOCUMENT_CHARS)}`;
+
+  return requestStructured(provider, [
+    { role: 'system', content: 'You are an impartial judge comparing two submissions.' },
+    { role: 'user', content: prompt }
+  ], { name: 'tournament comparison', schema: judgmentSchema, maxRetries: 1 }, { temperature: 0.1, maxTokens: 600 });
+}
+
+// Wins (ties as half) and comparison counts per ordered pair
+function tally(count: number, comparisons: TournamentComparison[]) {
+  const wins = Array.from({ length: count }, () => new Array(count).fill(0));
+  const games = Array.from({ length: count }, () => new Array(count).fill(0));
+  for (const c of comparisons) {
+    games[c.a][c.b]++;
+    games[c.b][c.a]++;
+    if (c.winner === null) {
+      wins[c.a][c.b] += 0.5;
+      wins[c.b][c.a] += 0.5;
+    } else {
+      wins[c.winner][c.winner === c.a ? c.b : c.a]++;
+    }
+  }
+  return { wins, games };
+}
+
+// Inverse of a symmetric positive-definite matrix by Gauss-Jordan elimination
+function invert(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= factor * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(n));
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Fit Bradley-Terry log-strengths by Newton's method on the penalized
+ * log-likelihood. Returns the strengths and their covariance (inverse of the
+ * negative Hessian at the optimum).
+ */
+export function fitBradleyTerry(count: number, comparisons: TournamentComparison[]): { theta: number[]; covariance: number[][] } {
+  const { wins, games } = tally(count, comparisons);
+  let theta = new Array(count).fill(0);
+  let covariance: number[][] = [];
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const gradient = theta.map(t => -PRIOR_STRENGTH * t);
+    const information = Array.from({ length: count }, (_, i) =>
+      Array.from({ length: count }, (_, j) => (i === j ? PRIOR_STRENGTH : 0))
+    );
+
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < count; j++) {
+        if (i === j || games[i][j] === 0) continue;
+        const p = sigmoid(theta[i] - theta[j]);
+        gradient[i] += wins[i][j] - games[i][j] * p;
+        information[i][i] += games[i][j] * p * (1 - p);
+        information[i][j] -= games[i][j] * p * (1 - p);
+      }
+    }
+
+    covariance = invert(information);
+    const step = covariance.map(row => row.reduce((sum, v, j) => sum + v * gradient[j], 0));
+    theta = theta.map((t, i) => t + step[i]);
+    if (Math.max(...step.map(Math.abs)) < 1e-6) break;
+  }
+
+  // Strengths are only identified up to a constant; center them on the mean
+  const mean = theta.reduce((a, b) => a + b, 0) / count;
+  return { theta: theta.map(t => t - mean), covariance };
+}
+
+/**
+ * Disjoint pairs for the next round, most informative first: pairs whose
+ * predicted outcome is closest to a coin flip and whose strengths are least
+ * certain. Each unordered pair is played at most twice (once in each order).
+ */
+function scheduleRound(count: number, comparisons: TournamentComparison[], limit: number): Array<[number, number]> {
+  const { games } = tally(count, comparisons);
+  const { theta, covariance } = fitBradleyTerry(count, comparisons);
+
+  const candidates: Array<{ i: number; j: number; value: number }> = [];
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      if (games[i][j] >= 2) continue;
+      const p = sigmoid(theta[i] - theta[j]);
+      const variance = covariance[i][i] + covariance[j][j] - 2 * covariance[i][j];
+      candidates.push({ i, j, value: p * (1 - p) * variance / (1 + games[i][j]) });
+    }
+  }
+  candidates.sort((x, y) => y.value - x.value);
+
+  const used = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  for (const { i, j } of candidates) {
+    if (pairs.length >= limit) break;
+    if (used.has(i) || used.has(j)) continue;
+    used.add(i);
+    used.add(j);
+    // A rematch swaps the order so position bias cancels out
+    const previous = comparisons.find(c => (c.a === i && c.b === j) || (c.a === j && c.b === i));
+    pairs.push(previous ? [previous.b, previous.a] : Math.random() < 0.5 ? [i, j] : [j, i]);
+  }
+  return pairs;
+}
+
+// Opening round: a random pairing so every document is compared at least once
+function openingRound(count: number): Array<[number, number]> {
+  const order = Array.from({ length: count }, (_, i) => i).sort(() => Math.random() - 0.5);
+  const pairs: Array<[number, number]> = [];
+  for (let k = 0; k + 1 < order.length; k += 2) pairs.push([order[k], order[k + 1]]);
+  // With an odd count the last document plays the first
+  if (order.length % 2 === 1) pairs.push([order[order.length - 1], order[0]]);
+  return pairs;
+}
+
+function buildStandings(documents: TournamentDocument[], comparisons: TournamentComparison[]): TournamentStanding[] {
+  const { theta, covariance } = fitBradleyTerry(documents.length, comparisons);
+  const standings = documents.map((document, index) => {
+    const played = comparisons.filter(c => c.a === index || c.b === index);
+    const se = Math.sqrt(Math.max(0, covariance[index][index]));
+    const rating = RATING_BASE + theta[index] * RATING_SCALE;
+    return {
+      rank: 0,
+      index,
+      label: document.label,
+      rating: Math.round(rating),
+      ciLow: Math.round(rating - Z_95 * se * RATING_SCALE),
+      ciHigh: Math.round(rating + Z_95 * se * RATING_SCALE),
+      wins: played.filter(c => c.winner === index).length,
+      losses: played.filter(c => c.winner !== null && c.winner !== index).length,
+      ties: played.filter(c => c.winner === null).length,
+      comparisons: played.length,
+    };
+  });
+  standings.sort((x, y) => y.rating - x.rating);
+  standings.forEach((standing, i) => { standing.rank = i + 1; });
+  return standings;
+}
+
+function buildMatrix(count: number, comparisons: TournamentComparison[]): Array<Array<MatrixCell | null>> {
+  const matrix = Array.from({ length: count }, (_, i) =>
+    Array.from({ length: count }, (_, j): MatrixCell | null => (i === j ? null : { wins: 0, losses: 0, ties: 0 }))
+  );
+  for (const c of comparisons) {
+    const [ab, ba] = [matrix[c.a][c.b]!, matrix[c.b][c.a]!];
+    if (c.winner === null) {
+      ab.ties++;
+      ba.ties++;
+    } else if (c.winner === c.a) {
+      ab.wins++;
+      ba.losses++;
+    } else {
+      ab.losses++;
+      ba.wins++;
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Run a tournament over the documents and return the fitted ranking.
+ */
+export async function runTournament(documents: TournamentDocument[], options: TournamentOptions): Promise<TournamentResult> {
+  const count = documents.length;
+  if (count < MIN_TOURNAMENT_DOCUMENTS || count > MAX_TOURNAMENT_DOCUMENTS) {
+    throw new TournamentRequestError(`A tournament needs ${MIN_TOURNAMENT_DOCUMENTS}-${MAX_TOURNAMENT_DOCUMENTS} documents (got ${count})`);
+  }
+  const requested = Math.min(options.maxComparisons ?? defaultComparisonBudget(count), MAX_TOURNAMENT_COMPARISONS);
+  const budget = Math.max(count - 1, Math.min(requested, count * (count - 1)));
+  const criterion = describeCriterion(options);
+  const comparisons: TournamentComparison[] = [];
+  let failedComparisons = 0;
+  let round = 0;
+
+  console.log(`🏆 Tournament: ${count} documents, up to ${budget} comparisons with ${options.provider}`);
+
+  while (comparisons.length + failedComparisons < budget) {
+    options.signal?.throwIfAborted();
+    round++;
+    const remaining = budget - comparisons.length - failedComparisons;
+    const pairs = round === 1
+      ? openingRound(count).slice(0, remaining)
+      : scheduleRound(count, comparisons, Math.min(remaining, Math.floor(count / 2)));
+    if (pairs.length === 0) break;
+
+    options.onProgress?.(`Round ${round}: ${pairs.length} comparison(s), ${comparisons.length}/${budget} done`);
+    const results = await mapWithConcurrency(pairs, CHUNK_CONCURRENCY, async ([a, b]) => {
+      try {
+        const judgment = await judgePair(options.provider, criterion, documents[a], documents[b]);
+        return {
+          round,
+          a,
+          b,
+          winner: judgment.winner === 'tie' ? null : judgment.winner === 'A' ? a : b,
+          margin: judgment.margin,
+          rationale: judgment.rationale
+        } as TournamentComparison;
+      } catch (error: any) {
+        // A bad judgment or a provider error loses one comparison, not the tournament
+        const reason = error instanceof StructuredOutputError ? error.issues : error.message;
+        console.warn(`⚠️ Tournament: comparison ${documents[a].label} vs ${documents[b].label} failed - ${reason}`);
+        return null;
+      }
+    });
+
+    for (const result of results) {
+      if (result) comparisons.push(result);
+      else failedComparisons++;
+    }
+  }
+
+  if (comparisons.length === 0) {
+    throw new Error('No comparison produced a valid judgment');
+  }
+
+  const ranking = buildStandings(documents, comparisons);
+  console.log(`🏆 Tournament complete: ${comparisons.length} comparisons, leader ${ranking[0].label} (${ranking[0].rating})`);
+
+  return {
+    model: 'bradley-terry',
+    criterion: options.rubric ? `rubric:${options.rubric.id}` : options.criterion || 'intelligence',
+    provider: options.provider,
+    documents: documents.map((document, index) => ({ index, label: document.label })),
+    ranking,
+    matrix: buildMatrix(count, comparisons),
+    comparisons,
+    failedComparisons
+  };
+}
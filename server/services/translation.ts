@@ -1,7 +1,7 @@
-import OpenAI from "openai";
+import { createOpenAIClient } from "./llmClients";
 
 // Initialize OpenAI client
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const openai = createOpenAIClient({ apiKey: process.env.OPENAI_API_KEY });
 
 // Interfaces for translation
 interface TranslationOptions {
@@ -0,0 +1,132 @@
+/**
+ * Usage Meter
+ *
+ * Records prompt/completion token usage for every provider call and charges
+ * the matching word credits to the calling user's ledger. The user, endpoint
+ * and job a call belongs to travel with the request via AsyncLocalStorage, so
+ * services deep in a pipeline don't need to pass them along.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { calculateTokenCredits, hasCreditPool, hasUnlimitedCredits } from '../lib/stripe-config';
+
+export interface UsageContext {
+  userId?: number;
+  username?: string;
+  endpoint: string;
+  jobId: string;
+}
+
+export interface ProviderUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+export function getUsageContext(): UsageContext | undefined {
+  return usageContext.getStore();
+}
+
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageContext.run(context, fn);
+}
+
+// Attribute subsequent calls in this request to a named job (e.g. "pipeline-42")
+export function setUsageJobId(jobId: string): void {
+  const context = usageContext.getStore();
+  if (context) {
+    context.jobId = jobId;
+  }
+}
+
+/**
+ * Express middleware: opens a usage context for each API request.
+ * Clients may group several requests into one job with an X-Job-Id header.
+ */
+export function usageContextMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const jobId = req.get('X-Job-Id') || randomUUID();
+  res.setHeader('X-Job-Id', jobId);
+  usageContext.run({
+    userId: req.user?.id,
+    username: req.user?.username,
+    endpoint: `${req.method} ${req.baseUrl}${req.path}`,
+    jobId
+  }, next);
+}
+
+/**
+ * Record one provider call. Never throws - metering must not break the call it measures.
+ */
+export async function recordProviderUsage(usage: ProviderUsage): Promise<void> {
+  const context = usageContext.getStore();
+  const totalTokens = usage.promptTokens + usage.completionTokens;
+  const chargeable = usage.provider !== 'mock' && hasCreditPool(usage.provider);
+  const credits = chargeable ? calculateTokenCredits(totalTokens) : 0;
+
+  try {
+    await storage.recordUsage({
+      userId: context?.userId ?? null,
+      jobId: context?.jobId || 'background',
+      endpoint: context?.endpoint || 'internal',
+      provider: usage.provider,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens,
+      credits
+    }, chargeable && !hasUnlimitedCredits(context?.username));
+  } catch (error: any) {
+    console.warn(`⚠️ Usage metering failed for ${usage.provider}: ${error.message}`);
+  }
+}
+
+// Read token counts from either SDK/REST response shape
+export function extractUsage(response: any): { promptTokens: number; completionTokens: number } | null {
+  const usage = response?.usage;
+  if (!usage) return null;
+  return {
+    promptTokens: usage.input_tokens ?? usage.prompt_tokens ?? 0,
+    completionTokens: usage.output_tokens ?? usage.completion_tokens ?? 0
+  };
+}
+
+function meterResponse(provider: string, params: any, response: any): void {
+  const usage = extractUsage(response);
+  if (usage) {
+    void recordProviderUsage({ provider, model: response.model || params.model || 'unknown', ...usage });
+  }
+}
+
+/**
+ * Meter an Anthropic-shaped client's messages.create calls.
+ */
+export function meterAnthropicClient<T>(client: T, provider = 'anthropic'): T {
+  const target: any = client;
+  const create = target.messages.create.bind(target.messages);
+  target.messages.create = async (params: any, ...rest: any[]) => {
+    const response = await create(params, ...rest);
+    meterResponse(provider, params, response);
+    return response;
+  };
+  return client;
+}
+
+/**
+ * Meter an OpenAI-shaped client's chat.completions.create calls.
+ */
+export function meterOpenAIClient<T>(client: T, provider = 'openai'): T {
+  const completions = (client as any).chat.completions;
+  const create = completions.create.bind(completions);
+  completions.create = async (params: any, ...rest: any[]) => {
+    const response = await create(params, ...rest);
+    meterResponse(provider, params, response);
+    return response;
+  };
+  return client;
+}
@@ -0,0 +1,88 @@
+/**
+ * User Analytics
+ *
+ * Activity log and usage breakdowns behind the Analytics page. Features log
+ * what a signed-in user did to `user_activities` (analyze, compare, rank,
+ * batch, rewrite); the summary combines those counts with per-provider usage
+ * from `usage_records` and the number of documents stored, over an optional
+ * date range.
+ */
+
+import { storage, type DateRange, type ActivityTypeCount, type ProviderUsage } from '../storage';
+
+export class AnalyticsRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalyticsRequestError';
+  }
+}
+
+export interface AnalyticsSummary {
+  range: { from: string | null; to: string | null };
+  documents: number;
+  activities: {
+    total: number;
+    byType: ActivityTypeCount[];
+  };
+  providers: ProviderUsage[];
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: unknown, name: string, endOfDay: boolean): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new AnalyticsRequestError(`${name} must be a date`);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new AnalyticsRequestError(`${name} is not a valid date: ${value}`);
+  }
+  // A bare "to" date includes the whole day
+  if (endOfDay && DATE_ONLY.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Date range from ?from=&to= (ISO dates or timestamps, both optional).
+ */
+export function parseDateRange(query: Record<string, unknown>): DateRange {
+  const range = {
+    from: parseDate(query.from, 'from', false),
+    to: parseDate(query.to, 'to', true)
+  };
+  if (range.from && range.to && range.from > range.to) {
+    throw new AnalyticsRequestError('from must be before to');
+  }
+  return range;
+}
+
+/**
+ * Record an activity for the signed-in user. Runs in the background and never
+ * throws: analytics must not fail the request being logged.
+ */
+export function logUserActivity(userId: number | undefined, activityType: string, activityData: Record<string, unknown> = {}, documentId?: number): void {
+  if (!userId) return;
+  storage.logActivity({ userId, activityType, activityData, documentId })
+    .catch(error => console.warn(`⚠️ Activity log failed for user ${userId}:`, error.message));
+}
+
+export async function buildAnalyticsSummary(userId: number, range: DateRange): Promise<AnalyticsSummary> {
+  const [documents, byType, providers] = await Promise.all([
+    storage.getDocumentCount(userId, range),
+    storage.getActivityTypeCounts(userId, range),
+    storage.getProviderUsage(userId, range)
+  ]);
+
+  return {
+    range: { from: range.from?.toISOString() ?? null, to: range.to?.toISOString() ?? null },
+    documents,
+    activities: {
+      total: byType.reduce((sum, entry) => sum + entry.count, 0),
+      byType
+    },
+    providers
+  };
+}
@@ -8,24 +8,73 @@ import {
   rewriteJobs,
   userCredits,
   creditTransactions,
+  responseCache,
+  usageRecords,
+  systemInstructions,
+  calibrationSamples,
+  calibrationRuns,
+  calibrationResults,
+  rubrics,
+  batchJobs,
+  batchItems,
   type User, 
   type InsertUser, 
   type InsertDocument, 
   type Document, 
+  type Analysis,
   type InsertUserActivity, 
+  type UserActivity,
   type InsertCognitiveProfile,
   type InsertRewriteJob,
   type RewriteJob,
   type UserCredits,
   type InsertUserCredits,
   type CreditTransaction,
-  type InsertCreditTransaction
+  type InsertCreditTransaction,
+  type ResponseCache,
+  type InsertResponseCache,
+  type UsageRecord,
+  type InsertUsageRecord,
+  type SystemInstruction,
+  type InsertSystemInstruction,
+  type CalibrationSample,
+  type InsertCalibrationSample,
+  type CalibrationRun,
+  type InsertCalibrationRun,
+  type CalibrationResult,
+  type InsertCalibrationResult,
+  type Rubric,
+  type InsertRubric,
+  type BatchJob,
+  type InsertBatchJob,
+  type BatchItem,
+  type InsertBatchItem
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, sql, desc, inArray, gte, lte, type SQL, type AnyColumn } from "drizzle-orm";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 
+// Inclusive bounds for analytics queries; either end may be open
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface ActivityTypeCount {
+  activityType: string;
+  count: number;
+}
+
+export interface ProviderUsage {
+  provider: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  credits: number;
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
@@ -38,12 +87,17 @@ export interface IStorage {
   
   // Analysis operations
   createAnalysis(analysis: any): Promise<any>;
+  getAnalysesForUser(userId: number): Promise<Analysis[]>;
   
   // Intelligent Rewrite operations
   createIntelligentRewrite(rewrite: any): Promise<any>;
   
   // Activity tracking
   logActivity(activity: InsertUserActivity): Promise<void>;
+  getUserActivities(userId: number, range: DateRange, activityType?: string, limit?: number): Promise<UserActivity[]>;
+  getActivityTypeCounts(userId: number, range: DateRange): Promise<ActivityTypeCount[]>;
+  getProviderUsage(userId: number, range: DateRange): Promise<ProviderUsage[]>;
+  getDocumentCount(userId: number, range: DateRange): Promise<number>;
   
   // Cognitive profile operations
   getCognitiveProfile(userId: number): Promise<any>;
@@ -66,10 +120,62 @@ export interface IStorage {
   getCreditTransactionByStripeSession(sessionId: string): Promise<CreditTransaction | undefined>;
   updateCreditTransactionStatus(id: number, status: string, paymentIntentId?: string): Promise<CreditTransaction>;
   updateCreditTransactionSessionId(id: number, sessionId: string): Promise<CreditTransaction>;
+  
+  // Response cache operations
+  getCachedResponse(cacheKey: string): Promise<ResponseCache | undefined>;
+  setCachedResponse(entry: InsertResponseCache): Promise<ResponseCache>;
+  recordCacheHit(id: number): Promise<void>;
+  
+  // Usage metering operations
+  recordUsage(usage: InsertUsageRecord, chargeCredits: boolean): Promise<UsageRecord>;
+  getUsageRecords(userId: number, jobId?: string): Promise<UsageRecord[]>;
+  
+  // Prompt registry operations
+  getPromptVersions(category: string, subcategory: string): Promise<SystemInstruction[]>;
+  getActivePrompts(category: string): Promise<SystemInstruction[]>;
+  createPromptVersion(prompt: InsertSystemInstruction): Promise<SystemInstruction>;
+  activatePromptVersion(category: string, subcategory: string, version: string): Promise<SystemInstruction | undefined>;
+  
+  // Calibration benchmark operations
+  getCalibrationSamples(includeInactive?: boolean): Promise<CalibrationSample[]>;
+  createCalibrationSamples(samples: InsertCalibrationSample[]): Promise<CalibrationSample[]>;
+  setCalibrationSampleActive(id: number, isActive: boolean): Promise<CalibrationSample | undefined>;
+  createCalibrationRun(run: InsertCalibrationRun): Promise<CalibrationRun>;
+  updateCalibrationRun(id: number, updates: Partial<InsertCalibrationRun>): Promise<CalibrationRun>;
+  getCalibrationRuns(limit?: number): Promise<CalibrationRun[]>;
+  getCompletedCalibrationRuns(): Promise<CalibrationRun[]>;
+  createCalibrationResult(result: InsertCalibrationResult): Promise<CalibrationResult>;
+  getCalibrationResults(runIds: number[]): Promise<CalibrationResult[]>;
+  
+  // Rubric operations
+  getRubric(id: number): Promise<Rubric | undefined>;
+  getRubricsForUser(userId: number, team: string | null): Promise<Rubric[]>;
+  createRubric(rubric: InsertRubric): Promise<Rubric>;
+  updateRubric(id: number, updates: Partial<InsertRubric>): Promise<Rubric | undefined>;
+  deleteRubric(id: number): Promise<boolean>;
+  setUserTeam(username: string, team: string | null): Promise<User | undefined>;
+  
+  // Batch evaluation operations
+  createBatchJob(job: InsertBatchJob, items: Omit<InsertBatchItem, 'jobId'>[]): Promise<BatchJob>;
+  getBatchJob(id: number): Promise<BatchJob | undefined>;
+  getBatchJobsForUser(userId: number, limit?: number): Promise<BatchJob[]>;
+  getUnfinishedBatchJobs(): Promise<BatchJob[]>;
+  updateBatchJob(id: number, updates: Partial<InsertBatchJob>): Promise<BatchJob | undefined>;
+  getBatchItems(jobId: number): Promise<BatchItem[]>;
+  getBatchItem(jobId: number, itemId: number): Promise<BatchItem | undefined>;
+  updateBatchItem(id: number, updates: Partial<InsertBatchItem>): Promise<BatchItem | undefined>;
+  resetRunningBatchItems(jobId: number): Promise<void>;
 }
 
 const MemoryStore = createMemoryStore(session);
 
+function withinRange(column: AnyColumn, range: DateRange): SQL[] {
+  return [
+    ...(range.from ? [gte(column, range.from)] : []),
+    ...(range.to ? [lte(column, range.to)] : [])
+  ];
+}
+
 export class DatabaseStorage implements IStorage {
   sessionStore: any;
 
@@ -115,6 +221,55 @@ export class DatabaseStorage implements IStorage {
     await db.insert(userActivities).values(activity);
   }
 
+  async getUserActivities(userId: number, range: DateRange, activityType?: string, limit = 200): Promise<UserActivity[]> {
+    return await db
+      .select()
+      .from(userActivities)
+      .where(and(
+        eq(userActivities.userId, userId),
+        ...withinRange(userActivities.timestamp, range),
+        ...(activityType ? [eq(userActivities.activityType, activityType)] : [])
+      ))
+      .orderBy(desc(userActivities.timestamp))
+      .limit(limit);
+  }
+
+  async getActivityTypeCounts(userId: number, range: DateRange): Promise<ActivityTypeCount[]> {
+    return await db
+      .select({
+        activityType: userActivities.activityType,
+        count: sql<number>`count(*)::int`
+      })
+      .from(userActivities)
+      .where(and(eq(userActivities.userId, userId), ...withinRange(userActivities.timestamp, range)))
+      .groupBy(userActivities.activityType)
+      .orderBy(desc(sql`count(*)`));
+  }
+
+  async getProviderUsage(userId: number, range: DateRange): Promise<ProviderUsage[]> {
+    return await db
+      .select({
+        provider: usageRecords.provider,
+        calls: sql<number>`count(*)::int`,
+        promptTokens: sql<number>`coalesce(sum(${usageRecords.promptTokens}), 0)::int`,
+        completionTokens: sql<number>`coalesce(sum(${usageRecords.completionTokens}), 0)::int`,
+        totalTokens: sql<number>`coalesce(sum(${usageRecords.totalTokens}), 0)::int`,
+        credits: sql<number>`coalesce(sum(${usageRecords.credits}), 0)::int`
+      })
+      .from(usageRecords)
+      .where(and(eq(usageRecords.userId, userId), ...withinRange(usageRecords.createdAt, range)))
+      .groupBy(usageRecords.provider)
+      .orderBy(desc(sql`count(*)`));
+  }
+
+  async getDocumentCount(userId: number, range: DateRange): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(documents)
+      .where(and(eq(documents.userId, userId), ...withinRange(documents.createdAt, range)));
+    return row?.count ?? 0;
+  }
+
   async getCognitiveProfile(userId: number): Promise<any> {
     const [profile] = await db
       .select()
@@ -141,6 +296,15 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Oldest first, for trend lines
+  async getAnalysesForUser(userId: number): Promise<Analysis[]> {
+    return await db
+      .select()
+      .from(analyses)
+      .where(eq(analyses.userId, userId))
+      .orderBy(analyses.createdAt);
+  }
+
   async createIntelligentRewrite(rewrite: any): Promise<any> {
     const [result] = await db
       .insert(intelligentRewrites)
@@ -289,6 +453,381 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return updated;
   }
+
+  // Response cache implementation
+  async getCachedResponse(cacheKey: string): Promise<ResponseCache | undefined> {
+    const [entry] = await db
+      .select()
+      .from(responseCache)
+      .where(eq(responseCache.cacheKey, cacheKey));
+    return entry;
+  }
+
+  async setCachedResponse(entry: InsertResponseCache): Promise<ResponseCache> {
+    const [result] = await db
+      .insert(responseCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: responseCache.cacheKey,
+        set: {
+          response: entry.response,
+          expiresAt: entry.expiresAt,
+          hitCount: 0,
+          createdAt: new Date()
+        }
+      })
+      .returning();
+    return result;
+  }
+
+  async recordCacheHit(id: number): Promise<void> {
+    await db
+      .update(responseCache)
+      .set({ hitCount: sql`${responseCache.hitCount} + 1` })
+      .where(eq(responseCache.id, id));
+  }
+
+  // Usage metering implementation
+  async recordUsage(usage: InsertUsageRecord, chargeCredits: boolean): Promise<UsageRecord> {
+    // Usage row, credit deduction and ledger entry commit together or not at all
+    return await db.transaction(async (tx) => {
+      const [record] = await tx
+        .insert(usageRecords)
+        .values(usage)
+        .returning();
+
+      if (!chargeCredits || !usage.userId || !usage.credits) {
+        return record;
+      }
+
+      const [balance] = await tx
+        .update(userCredits)
+        .set({
+          credits: sql`GREATEST(${userCredits.credits} - ${usage.credits}, 0)`,
+          lastUpdated: new Date()
+        })
+        .where(and(eq(userCredits.userId, usage.userId), eq(userCredits.provider, usage.provider)))
+        .returning();
+
+      if (!balance) {
+        return record;
+      }
+
+      const [transaction] = await tx
+        .insert(creditTransactions)
+        .values({
+          userId: usage.userId,
+          provider: usage.provider,
+          amount: 0,
+          credits: usage.credits,
+          transactionType: "deduction",
+          status: "completed",
+          metadata: {
+            usageRecordId: record.id,
+            jobId: usage.jobId,
+            endpoint: usage.endpoint,
+            model: usage.model,
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens
+          }
+        })
+        .returning();
+
+      const [updated] = await tx
+        .update(usageRecords)
+        .set({ creditTransactionId: transaction.id })
+        .where(eq(usageRecords.id, record.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getUsageRecords(userId: number, jobId?: string): Promise<UsageRecord[]> {
+    return await db
+      .select()
+      .from(usageRecords)
+      .where(jobId
+        ? and(eq(usageRecords.userId, userId), eq(usageRecords.jobId, jobId))
+        : eq(usageRecords.userId, userId))
+      .orderBy(desc(usageRecords.createdAt))
+      .limit(500);
+  }
+
+  // Prompt registry implementation
+  async getPromptVersions(category: string, subcategory: string): Promise<SystemInstruction[]> {
+    return await db
+      .select()
+      .from(systemInstructions)
+      .where(and(eq(systemInstructions.category, category), eq(systemInstructions.subcategory, subcategory)))
+      .orderBy(desc(systemInstructions.id));
+  }
+
+  async getActivePrompts(category: string): Promise<SystemInstruction[]> {
+    return await db
+      .select()
+      .from(systemInstructions)
+      .where(and(eq(systemInstructions.category, category), eq(systemInstructions.isActive, true)));
+  }
+
+  async createPromptVersion(prompt: InsertSystemInstruction): Promise<SystemInstruction> {
+    // Version numbering and the active flag change together
+    return await db.transaction(async (tx) => {
+      // Serialize saves of the same prompt so concurrent ones cannot read the same latest version
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`${prompt.category}/${prompt.subcategory ?? ""}`}))`);
+      const where = and(
+        eq(systemInstructions.category, prompt.category),
+        eq(systemInstructions.subcategory, prompt.subcategory ?? "")
+      );
+      const existing = await tx
+        .select({ version: systemInstructions.version })
+        .from(systemInstructions)
+        .where(where);
+      const latest = existing.reduce((max, row) => Math.max(max, parseInt(row.version || "0") || 0), 0);
+
+      if (prompt.isActive) {
+        await tx
+          .update(systemInstructions)
+          .set({ isActive: false, updatedAt: new Date() })
+          .where(where);
+      }
+
+      const [created] = await tx
+        .insert(systemInstructions)
+        .values({ ...prompt, version: `${latest + 1}.0` })
+        .returning();
+      return created;
+    });
+  }
+
+  async activatePromptVersion(category: string, subcategory: string, version: string): Promise<SystemInstruction | undefined> {
+    return await db.transaction(async (tx) => {
+      const where = and(eq(systemInstructions.category, category), eq(systemInstructions.subcategory, subcategory));
+      const [target] = await tx
+        .select()
+        .from(systemInstructions)
+        .where(and(where, eq(systemInstructions.version, version)));
+      if (!target) {
+        return undefined;
+      }
+
+      await tx
+        .update(systemInstructions)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(where);
+      const [activated] = await tx
+        .update(systemInstructions)
+        .set({ isActive: true, updatedAt: new Date() })
+        .where(eq(systemInstructions.id, target.id))
+        .returning();
+      return activated;
+    });
+  }
+
+  // Calibration benchmark implementation
+  async getCalibrationSamples(includeInactive = false): Promise<CalibrationSample[]> {
+    return await db
+      .select()
+      .from(calibrationSamples)
+      .where(includeInactive ? undefined : eq(calibrationSamples.isActive, true))
+      .orderBy(desc(calibrationSamples.expectedMax));
+  }
+
+  async createCalibrationSamples(samples: InsertCalibrationSample[]): Promise<CalibrationSample[]> {
+    if (samples.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(calibrationSamples)
+      .values(samples)
+      .returning();
+  }
+
+  async setCalibrationSampleActive(id: number, isActive: boolean): Promise<CalibrationSample | undefined> {
+    const [sample] = await db
+      .update(calibrationSamples)
+      .set({ isActive })
+      .where(eq(calibrationSamples.id, id))
+      .returning();
+    return sample;
+  }
+
+  async createCalibrationRun(run: InsertCalibrationRun): Promise<CalibrationRun> {
+    const [created] = await db
+      .insert(calibrationRuns)
+      .values(run)
+      .returning();
+    return created;
+  }
+
+  async updateCalibrationRun(id: number, updates: Partial<InsertCalibrationRun>): Promise<CalibrationRun> {
+    const [updated] = await db
+      .update(calibrationRuns)
+      .set(updates)
+      .where(eq(calibrationRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getCalibrationRuns(limit = 200): Promise<CalibrationRun[]> {
+    return await db
+      .select()
+      .from(calibrationRuns)
+      .orderBy(desc(calibrationRuns.startedAt))
+      .limit(limit);
+  }
+
+  // Every completed run, oldest first: drift baselines and hybrid fits need the full history
+  async getCompletedCalibrationRuns(): Promise<CalibrationRun[]> {
+    return await db
+      .select()
+      .from(calibrationRuns)
+      .where(eq(calibrationRuns.status, 'completed'))
+      .orderBy(calibrationRuns.startedAt);
+  }
+
+  async createCalibrationResult(result: InsertCalibrationResult): Promise<CalibrationResult> {
+    const [created] = await db
+      .insert(calibrationResults)
+      .values(result)
+      .returning();
+    return created;
+  }
+
+  async getCalibrationResults(runIds: number[]): Promise<CalibrationResult[]> {
+    if (runIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(calibrationResults)
+      .where(inArray(calibrationResults.runId, runIds));
+  }
+
+  // Rubric implementation
+  async getRubric(id: number): Promise<Rubric | undefined> {
+    const [rubric] = await db.select().from(rubrics).where(eq(rubrics.id, id));
+    return rubric;
+  }
+
+  async getRubricsForUser(userId: number, team: string | null): Promise<Rubric[]> {
+    return await db
+      .select()
+      .from(rubrics)
+      .where(team ? or(eq(rubrics.userId, userId), eq(rubrics.team, team)) : eq(rubrics.userId, userId))
+      .orderBy(desc(rubrics.updatedAt));
+  }
+
+  async createRubric(rubric: InsertRubric): Promise<Rubric> {
+    const [created] = await db
+      .insert(rubrics)
+      .values(rubric)
+      .returning();
+    return created;
+  }
+
+  async updateRubric(id: number, updates: Partial<InsertRubric>): Promise<Rubric | undefined> {
+    const [updated] = await db
+      .update(rubrics)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(rubrics.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRubric(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(rubrics)
+      .where(eq(rubrics.id, id))
+      .returning({ id: rubrics.id });
+    return deleted.length > 0;
+  }
+
+  async setUserTeam(username: string, team: string | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ team })
+      .where(eq(users.username, username))
+      .returning();
+    return user;
+  }
+
+  // Batch evaluation implementation
+  async createBatchJob(job: InsertBatchJob, items: Omit<InsertBatchItem, 'jobId'>[]): Promise<BatchJob> {
+    // A job is never visible without its items
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(batchJobs)
+        .values({ ...job, totalItems: items.length })
+        .returning();
+      if (items.length > 0) {
+        await tx.insert(batchItems).values(items.map(item => ({ ...item, jobId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  async getBatchJob(id: number): Promise<BatchJob | undefined> {
+    const [job] = await db.select().from(batchJobs).where(eq(batchJobs.id, id));
+    return job;
+  }
+
+  async getBatchJobsForUser(userId: number, limit: number = 50): Promise<BatchJob[]> {
+    return await db
+      .select()
+      .from(batchJobs)
+      .where(eq(batchJobs.userId, userId))
+      .orderBy(desc(batchJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getUnfinishedBatchJobs(): Promise<BatchJob[]> {
+    return await db
+      .select()
+      .from(batchJobs)
+      .where(inArray(batchJobs.status, ['pending', 'running']));
+  }
+
+  async updateBatchJob(id: number, updates: Partial<InsertBatchJob>): Promise<BatchJob | undefined> {
+    const [updated] = await db
+      .update(batchJobs)
+      .set(updates)
+      .where(eq(batchJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getBatchItems(jobId: number): Promise<BatchItem[]> {
+    return await db
+      .select()
+      .from(batchItems)
+      .where(eq(batchItems.jobId, jobId))
+      .orderBy(batchItems.position);
+  }
+
+  async getBatchItem(jobId: number, itemId: number): Promise<BatchItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(batchItems)
+      .where(and(eq(batchItems.jobId, jobId), eq(batchItems.id, itemId)));
+    return item;
+  }
+
+  async updateBatchItem(id: number, updates: Partial<InsertBatchItem>): Promise<BatchItem | undefined> {
+    const [updated] = await db
+      .update(batchItems)
+      .set(updates)
+      .where(eq(batchItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Items interrupted by a restart go back in the queue
+  async resetRunningBatchItems(jobId: number): Promise<void> {
+    await db
+      .update(batchItems)
+      .set({ status: 'pending' })
+      .where(and(eq(batchItems.jobId, jobId), eq(batchItems.status, 'running')));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,104 @@
+import './support/env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { analyses, cognitiveProfiles, userActivities } from '@shared/schema';
+import { installMemoryDb, type MemoryDb } from './support/memoryDb';
+import { storage } from '../storage';
+import { recordUserAnalysis, buildAuthorProfile, type AnalysisRecord } from '../services/authorProfile';
+
+let memoryDb: MemoryDb;
+
+before(() => {
+  memoryDb = installMemoryDb();
+});
+
+after(() => {
+  memoryDb.restore();
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// recordUserAnalysis runs in the background; wait for its rows to land
+async function analysesStored(userId: number, count: number): Promise<void> {
+  for (let i = 0; i < 200; i++) {
+    const profile = memoryDb.rows(cognitiveProfiles).find(row => row.userId === userId);
+    if (profile?.learningBehavior?.analyses === count) return;
+    await sleep(5);
+  }
+  assert.fail(`user ${userId} never reached ${count} analyses`);
+}
+
+function record(overallScore: number, scores: Record<string, number>, provider = 'openai'): AnalysisRecord {
+  return { text: 'An essay about transit funding and rural roads.', evaluationType: 'intelligence', provider, overallScore, scores };
+}
+
+test('analyses fired together are all folded into the running statistics', async () => {
+  recordUserAnalysis(1, record(60, { Clarity: 60, Rigor: 50, Originality: 80, Style: 62 }));
+  recordUserAnalysis(1, record(70, { Clarity: 70, Rigor: 52, Originality: 85, Style: 65 }, 'anthropic'));
+  recordUserAnalysis(1, record(80, { Clarity: 80, Rigor: 50, Originality: 90, Style: 68 }));
+  await analysesStored(1, 3);
+
+  assert.equal(memoryDb.rows(analyses).filter(row => row.userId === 1).length, 3);
+  assert.deepEqual(memoryDb.rows(userActivities).filter(row => row.userId === 1).map(row => row.activityType), ['analyze', 'analyze', 'analyze']);
+
+  const [profile] = memoryDb.rows(cognitiveProfiles).filter(row => row.userId === 1);
+  assert.equal(profile.totalDocumentsProcessed, 3);
+  assert.equal(profile.preferredAIProvider, 'openai');
+  assert.equal(profile.learningBehavior.overall.mean, 70);
+  assert.equal(profile.learningBehavior.dimensions.Style.min, 62);
+});
+
+test('the profile reports per-dimension trends and the strongest and weakest traits', async () => {
+  // Spread the stored analyses a month apart so the trend has a time axis
+  const start = Date.UTC(2026, 0, 1);
+  memoryDb.rows(analyses).filter(row => row.userId === 1).forEach((row, i) => {
+    row.createdAt = new Date(start + i * 30 * DAY_MS);
+  });
+
+  const profile = await buildAuthorProfile(1);
+  assert.equal(profile.analyses, 3);
+  assert.equal(profile.preferredProvider, 'openai');
+  assert.deepEqual(profile.evaluationTypes, { intelligence: 3 });
+
+  assert.equal(profile.overall!.mean, 70);
+  assert.equal(profile.overall!.stdDev, 10);
+  assert.deepEqual([profile.overall!.trend.direction, profile.overall!.trend.slopePer30Days], ['improving', 10]);
+
+  const byName = Object.fromEntries(profile.dimensions.map(d => [d.name, d]));
+  assert.equal(byName.Rigor.trend.direction, 'stable');
+  assert.equal(byName.Originality.latest, 90);
+  assert.deepEqual(profile.strongestTraits, ['Originality', 'Clarity']);
+  assert.deepEqual(profile.weakestTraits, ['Rigor', 'Style']);
+});
+
+test('analyses without a user or a finite score are not recorded', async () => {
+  recordUserAnalysis(undefined, record(75, { Clarity: 75 }));
+  recordUserAnalysis(3, record(NaN, { Clarity: 75 }));
+  await sleep(20);
+  assert.equal(memoryDb.rows(analyses).filter(row => row.userId !== 1).length, 0);
+  assert.equal((await buildAuthorProfile(3)).overall, null);
+});
+
+test('a profile stored before the running statistics is rebuilt from its analyses', async () => {
+  const document = await storage.createDocument({ content: 'Old essay.', userId: 2, wordCount: 2 });
+  for (const [score, at] of [[50, 0], [54, 1]]) {
+    const analysis = await storage.createAnalysis({
+      documentId: document.id,
+      userId: 2,
+      summary: 'cogency evaluation',
+      overallScore: score,
+      overallAssessment: 'cogency',
+      dimensions: { Cogency: score }
+    });
+    memoryDb.rows(analyses).find(row => row.id === analysis.id)!.createdAt = new Date(Date.UTC(2025, 5, 1) + at * DAY_MS);
+  }
+  await storage.updateCognitiveProfile(2, { totalDocumentsProcessed: 2 });
+
+  const profile = await buildAuthorProfile(2);
+  assert.equal(profile.analyses, 2);
+  assert.deepEqual(profile.evaluationTypes, { cogency: 2 });
+  assert.equal(profile.preferredProvider, 'unknown');
+  assert.equal(profile.dimensions[0].trend.direction, 'insufficient');
+  assert.equal(memoryDb.rows(cognitiveProfiles).find(row => row.userId === 2)!.learningBehavior.analyses, 2, 'the rebuilt statistics are saved');
+});
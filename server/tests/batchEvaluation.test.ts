@@ -0,0 +1,51 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+
+process.env.BATCH_MAX_DOCUMENTS = '3';
+process.env.BATCH_MAX_UNCOMPRESSED_MB = '1';
+const { extractBatchDocuments } = await import('../services/batchEvaluation');
+
+const upload = (originalname: string, buffer: Buffer, mimetype = '') =>
+  ({ originalname, buffer, mimetype, size: buffer.length }) as Express.Multer.File;
+
+// Rewrite every size the archive declares for its entries, as a zip bomb would
+function forgeDeclaredSizes(archive: Buffer, size: number): Buffer {
+  const forged = Buffer.from(archive);
+  for (let i = 0; i + 4 <= forged.length; i++) {
+    const signature = forged.readUInt32LE(i);
+    if (signature === 0x04034b50) forged.writeUInt32LE(size, i + 22);   // local file header
+    if (signature === 0x02014b50) forged.writeUInt32LE(size, i + 24);   // central directory entry
+  }
+  return forged;
+}
+
+test('extractBatchDocuments reads plain files and zip entries, skipping unsupported ones', async () => {
+  const zip = new JSZip();
+  zip.file('essays/first.txt', 'The first essay argues a point.');
+  zip.file('__MACOSX/._first.txt', 'metadata');
+  zip.file('notes.md', '# not supported');
+  const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+  const { documents, skipped } = await extractBatchDocuments([
+    upload('second.txt', Buffer.from('The second essay replies.'), 'text/plain'),
+    upload('batch.zip', archive, 'application/zip')
+  ]);
+
+  assert.deepEqual(documents.map(d => d.filename), ['second.txt', 'essays/first.txt']);
+  assert.deepEqual(skipped.map(s => s.filename), ['notes.md']);
+});
+
+test('extractBatchDocuments stops inflating an entry whose declared size is forged', async () => {
+  const zip = new JSZip();
+  zip.file('bomb.txt', Buffer.alloc(8 * 1024 * 1024, 'a'));
+  const archive = forgeDeclaredSizes(await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }), 100);
+
+  await assert.rejects(extractBatchDocuments([upload('bomb.zip', archive, 'application/zip')]), /may expand to at most 1 MB/);
+});
+
+test('extractBatchDocuments checks the document cap before reading any file', async () => {
+  const files = ['a', 'b', 'c', 'd'].map(name => upload(`${name}.pdf`, Buffer.from('not a pdf')));
+  await assert.rejects(extractBatchDocuments(files), /at most 3 documents \(got at least 4\)/);
+});
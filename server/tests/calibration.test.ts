@@ -0,0 +1,60 @@
+import './support/env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMemoryDb, type MemoryDb } from './support/memoryDb';
+import { calibrationRuns } from '@shared/schema';
+import { storage } from '../storage';
+import { getCalibrationDriftReport, bandDeviation } from '../services/calibration';
+
+let memoryDb: MemoryDb;
+
+before(() => {
+  memoryDb = installMemoryDb();
+});
+
+after(() => {
+  memoryDb.restore();
+});
+
+async function completedRun(startedAt: Date, meanError: number, sampleId: number, score: number) {
+  const run = await storage.createCalibrationRun({
+    provider: 'openai',
+    model: 'gpt-4o',
+    promptVersion: 'intelligence_questions@1.0',
+    status: 'completed',
+    sampleCount: 1,
+    scoredCount: 1,
+    meanError
+  });
+  memoryDb.rows(calibrationRuns).find(row => row.id === run.id)!.startedAt = startedAt;
+  await storage.createCalibrationResult({ runId: run.id, sampleId, score, expectedMin: 80, expectedMax: 90, deviation: bandDeviation(score, 80, 90) });
+  return run;
+}
+
+test('bandDeviation is zero inside the band and signed outside it', () => {
+  assert.equal(bandDeviation(85, 80, 90), 0);
+  assert.equal(bandDeviation(72, 80, 90), -8);
+  assert.equal(bandDeviation(95, 80, 90), 5);
+});
+
+test('the drift baseline is the first completed run even behind a long run history', async () => {
+  const [sample] = await storage.createCalibrationSamples([
+    { name: 'Libet essay', content: 'Sample text.', expectedMin: 80, expectedMax: 90, genre: 'philosophy', expectedTier: 'strong' }
+  ]);
+  const start = Date.UTC(2026, 0, 1);
+  const baseline = await completedRun(new Date(start), 0, sample.id, 85);
+  // More runs than the default page of getCalibrationRuns, so a paged read would lose the baseline
+  for (let i = 1; i <= 210; i++) {
+    await completedRun(new Date(start + i * 3600_000), 8, sample.id, 72);
+  }
+  await storage.createCalibrationRun({ provider: 'openai', model: 'gpt-4o', promptVersion: 'intelligence_questions@1.0', status: 'failed', sampleCount: 1 });
+
+  const report = await getCalibrationDriftReport();
+  assert.equal(report.series.length, 1);
+  const [series] = report.series;
+  assert.equal(series.runs.length, 211);
+  assert.equal(series.runs[0].runId, baseline.id);
+  assert.equal(series.drift, 8);
+  assert.equal(series.drifted, true);
+  assert.deepEqual(series.samples.map(s => [s.baselineScore, s.latestScore, s.change]), [[85, 72, -13]]);
+});
@@ -0,0 +1,33 @@
+import './support/env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMemoryDb, type MemoryDb } from './support/memoryDb';
+import { startTestServer, type TestServer } from './support/testServer';
+import { sampleEssay } from './support/fixtures';
+
+let memoryDb: MemoryDb;
+let server: TestServer;
+
+before(async () => {
+  memoryDb = installMemoryDb();
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+  memoryDb.restore();
+});
+
+test('a single evaluation served from an ensemble member\'s cache entry keeps its evidence', async () => {
+  const content = sampleEssay(3);
+
+  const ensemble = await server.post('/api/cognitive-evaluate', { content, provider: 'zhi1', ensemble: 2 });
+  assert.equal(ensemble.status, 200);
+  assert.ok(ensemble.body.evaluation.evidence);
+
+  const single = await server.post('/api/cognitive-evaluate', { content, provider: 'zhi1' });
+  assert.equal(single.status, 200);
+  assert.equal(single.body.cached, true);
+  assert.ok(single.body.evaluation.evidence, 'cached evaluation has no evidence');
+  assert.deepEqual(single.body.evaluation.evidence, ensemble.body.evaluation.evidence);
+});
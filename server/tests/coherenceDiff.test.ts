@@ -0,0 +1,49 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alignChunks } from '../services/coherenceDiff';
+import { installMemoryDb } from './support/memoryDb';
+import { startTestServer } from './support/testServer';
+
+const chunks = [
+  'The committee approved the budget after a long debate about transport funding.',
+  'Critics argued that rural roads were neglected while urban rail projects expanded.',
+  'The final vote split along regional lines rather than party lines.'
+];
+
+test('alignChunks pairs identical sequences one to one', () => {
+  assert.deepEqual(alignChunks(chunks, chunks), chunks.map((_, i) => ({ originalIndex: i, revisedIndex: i, similarity: 1 })));
+});
+
+test('alignChunks leaves an inserted chunk unmatched', () => {
+  const inserted = 'Several amendments on school meals were withdrawn before anyone spoke to them.';
+  const revised = [chunks[0], inserted, chunks[1], chunks[2]];
+  assert.deepEqual(alignChunks(chunks, revised).map(p => [p.originalIndex, p.revisedIndex]), [[0, 0], [null, 1], [1, 2], [2, 3]]);
+});
+
+test('alignChunks pairs a reworded chunk and drops a deleted one', () => {
+  const revised = [
+    'After hours of debate over transport funding, the committee approved its budget.',
+    chunks[2]
+  ];
+  const pairs = alignChunks(chunks, revised);
+  assert.deepEqual(pairs.map(p => [p.originalIndex, p.revisedIndex]), [[0, 0], [1, null], [2, 1]]);
+  assert.ok(pairs[0].similarity > 0.5 && pairs[0].similarity < 1);
+});
+
+test('the coherence diff route rejects an unknown coherence type', async (t) => {
+  const memory = installMemoryDb();
+  const server = await startTestServer();
+  t.after(async () => {
+    await server.close();
+    memory.restore();
+  });
+
+  const response = await server.post('/api/coherence-diff', {
+    originalText: chunks.join('\n\n'),
+    revisedText: chunks.slice(1).join('\n\n'),
+    coherenceType: 'logical'
+  });
+  assert.equal(response.status, 400);
+  assert.equal(response.body.message, 'Unknown coherence type: logical');
+});
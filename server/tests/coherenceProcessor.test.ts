@@ -0,0 +1,55 @@
+import { useCassette } from './support/cassetteEnv';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { coherenceChunks, coherenceDocuments } from '@shared/schema';
+import { processDocumentSequentially } from '../services/coherenceProcessor';
+import type { LogicalConsistencyState } from '../services/coherenceMeter';
+import { installMemoryDb } from './support/memoryDb';
+import { sampleEssay } from './support/fixtures';
+import { startTestServer } from './support/testServer';
+
+test('processDocumentSequentially replays a chunk-by-chunk evaluation and persists each state', async (t) => {
+  useCassette('coherence-processor');
+  const memory = installMemoryDb();
+  t.after(() => memory.restore());
+
+  const result = await processDocumentSequentially(sampleEssay(12), 'logical-consistency');
+
+  assert.equal(result.mode, 'logical-consistency');
+  assert.deepEqual(result.chunks.map(c => [c.index, c.status]), [[0, 'preserved'], [1, 'weakened']]);
+  assert.deepEqual(result.chunks[1].violations.map(v => [v.location, v.type]), [['Section 9, first sentence', 'restated_assertion']]);
+  assert.equal(result.chunks[1].repairs.length, 1);
+  // One weakened chunk of two is more than a third
+  assert.equal(result.overallStatus, 'weakened');
+
+  // The repeated assertion from chunk 1 is merged rather than duplicated
+  const assertions = (result.finalState as LogicalConsistencyState).assertions;
+  assert.equal(assertions.length, 13);
+  assert.equal(new Set(assertions).size, assertions.length);
+  assert.ok(assertions.includes('Comparison requires more than one route to the same conclusion'));
+  assert.ok(assertions.includes('A failure in one use of a faculty can be exposed by another use under different conditions'));
+
+  const stored = memory.rows(coherenceChunks).filter(r => r.documentId === result.documentId);
+  assert.equal(stored.length, result.chunks.length, 'every chunk evaluation is written');
+  const [document] = memory.rows(coherenceDocuments).filter(r => r.documentId === result.documentId);
+  assert.deepEqual(document.globalState, result.finalState);
+  assert.deepEqual(stored[stored.length - 1].stateAfter, result.finalState);
+});
+
+test('the sequential coherence routes reject an unknown mode before any evaluation', async (t) => {
+  const memory = installMemoryDb();
+  const server = await startTestServer();
+  t.after(async () => {
+    await server.close();
+    memory.restore();
+  });
+
+  const start = await server.post('/api/coherence-sequential', { text: sampleEssay(2), mode: 'logical' });
+  assert.equal(start.status, 400);
+  assert.equal(start.body.message, 'Unknown coherence mode: logical');
+  assert.equal(memory.rows(coherenceDocuments).length, 0);
+
+  const revise = await server.post('/api/coherence-sequential/doc-1/logical/revise', { chunkIndex: 0, text: 'Edited chunk.' });
+  assert.equal(revise.status, 400);
+  assert.equal(revise.body.message, 'Unknown coherence mode: logical');
+});
@@ -0,0 +1,98 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCoherenceTimeline, type TimelineItem } from '../services/coherenceTimeline';
+import type { LogicalConsistencyState, InstructionalState, PhilosophicalState } from '../services/coherenceMeter';
+
+const find = (items: TimelineItem[], label: string) => {
+  const matches = items.filter(item => item.label === label);
+  assert.ok(matches.length > 0, `no timeline item labelled ${label}`);
+  return matches;
+};
+const history = (item: TimelineItem) => item.events.map(e => [e.chunkIndex, e.type, e.detail ?? null]);
+
+function logical(assertions: string[], negations: string[] = [], disjoint: [string, string][] = []): LogicalConsistencyState {
+  return { mode: 'logical-consistency', stateHistory: [], assertions, negations, disjoint_pairs: disjoint };
+}
+
+test('a denial of a seeded assertion contradicts both items once', () => {
+  const timeline = buildCoherenceTimeline(logical(['Taxes fund roads']), [
+    logical(['Taxes fund roads', 'Rail is subsidized']),
+    logical(['Taxes fund roads', 'Rail is subsidized'], ['taxes  fund ROADS']),
+    logical(['Taxes fund roads', 'Rail is subsidized'], ['taxes  fund ROADS'])
+  ]);
+
+  assert.equal(timeline.mode, 'logical-consistency');
+  assert.equal(timeline.chunkCount, 3);
+
+  const [assertion] = find(timeline.items, 'Taxes fund roads');
+  assert.deepEqual(history(assertion), [
+    [null, 'introduced', null],
+    [1, 'contradicted', '"taxes  fund ROADS" is both asserted and denied']
+  ]);
+  assert.equal(assertion.status, 'contradicted');
+
+  const [negation] = find(timeline.items, 'taxes  fund ROADS');
+  assert.equal(negation.category, 'Negation');
+  assert.deepEqual(history(negation).map(([chunk, type]) => [chunk, type]), [[1, 'introduced'], [1, 'contradicted']]);
+  assert.equal(find(timeline.items, 'Rail is subsidized')[0].status, 'active');
+});
+
+test('asserting both halves of a disjoint pair is a contradiction', () => {
+  const timeline = buildCoherenceTimeline(logical([], [], [['The tax rises', 'The tax falls']]), [
+    logical(['The tax rises'], [], [['The tax rises', 'The tax falls']]),
+    logical(['The tax rises', 'The tax falls'], [], [['The tax rises', 'The tax falls']])
+  ]);
+
+  for (const label of ['The tax rises', 'The tax falls']) {
+    const [item] = find(timeline.items, label);
+    assert.deepEqual(item.events.at(-1), { chunkIndex: 1, type: 'contradicted', detail: '"The tax rises" and "The tax falls" are both asserted but cannot both hold' });
+  }
+});
+
+function instructional(goal: string, steps: string[], openLoops: string[]): InstructionalState {
+  return { mode: 'instructional', stateHistory: [], goal, steps_done: steps, prereqs: [], open_loops: openLoops };
+}
+
+test('open threads resolve, settings are superseded and dropped commitments are marked', () => {
+  const timeline = buildCoherenceTimeline(instructional('Install the printer', [], []), [
+    instructional('Install the printer', ['Unbox it'], ['Explain driver setup']),
+    instructional('Install the printer driver', ['Connect the cable'], [])
+  ]);
+
+  const loop = find(timeline.items, 'Explain driver setup')[0];
+  assert.equal(loop.kind, 'open-thread');
+  assert.deepEqual(history(loop), [[0, 'introduced', null], [1, 'resolved', null]]);
+
+  const [oldGoal, newGoal] = [find(timeline.items, 'Install the printer')[0], find(timeline.items, 'Install the printer driver')[0]];
+  assert.deepEqual(history(oldGoal), [[null, 'introduced', null], [1, 'superseded', 'now Install the printer driver']]);
+  assert.deepEqual(history(newGoal), [[1, 'introduced', 'was Install the printer']]);
+  assert.equal(newGoal.status, 'active');
+
+  assert.equal(find(timeline.items, 'Unbox it')[0].status, 'superseded');
+  assert.equal(find(timeline.items, 'Connect the cable')[0].status, 'active');
+});
+
+function philosophical(concepts: Record<string, string>, stateHistory: string[] = []): PhilosophicalState {
+  return {
+    mode: 'philosophical',
+    stateHistory,
+    core_concepts: concepts,
+    distinctions: [],
+    dialectic: { objections_raised: [], replies_pending: [] },
+    no_equivocation: []
+  };
+}
+
+test('a concept that changes role or is flagged as equivocal is contradicted', () => {
+  const timeline = buildCoherenceTimeline(philosophical({ freedom: 'absence of coercion', will: 'faculty of choice' }), [
+    philosophical({ freedom: 'self-mastery', will: 'faculty of choice' }),
+    philosophical({ freedom: 'self-mastery', will: 'faculty of choice' }, ['[EQUIVOCATION DETECTED: will]'])
+  ]);
+
+  const [freedom] = find(timeline.items, 'freedom: self-mastery');
+  assert.deepEqual(history(freedom), [[null, 'introduced', null], [0, 'contradicted', 'absence of coercion → self-mastery']]);
+
+  const [will] = find(timeline.items, 'will: faculty of choice');
+  assert.deepEqual(will.events.at(-1), { chunkIndex: 1, type: 'contradicted', detail: '"will" shifts meaning' });
+});
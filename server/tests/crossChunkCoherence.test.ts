@@ -0,0 +1,29 @@
+import { useCassette } from './support/cassetteEnv';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { crossChunkReconstruct } from '../services/crossChunkCoherence';
+import { sampleEssay } from './support/fixtures';
+
+test('crossChunkReconstruct replays a multi-chunk reconstruction', async () => {
+  useCassette('cross-chunk-reconstruct');
+  const text = sampleEssay(8);
+
+  const result = await crossChunkReconstruct(text, 'general readers', 'moderate');
+
+  assert.equal(result.wasReconstructed, true);
+  assert.equal(result.chunksProcessed, 2);
+  assert.match(result.skeleton!.thesis, /^Every source of belief/);
+  assert.deepEqual(result.skeleton!.keyTerms.map(k => k.term), ['answerability', 'comparative justification', 'vicious circle', 'privileged access']);
+
+  // Both chunk reconstructions are stitched in order, without their delta blocks
+  const memory = result.reconstructedText.indexOf('Memory is the first source this essay examines');
+  const intuition = result.reconstructedText.indexOf('Intuition seems at first to be the exception');
+  assert.ok(memory >= 0 && intuition > memory);
+  assert.doesNotMatch(result.reconstructedText, /===DELTA===/);
+
+  assert.match(result.adjacentMaterialAdded, /a source exempt from every test has no record at all/);
+  assert.match(result.adjacentMaterialAdded, /A doubt that no consideration could ever settle is not a test at all/);
+  assert.deepEqual(result.stitchResult!.contradictions, []);
+  assert.deepEqual(result.stitchResult!.redundancies.map(r => r.chunks), [[0, 1]]);
+  assert.deepEqual(result.stitchResult!.repairPlan.map(r => r.chunkIndex), [1]);
+});
@@ -0,0 +1,16 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareDocuments } from '../services/documentComparison';
+import { sampleEssay } from './support/fixtures';
+
+test('compareDocuments accepts the ZHI alias ProviderSelector sends', async () => {
+  const result = await compareDocuments(sampleEssay(2), sampleEssay(3), 'zhi1');
+
+  assert.equal(result.winnerDocument, result.documentAScore >= result.documentBScore ? 'A' : 'B');
+  assert.ok(result.promptVersions?.document_comparison);
+});
+
+test('compareDocuments rejects an unknown provider', async () => {
+  await assert.rejects(compareDocuments('First.', 'Second.', 'gpt-9'), /Unknown provider: gpt-9/);
+});
@@ -0,0 +1,43 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeScores, type EnsembleMember } from '../services/ensembleScoring';
+import type { ProviderId } from '../services/providerRegistry';
+
+const members = (provider: ProviderId, scores: Array<number | null>): EnsembleMember<unknown>[] =>
+  scores.map((score, i) => ({ provider, label: provider, sample: i + 1, score, outlier: false }));
+
+test('summarizeScores reports the median, band and agreement of close scores', () => {
+  const stats = summarizeScores(members('openai', [80, 82, 81]), 'samples');
+
+  assert.equal(stats.count, 3);
+  assert.equal(stats.median, 81);
+  assert.equal(stats.mean, 81);
+  assert.equal(stats.spread, 2);
+  assert.equal(stats.agreement, 'high');
+  assert.ok(stats.band && stats.band.low < 81 && stats.band.high > 81);
+  assert.equal(81 - stats.band.low, stats.band.high - 81);
+  assert.deepEqual(stats.outliers, []);
+});
+
+test('summarizeScores flags a score far from the rest and judges agreement without it', () => {
+  const scored = members('anthropic', [70, 72, 71, 95]);
+  const stats = summarizeScores(scored, 'samples');
+
+  assert.deepEqual(stats.outliers, ['zhi2#4']);
+  assert.equal(scored[3].outlier, true);
+  assert.equal(stats.agreement, 'high');
+  assert.equal(stats.spread, 25);
+});
+
+test('summarizeScores needs three scores to call an outlier and skips failed members', () => {
+  const stats = summarizeScores(members('openai', [40, 90, null]), 'samples');
+  assert.equal(stats.count, 2);
+  assert.deepEqual(stats.outliers, []);
+  assert.equal(stats.agreement, 'low');
+
+  const empty = summarizeScores(members('openai', [null, null]), 'samples');
+  assert.equal(empty.count, 0);
+  assert.equal(empty.median, null);
+  assert.equal(empty.agreement, null);
+});
@@ -0,0 +1,32 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anchorSpan } from '../services/evidenceSpans';
+
+const text = 'The argument opens with a definition.\nIt then  defends the “central claim” against two objections.';
+
+test('anchorSpan keeps a quote whose offsets are right', () => {
+  const start = text.indexOf('opens with a definition');
+  const span = anchorSpan(text, { quote: 'opens with a definition', start, end: start + 23 });
+  assert.deepEqual(span, { quote: 'opens with a definition', start, end: start + 23, reason: undefined, relocated: false });
+});
+
+test('anchorSpan moves a quote with wrong offsets to where it occurs', () => {
+  const span = anchorSpan(text, { quote: '"opens with a definition"', start: 50, end: 73, reason: 'sets up the terms' });
+  assert.ok(span);
+  assert.equal(span.relocated, true);
+  assert.equal(text.slice(span.start, span.end), 'opens with a definition');
+  assert.equal(span.reason, 'sets up the terms');
+});
+
+test('anchorSpan matches across whitespace and typographic quotes', () => {
+  const span = anchorSpan(text, { quote: 'then defends the "central claim" against', start: 0, end: 10 });
+  assert.ok(span);
+  assert.equal(span.quote, 'then  defends the “central claim” against');
+  assert.equal(text.slice(span.start, span.end), span.quote);
+});
+
+test('anchorSpan drops quotes that are missing or too short', () => {
+  assert.equal(anchorSpan(text, { quote: 'a sentence the text never contains', start: 0, end: 10 }), null);
+  assert.equal(anchorSpan(text, { quote: 'opens', start: 13, end: 18 }), null);
+});
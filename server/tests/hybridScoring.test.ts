@@ -0,0 +1,33 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fitHybridModel, HYBRID_COMPONENTS } from '../services/hybridScoring';
+
+const row = (target: number, llmScore: number, semanticDensity: number, tokenEntropy = 0.5, lexicalRarity = 0.3) =>
+  ({ target, predictors: { llmScore, semanticDensity, tokenEntropy, lexicalRarity } });
+
+test('fitHybridModel corrects a biased LLM score and beats it on the training rows', () => {
+  // The LLM scores every sample 10 points high; density tracks what is left over
+  const rows = [60, 65, 70, 75, 80, 85, 90, 95].map((target, i) => row(target, target + 10 + (i % 2 ? 2 : -2), 0.2 + i * 0.05));
+  const model = fitHybridModel('openai', rows);
+
+  assert.equal(model.trainingRows, 8);
+  assert.equal(model.baseline, 77.5);
+  assert.ok(model.rmse < model.llmOnlyRmse);
+  assert.ok(model.weights.llmScore > 0);
+  const totalInfluence = HYBRID_COMPONENTS.reduce((sum, c) => sum + model.influence[c], 0);
+  assert.ok(Math.abs(totalInfluence - 1) < 1e-9);
+});
+
+test('fitHybridModel leaves constant predictors out of the fit', () => {
+  const rows = [50, 60, 70, 80].map((target, i) => row(target, target + i, 0.4));
+  const model = fitHybridModel('pooled', rows);
+
+  assert.equal(model.weights.semanticDensity, 0);
+  assert.equal(model.weights.tokenEntropy, 0);
+  assert.equal(model.influence.lexicalRarity, 0);
+  assert.equal(model.influence.llmScore, 1);
+  // A document at the training means scores the baseline
+  const predicted = model.intercept + model.weights.llmScore * model.means.llmScore;
+  assert.ok(Math.abs(predicted - model.baseline) < 1e-9);
+});
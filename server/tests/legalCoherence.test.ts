@@ -0,0 +1,67 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractLegalDiff, finalizeLegalState } from '../services/legalCoherence';
+import type { LegalDiff, LegalState } from '../services/coherenceMeter';
+
+const emptyState = (): LegalState => ({
+  mode: 'legal', stateHistory: [], parties: [], defined_terms: {}, sections: [],
+  cross_references: [], obligations: [], conditions: [], undefined_terms: []
+});
+
+// The fold updateGCS applies between chunks
+function apply(state: LegalState, diff: LegalDiff, chunk: number): LegalState {
+  return {
+    ...state,
+    parties: [...state.parties, ...diff.new_parties],
+    defined_terms: { ...state.defined_terms, ...diff.new_defined_terms },
+    sections: [...state.sections, ...diff.new_sections],
+    cross_references: [
+      ...state.cross_references.map(r => diff.resolved_references.includes(r.ref) ? { ...r, resolved: true } : r),
+      ...diff.new_references.map(ref => ({ ref, chunk, resolved: !diff.dangling_references.includes(ref) }))
+    ],
+    obligations: [...state.obligations, ...diff.new_obligations],
+    conditions: [...state.conditions, ...diff.new_conditions],
+    undefined_terms: [
+      ...state.undefined_terms.filter(t => !diff.resolved_terms.includes(t.term)),
+      ...diff.undefined_terms.map(term => ({ term, chunk }))
+    ]
+  };
+}
+
+const firstChunk = `This Agreement is made between Acme Corp. (the "Supplier") and Beta LLC (the "Customer").
+
+1. Delivery
+The Supplier shall deliver the Goods within 30 days. The Customer shall pay the Price as set out in Section 4.
+
+2. Term
+This Agreement continues for one year unless terminated under Section 2.`;
+
+const secondChunk = `4. Payment
+"Price" means the fee stated in the order. "Goods" means the products listed in the order.
+The Supplier shall not deliver the Goods within 30 days.`;
+
+test('extractLegalDiff reads parties, sections and pending references and terms', () => {
+  const diff = extractLegalDiff(firstChunk, emptyState(), 0);
+
+  assert.deepEqual(diff.new_parties, [{ name: 'Acme Corp.', alias: 'Supplier' }, { name: 'Beta LLC', alias: 'Customer' }]);
+  assert.deepEqual(diff.new_sections, ['1', '2']);
+  assert.deepEqual(diff.dangling_references, ['4']);
+  assert.deepEqual(diff.undefined_terms, ['Agreement', 'Goods', 'Price']);
+  assert.deepEqual(diff.new_obligations.map(o => [o.party, o.polarity]), [['Supplier', 'must'], ['Customer', 'must']]);
+  assert.deepEqual(diff.conflicting_obligations, []);
+});
+
+test('extractLegalDiff resolves later definitions and flags a contradicting obligation', () => {
+  const afterFirst = apply(emptyState(), extractLegalDiff(firstChunk, emptyState(), 0), 0);
+  const diff = extractLegalDiff(secondChunk, afterFirst, 1);
+
+  assert.deepEqual(diff.resolved_references, ['4']);
+  assert.deepEqual(diff.resolved_terms.sort(), ['Goods', 'Price']);
+  assert.equal(diff.conflicting_obligations.length, 1);
+  assert.match(diff.conflicting_obligations[0], /\(chunk 1\) vs .*shall not deliver .*\(chunk 2\)$/);
+
+  // Only the never-defined term survives to the end of the document
+  const issues = finalizeLegalState(apply(afterFirst, diff, 1));
+  assert.deepEqual(issues.map(i => i.issue), ['Undefined term: "Agreement" is used as a defined term but never defined']);
+});
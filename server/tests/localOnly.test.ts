@@ -0,0 +1,35 @@
+import './support/env';
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareDocuments } from '../services/documentComparison';
+import { performFictionComparison } from '../services/fictionComparison';
+import { translateDocument } from '../services/translationService';
+import { directProviderRequest } from '../api/directModelRequest';
+
+afterEach(() => {
+  process.env.LLM_PROVIDER = 'mock';
+  delete process.env.LOCAL_LLM_ONLY;
+});
+
+function localOnly() {
+  process.env.LLM_PROVIDER = '';
+  process.env.LOCAL_LLM_ONLY = 'true';
+  process.env.DEEPSEEK_API_KEY ||= 'test-key';
+}
+
+test('service-level comparisons accept ZHI aliases', async () => {
+  const result = await performFictionComparison('The lighthouse keeper waited.', 'The ship never came.', 'zhi3');
+  assert.ok(['A', 'B'].includes(result.winnerDocument));
+
+  const translation = await translateDocument('Good morning', { targetLanguage: 'French' }, 'zhi4');
+  assert.equal(translation.provider, 'ZHI 4');
+});
+
+test('LOCAL_LLM_ONLY refuses cloud providers on the comparison, translation and direct paths', async () => {
+  localOnly();
+  await assert.rejects(compareDocuments('First document.', 'Second document.', 'deepseek'), /LOCAL_LLM_ONLY/);
+  await assert.rejects(performFictionComparison('A', 'B', 'perplexity'), /LOCAL_LLM_ONLY/);
+  await assert.rejects(directProviderRequest('hello', 'grok'), /LOCAL_LLM_ONLY/);
+  const translation = await translateDocument('Good morning', { targetLanguage: 'French' }, 'openai');
+  assert.match(translation.translatedText, /LOCAL_LLM_ONLY/);
+});
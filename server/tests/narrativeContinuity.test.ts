@@ -0,0 +1,54 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyNarrativeUpdate, checkNarrativeContinuity } from '../services/narrativeContinuity';
+import type { NarrativeState } from '@shared/schema';
+
+const emptyState = (): NarrativeState => ({ mode: 'narrative', characters: {}, timeline: [], setting_facts: {} });
+
+// Chunk 1: Mara Voss dies on day 3 in the walled city of Ostra
+const afterFirstChunk = () => applyNarrativeUpdate(emptyState(), {
+  characters: {
+    'Mara Voss': { traits: { 'Eye colour': 'grey' }, status: 'dead', location: 'Ostra' },
+    'Ilan': { traits: { handedness: 'left' } }
+  },
+  appearances: ['Mara Voss', 'Ilan'],
+  events: [{ event: 'the siege begins', story_time: 1 }, { event: 'Mara falls from the wall', story_time: 3 }],
+  setting_facts: { 'City walls': 'stone' }
+}, 0);
+
+test('checkNarrativeContinuity flags a dead character who acts again', () => {
+  const violations = checkNarrativeContinuity(afterFirstChunk(), { appearances: ['Mara'] }, 2);
+  assert.deepEqual(violations.map(v => v.type), ['dead_character_reappears']);
+  assert.equal(violations[0].description, 'Mara Voss appears alive in chunk 3 but died in chunk 1');
+});
+
+test('checkNarrativeContinuity flags present action set before the story has reached, but not flashbacks', () => {
+  const violations = checkNarrativeContinuity(afterFirstChunk(), {
+    events: [
+      { event: 'the gates are sealed', story_time: 2 },
+      { event: 'Ilan remembers his childhood', story_time: -20, flashback: true },
+      { event: 'the relief army arrives', story_time: 5 }
+    ]
+  }, 1);
+  assert.deepEqual(violations.map(v => [v.type, v.location]), [['timeline_inversion', 'chunk 2: "the gates are sealed"']]);
+  assert.match(violations[0].description, /chunk 1 already reached day 3/);
+});
+
+test('checkNarrativeContinuity flags changed traits and setting facts with the chunk that set them', () => {
+  const violations = checkNarrativeContinuity(afterFirstChunk(), {
+    characters: { ilan: { traits: { Handedness: 'right' } }, 'Mara Voss': { traits: { 'eye colour': 'Grey' } } },
+    setting_facts: { 'city walls': 'timber' }
+  }, 3);
+
+  assert.deepEqual(violations.map(v => v.type), ['trait_contradiction', 'setting_contradiction']);
+  assert.equal(violations[0].description, `Ilan's handedness is "right" in chunk 4 but "left" in chunk 1`);
+  assert.equal(violations[1].description, 'city walls is "timber" in chunk 4 but "stone" in chunk 1');
+});
+
+test('applyNarrativeUpdate records a contradiction once so later chunks are not flagged again', () => {
+  const update = { setting_facts: { 'city walls': 'timber' } };
+  const changed = applyNarrativeUpdate(afterFirstChunk(), update, 1);
+  assert.deepEqual(changed.setting_facts['city walls'], { value: 'timber', chunk: 1 });
+  assert.deepEqual(checkNarrativeContinuity(changed, update, 2), []);
+});
@@ -0,0 +1,43 @@
+import { useCassette } from './support/cassetteEnv';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pipelineJobs, pipelineObjections } from '@shared/schema';
+import { runFullPipeline, type PipelineProgress } from '../services/pipelineOrchestrator';
+import { installMemoryDb } from './support/memoryDb';
+import { sampleEssay } from './support/fixtures';
+
+test('runFullPipeline replays all four stages and records each on the job', async (t) => {
+  useCassette('full-pipeline');
+  const memory = installMemoryDb();
+  t.after(() => memory.restore());
+
+  const stages = new Set<number>();
+  const result = await runFullPipeline(
+    sampleEssay(6),
+    { targetAudience: 'general readers', objective: 'defend the thesis' },
+    undefined,
+    (progress: PipelineProgress) => stages.add(progress.currentStage)
+  );
+
+  assert.equal(result.success, true, result.error);
+  assert.deepEqual([...stages].sort(), [1, 2, 3, 4]);
+  for (const output of [result.reconstruction, result.objections, result.responses, result.bulletproof]) {
+    assert.ok(output && output.trim().length > 0);
+  }
+
+  // Every batch of five claims yields five objections, each with an enhanced response
+  const objections = memory.rows(pipelineObjections).filter(r => r.jobId === result.jobId);
+  assert.deepEqual(objections.map(o => o.objectionIndex).sort((a, b) => a - b), Array.from({ length: 25 }, (_, i) => i + 1));
+  assert.ok(objections.every(o => o.enhancedResponse && o.enhancedResponse.length > 0));
+  assert.equal(objections.find(o => o.objectionIndex === 13)?.claimTargeted, 'Every check on a chain of reasoning is itself a piece of reasoning.');
+
+  // The bullet-proof version keeps every commitment and key term from the skeleton
+  assert.equal(result.hcCheck?.passed, true);
+  assert.equal(result.hcCheck?.summary.commitmentsMissing, 0);
+  assert.equal(result.hcCheck?.summary.terminologyDrifts, 0);
+
+  const [job] = memory.rows(pipelineJobs).filter(r => r.id === result.jobId);
+  assert.equal(job.status, 'complete');
+  assert.equal(job.reconstructionOutput, result.reconstruction);
+  assert.equal(job.bulletproofOutput, result.bulletproof);
+});
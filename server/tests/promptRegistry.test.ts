@@ -0,0 +1,66 @@
+import './support/env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { installMemoryDb, type MemoryDb } from './support/memoryDb';
+import { startTestServer, type TestServer } from './support/testServer';
+import { sampleEssay } from './support/fixtures';
+import {
+  getPrompt,
+  getPromptHistory,
+  savePromptVersion,
+  activatePromptVersion,
+  invalidatePromptCache,
+  PromptValidationError
+} from '../services/promptRegistry';
+import { PROMPT_DEFAULTS } from '../services/promptDefaults';
+
+let memoryDb: MemoryDb;
+let server: TestServer;
+
+before(async () => {
+  memoryDb = installMemoryDb();
+  invalidatePromptCache();
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+  invalidatePromptCache();
+  memoryDb.restore();
+});
+
+test('an unseeded prompt is seeded from its built-in default as 1.0', async () => {
+  const prompt = await getPrompt('document_comparison');
+  assert.equal(prompt.version, '1.0');
+  assert.equal(prompt.content, PROMPT_DEFAULTS.document_comparison.content);
+});
+
+test('a saved version becomes active and an older one can be reactivated', async () => {
+  const saved = await savePromptVersion('cognitive_profiler_prefix', 'Profile this text tersely.', 'admin@example.com');
+  assert.notEqual(saved.version, '1.0');
+  assert.equal((await getPrompt('cognitive_profiler_prefix')).content, 'Profile this text tersely.');
+
+  await activatePromptVersion('cognitive_profiler_prefix', '1.0');
+  const restored = await getPrompt('cognitive_profiler_prefix');
+  assert.equal(restored.version, '1.0');
+  assert.equal(restored.content, PROMPT_DEFAULTS.cognitive_profiler_prefix.content);
+  assert.equal((await getPromptHistory('cognitive_profiler_prefix')).length, 2);
+});
+
+test('empty content and invalid JSON are rejected', async () => {
+  await assert.rejects(savePromptVersion('case_assessment', '   ', 'admin@example.com'), PromptValidationError);
+  await assert.rejects(savePromptVersion('rewrite_presets', '{ not json', 'admin@example.com'), /must be valid JSON/);
+});
+
+test('the streamed case assessment names its prompt version and a new version misses the cache', async () => {
+  const text = sampleEssay(2);
+  const initial = await getPrompt('case_assessment');
+
+  const first = await server.post('/api/case-assessment', { text, provider: 'zhi1' });
+  assert.equal(first.status, 200);
+  assert.match(first.body, new RegExp(`Prompt version: case_assessment v${initial.version.replace('.', '\\.')}\\n$`));
+
+  const saved = await savePromptVersion('case_assessment', `${initial.content}\n\nBe brief.`, 'admin@example.com');
+  const second = await server.post('/api/case-assessment', { text, provider: 'zhi1' });
+  assert.match(second.body, new RegExp(`Prompt version: case_assessment v${saved.version.replace('.', '\\.')}\\n$`));
+});
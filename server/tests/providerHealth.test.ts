@@ -0,0 +1,57 @@
+import './support/env';
+import { test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.PROVIDER_BREAKER_COOLDOWN_MS = '1000';
+const { canAttempt, releaseTrial, recordFailure, recordSuccess, getProviderHealth } = await import('../services/providerHealth');
+
+beforeEach(() => mock.timers.enable({ apis: ['Date'] }));
+afterEach(() => mock.timers.reset());
+
+function trip(provider: string): void {
+  for (let i = 0; i < 5; i++) recordFailure(provider, 100, 'upstream 500');
+}
+
+test('consecutive failures open the breaker until the cooldown elapses', () => {
+  trip('p-open');
+  assert.equal(getProviderHealth('p-open').state, 'open');
+  assert.deepEqual(canAttempt('p-open'), { allowed: false, trial: false });
+
+  mock.timers.tick(1000);
+  assert.equal(getProviderHealth('p-open').state, 'half-open');
+  assert.deepEqual(canAttempt('p-open'), { allowed: true, trial: true });
+  assert.deepEqual(canAttempt('p-open'), { allowed: false, trial: false }, 'a second trial was let through');
+});
+
+test('the trial call closes the breaker on success and reopens it on failure', () => {
+  trip('p-close');
+  mock.timers.tick(1000);
+  canAttempt('p-close');
+  recordSuccess('p-close', 200);
+  assert.equal(getProviderHealth('p-close').state, 'closed');
+  assert.deepEqual(canAttempt('p-close'), { allowed: true, trial: false });
+
+  trip('p-reopen');
+  mock.timers.tick(1000);
+  canAttempt('p-reopen');
+  recordFailure('p-reopen', 200, 'still down');
+  assert.equal(getProviderHealth('p-reopen').state, 'open');
+});
+
+test('a call admitted while closed does not free the trial slot of a later half-open breaker', () => {
+  const early = canAttempt('p-overlap');
+  assert.deepEqual(early, { allowed: true, trial: false });
+
+  trip('p-overlap');
+  mock.timers.tick(1000);
+  const trial = canAttempt('p-overlap');
+  assert.equal(trial.trial, true);
+
+  // The early call's finally runs while the trial is still in flight
+  if (early.trial) releaseTrial('p-overlap');
+  assert.equal(canAttempt('p-overlap').allowed, false);
+
+  // A trial that ends without an outcome gives the slot back
+  releaseTrial('p-overlap');
+  assert.deepEqual(canAttempt('p-overlap'), { allowed: true, trial: true });
+});
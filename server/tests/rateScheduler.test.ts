@@ -0,0 +1,127 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.LLM_RATE_LIMITS = 'capped=60000/2,limited=60000/4,streamed=60000/4';
+const {
+  scheduleProviderCall,
+  scheduleProviderStream,
+  rateLimitDelay,
+  mapWithConcurrency,
+  getRateLimit,
+  getRateLimitState
+} = await import('../services/rateScheduler');
+
+const rateLimited = (headers: Record<string, string> = {}) => Object.assign(new Error('429 Too Many Requests'), { status: 429, headers });
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+test('LLM_RATE_LIMITS overrides the built-in limits', () => {
+  assert.deepEqual(getRateLimit('capped'), { requestsPerMinute: 60000, maxConcurrent: 2 });
+  assert.deepEqual(getRateLimit('local'), { requestsPerMinute: 600, maxConcurrent: 1 });
+  assert.deepEqual(getRateLimit('unlisted'), { requestsPerMinute: 60, maxConcurrent: 4 });
+});
+
+test('rateLimitDelay honors retry-after and backs off exponentially without it', () => {
+  assert.equal(rateLimitDelay(Object.assign(new Error('boom'), { status: 500 }), 0), null);
+  assert.equal(rateLimitDelay(rateLimited({ 'retry-after-ms': '1500' }), 0), 1500);
+  assert.equal(rateLimitDelay(rateLimited({ 'retry-after': '3' }), 0), 3000);
+  assert.equal(rateLimitDelay({ response: { status: 429, headers: new Headers({ 'retry-after': '2' }) } }, 0), 2000);
+  assert.equal(rateLimitDelay(rateLimited(), 0), 2000);
+  assert.equal(rateLimitDelay(rateLimited(), 2), 8000);
+  assert.equal(rateLimitDelay(rateLimited(), 10), 120000);
+  assert.equal(rateLimitDelay(rateLimited({ 'retry-after': '600' }), 0), 120000);
+});
+
+test('calls beyond the concurrency cap wait for a slot', async () => {
+  const gates = [deferred(), deferred(), deferred()];
+  let running = 0;
+  let peak = 0;
+  const calls = gates.map((gate, i) => scheduleProviderCall('capped', async () => {
+    running++;
+    peak = Math.max(peak, running);
+    await gate.promise;
+    running--;
+    return i;
+  }));
+
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(getRateLimitState('capped').active, 2);
+  assert.equal(getRateLimitState('capped').queued, 1);
+
+  gates.forEach(gate => gate.resolve());
+  assert.deepEqual(await Promise.all(calls), [0, 1, 2]);
+  assert.equal(peak, 2);
+  assert.equal(getRateLimitState('capped').active, 0);
+});
+
+test('a 429 pauses the provider, halves its rate and retries the call', async () => {
+  let attempts = 0;
+  const result = await scheduleProviderCall('limited', async () => {
+    if (++attempts === 1) throw rateLimited({ 'retry-after-ms': '20' });
+    return 'ok';
+  });
+
+  assert.equal(result, 'ok');
+  assert.equal(attempts, 2);
+  // Halved by the 429, then one recovery step for the success
+  assert.equal(getRateLimitState('limited').effectiveRequestsPerMinute, 33000);
+
+  let failures = 0;
+  await assert.rejects(scheduleProviderCall('limited', async () => {
+    failures++;
+    throw Object.assign(new Error('bad request'), { status: 400 });
+  }), /bad request/);
+  assert.equal(failures, 1, 'other errors are not retried');
+});
+
+test('a stream is retried after a 429 only before its first item', async () => {
+  let attempts = 0;
+  const items: string[] = [];
+  for await (const item of scheduleProviderStream('streamed', async function* () {
+    if (++attempts === 1) throw rateLimited({ 'retry-after-ms': '5' });
+    yield 'a';
+    yield 'b';
+  })) {
+    items.push(item);
+  }
+  assert.deepEqual(items, ['a', 'b']);
+  assert.equal(attempts, 2);
+
+  attempts = 0;
+  const midStream = async () => {
+    for await (const _ of scheduleProviderStream('streamed', async function* () {
+      attempts++;
+      yield 'a';
+      throw rateLimited({ 'retry-after-ms': '5' });
+    })) { /* drain */ }
+  };
+  await assert.rejects(midStream, /429/);
+  assert.equal(attempts, 1);
+});
+
+test('mapWithConcurrency keeps order, caps work in flight and stops after a failure', async () => {
+  let running = 0;
+  let peak = 0;
+  const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise(resolve => setTimeout(resolve, ms));
+    running--;
+    return index * 10;
+  });
+  assert.deepEqual(results, [0, 10, 20, 30]);
+  assert.equal(peak, 2);
+
+  const started: number[] = [];
+  await assert.rejects(mapWithConcurrency([1, 2, 3, 4], 1, async item => {
+    started.push(item);
+    if (item === 2) throw new Error('chunk 2 failed');
+    return item;
+  }), /chunk 2 failed/);
+  assert.deepEqual(started, [1, 2]);
+});
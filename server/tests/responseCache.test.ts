@@ -0,0 +1,74 @@
+import './support/env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { responseCache } from '@shared/schema';
+import { installMemoryDb, type MemoryDb } from './support/memoryDb';
+import { withResponseCache, buildCacheKey, isCacheBypassed } from '../services/responseCache';
+
+let memoryDb: MemoryDb;
+
+before(() => {
+  memoryDb = installMemoryDb();
+});
+
+after(() => {
+  memoryDb.restore();
+});
+
+function counter() {
+  let calls = 0;
+  return {
+    get calls() { return calls; },
+    compute: async () => ({ score: 80 + ++calls })
+  };
+}
+
+test('a repeated request is served from the cache until bypassed', async () => {
+  const params = { scope: 'quick-analysis' as const, text: 'A short essay.', mode: 'normal', provider: 'openai' };
+  const source = counter();
+
+  const first = await withResponseCache(params, false, source.compute);
+  assert.deepEqual(first, { value: { score: 81 }, cached: false, cachedAt: null });
+
+  const second = await withResponseCache(params, false, source.compute);
+  assert.equal(second.cached, true);
+  assert.deepEqual(second.value, { score: 81 });
+  assert.ok(second.cachedAt);
+  assert.equal(source.calls, 1);
+
+  const bypassed = await withResponseCache(params, true, source.compute);
+  assert.deepEqual(bypassed, { value: { score: 82 }, cached: false, cachedAt: null });
+  assert.deepEqual((await withResponseCache(params, false, source.compute)).value, { score: 82 }, 'a bypass refreshes the entry');
+});
+
+test('ZHI aliases share an entry while scope, mode and provider separate them', async () => {
+  const base = { scope: 'quick-analysis' as const, text: 'Same text.', mode: 'normal', provider: 'openai' };
+  const key = await buildCacheKey(base);
+
+  assert.equal(await buildCacheKey({ ...base, provider: 'zhi1' }), key);
+  assert.notEqual(await buildCacheKey({ ...base, provider: 'anthropic' }), key);
+  assert.notEqual(await buildCacheKey({ ...base, mode: 'comprehensive' }), key);
+  assert.notEqual(await buildCacheKey({ ...base, scope: 'four-phase' }), key);
+  assert.notEqual(await buildCacheKey({ ...base, text: 'Same text!' }), key);
+});
+
+test('an expired entry is recomputed', async () => {
+  const params = { scope: 'rubric' as const, text: 'Expiring text.', provider: 'anthropic' };
+  const source = counter();
+  await withResponseCache(params, false, source.compute);
+
+  const key = await buildCacheKey(params);
+  memoryDb.rows(responseCache).find(row => row.cacheKey === key)!.expiresAt = new Date(Date.now() - 1000);
+
+  const again = await withResponseCache(params, false, source.compute);
+  assert.equal(again.cached, false);
+  assert.equal(source.calls, 2);
+});
+
+test('isCacheBypassed reads the body flag or the nocache query parameter', () => {
+  assert.equal(isCacheBypassed({ body: { bypassCache: true } }), true);
+  assert.equal(isCacheBypassed({ body: { bypassCache: 'yes' } }), false);
+  assert.equal(isCacheBypassed({ query: { nocache: '1' } }), true);
+  assert.equal(isCacheBypassed({ query: { nocache: 'true' } }), true);
+  assert.equal(isCacheBypassed({ body: {}, query: {} }), false);
+});
@@ -0,0 +1,136 @@
+import './support/env';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Rubric, User } from '@shared/schema';
+import { installMemoryDb, type MemoryDb } from './support/memoryDb';
+import { startScriptedProvider } from './support/scriptedProvider';
+
+const provider = await startScriptedProvider();
+const { storage } = await import('../storage');
+const {
+  parseRubricEvaluationType,
+  canReadRubric,
+  canEditRubric,
+  resolveRubric,
+  rubricCacheMode,
+  weightedRubricScore,
+  executeRubricProtocol,
+  RubricAccessError
+} = await import('../services/rubricEvaluation');
+
+let memoryDb: MemoryDb;
+
+before(() => {
+  memoryDb = installMemoryDb();
+});
+
+after(async () => {
+  memoryDb.restore();
+  await provider.close();
+});
+
+const owner = { id: 1, username: 'owner', team: 'editorial' } as User;
+const teammate = { id: 2, username: 'teammate', team: 'editorial' } as User;
+const outsider = { id: 3, username: 'outsider', team: 'legal' } as User;
+
+const dimensions = [
+  {
+    key: 'clarity',
+    name: 'Clarity',
+    weight: 3,
+    questions: ['Is each claim stated plainly?'],
+    anchors: [{ score: 40, description: 'Often vague' }, { score: 90, description: 'Precise throughout' }]
+  },
+  { key: 'evidence', name: 'Evidence', weight: 1, questions: ['Are claims supported?'], anchors: [] }
+];
+
+function rubric(overrides: Partial<Rubric> = {}): Rubric {
+  return {
+    id: 5,
+    userId: owner.id,
+    team: 'editorial',
+    name: 'House style',
+    description: null,
+    dimensions,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-02-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+test('parseRubricEvaluationType reads rubric ids and rejects malformed ones', () => {
+  assert.equal(parseRubricEvaluationType('intelligence'), null);
+  assert.equal(parseRubricEvaluationType(undefined), null);
+  assert.equal(parseRubricEvaluationType('rubric:12'), 12);
+  assert.throws(() => parseRubricEvaluationType('rubric:abc'), (error: unknown) => error instanceof RubricAccessError && error.status === 400);
+  assert.throws(() => parseRubricEvaluationType('rubric:0'), RubricAccessError);
+});
+
+test('owners edit, teammates read and everyone else is refused', () => {
+  const shared = rubric();
+  assert.equal(canReadRubric(shared, owner) && canEditRubric(shared, owner), true);
+  assert.equal(canReadRubric(shared, teammate), true);
+  assert.equal(canEditRubric(shared, teammate), false);
+  assert.equal(canReadRubric(shared, outsider), false);
+  assert.equal(canReadRubric(shared, undefined), false);
+  assert.equal(canReadRubric(rubric({ team: null }), { ...teammate, team: null } as User), false, 'no team is not a shared team');
+});
+
+test('resolveRubric loads a readable rubric and hides the rest', async () => {
+  const saved = await storage.createRubric({ userId: owner.id, team: 'editorial', name: 'House style', dimensions });
+
+  assert.equal((await resolveRubric(`rubric:${saved.id}`, teammate))?.id, saved.id);
+  assert.equal(await resolveRubric('intelligence', undefined), null);
+  await assert.rejects(resolveRubric(`rubric:${saved.id}`, undefined), (error: unknown) => error instanceof RubricAccessError && error.status === 401);
+  await assert.rejects(resolveRubric(`rubric:${saved.id}`, outsider), (error: unknown) => error instanceof RubricAccessError && error.status === 404);
+  await assert.rejects(resolveRubric('rubric:999', owner), /Rubric 999 not found/);
+});
+
+test('the cache mode changes whenever the rubric is edited', () => {
+  assert.equal(rubricCacheMode(rubric()), 'rubric:5@2026-02-01T00:00:00.000Z');
+  assert.notEqual(rubricCacheMode(rubric({ updatedAt: new Date('2026-03-01T00:00:00Z') })), rubricCacheMode(rubric()));
+});
+
+test('weightedRubricScore averages by weight', () => {
+  assert.equal(weightedRubricScore([{ weight: 3, score: 80 }, { weight: 1, score: 40 }]), 70);
+  assert.equal(weightedRubricScore([]), 0);
+});
+
+test('executeRubricProtocol scores every rubric dimension from the trailing block', async () => {
+  provider.script([
+    '## Clarity',
+    'The claims are **mostly** plain.',
+    '## Evidence',
+    'Support is thin.',
+    '{"dimensions": {"clarity": {"score": 84.6, "rationale": "Plain claims."}, "evidence": {"score": 41, "rationale": "Few sources."}}}'
+  ].join('\n'));
+
+  const result = await executeRubricProtocol('An essay about transit funding.', 'zhi6', rubric());
+
+  const prompt = provider.requests[0].messages[0].content;
+  assert.match(prompt, /Clarity \[clarity\] \(weight 75%\)/);
+  assert.match(prompt, /Score anchors:\n  90\/100: Precise throughout\n  40\/100: Often vague/);
+  assert.match(prompt, /Evidence \[evidence\] \(weight 25%\)\nQuestions:\n  - Are claims supported\?\n\n/);
+
+  assert.deepEqual(result.dimensions.map(d => [d.key, d.score, d.rationale]), [
+    ['clarity', 85, 'Plain claims.'],
+    ['evidence', 41, 'Few sources.']
+  ]);
+  assert.equal(result.overallScore, 74);
+  assert.equal(result.evaluationType, 'rubric:5');
+  assert.equal(result.analysis, 'Clarity\nThe claims are mostly plain.\nEvidence\nSupport is thin.');
+  assert.match(result.formattedReport, /^HOUSE STYLE\n\nClarity: 85\/100 - Plain claims\.\nEvidence: 41\/100 - Few sources\./);
+  assert.match(result.formattedReport, /FINAL SCORE: 74\/100$/);
+});
+
+test('a reply missing a dimension is re-asked for the JSON only', async () => {
+  provider.script(
+    'Prose only.\n{"dimensions": {"clarity": {"score": 70, "rationale": "Clear."}}}',
+    '{"dimensions": {"clarity": {"score": 70, "rationale": "Clear."}, "evidence": {"score": 50, "rationale": "Some."}}}'
+  );
+
+  const result = await executeRubricProtocol('Another essay.', 'zhi6', rubric());
+  assert.equal(provider.requests.length, 2);
+  assert.deepEqual(result.dimensions.map(d => d.score), [70, 50]);
+  assert.equal(result.overallScore, 65);
+});
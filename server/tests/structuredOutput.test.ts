@@ -0,0 +1,79 @@
+import './support/env';
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { startScriptedProvider } from './support/scriptedProvider';
+
+const provider = await startScriptedProvider();
+const {
+  parseStructured,
+  describeSchema,
+  requestStructured,
+  resolveStructured,
+  finalScoreSchema,
+  StructuredOutputError
+} = await import('../services/structuredOutput');
+
+after(() => provider.close());
+
+const verdictSchema = z.object({
+  finalScore: z.number().min(0).max(100),
+  verdict: z.enum(['pass', 'fail']),
+  notes: z.array(z.string()).optional()
+});
+
+test('describeSchema renders a JSON template of the fields', () => {
+  assert.equal(describeSchema(verdictSchema), '{"finalScore": <number 0-100>, "verdict": "pass" | "fail", "notes": ["<string>", ...]}');
+});
+
+test('parseStructured accepts fenced JSON and prose that ends with a JSON block', () => {
+  assert.deepEqual(parseStructured('```json\n{"finalScore": 72}\n```', finalScoreSchema), { success: true, data: { finalScore: 72 }, text: '' });
+
+  const prose = parseStructured('The argument holds up {mostly}.\n\n{"finalScore": 81, "verdict": "pass"}', verdictSchema);
+  assert.deepEqual(prose, { success: true, data: { finalScore: 81, verdict: 'pass' }, text: 'The argument holds up {mostly}.' });
+});
+
+test('parseStructured reports a missing block and a schema violation', () => {
+  assert.deepEqual(parseStructured('Score: 80/100', finalScoreSchema), { success: false, error: 'no JSON object found in the response' });
+
+  const invalid = parseStructured('{"finalScore": 140}', finalScoreSchema);
+  assert.equal(invalid.success, false);
+  assert.match((invalid as { error: string }).error, /finalScore/);
+});
+
+test('requestStructured re-asks with the validation error until the reply fits', async () => {
+  provider.script('{"finalScore": 140}', '{"finalScore": 85}');
+
+  const result = await requestStructured('zhi6', [{ role: 'user', content: 'Score this essay.' }], { name: 'test-score', schema: finalScoreSchema });
+  assert.deepEqual(result, { finalScore: 85 });
+
+  assert.equal(provider.requests.length, 2);
+  assert.ok(provider.requests.every(request => request.response_format?.type === 'json_object'));
+  assert.match(provider.requests[0].messages[0].content, /Score this essay\.\n\nRespond with valid JSON only/);
+  const [, reply, correction] = provider.requests[1].messages;
+  assert.deepEqual(reply, { role: 'assistant', content: '{"finalScore": 140}' });
+  assert.match(correction.content, /could not be used \(.*finalScore.*\)/);
+});
+
+test('requestStructured throws once the retries are spent', async () => {
+  provider.script('no JSON at all');
+
+  await assert.rejects(
+    requestStructured('zhi6', [{ role: 'user', content: 'Score this essay.' }], { name: 'test-score', schema: finalScoreSchema, maxRetries: 1 }),
+    (error: unknown) => error instanceof StructuredOutputError && error.attempts === 2 && error.rawResponse === 'no JSON at all'
+  );
+  assert.equal(provider.requests.length, 2);
+});
+
+test('resolveStructured keeps generated prose and only re-asks for the JSON', async () => {
+  provider.script('{"finalScore": 64, "verdict": "fail"}');
+  const messages = [{ role: 'user' as const, content: 'Assess this essay.' }];
+
+  const valid = await resolveStructured('zhi6', messages, 'Fine prose.\n{"finalScore": 90, "verdict": "pass"}', { name: 'test-verdict', schema: verdictSchema });
+  assert.deepEqual(valid, { data: { finalScore: 90, verdict: 'pass' }, text: 'Fine prose.' });
+  assert.equal(provider.requests.length, 0);
+
+  const repaired = await resolveStructured('zhi6', messages, 'Weak prose with no block.', { name: 'test-verdict', schema: verdictSchema });
+  assert.deepEqual(repaired, { data: { finalScore: 64, verdict: 'fail' }, text: 'Weak prose with no block.' });
+  assert.equal(provider.requests.length, 1);
+});
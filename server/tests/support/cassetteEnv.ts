@@ -0,0 +1,34 @@
+/**
+ * Imported first by the replay tests. Provider clients read the cassette mode
+ * when they are created, so it has to be set before any service module loads.
+ *
+ * Tests replay the committed cassettes in server/tests/cassettes. After a
+ * deliberate prompt change, re-record them with
+ * LLM_CASSETTE_MODE=record npm test: the real Anthropic and OpenAI clients
+ * are pointed at a local server that answers from support/transcripts, so
+ * the cassettes hold provider-shaped responses rather than mock echoes.
+ * Update the matching transcript when a prompt changes.
+ */
+
+import './env';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { startTranscriptServer } from './transcriptServer';
+import { transcripts } from './transcripts';
+
+process.env.LLM_CASSETTE_MODE ||= 'replay';
+process.env.LLM_CASSETTE_DIR ||= path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'cassettes');
+
+if (process.env.LLM_CASSETTE_MODE === 'record') {
+  const baseURL = startTranscriptServer(() => transcripts[process.env.LLM_CASSETTE_NAME || ''] || []);
+  delete process.env.LLM_PROVIDER;
+  process.env.ANTHROPIC_BASE_URL = baseURL;
+  process.env.ANTHROPIC_API_KEY = 'transcript';
+  process.env.OPENAI_BASE_URL = `${baseURL}/v1`;
+  process.env.OPENAI_API_KEY = 'transcript';
+}
+
+// Select the cassette for the calls that follow
+export function useCassette(name: string): void {
+  process.env.LLM_CASSETTE_NAME = name;
+}
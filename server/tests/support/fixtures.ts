@@ -0,0 +1,17 @@
+// Deterministic multi-paragraph texts, long enough to be split into several chunks
+
+const TOPICS = ['memory', 'perception', 'testimony', 'inference', 'intuition', 'language', 'evidence', 'doubt'];
+
+export function sampleEssay(paragraphs: number): string {
+  return Array.from({ length: paragraphs }, (_, i) => {
+    const topic = TOPICS[i % TOPICS.length];
+    return [
+      `Section ${i + 1} concerns ${topic}. The claim defended here is that ${topic} is a source of justified belief only when it is answerable to further checks.`,
+      `If ${topic} could never be corrected, then no belief formed through it could be shown to be mistaken, and a source that cannot be shown mistaken cannot be shown reliable either.`,
+      `One objection holds that every check on ${topic} must itself rely on ${topic}, so the demand for answerability is circular.`,
+      `The reply is that the circle is not vicious: a check can draw on the same faculty while using it under different conditions, so a failure in one use can be exposed by another.`,
+      `This matters for the larger argument because the earlier sections established that justification is comparative, and comparison requires more than one route to the same conclusion.`,
+      `Therefore ${topic}, like the sources already discussed, earns its authority from the ways it can be tested rather than from any privileged access to the truth.`,
+    ].join(' ');
+  }).join('\n\n');
+}
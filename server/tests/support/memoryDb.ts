@@ -0,0 +1,209 @@
+/**
+ * In-memory stand-in for the drizzle `db` used by the replay tests, so the
+ * pipelines that persist their progress can run without Postgres. It covers
+ * the query shapes those pipelines use: insert (with onConflictDoUpdate and
+ * returning), update/select filtered by eq/inArray/and, orderBy (ascending or
+ * desc()) and limit. Anything else throws, so a new query shape fails loudly
+ * instead of silently passing.
+ */
+
+import { mock } from 'node:test';
+import { Column, SQL, Param, StringChunk, getTableColumns, getTableName, is, type Table } from 'drizzle-orm';
+import { db } from '../../db';
+
+type Row = Record<string, any>;
+
+export interface MemoryDb {
+  rows(table: Table): Row[];
+  restore(): void;
+}
+
+function columnKey(table: Table, column: Column): string {
+  const entry = Object.entries(getTableColumns(table)).find(([, c]) => c === column);
+  if (!entry) throw new Error(`memoryDb: column ${column.name} is not on ${getTableName(table)}`);
+  return entry[0];
+}
+
+// Evaluate an eq(...), inArray(...) or and(...) condition against a row
+function matches(table: Table, condition: SQL | undefined, row: Row): boolean {
+  if (!condition) return true;
+  const chunks = condition.queryChunks;
+  const column = chunks.find(c => is(c, Column)) as Column | undefined;
+  const operator = chunks.find(c => is(c, StringChunk) && (c as StringChunk).value.join('').trim() !== '') as StringChunk | undefined;
+  if (column) {
+    const list = chunks.find(c => Array.isArray(c)) as Param[] | undefined;
+    if (operator?.value.join('').trim() === 'in' && list) {
+      return list.some(p => is(p, Param) && row[columnKey(table, column)] === p.value);
+    }
+    const param = chunks.find(c => is(c, Param)) as Param | undefined;
+    if (operator?.value.join('').trim() !== '=' || !param) {
+      throw new Error(`memoryDb: unsupported condition on ${column.name}`);
+    }
+    return row[columnKey(table, column)] === param.value;
+  }
+  const nested = chunks.filter(c => is(c, SQL)) as SQL[];
+  const joiners = chunks.filter(c => is(c, StringChunk)).map(c => (c as StringChunk).value.join('').trim()).filter(v => v && v !== '(' && v !== ')');
+  if (nested.length === 0 || joiners.some(j => j !== 'and')) {
+    throw new Error('memoryDb: only eq(), inArray() and and() conditions are supported');
+  }
+  return nested.every(c => matches(table, c, row));
+}
+
+// Builder that resolves when awaited, like drizzle's query builders
+function thenable<T>(run: () => T, methods: Record<string, any>) {
+  return {
+    ...methods,
+    then: (resolve: (value: T) => any, reject: (error: any) => any) => {
+      try {
+        return Promise.resolve(run()).then(resolve, reject);
+      } catch (error) {
+        return Promise.reject(error).then(resolve, reject);
+      }
+    },
+  };
+}
+
+/**
+ * Replace the database methods with in-memory tables until restore() is called.
+ */
+export function installMemoryDb(): MemoryDb {
+  const tables = new Map<Table, Row[]>();
+  const ids = new Map<Table, number>();
+  const rowsOf = (table: Table) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+
+  // Column defaults drizzle would otherwise leave to Postgres
+  const withDefaults = (table: Table, values: Row): Row => {
+    const row: Row = {};
+    for (const [key, column] of Object.entries(getTableColumns(table))) {
+      if (values[key] !== undefined) row[key] = values[key];
+      else if (column.primary && column.columnType === 'PgSerial') row[key] = (ids.get(table) ?? 0) + 1;
+      else if (column.hasDefault && column.default !== undefined && !is(column.default, SQL)) row[key] = column.default;
+      else if (column.hasDefault) row[key] = column.columnType === 'PgTimestamp' ? new Date() : null;
+      else row[key] = null;
+    }
+    if (typeof row.id === 'number') ids.set(table, Math.max(ids.get(table) ?? 0, row.id));
+    return row;
+  };
+
+  // SQL values in .set() (e.g. NOW()) become plain values
+  const plain = (values: Row): Row =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, is(value, SQL) ? new Date() : value]));
+
+  const insert = (table: Table) => ({
+    values: (input: Row | Row[]) => {
+      let conflict: { target: Column[]; set: Row } | null = null;
+      let returning = false;
+      const run = () => {
+        const rows = rowsOf(table);
+        const written = (Array.isArray(input) ? input : [input]).map(values => {
+          if (conflict) {
+            const keys = conflict.target.map(c => columnKey(table, c));
+            const existing = rows.find(r => keys.every(k => r[k] === values[k]));
+            if (existing) return Object.assign(existing, plain(conflict.set));
+          }
+          const row = withDefaults(table, values);
+          rows.push(row);
+          return row;
+        });
+        return returning ? written.map(r => ({ ...r })) : undefined;
+      };
+      const builder: any = thenable(run, {
+        onConflictDoUpdate: (config: { target: Column | Column[]; set: Row }) => {
+          conflict = { target: Array.isArray(config.target) ? config.target : [config.target], set: config.set };
+          return builder;
+        },
+        returning: () => {
+          returning = true;
+          return builder;
+        },
+      });
+      return builder;
+    },
+  });
+
+  const update = (table: Table) => ({
+    set: (values: Row) => {
+      let condition: SQL | undefined;
+      let returning = false;
+      const run = () => {
+        const updated = rowsOf(table).filter(r => matches(table, condition, r)).map(r => Object.assign(r, plain(values)));
+        return returning ? updated.map(r => ({ ...r })) : undefined;
+      };
+      const builder: any = thenable(run, {
+        where: (c: SQL) => {
+          condition = c;
+          return builder;
+        },
+        returning: () => {
+          returning = true;
+          return builder;
+        },
+      });
+      return builder;
+    },
+  });
+
+  const select = (fields?: Record<string, Column>) => ({
+    from: (table: Table) => {
+      let condition: SQL | undefined;
+      let order: Column | undefined;
+      let descending = false;
+      let limit: number | undefined;
+      const run = () => {
+        let rows = rowsOf(table).filter(r => matches(table, condition, r));
+        if (order) {
+          const key = columnKey(table, order);
+          const direction = descending ? -1 : 1;
+          rows = [...rows].sort((a, b) => (a[key] < b[key] ? -direction : a[key] > b[key] ? direction : 0));
+        }
+        if (limit !== undefined) rows = rows.slice(0, limit);
+        return rows.map(r => fields
+          ? Object.fromEntries(Object.entries(fields).map(([alias, column]) => [alias, r[columnKey(table, column)]]))
+          : { ...r });
+      };
+      const builder: any = thenable(run, {
+        where: (c: SQL) => {
+          condition = c;
+          return builder;
+        },
+        orderBy: (column: Column | SQL) => {
+          if (is(column, SQL)) {
+            // desc(column) is the column followed by a " desc" chunk
+            const chunks = column.queryChunks;
+            const inner = chunks.find(c => is(c, Column)) as Column | undefined;
+            const isDesc = chunks.some(c => is(c, StringChunk) && (c as StringChunk).value.join('').trim() === 'desc');
+            if (!inner || !isDesc) throw new Error('memoryDb: only orderBy(column) and orderBy(desc(column)) are supported');
+            order = inner;
+            descending = true;
+            return builder;
+          }
+          if (!is(column, Column)) throw new Error('memoryDb: only orderBy(column) and orderBy(desc(column)) are supported');
+          order = column;
+          return builder;
+        },
+        limit: (n: number) => {
+          limit = n;
+          return builder;
+        },
+      });
+      return builder;
+    },
+  });
+
+  const target = db as any;
+  const mocks = [
+    mock.method(target, 'insert', insert),
+    mock.method(target, 'update', update),
+    mock.method(target, 'select', select),
+    mock.method(target, 'transaction', (fn: (tx: any) => any) => fn(target)),
+    mock.method(target, 'execute', async () => ({ rows: [] })),
+  ];
+
+  return {
+    rows: (table: Table) => rowsOf(table),
+    restore: () => mocks.forEach(m => m.mock.restore()),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * An OpenAI-compatible server on an ephemeral port that answers the local
+ * provider (ZHI 6) with scripted replies, for tests that need exact provider
+ * output instead of the mock's. Start it before importing any service module:
+ * the local provider reads LOCAL_LLM_BASE_URL when the registry loads. Mock
+ * mode is switched off while it runs and LOCAL_LLM_ONLY keeps every other
+ * provider unreachable.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface ScriptedRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+  response_format?: { type: string };
+}
+
+export interface ScriptedProvider {
+  requests: ScriptedRequest[];
+  // Replies are served in order; the last one repeats once the script runs out
+  script(...replies: string[]): void;
+  close(): Promise<void>;
+}
+
+function restoreEnv(name: string, value: string | undefined): void {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+}
+
+export async function startScriptedProvider(): Promise<ScriptedProvider> {
+  let replies: string[] = [];
+  const requests: ScriptedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push(JSON.parse(body));
+      const content = replies.length > 1 ? replies.shift()! : replies[0] ?? '';
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const previous = { provider: process.env.LLM_PROVIDER, localOnly: process.env.LOCAL_LLM_ONLY };
+  process.env.LOCAL_LLM_BASE_URL = `http://127.0.0.1:${port}/v1`;
+  process.env.LLM_PROVIDER = 'local';
+  process.env.LOCAL_LLM_ONLY = 'true';
+
+  return {
+    requests,
+    script: (...next) => {
+      replies = next;
+      requests.length = 0;
+    },
+    close: () => new Promise((resolve, reject) => {
+      restoreEnv('LLM_PROVIDER', previous.provider);
+      restoreEnv('LOCAL_LLM_ONLY', previous.localOnly);
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
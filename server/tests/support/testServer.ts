@@ -0,0 +1,39 @@
+/**
+ * The API routes on an ephemeral port, for tests that exercise an endpoint
+ * end to end. Pair with installMemoryDb() so nothing reaches Postgres.
+ */
+
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { registerRoutes } from '../../routes';
+
+export interface TestServer {
+  post(path: string, body: unknown): Promise<{ status: number; body: any }>;
+  close(): Promise<void>;
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json({ limit: '50mb' }));
+  await registerRoutes(app);
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    async post(path, body) {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const text = await response.text();
+      let parsed: any = text;
+      try { parsed = JSON.parse(text); } catch { /* non-JSON body */ }
+      return { status: response.status, body: parsed };
+    },
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Stands in for the Anthropic and OpenAI APIs while cassettes are recorded,
+ * so recordings go through the real SDK clients instead of the offline mock.
+ * Each request is answered with the first transcript whose pattern matches
+ * its last user message, in that vendor's response shape. A prompt with no
+ * transcript gets a 500, which fails the recording rather than storing a
+ * placeholder.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { estimateTokens } from '../../services/mockProvider';
+
+export interface Transcript {
+  match: RegExp;
+  reply: string;
+}
+
+function lastUserMessage(body: any): string {
+  const message = [...(body.messages || [])].reverse().find((m: any) => m.role === 'user');
+  const content = message?.content;
+  return typeof content === 'string' ? content : (content || []).map((part: any) => part?.text || '').join('\n');
+}
+
+function anthropicMessage(body: any, id: string, text: string, prompt: string) {
+  return {
+    id: `msg_${id}`,
+    type: 'message',
+    role: 'assistant',
+    model: body.model,
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: estimateTokens(prompt), output_tokens: estimateTokens(text) }
+  };
+}
+
+function openAICompletion(body: any, id: string, text: string, prompt: string) {
+  const promptTokens = estimateTokens(prompt);
+  const completionTokens = estimateTokens(text);
+  return {
+    id: `chatcmpl-${id}`,
+    object: 'chat.completion',
+    created: 0,
+    model: body.model,
+    choices: [{ index: 0, message: { role: 'assistant', content: text, refusal: null }, logprobs: null, finish_reason: 'stop' }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+  };
+}
+
+/**
+ * Listen on an ephemeral port and return its base URL. The port is bound
+ * synchronously so the SDK base URLs can be set before any client is built;
+ * the server does not keep the test process alive.
+ */
+export function startTranscriptServer(transcripts: () => Transcript[]): string {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw || '{}');
+      const prompt = lastUserMessage(body);
+      const index = transcripts().findIndex(t => t.match.test(prompt));
+      res.setHeader('Content-Type', 'application/json');
+
+      if (index === -1) {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: { type: 'api_error', message: `No transcript for prompt: ${prompt.substring(0, 120)}` } }));
+        return;
+      }
+
+      const id = `transcript_${process.env.LLM_CASSETTE_NAME}_${index}`;
+      const reply = transcripts()[index].reply;
+      res.end(JSON.stringify(req.url?.endsWith('/messages')
+        ? anthropicMessage(body, id, reply, prompt)
+        : openAICompletion(body, id, reply, prompt)));
+    });
+  });
+  server.listen(0);
+  server.unref();
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
@@ -0,0 +1,68 @@
+import type { Transcript } from '../transcriptServer';
+
+// logical-consistency run over sampleEssay(12): GPT-4o in JSON mode, two chunks
+export const coherenceProcessorTranscripts: Transcript[] = [
+  {
+    match: /^Analyze this text and extract the initial coherence state for logical-consistency mode/,
+    reply: `{
+  "mode": "logical-consistency",
+  "assertions": [
+    "Memory is a source of justified belief only when it is answerable to further checks",
+    "Perception is a source of justified belief only when it is answerable to further checks",
+    "Testimony is a source of justified belief only when it is answerable to further checks",
+    "Inference is a source of justified belief only when it is answerable to further checks",
+    "Intuition is a source of justified belief only when it is answerable to further checks",
+    "Language is a source of justified belief only when it is answerable to further checks",
+    "Evidence is a source of justified belief only when it is answerable to further checks",
+    "Doubt is a source of justified belief only when it is answerable to further checks",
+    "A source that cannot be shown mistaken cannot be shown reliable",
+    "Justification is comparative",
+    "The circle of checking a faculty with itself is not vicious"
+  ],
+  "negations": [
+    "A source earns its authority from privileged access to the truth"
+  ],
+  "disjoint_pairs": [
+    ["The circle of checking a faculty with itself is not vicious", "The demand for answerability is viciously circular"]
+  ]
+}`
+  },
+  {
+    match: /^COHERENCE MODE: logical-consistency[\s\S]*\nCHUNK 1 OF 2:/,
+    reply: `{
+  "status": "preserved",
+  "violations": [],
+  "repairs": [],
+  "state_update": {
+    "assertions": [
+      "Justification is comparative",
+      "Comparison requires more than one route to the same conclusion"
+    ]
+  }
+}`
+  },
+  {
+    match: /^COHERENCE MODE: logical-consistency[\s\S]*\nCHUNK 2 OF 2:/,
+    reply: `{
+  "status": "weakened",
+  "violations": [
+    {
+      "location": "Section 9, first sentence",
+      "type": "restated_assertion",
+      "description": "Section 9 presents memory's answerability as 'the claim defended here' although Section 1 already asserted it; the repetition does not contradict the state but blurs which claims are new."
+    }
+  ],
+  "repairs": [
+    {
+      "location": "Section 9, first sentence",
+      "suggestion": "Refer back to Section 1 ('As argued in Section 1, memory...') instead of introducing the claim as new."
+    }
+  ],
+  "state_update": {
+    "assertions": [
+      "A failure in one use of a faculty can be exposed by another use under different conditions"
+    ]
+  }
+}`
+  }
+];
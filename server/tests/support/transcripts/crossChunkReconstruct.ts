@@ -0,0 +1,114 @@
+import type { Transcript } from '../transcriptServer';
+
+// crossChunkReconstruct over sampleEssay(8): skeleton, two chunk reconstructions, stitch validation
+export const crossChunkReconstructTranscripts: Transcript[] = [
+  {
+    match: /^You are a document structure analyst\. Extract the GLOBAL SKELETON/,
+    reply: `\`\`\`json
+{
+  "outline": [
+    "1. Memory justifies belief only when answerable to further checks",
+    "2. An uncorrectable source cannot be shown reliable",
+    "3. Objection: checking memory with memory is circular",
+    "4. Reply: the same faculty used under different conditions can expose its own failures",
+    "5. Perception is held to the same standard of answerability",
+    "6. Testimony is held to the same standard of answerability",
+    "7. Inference is held to the same standard of answerability",
+    "8. Intuition is held to the same standard of answerability",
+    "9. Language and evidence are held to the same standard of answerability",
+    "10. Even doubt earns its authority from being testable",
+    "11. Justification is comparative, so it needs more than one route to a conclusion"
+  ],
+  "thesis": "Every source of belief, from memory and perception to doubt itself, confers justification only insofar as it is answerable to independent checks, so its authority comes from testability rather than privileged access to the truth.",
+  "keyTerms": [
+    {"term": "answerability", "meaning": "the possibility that beliefs from a source can be checked and shown mistaken"},
+    {"term": "comparative justification", "meaning": "justification that depends on comparing more than one route to the same conclusion"},
+    {"term": "vicious circle", "meaning": "a check that can only ever confirm the faculty it relies on"},
+    {"term": "privileged access", "meaning": "authority a source would have independently of any test"}
+  ],
+  "commitmentLedger": [
+    {"type": "asserts", "claim": "A source of belief is justified only when it is answerable to further checks"},
+    {"type": "asserts", "claim": "A source that cannot be shown mistaken cannot be shown reliable"},
+    {"type": "asserts", "claim": "Justification is comparative"},
+    {"type": "rejects", "claim": "Checking a faculty with itself is viciously circular"},
+    {"type": "rejects", "claim": "Any source has privileged access to the truth"},
+    {"type": "assumes", "claim": "One faculty can be used under different conditions"}
+  ],
+  "entities": [
+    {"name": "memory", "type": "concept", "role": "first source examined"},
+    {"name": "perception", "type": "concept", "role": "source held to the answerability standard"},
+    {"name": "testimony", "type": "concept", "role": "source held to the answerability standard"},
+    {"name": "doubt", "type": "concept", "role": "final source, itself subject to checks"}
+  ]
+}
+\`\`\``
+  },
+  {
+    match: /^You are reconstructing chunk 1 of 2 of a document\./,
+    reply: `===RECONSTRUCTION===
+Memory is the first source this essay examines, and the claim defended about it is deliberately modest: memory yields justified belief only when what it delivers remains answerable to further checks. The reason is structural rather than psychological. If a remembered belief could never be corrected, nothing could ever show it to be mistaken, and a source that can never be shown mistaken can never be shown reliable either. Reliability is a record of surviving tests, and a source exempt from every test has no record at all. Someone who insists that a recollection is beyond revision has not made it more secure; they have removed the only means by which its security could be established.
+
+The natural objection is that every check on memory must itself rely on memory. To confirm that I locked the door, I consult my recollection of having checked it, and that is memory again. The demand for answerability, the objection concludes, is circular. The reply is that the circle is not vicious. A check can draw on the same faculty while using it under different conditions, and a failure in one use can then be exposed by another. A diary written at the time, a recollection prompted by a photograph, and a recollection offered freely a week later all involve memory, yet they fail in different ways. When they disagree, the disagreement is itself evidence that one of them has gone wrong. A vicious circle would be a check that could only ever confirm the faculty it relies on. Comparing uses of memory under varied conditions is not that kind of check, because it can and sometimes does return a verdict against memory.
+
+Perception is held to the same standard. A perceptual judgment is justified only when it can be checked, and the checks are again perceptual: a second look in better light, a view from another angle, the report of a different sense. The stick that looks bent in water is corrected by touch and by pulling it out; the correction uses perception, but perception under conditions that do not share the original distortion. Here too the apparent circle dissolves once we notice that the faculty is not a single act but a family of uses that can discipline one another.
+
+Testimony poses the problem in its sharpest social form. Whatever we learn from others we can check only by consulting further testimony, whether another witness, a published record, or an expert opinion. Yet the independence of witnesses does real work. Two reports that share a source add little; two reports produced under separate conditions, by people with different interests and vantage points, can expose each other's errors. Historians trust a claim not because any single chronicle is beyond question, but because chronicles written for rival courts happen to agree on it.
+
+Inference completes the first group of sources. Every check on a chain of reasoning is itself a piece of reasoning, so the objection returns in its most abstract shape. The reply again turns on varied conditions: a proof rechecked by a different method, a calculation estimated roughly before it is worked out exactly, an argument tested against a counterexample. Each of these is inference, and each can catch a mistake the others would miss.
+
+This matters for the larger argument because justification is comparative. A belief is justified by how it fares against alternatives, and comparison requires more than one route to the same conclusion. Memory, perception, testimony and inference therefore earn their authority from the ways they can be tested, not from any privileged access to the truth.
+===DELTA===
+{
+  "newClaimsIntroduced": [
+    "Reliability is a record of surviving tests, so a source exempt from every test has no record at all",
+    "Independent witnesses can expose each other's errors even though each check is itself testimony"
+  ],
+  "termsUsed": ["answerability", "comparative justification", "vicious circle", "privileged access"],
+  "conflictsDetected": [],
+  "ledgerAdditions": [
+    {"type": "asserts", "claim": "Reliability is a record of surviving tests"}
+  ]
+}`
+  },
+  {
+    match: /^You are reconstructing chunk 2 of 2 of a document\./,
+    reply: `===RECONSTRUCTION===
+Intuition seems at first to be the exception. We say that a principle strikes us as obvious, and obviousness looks like the kind of authority that needs no support. The essay's claim is that intuition, like the sources before it, yields justified belief only when it is answerable to further checks. An intuition that could never be overturned could never be shown mistaken, and a source that cannot be shown mistaken cannot be shown reliable. The history of mathematics is instructive here: the intuition that a whole must be larger than any of its parts was widely shared until reflection on infinite sets showed where it fails.
+
+The objection is that every check on intuition must itself appeal to intuition. When we reject one intuitive principle, we do so because some other consideration seems more compelling, and that seeming is intuition again. The reply is that the circle is not vicious. An intuition about a general principle can be tested against intuitions about particular cases, and an intuition formed quickly can be tested against one formed after careful reflection. These are uses of the same faculty under different conditions, and a failure in one use can be exposed by another.
+
+Language raises the question in a less familiar form. Much of what we believe is fixed by the words we have for it, and every attempt to check the adequacy of a concept must be carried out in language. Yet here too the checks are genuine. A term that works in ordinary speech can be tested by a technical definition, by translation into another language, or by applying it to borderline cases. When the word "fish" was tested against whales, the word gave way. Language is answerable to itself under different conditions, and that is enough to make it answerable.
+
+Evidence might seem to be the standard against which everything else is measured, and so to be exempt from measurement. The essay denies this. What counts as evidence is itself open to challenge, and the challenges are themselves made with evidence: a contaminated sample is discovered by a second sample, and a biased survey by a survey designed differently. Evidence earns its standing by surviving such comparisons, not by being beyond them.
+
+Doubt is the last and most surprising case. Doubt presents itself as the universal check, the faculty that tests all the others. But doubt can also be mistaken. A doubt that could never be answered, that no consideration could ever settle, would not be a test at all. Doubts are justified when they can themselves be examined: when we can ask what would resolve them, and when some doubts turn out, on examination, to be idle. The sceptic who doubts everything has not found a superior standpoint; they have abandoned the conditions under which doubting is informative.
+
+This matters for the larger argument because justification is comparative, and comparison requires more than one route to the same conclusion. No single source stands outside the network of checks. Intuition, language, evidence and doubt, like memory, perception, testimony and inference, earn their authority from the ways they can be tested rather than from any privileged access to the truth. The result is not a foundation but a practice of mutual correction, and that practice is what the word justification names.
+===DELTA===
+{
+  "newClaimsIntroduced": [
+    "A doubt that no consideration could ever settle is not a test at all",
+    "Justification names a practice of mutual correction rather than a foundation"
+  ],
+  "termsUsed": ["answerability", "comparative justification", "vicious circle", "privileged access"],
+  "conflictsDetected": [],
+  "ledgerAdditions": [
+    {"type": "rejects", "claim": "Doubt is exempt from the answerability requirement"}
+  ]
+}`
+  },
+  {
+    match: /^You are the GLOBAL CONSISTENCY VALIDATOR/,
+    reply: `{
+  "contradictions": [],
+  "terminologyDrift": [],
+  "missingPremises": [],
+  "redundancies": [
+    {"chunks": [0, 1], "description": "Both chunks close by restating that justification is comparative and that each source earns its authority from being tested."}
+  ],
+  "repairPlan": [
+    {"chunkIndex": 1, "repairAction": "Shorten the closing paragraph of chunk 2 to refer back to the conclusion of chunk 1 instead of restating it."}
+  ]
+}`
+  }
+];
@@ -0,0 +1,238 @@
+import type { Transcript } from '../transcriptServer';
+
+// runFullPipeline over sampleEssay(6): all four stages, objections and responses in batches of five
+
+const skeleton = {
+  thesis: 'Memory, perception, testimony, inference, intuition and language each confer justification only insofar as they are answerable to further checks, so their authority comes from being testable rather than from privileged access to the truth.',
+  outline: [
+    '1. Memory justifies belief only when answerable to further checks',
+    '2. An uncorrectable source cannot be shown reliable',
+    '3. Objection: every check on memory relies on memory',
+    '4. Reply: one faculty used under different conditions can expose its own failures',
+    '5. Perception meets the same standard through varied viewing conditions',
+    '6. Testimony meets it through independent witnesses',
+    '7. Inference meets it through different methods of checking',
+    '8. Intuition meets it through cases and reflection',
+    '9. Language meets it through definition, translation and borderline cases',
+    '10. Justification is comparative and needs more than one route to a conclusion'
+  ],
+  keyTerms: [
+    { term: 'answerability', meaning: 'the possibility that beliefs from a source can be checked and shown mistaken' },
+    { term: 'comparative justification', meaning: 'justification that depends on comparing more than one route to the same conclusion' },
+    { term: 'vicious circle', meaning: 'a check that can only ever confirm the faculty it relies on' },
+    { term: 'privileged access', meaning: 'authority a source would have independently of any test' }
+  ],
+  commitmentLedger: [
+    { type: 'asserts', claim: 'A source of belief is justified only when it is answerable to further checks' },
+    { type: 'asserts', claim: 'A source that cannot be shown mistaken cannot be shown reliable' },
+    { type: 'asserts', claim: 'Justification is comparative' },
+    { type: 'rejects', claim: 'Checking a faculty with itself is viciously circular' },
+    { type: 'rejects', claim: 'Any source has privileged access to the truth' }
+  ],
+  entities: [
+    { name: 'memory', type: 'concept', role: 'first source examined' },
+    { name: 'perception', type: 'concept', role: 'source held to the answerability standard' },
+    { name: 'testimony', type: 'concept', role: 'source held to the answerability standard' },
+    { name: 'inference', type: 'concept', role: 'source held to the answerability standard' },
+    { name: 'intuition', type: 'concept', role: 'source held to the answerability standard' },
+    { name: 'language', type: 'concept', role: 'last source examined' }
+  ]
+};
+
+const reconstruction = `## 1. Memory
+
+Memory yields justified belief only when what it delivers remains answerable to further checks. If a remembered belief could never be corrected, nothing could show it to be mistaken, and a source that can never be shown mistaken can never be shown reliable. Reliability is a record of surviving tests; a source exempt from every test has no record at all.
+
+The obvious objection is that every check on memory relies on memory, so the demand for answerability is circular. The circle is not vicious. A diary written at the time, a recollection prompted by a photograph and a recollection offered freely a week later all involve memory, yet they fail in different ways, and when they disagree the disagreement is itself evidence that one of them has gone wrong.
+
+## 2. Perception
+
+A perceptual judgment is justified only when it can be checked, and the checks are again perceptual: a second look in better light, a view from another angle, the report of another sense. Perception is not a single act but a family of uses that can discipline one another, and a correction made under conditions that do not share the original distortion is a genuine check.
+
+## 3. Testimony
+
+Testimony can be checked only by further testimony, but the independence of witnesses does real work. Two reports that share a source add little to one another; reports produced under separate conditions can expose each other's errors. Historians trust a claim not because one chronicle is beyond question but because chronicles written for rival courts agree on it.
+
+## 4. Inference
+
+Every check on a chain of reasoning is itself a piece of reasoning. Yet a proof rechecked by a different method, or a calculation estimated roughly before it is worked out exactly, can catch mistakes that the original reasoning would repeat.
+
+## 5. Intuition
+
+Intuition yields justified belief only when it is answerable to further checks. The obviousness of a principle confers no authority by itself: intuitions about general principles can be tested against intuitions about particular cases, and quick intuitions against reflective ones.
+
+## 6. Language
+
+Every attempt to check the adequacy of a concept must be carried out in language. Technical definition, translation and the testing of borderline cases nonetheless give language genuine checks on itself.
+
+## Conclusion
+
+Justification is comparative, and comparison requires more than one route to the same conclusion. No source has privileged access to the truth. Memory, perception, testimony, inference, intuition and language earn their authority from the ways they can be tested, and that authority is earned rather than possessed in advance.`;
+
+const claims = [
+  ['Memory yields justified belief only when what it delivers remains answerable to further checks.', 'Section 1, paragraph 1', 'States the answerability requirement that the whole essay generalises.'],
+  ['A source that can never be shown mistaken can never be shown reliable.', 'Section 1, paragraph 1', 'Links correctability to reliability, a contested epistemic principle.'],
+  ['Reliability is a record of surviving tests.', 'Section 1, paragraph 1', 'Offers a definition of reliability that many externalists would reject.'],
+  ['Checking memory against memory is not viciously circular when the uses occur under different conditions.', 'Section 1, paragraph 2', 'The central reply to the circularity objection.'],
+  ['Disagreement between uses of memory is itself evidence that one of them has gone wrong.', 'Section 1, paragraph 2', 'Assumes disagreement can be diagnosed without a privileged tie-breaker.'],
+  ['A perceptual judgment is justified only when it can be checked by further perception.', 'Section 2', 'Extends the requirement to perception, where it is least intuitive.'],
+  ['Perception is a family of uses that can discipline one another.', 'Section 2', 'Individuates the faculty so that self-checking becomes possible.'],
+  ['A correction made under conditions that do not share the original distortion is a genuine check.', 'Section 2', 'Presupposes that shared distortions can be identified.'],
+  ['Testimony can be checked only by further testimony.', 'Section 3', 'A strong claim that seems to ignore direct verification.'],
+  ['Reports produced under separate conditions can expose each other\'s errors.', 'Section 3', 'Depends on a notion of independence that may rarely be satisfied.'],
+  ['Two reports that share a source add little to one another.', 'Section 3', 'Bears on how evidence from common sources should be weighed.'],
+  ['Agreement among rival chronicles is better grounds for trust than the authority of a single chronicle.', 'Section 3', 'Uses a historical example as a model of justification.'],
+  ['Every check on a chain of reasoning is itself a piece of reasoning.', 'Section 4', 'Invites a regress about the rules of inference.'],
+  ['A proof rechecked by a different method counts as an independent check.', 'Section 4', 'Assumes methods differ at the level where errors occur.'],
+  ['Rough estimation before exact calculation can catch errors the calculation would miss.', 'Section 4', 'A practical claim about how inference corrects itself.'],
+  ['Intuition yields justified belief only when it is answerable to further checks.', 'Section 5', 'Challenges views on which some intuitions are self-evident.'],
+  ['The obviousness of a principle confers no authority by itself.', 'Section 5', 'Raises the question of how inquiry can start.'],
+  ['Intuitions about general principles can be tested against intuitions about particular cases.', 'Section 5', 'Relies on a method that can end in stalemate.'],
+  ['Quick intuitions can be tested against reflective ones.', 'Section 5', 'Makes an empirical assumption about reflection.'],
+  ['Every attempt to check the adequacy of a concept must be carried out in language.', 'Section 6', 'Seems to rule out detecting error in a language as a whole.'],
+  ['Technical definition, translation and borderline cases give language genuine checks on itself.', 'Section 6', 'Names specific checks whose independence can be questioned.'],
+  ['Justification is comparative.', 'Conclusion', 'The core theoretical commitment of the essay.'],
+  ['Comparison requires more than one route to the same conclusion.', 'Conclusion', 'Seems to leave single-source conclusions unjustified.'],
+  ['No source has privileged access to the truth.', 'Conclusion', 'Must apply to the essay\'s own reflective claims.'],
+  ['Epistemic authority is earned through testability rather than possessed in advance.', 'Conclusion', 'Has consequences for deference to experts.']
+].map(([claim, location, reason], i) => ({ claimIndex: i + 1, claim, location, reason }));
+
+const objections: [string, string, string, string][] = [
+  ['conceptual', 'serious', 'The standard proves too much. Most of what I remember, such as my own name or the town I grew up in, is never actually checked, yet those beliefs are plainly justified. If justification required checks, almost no memory belief would qualify.', 'The claim requires answerability, not completed checks. A belief about one\'s name is answerable because documents, other people and later recollection could overturn it, and it is justified because it would survive those checks, many of which a life runs incidentally.'],
+  ['logical', 'moderate', 'The move from "cannot be shown mistaken" to "cannot be shown reliable" conflates showing with being. A source could be perfectly reliable even if nobody could demonstrate it.', 'The essay is about justification, which concerns what can be shown. It grants that an untestable source might happen to be reliable and denies only that anyone could be justified in relying on it, since no record of success could be built.'],
+  ['conceptual', 'moderate', 'Defining reliability as a record of surviving tests turns a property of the source into a property of our history with it. A thermometer is accurate before anyone tests it.', 'The essay uses reliability in the sense relevant to justification: the reliability we are entitled to attribute. The untested thermometer may be accurate, but until tested its readings give no one a reason to trust them.'],
+  ['logical', 'serious', 'Varying the conditions does not escape the circle. If memory is systematically distorted, for example by a bias toward flattering self-images, every use will share the distortion and comparison will only confirm the error.', 'Systematic distortions are what varied conditions are designed to expose. A diary written at the time is not subject to later self-flattering revision, and a friend\'s recollection is not subject to my bias. The check remains mnemonic without sharing the distortion.'],
+  ['methodological', 'minor', 'Disagreement shows that something has gone wrong but not which use is at fault. Without a way to adjudicate, disagreement undermines all uses equally.', 'Disagreement begins adjudication rather than ending it. Further uses under further conditions break the tie, and the comparative view explains why adding routes narrows down the faulty one.'],
+  ['empirical', 'moderate', 'Many perceptual judgments are made once and never revisited, like a glance at a passing car. Requiring further perceptual checks leaves such judgments unjustified.', 'The requirement is checkability, and the glance is checkable: others saw the car, cameras recorded it, a second glance was available. Its justification is modest precisely because those checks were not run.'],
+  ['conceptual', 'moderate', 'Calling perception a family of uses makes the faculty indefinitely elastic, since any correction can be relabelled as perception disciplining itself.', 'The family is bounded by the senses and their conditions of use. What matters is that the corrections come from uses with different error profiles, which is a substantive and checkable condition.'],
+  ['logical', 'serious', 'Whether two perceptual conditions share a distortion is itself a perceptual judgment, so the independence of the checks is assumed rather than shown.', 'Independence is a hypothesis that is itself answerable: conditions sharing a distortion would keep agreeing where a third, differently placed check disagrees. The essay asks for answerability at every level, not for a certificate of independence in advance.'],
+  ['empirical', 'minor', 'Testimony can be checked against perception, as when I go and see whether the shop is open, so it is false that testimony can be checked only by testimony.', 'The essay concerns testimony about matters one cannot inspect, which is most of it. Where perception is available it adds a further route, which strengthens the comparative account.'],
+  ['practical', 'serious', 'Witnesses are rarely independent in practice. News outlets copy one another and experts train in the same schools, so the ideal of separate conditions seldom applies.', 'The claim is conditional on separate conditions. Where independence fails, the essay\'s standard predicts that agreement is weak evidence, which is the right verdict about copied news.'],
+  ['logical', 'minor', 'Two reports from a shared source can still add confidence if each reporter independently judged the source trustworthy.', 'Then the reports carry independent assessments of the source, which is a further route. The essay\'s claim concerns pure repetition, where nothing independent is added.'],
+  ['empirical', 'moderate', 'Rival chronicles may agree because both repeat a popular legend, so agreement among rivals is not automatically evidence of truth.', 'Agreement among rivals is evidence to the degree that their errors are independent. Shared legends are a known common cause, checked by archaeology and documents, and the essay treats agreement as one route among several.'],
+  ['logical', 'serious', 'If every check on reasoning is reasoning, the sceptic can demand a justification for the rules of inference themselves, and varying the conditions cannot stop that regress.', 'The essay does not justify inference from outside. It shows that particular inferences can be caught out by other inferences, which is all justification requires on a comparative view; the demand for an outside justification presupposes the privileged access the essay rejects.'],
+  ['methodological', 'moderate', 'Two proof methods may rely on the same axioms, so rechecking by another method gives no independence where errors matter most.', 'Different methods share axioms but not steps, and most errors are errors of steps. Axioms are checked another way, by the consequences they yield, which is again comparison across routes.'],
+  ['practical', 'minor', 'Rough estimates are often wrong, so they may raise false alarms rather than catch mistakes.', 'False alarms are cheap because they prompt a recheck. An estimate that disagrees with a calculation flags a discrepancy for a third route to resolve; it does not overrule the calculation.'],
+  ['conceptual', 'serious', 'Some intuitions, such as that contradictions cannot be true, are presupposed by any check at all, so they cannot be answerable to further checks without circularity.', 'Even basic logical intuitions have been tested, as in the debates over paraconsistent logic, by examining their consequences in particular cases. Surviving those tests is what entitles us to rely on them.'],
+  ['conceptual', 'moderate', 'If obviousness confers no authority, nothing could get inquiry started, since every check begins from something that seems true.', 'Inquiry can begin from what seems obvious without treating the seeming as authoritative. The starting point is provisional and earns its standing as it survives comparison.'],
+  ['methodological', 'moderate', 'Case intuitions and principle intuitions often conflict with no principled way to choose, so testing one against the other ends in stalemate.', 'Reflective equilibrium works such conflicts through case by case, revising whichever side yields the less coherent picture. Stalemate is possible but not typical.'],
+  ['empirical', 'minor', 'Research on motivated reasoning shows that reflection can entrench errors, so reflective intuitions are not reliably better than quick ones.', 'The essay does not rank reflection above quick judgment; it uses each to check the other. Motivated reflection is caught when it disagrees with quick judgments or with other people\'s reflection.'],
+  ['logical', 'moderate', 'If concepts can be checked only in language, no check could reveal that a whole language misdescribes the world.', 'Error in a whole language is revealed piecemeal, as terms fail in application and are revised. The essay claims no view from outside language, only that language has varied enough resources to correct itself.'],
+  ['empirical', 'minor', 'Translation may preserve a language\'s errors rather than expose them, since translators map concepts onto their nearest equivalents.', 'Translation exposes errors precisely where equivalents are missing or strained, and technical definition and borderline cases catch what translation misses.'],
+  ['conceptual', 'serious', 'If justification is comparative, a belief could be justified merely by being the best of a bad set of alternatives.', 'Comparative justification is graded: the best available option is justified only as far as the comparison supports it. When every alternative is poor, so is the justification for any of them.'],
+  ['logical', 'moderate', 'Some conclusions are reachable by only one route, such as the contents of a unique historical document, and yet seem justified.', 'A unique document is still assessed by several routes: its material, its language and its consistency with other records. The conclusion has one source but more than one line of support.'],
+  ['conceptual', 'serious', 'The rejection of privileged access undermines itself. The essay\'s claims about justification are known by reflection, and if reflection has no privileged access, its conclusions are no better placed than their denials.', 'The essay\'s conclusions are answerable in the way it describes: they can be tested against cases of memory, perception and testimony, and counterexamples would revise them. The view applies to itself without inconsistency.'],
+  ['practical', 'moderate', 'Treating authority as earned licenses endless second-guessing of reliable experts, with damaging practical consequences.', 'Earned authority is stable authority. An expert whose record has survived many tests deserves trust, and the essay explains why; what it rejects is deference that no record could ever undermine.']
+];
+
+const enhanced = [
+  ['Answerability is a modal requirement, not a record of completed checks. My belief about the town I grew up in has never been formally verified, yet it sits in a web of records, shared memories and later recollections, any of which could overturn it. Its justification consists in that exposure, and in the many incidental checks a life runs without anyone noticing. The objection would succeed only against a view that demanded actual verification of every belief, which the essay does not hold.', 'Distinguishes answerability from actual verification and adds the idea of incidental checks.'],
+  ['The objection is right that reliability and demonstrable reliability come apart, and the essay concedes it. Its claim is about justification: whether a person is entitled to rely on a source. An oracle that happens to be accurate but can never be tested gives its consulter no entitlement, because nothing in their position distinguishes it from an inaccurate oracle. Justification tracks what can be shown, and that is why uncorrectability defeats it.', 'Concedes the metaphysical point and locates the essay\'s claim in the theory of entitlement.'],
+  ['The essay can accept that the untested thermometer is accurate. What it denies is that anyone yet has reason to trust it. Calibration records, comparison with a second instrument and consistency with known boiling points are what turn accuracy into usable reliability. The definition in the text is therefore a definition of epistemic reliability, the property that matters for justification, not of accuracy as such.', 'Separates accuracy from epistemic reliability and gives concrete calibration examples.'],
+  ['A systematic bias is the strongest form of the objection, because it seems to travel with the faculty into every use. But biases have conditions: self-flattering revision operates on later recall, not on a diary entry written before the outcome was known, and it operates on my memories, not on those of a friend who was present. Research on eyewitness memory relies on exactly this, comparing contemporaneous records with later reports to measure distortion. The check remains mnemonic, yet it does not share the bias it exposes.', 'Adds the eyewitness-research example and explains why biases have conditions.'],
+  ['Disagreement does not identify the faulty use by itself, but it changes what further checking is rational. When a diary and a recollection disagree, we consult a third source, and as routes accumulate the faulty one becomes isolated. This is the comparative structure the essay defends: no single check is decisive, but the network of checks converges.', 'Shows how adjudication proceeds by adding routes.'],
+  ['The passing car shows how graded justification is. The glance is justified to the degree that it could be checked and would survive checking, and for an ordinary glance in daylight that is considerable. If the judgment later mattered, as in a court, the checks would be run, and the judgment would gain or lose standing accordingly.', 'Introduces graded justification and the courtroom example.'],
+  ['The worry about elasticity is answered by the error profiles of different uses. Touch does not share vision\'s susceptibility to refraction, and a second look from another angle does not share the first look\'s perspective. Calling these one family is harmless, because the argument relies only on their differing ways of going wrong.', 'Grounds the family of uses in differing error profiles.'],
+  ['Independence need not be certified in advance; it can be tested like anything else. If two viewing conditions shared a distortion, they would keep agreeing where a third, differently situated check disagreed, and that disagreement would reveal the shared distortion. The refraction of a stick in water was discovered in just this way. The essay asks for answerability all the way down, not for a foundation of certified independence.', 'Treats independence as a testable hypothesis and gives the refraction example.'],
+  ['Direct inspection is welcome where it is available, and it adds a route that strengthens the comparative account. But most of what we believe on testimony, about history, distant places and science, cannot be inspected by the believer. For that testimony, checks are further testimony, and the essay\'s point stands.', 'Restricts the claim to uninspectable testimony.'],
+  ['The practical worry is correct about news and expertise, and the essay\'s standard explains why it matters. Where reports are copied, their agreement adds almost nothing, and a careful reader discounts it. Where independence is real, as when rival institutions converge, agreement carries weight. The essay does not assume independence; it makes independence the condition on which testimony\'s mutual checking depends.', 'Turns the objection into an application of the essay\'s standard.'],
+  ['When each reporter independently assesses a shared source, their reports carry more than repetition: they carry independent judgments of the source\'s trustworthiness. That is a further route of the kind the essay values, and it explains why such reports can add confidence.', 'Shows that independent assessment is itself a route.'],
+  ['Agreement among rivals is not a verdict but evidence whose strength depends on the independence of their errors. A popular legend is a common cause, and common causes are detected by further routes such as archaeology and documentary records. The essay uses the rival chronicles to show how independence earns trust, not to claim that rivals cannot both be wrong.', 'Explains common causes and how they are detected.'],
+  ['The regress about rules of inference is real, but it presupposes that justification must come from outside the practice being justified. The essay rejects that presupposition along with privileged access. Within the practice, particular inferences are checked by other inferences, and rules are revised when they yield unacceptable results, as the history of logic shows. That is all justification can be on a comparative view, and it is enough.', 'Identifies the foundationalist presupposition behind the regress.'],
+  ['Shared axioms limit independence, but most mistakes are made in the steps between axioms and conclusions, and different methods take different steps. Axioms themselves are tested by the consequences they yield and revised when those consequences are unacceptable. Comparison therefore operates at both levels, in different ways.', 'Separates errors of steps from errors of axioms.'],
+  ['A rough estimate is not meant to be right; it is meant to be independent. When it disagrees with the exact calculation, the disagreement prompts a recheck whose cost is small compared with an undetected error. Engineers and physicists rely on order-of-magnitude estimates for exactly this reason.', 'Adds the engineering practice of order-of-magnitude checks.'],
+  ['Even the law of non-contradiction has been examined, not merely presupposed. Debates over paraconsistent logic tested it against paradoxes and inconsistent databases, and it survived in most domains. That record is what entitles us to rely on it, and the essay claims only that such principles are answerable, not that they are in doubt.', 'Uses paraconsistent logic as a worked example of testing basic intuitions.'],
+  ['Inquiry starts from what seems true, and the essay does not deny it. What it denies is that the seeming settles anything. A starting point is provisional, and its authority grows as it survives comparison with other seemings and other sources.', 'Distinguishes provisional starting points from authoritative ones.'],
+  ['Conflicts between case and principle intuitions are worked through in reflective equilibrium, revising whichever yields the less coherent overall picture. Ethics and the philosophy of language both show steady progress by this method, even though some conflicts remain open.', 'Adds reflective equilibrium as the method of resolution.'],
+  ['The essay does not claim that reflection beats quick judgment. It claims that each can check the other, and that motivated reflection is exposed when it diverges from quick judgments or from other people\'s reflection. The research on motivated reasoning is itself an instance of such checking.', 'Notes that the cited research is itself an example of mutual checking.'],
+  ['Error in a whole language is discovered piecemeal, as particular terms fail in application and are revised. The classification of whales as fish was corrected not from outside language but by testing the term against anatomy described in other terms. Language has enough internal variety to correct itself.', 'Adds the whale example of piecemeal conceptual revision.'],
+  ['Translation exposes errors where equivalents are missing or strained, which is exactly where a language\'s distinctive commitments lie. It is one check among several, alongside technical definition and borderline cases.', 'Explains why strained translation is informative.'],
+  ['Comparative justification is graded. Being the best of a poor set of alternatives confers only as much justification as the comparison supports, and when every alternative is weak, so is the justification for any of them. The view therefore predicts the right verdict in the cases the objection describes.', 'Makes the graded character of comparative justification explicit.'],
+  ['A unique document has one source but several lines of assessment: the material it is written on, its language, and its consistency with other records. Its justification rests on those comparisons, so even single-source conclusions meet the requirement of more than one route.', 'Distinguishes sources from lines of assessment.'],
+  ['The essay applies its view to itself. Its claims about justification are tested against cases of memory, perception and testimony, and would be revised by counterexamples. Having no privileged access does not leave those claims on a par with their denials, because the claims, unlike their denials, survive the comparison.', 'Shows the view is self-applicable without inconsistency.'],
+  ['Earned authority is stable authority. An expert whose record has survived many independent tests deserves trust, and the essay explains why that trust is rational. What it rejects is deference that no record could undermine, which is exactly the kind of deference that fails when experts err.', 'Explains why earned authority supports rather than undermines expertise.']
+];
+
+const bulletproof = `## Introduction
+
+This essay defends a single standard for every source of belief: a source of belief is justified only when it is answerable to further checks. The standard is demanding, and the sections below state it together with the strongest challenges to it, so that each claim is defended where it is made.
+
+## 1. Memory
+
+Memory yields justified belief only when what it delivers remains answerable to further checks. Answerability is a modal requirement, not a record of completed checks: my belief about the town I grew up in has never been formally verified, yet it sits among records, shared memories and later recollections that could overturn it. A source that cannot be shown mistaken cannot be shown reliable, and this is a claim about entitlement rather than accuracy. An oracle that happens to be right but can never be tested gives its consulter no reason to trust it.
+
+It might seem that checking a faculty with itself is viciously circular, since every check on memory relies on memory. A vicious circle, however, is a check that can only ever confirm the faculty it relies on. A diary written before the outcome was known does not share the self-flattering bias of later recall, and a friend's recollection does not share mine. When uses of memory disagree, the disagreement begins an adjudication that further routes complete.
+
+## 2. Perception
+
+A perceptual judgment is justified only when it can be checked, and its checks are further perceptions made under conditions with different error profiles. Touch does not share vision's susceptibility to refraction. Whether two conditions share a distortion is itself answerable, which is how the bent stick in water was discovered. A single glance at a passing car is justified to the degree that it could be checked and would survive checking.
+
+## 3. Testimony
+
+For matters the believer cannot inspect, testimony is checked by further testimony, and its value depends on independence. Copied reports add almost nothing; reports produced under separate conditions can expose each other's errors. Agreement among rival chronicles carries weight to the degree that their errors are independent, and common causes such as shared legends are detected by archaeology and documents.
+
+## 4. Inference
+
+Every check on a chain of reasoning is itself reasoning. The demand for a justification of inference from outside presupposes exactly the privileged access this essay rejects; within the practice, a proof rechecked by a different method or a calculation tested against a rough estimate can catch errors the original reasoning would repeat.
+
+## 5. Intuition
+
+Intuition, too, is answerable. Even the law of non-contradiction has been tested against paradoxes and survived. Inquiry may start from what seems obvious, but the seeming settles nothing; intuitions about principles are tested against intuitions about cases, and quick judgments against reflective ones, each correcting the other.
+
+## 6. Language
+
+Concepts are checked in language, but language has varied resources: technical definition, translation and borderline cases. The reclassification of whales shows how a term can fail in application and be revised without any view from outside language.
+
+## Conclusion
+
+Justification is comparative, and comparison requires more than one route to the same conclusion. Comparative justification is graded: the best of a poor set of options is only weakly justified. This standard applies to the essay itself, whose claims survive the comparisons it describes. Nothing here suggests that any source has privileged access to the truth. Authority is earned, and earned authority is stable authority; the answerability of every source is what makes trust in memory, perception, testimony, inference, intuition and language rational rather than blind.`;
+
+function objectionBatch(start: number): string {
+  return JSON.stringify(objections.slice(start, start + 5).map(([type, severity, objection, response], i) => ({
+    claimIndex: start + i + 1,
+    claimTargeted: claims[start + i].claim,
+    claimLocation: claims[start + i].location,
+    type,
+    objection,
+    response,
+    severity
+  })), null, 2);
+}
+
+function enhancedBatch(start: number): string {
+  return JSON.stringify(enhanced.slice(start, start + 5).map(([enhancedResponse, enhancementNotes], i) => ({
+    objectionIndex: start + i + 1,
+    enhancedResponse,
+    enhancementNotes
+  })), null, 2);
+}
+
+const batchStarts = [0, 5, 10, 15, 20];
+
+export const fullPipelineTranscripts: Transcript[] = [
+  {
+    match: /^Analyze this document and extract a structured skeleton/,
+    reply: JSON.stringify(skeleton, null, 2)
+  },
+  {
+    match: /^You are performing a CONSERVATIVE CHARITABLE INTERPRETATION/,
+    reply: reconstruction
+  },
+  {
+    match: /^Analyze this reconstructed document and identify 25 distinct/,
+    reply: `Here are 25 substantive claims from the reconstructed document, spread across all six sections and the conclusion.\n\n\`\`\`json\n${JSON.stringify(claims, null, 2)}\n\`\`\``
+  },
+  // Each batch prompt lists its own claims; the second claim of a batch identifies it
+  ...batchStarts.map(start => ({
+    match: new RegExp(`^Generate objections and responses[\\s\\S]*"claimIndex": ${start + 2},`),
+    reply: `\`\`\`json\n${objectionBatch(start)}\n\`\`\``
+  })),
+  ...batchStarts.map(start => ({
+    match: new RegExp(`^Enhance these responses[\\s\\S]*\\nObjection ${start + 1}: `),
+    reply: `\`\`\`json\n${enhancedBatch(start)}\n\`\`\``
+  })),
+  {
+    match: /^Create a bullet-proof version of this document/,
+    reply: bulletproof
+  }
+];
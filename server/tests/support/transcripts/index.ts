@@ -0,0 +1,11 @@
+import type { Transcript } from '../transcriptServer';
+import { coherenceProcessorTranscripts } from './coherenceProcessor';
+import { crossChunkReconstructTranscripts } from './crossChunkReconstruct';
+import { fullPipelineTranscripts } from './fullPipeline';
+
+// Transcripts served while recording, keyed by cassette name
+export const transcripts: Record<string, Transcript[]> = {
+  'coherence-processor': coherenceProcessorTranscripts,
+  'cross-chunk-reconstruct': crossChunkReconstructTranscripts,
+  'full-pipeline': fullPipelineTranscripts
+};
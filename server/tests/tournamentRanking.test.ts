@@ -0,0 +1,34 @@
+import './support/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fitBradleyTerry, type TournamentComparison } from '../services/tournamentRanking';
+
+const match = (a: number, b: number, winner: number | null): TournamentComparison =>
+  ({ round: 1, a, b, winner, margin: 'clear', rationale: '' });
+
+test('fitBradleyTerry orders documents by their results and centers the strengths', () => {
+  const comparisons = [
+    match(0, 1, 0), match(1, 0, 0),
+    match(1, 2, 1), match(2, 1, 1),
+    match(0, 2, 0), match(2, 0, 0),
+  ];
+  const { theta, covariance } = fitBradleyTerry(3, comparisons);
+
+  assert.ok(theta[0] > theta[1] && theta[1] > theta[2]);
+  assert.ok(Math.abs(theta.reduce((a, b) => a + b, 0)) < 1e-9);
+  for (let i = 0; i < 3; i++) {
+    assert.ok(covariance[i][i] > 0);
+    for (let j = 0; j < 3; j++) assert.ok(Math.abs(covariance[i][j] - covariance[j][i]) < 1e-9);
+  }
+});
+
+test('fitBradleyTerry keeps an undefeated document finite through the prior', () => {
+  const { theta } = fitBradleyTerry(2, [match(0, 1, 0), match(1, 0, 0), match(0, 1, 0)]);
+  assert.ok(Number.isFinite(theta[0]) && theta[0] > 0);
+  assert.equal(theta[1], -theta[0]);
+});
+
+test('fitBradleyTerry treats ties and unplayed documents as equal strength', () => {
+  assert.deepEqual(fitBradleyTerry(2, [match(0, 1, null)]).theta.map(t => Math.round(t * 1e6)), [0, 0]);
+  assert.deepEqual(fitBradleyTerry(3, []).theta, [0, 0, 0]);
+});
@@ -0,0 +1,93 @@
+import './support/env';
+import { test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate as tick } from 'timers/promises';
+import { storage } from '../storage';
+import {
+  recordProviderUsage,
+  runWithUsageContext,
+  setUsageJobId,
+  extractUsage,
+  meterOpenAIClient,
+  meterAnthropicClient
+} from '../services/usageMeter';
+
+let recordUsage: ReturnType<typeof mock.method>;
+
+beforeEach(() => {
+  recordUsage = mock.method(storage, 'recordUsage', async (usage: any) => usage);
+});
+
+afterEach(() => {
+  recordUsage.mock.restore();
+});
+
+const recorded = () => recordUsage.mock.calls.map(call => ({ usage: call.arguments[0] as any, charged: call.arguments[1] }));
+
+test('a call is attributed to the request context and charged as word credits', async () => {
+  await runWithUsageContext({ userId: 7, username: 'reader', endpoint: 'POST /api/analyze', jobId: 'job-1' }, async () => {
+    setUsageJobId('pipeline-42');
+    await recordProviderUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 100, completionTokens: 300 });
+  });
+
+  assert.deepEqual(recorded(), [{
+    usage: {
+      userId: 7,
+      jobId: 'pipeline-42',
+      endpoint: 'POST /api/analyze',
+      provider: 'openai',
+      model: 'gpt-4o',
+      promptTokens: 100,
+      completionTokens: 300,
+      totalTokens: 400,
+      credits: 300
+    },
+    charged: true
+  }]);
+});
+
+test('background, mock and unlimited-account calls are recorded without a charge', async () => {
+  await recordProviderUsage({ provider: 'anthropic', model: 'claude', promptTokens: 10, completionTokens: 10 });
+  await recordProviderUsage({ provider: 'mock', model: 'mock', promptTokens: 10, completionTokens: 10 });
+  await runWithUsageContext({ userId: 1, username: 'JMK', endpoint: 'POST /api/rewrite', jobId: 'job-2' }, () =>
+    recordProviderUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 10, completionTokens: 10 })
+  );
+
+  const [background, mocked, unlimited] = recorded();
+  assert.equal(background.usage.userId, null);
+  assert.equal(background.usage.jobId, 'background');
+  assert.equal(background.usage.endpoint, 'internal');
+  assert.equal(mocked.usage.credits, 0);
+  assert.equal(mocked.charged, false);
+  assert.equal(unlimited.usage.credits, 15);
+  assert.equal(unlimited.charged, false);
+});
+
+test('a storage failure does not escape the metered call', async () => {
+  recordUsage.mock.mockImplementation(async () => { throw new Error('connection refused'); });
+  await assert.doesNotReject(recordProviderUsage({ provider: 'openai', model: 'gpt-4o', promptTokens: 1, completionTokens: 1 }));
+});
+
+test('extractUsage reads both the Anthropic and the OpenAI usage shapes', () => {
+  assert.deepEqual(extractUsage({ usage: { input_tokens: 12, output_tokens: 34 } }), { promptTokens: 12, completionTokens: 34 });
+  assert.deepEqual(extractUsage({ usage: { prompt_tokens: 5, completion_tokens: 6 } }), { promptTokens: 5, completionTokens: 6 });
+  assert.equal(extractUsage({ choices: [] }), null);
+});
+
+test('metered clients record each response under their provider', async () => {
+  const openai = meterOpenAIClient({
+    chat: { completions: { create: async () => ({ model: 'gpt-4o-2024', usage: { prompt_tokens: 20, completion_tokens: 40 } }) } }
+  }, 'deepseek');
+  const anthropic = meterAnthropicClient({
+    messages: { create: async () => ({ usage: { input_tokens: 8, output_tokens: 4 } }) }
+  });
+
+  await openai.chat.completions.create({ model: 'deepseek-chat' });
+  await anthropic.messages.create({ model: 'claude-3-7-sonnet' });
+  await tick();
+
+  assert.deepEqual(recorded().map(r => [r.usage.provider, r.usage.model, r.usage.totalTokens]), [
+    ['deepseek', 'gpt-4o-2024', 60],
+    ['anthropic', 'claude-3-7-sonnet', 12]
+  ]);
+});
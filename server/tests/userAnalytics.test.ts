@@ -0,0 +1,60 @@
+import './support/env';
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate as tick } from 'timers/promises';
+import { storage } from '../storage';
+import { parseDateRange, buildAnalyticsSummary, logUserActivity, AnalyticsRequestError } from '../services/userAnalytics';
+
+afterEach(() => mock.restoreAll());
+
+test('parseDateRange accepts open ends and extends a bare "to" date to the end of its day', () => {
+  assert.deepEqual(parseDateRange({}), { from: undefined, to: undefined });
+  assert.deepEqual(parseDateRange({ from: '' }), { from: undefined, to: undefined });
+
+  const range = parseDateRange({ from: '2026-03-01', to: '2026-03-31' });
+  assert.equal(range.from!.toISOString(), '2026-03-01T00:00:00.000Z');
+  assert.equal(range.to!.toISOString(), '2026-03-31T23:59:59.999Z');
+
+  assert.equal(parseDateRange({ to: '2026-03-31T12:00:00Z' }).to!.toISOString(), '2026-03-31T12:00:00.000Z');
+});
+
+test('parseDateRange rejects malformed dates and an inverted range', () => {
+  assert.throws(() => parseDateRange({ from: 'last week' }), /from is not a valid date: last week/);
+  assert.throws(() => parseDateRange({ to: ['2026-01-01'] }), AnalyticsRequestError);
+  assert.throws(() => parseDateRange({ from: '2026-04-01', to: '2026-03-01' }), /from must be before to/);
+});
+
+test('the summary totals activities and passes the range to every query', async () => {
+  const range = parseDateRange({ from: '2026-03-01', to: '2026-03-31' });
+  const documents = mock.method(storage, 'getDocumentCount', async () => 4);
+  const activities = mock.method(storage, 'getActivityTypeCounts', async () => [
+    { activityType: 'analyze', count: 6 },
+    { activityType: 'compare', count: 2 }
+  ]);
+  const providers = mock.method(storage, 'getProviderUsage', async () => [
+    { provider: 'openai', calls: 8, promptTokens: 4000, completionTokens: 2000, totalTokens: 6000, credits: 4500 }
+  ]);
+
+  const summary = await buildAnalyticsSummary(7, range);
+
+  assert.deepEqual(summary, {
+    range: { from: '2026-03-01T00:00:00.000Z', to: '2026-03-31T23:59:59.999Z' },
+    documents: 4,
+    activities: { total: 8, byType: [{ activityType: 'analyze', count: 6 }, { activityType: 'compare', count: 2 }] },
+    providers: [{ provider: 'openai', calls: 8, promptTokens: 4000, completionTokens: 2000, totalTokens: 6000, credits: 4500 }]
+  });
+  for (const query of [documents, activities, providers]) {
+    assert.deepEqual(query.mock.calls[0].arguments, [7, range]);
+  }
+});
+
+test('activity logging skips anonymous requests and never throws', async () => {
+  const logActivity = mock.method(storage, 'logActivity', async () => { throw new Error('connection refused'); });
+
+  logUserActivity(undefined, 'compare');
+  assert.equal(logActivity.mock.callCount(), 0);
+
+  logUserActivity(7, 'compare', { provider: 'openai' }, 12);
+  await tick();
+  assert.deepEqual(logActivity.mock.calls[0].arguments, [{ userId: 7, activityType: 'compare', activityData: { provider: 'openai' }, documentId: 12 }]);
+});
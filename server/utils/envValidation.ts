@@ -12,6 +12,28 @@ interface EnvConfig {
   ANTHROPIC_API_KEY?: string;
   DEEPSEEK_API_KEY?: string;
   PERPLEXITY_API_KEY?: string;
+  LOCAL_LLM_BASE_URL?: string;  // OpenAI-compatible server for ZHI 6, e.g. http://localhost:11434/v1
+  LOCAL_LLM_MODEL?: string;
+  LOCAL_LLM_API_KEY?: string;
+  LOCAL_LLM_CONTEXT_WINDOW?: string; // tokens (default 8192)
+  LOCAL_LLM_MAX_OUTPUT_TOKENS?: string; // default 2048
+  LOCAL_LLM_ONLY?: string;      // "true" keeps failover and selection on the local provider
+  LLM_PROVIDER?: string;        // "mock" serves every AI call offline
+  ENABLE_MOCK_LLM?: string;     // "true" makes the mock provider selectable
+  LLM_CASSETTE_MODE?: string;   // "record" or "replay" provider transcripts
+  LLM_CASSETTE_DIR?: string;
+  LLM_CASSETTE_NAME?: string;
+  RESPONSE_CACHE_TTL_HOURS?: string; // evaluation response cache lifetime (default 168)
+  PROVIDER_BREAKER_COOLDOWN_MS?: string; // how long an open circuit skips a provider (default 60000)
+  LLM_RATE_LIMITS?: string;     // per-provider "provider=rpm/concurrency" overrides, comma separated
+  LLM_CHUNK_CONCURRENCY?: string; // independent chunks processed at once (default 3)
+  ADMIN_USERNAMES?: string;     // comma-separated users allowed to use the admin endpoints (prompts, calibration)
+  PROMPT_CACHE_TTL_MS?: string; // how long an active prompt version is cached (default 60000)
+  CALIBRATION_INTERVAL_HOURS?: string;  // re-run the calibration benchmark on this schedule (off when unset)
+  CALIBRATION_DRIFT_THRESHOLD?: string; // mean-error change, in points, that flags drift (default 5)
+  BATCH_MAX_DOCUMENTS?: string; // documents allowed in one batch evaluation job (default 200)
+  BATCH_MAX_UNCOMPRESSED_MB?: string; // total size zip archives in one batch may expand to (default 200)
+  BATCH_CONCURRENCY?: string;   // documents evaluated in parallel per batch job (default 3)
   
   // OCR and Document Processing
   MATHPIX_APP_ID?: string;
@@ -64,12 +86,20 @@ export function validateEnvironment(): ValidationResult {
     'OPENAI_API_KEY',
     'ANTHROPIC_API_KEY', 
     'DEEPSEEK_API_KEY',
-    'PERPLEXITY_API_KEY'
+    'PERPLEXITY_API_KEY',
+    'LOCAL_LLM_BASE_URL'
   ];
   
   const configuredAIKeys = aiKeys.filter(key => process.env[key]);
   
-  if (configuredAIKeys.length === 0) {
+  if (process.env.LLM_PROVIDER === 'mock') {
+    console.log("✓ AI Services: mock mode (LLM_PROVIDER=mock), all calls served offline");
+  } else if (process.env.LLM_CASSETTE_MODE === 'replay') {
+    console.log(`✓ AI Services: replaying cassette "${process.env.LLM_CASSETTE_NAME || 'default'}"`);
+  } else if (process.env.LOCAL_LLM_ONLY === 'true' && !process.env.LOCAL_LLM_BASE_URL) {
+    errors.push("LOCAL_LLM_ONLY is set but LOCAL_LLM_BASE_URL is missing");
+    requiredMissing++;
+  } else if (configuredAIKeys.length === 0) {
     errors.push("At least one AI service API key is required: " + aiKeys.join(", "));
     requiredMissing++;
   } else {
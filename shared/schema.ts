@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +9,7 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email"), // Optional email field
+  team: text("team"), // Team whose shared rubrics the user can use (assigned by an admin)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastActiveAt: timestamp("last_active_at").defaultNow().notNull(),
 });
@@ -257,6 +259,7 @@ export const rewriteJobs = pgTable("rewrite_jobs", {
   outputText: text("output_text"),
   inputAiScore: integer("input_ai_score"),
   outputAiScore: integer("output_ai_score"),
+  promptVersions: jsonb("prompt_versions").$type<Record<string, string>>(), // Prompt registry versions used
   status: text("status").notNull().default("pending"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -314,6 +317,7 @@ export interface RewriteResponse {
   inputAiScore: number;
   outputAiScore: number;
   jobId: string;
+  promptVersions?: Record<string, string>;
 }
 
 // Credit system tables for Stripe payment integration
@@ -355,6 +359,220 @@ export type UserCredits = typeof userCredits.$inferSelect;
 export type InsertCreditTransaction = z.infer<typeof insertCreditTransactionSchema>;
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 
+// Content-addressed cache for evaluation endpoint responses
+export const responseCache = pgTable("response_cache", {
+  id: serial("id").primaryKey(),
+  cacheKey: text("cache_key").notNull().unique(), // sha256 of text, mode, provider, model, prompt version
+  scope: text("scope").notNull(), // four-phase, quick-analysis, case-assessment, rubric, global-coherence
+  mode: text("mode"),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptVersion: text("prompt_version").notNull(),
+  response: jsonb("response").notNull(),
+  hitCount: integer("hit_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const insertResponseCacheSchema = createInsertSchema(responseCache).omit({
+  id: true,
+  hitCount: true,
+  createdAt: true,
+});
+
+export type InsertResponseCache = z.infer<typeof insertResponseCacheSchema>;
+export type ResponseCache = typeof responseCache.$inferSelect;
+
+// Token usage ledger - one row per provider call
+export const usageRecords = pgTable("usage_records", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  jobId: text("job_id").notNull(), // groups the calls made for one request/job
+  endpoint: text("endpoint").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  credits: integer("credits").notNull().default(0), // word credits charged
+  creditTransactionId: integer("credit_transaction_id").references(() => creditTransactions.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUsageRecordSchema = createInsertSchema(usageRecords).omit({
+  id: true,
+  creditTransactionId: true,
+  createdAt: true,
+});
+
+export type InsertUsageRecord = z.infer<typeof insertUsageRecordSchema>;
+export type UsageRecord = typeof usageRecords.$inferSelect;
+
+// Calibration benchmark corpus - texts with the score band they should land in
+export const calibrationSamples = pgTable("calibration_samples", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  content: text("content").notNull(),
+  expectedMin: integer("expected_min").notNull(),
+  expectedMax: integer("expected_max").notNull(),
+  genre: text("genre").notNull(), // e.g. "philosophy", "economics", "informal"
+  expectedTier: text("expected_tier").notNull(), // e.g. "blueprint", "strong", "moderate", "low"
+  tags: jsonb("tags").$type<string[]>().default([]),
+  reason: text("reason"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCalibrationSampleSchema = createInsertSchema(calibrationSamples, {
+  tags: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCalibrationSample = z.infer<typeof insertCalibrationSampleSchema>;
+export type CalibrationSample = typeof calibrationSamples.$inferSelect;
+
+// One benchmark pass over the corpus for a provider/model/prompt version
+export const calibrationRuns = pgTable("calibration_runs", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptVersion: text("prompt_version").notNull(), // e.g. "intelligence_questions@2.0"
+  status: text("status").notNull().default("running"), // running, completed, failed
+  sampleCount: integer("sample_count").notNull().default(0),
+  scoredCount: integer("scored_count").notNull().default(0),
+  meanError: real("mean_error"), // signed distance from the expected band, averaged
+  meanAbsoluteError: real("mean_absolute_error"),
+  inBandRate: real("in_band_rate"), // 0-1
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertCalibrationRunSchema = createInsertSchema(calibrationRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export type InsertCalibrationRun = z.infer<typeof insertCalibrationRunSchema>;
+export type CalibrationRun = typeof calibrationRuns.$inferSelect;
+
+export const calibrationResults = pgTable("calibration_results", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").references(() => calibrationRuns.id).notNull(),
+  sampleId: integer("sample_id").references(() => calibrationSamples.id).notNull(),
+  score: integer("score"), // null when the evaluation failed
+  expectedMin: integer("expected_min").notNull(), // band at run time
+  expectedMax: integer("expected_max").notNull(),
+  deviation: real("deviation"), // 0 inside the band, otherwise signed distance to its nearest edge
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCalibrationResultSchema = createInsertSchema(calibrationResults).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCalibrationResult = z.infer<typeof insertCalibrationResultSchema>;
+export type CalibrationResult = typeof calibrationResults.$inferSelect;
+
+// User-defined evaluation rubrics, selectable as evaluationType "rubric:<id>"
+export const rubricAnchorSchema = z.object({
+  score: z.number().int().min(0).max(100),
+  description: z.string().min(1), // what a text at this score looks like
+});
+
+export const rubricDimensionSchema = z.object({
+  key: z.string().regex(/^[a-z][a-zA-Z0-9]*$/, "Dimension keys must be camelCase identifiers"),
+  name: z.string().min(1),
+  weight: z.number().positive(),
+  questions: z.array(z.string().min(1)).min(1),
+  anchors: z.array(rubricAnchorSchema).default([]),
+});
+
+export type RubricAnchor = z.infer<typeof rubricAnchorSchema>;
+export type RubricDimension = z.infer<typeof rubricDimensionSchema>;
+
+export const rubricDimensionsSchema = z.array(rubricDimensionSchema)
+  .min(1)
+  .max(12)
+  .refine(dimensions => new Set(dimensions.map(d => d.key)).size === dimensions.length, {
+    message: "Dimension keys must be unique",
+  });
+
+export const rubrics = pgTable("rubrics", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(), // owner; only the owner can edit
+  team: text("team"), // shared with this team when set
+  name: text("name").notNull(),
+  description: text("description"),
+  dimensions: jsonb("dimensions").$type<RubricDimension[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertRubricSchema = createInsertSchema(rubrics, {
+  name: z.string().trim().min(1).max(120),
+  dimensions: rubricDimensionsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertRubric = z.infer<typeof insertRubricSchema>;
+export type Rubric = typeof rubrics.$inferSelect;
+
+// Batch evaluation: many uploaded documents scored by one evaluation in the background
+export const batchJobs = pgTable("batch_jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  evaluation: text("evaluation").notNull(), // quick, cognitive, originality, case, fiction or rubric:<id>
+  provider: text("provider").notNull(),
+  status: text("status").notNull().default("pending"), // pending, running, completed, cancelled, failed
+  totalItems: integer("total_items").notNull().default(0),
+  completedItems: integer("completed_items").notNull().default(0),
+  failedItems: integer("failed_items").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertBatchJobSchema = createInsertSchema(batchJobs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBatchJob = z.infer<typeof insertBatchJobSchema>;
+export type BatchJob = typeof batchJobs.$inferSelect;
+
+export const batchItems = pgTable("batch_items", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => batchJobs.id).notNull(),
+  position: integer("position").notNull(), // upload order, 1-based
+  filename: text("filename").notNull(), // path inside the zip for zipped uploads
+  content: text("content").notNull(),
+  wordCount: integer("word_count").notNull(),
+  status: text("status").notNull().default("pending"), // pending, running, completed, failed
+  overallScore: integer("overall_score"),
+  scores: jsonb("scores").$type<Record<string, number>>(), // per-dimension scores
+  report: text("report"), // full report text
+  error: text("error"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertBatchItemSchema = createInsertSchema(batchItems, {
+  scores: z.record(z.number()).nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export type InsertBatchItem = z.infer<typeof insertBatchItemSchema>;
+export type BatchItem = typeof batchItems.$inferSelect;
+
 // Cross-chunk coherence system tables
 export const coherenceDocuments = pgTable("coherence_documents", {
   id: serial("id").primaryKey(),
@@ -401,7 +619,8 @@ export type CoherenceModeType =
   | "instructional"
   | "motivational"
   | "mathematical"
-  | "philosophical";
+  | "philosophical"
+  | "narrative";
 
 // State templates by mode
 export interface LogicalConsistencyState {
@@ -467,6 +686,30 @@ export interface PhilosophicalState {
   no_equivocation: string[];
 }
 
+export interface NarrativeCharacter {
+  traits: Record<string, string>;      // stable attributes only: eye colour, age, occupation, kinship
+  trait_chunks: Record<string, number>; // chunk where each trait value was established
+  location: string;
+  status: "alive" | "dead" | "missing";
+  status_chunk: number;
+  knowledge: string[];
+  first_chunk: number;
+}
+
+export interface NarrativeEvent {
+  event: string;
+  story_time: number;                  // days since the story opens; fractions allowed
+  flashback: boolean;
+  chunk: number;
+}
+
+export interface NarrativeState {
+  mode: "narrative";
+  characters: Record<string, NarrativeCharacter>;
+  timeline: NarrativeEvent[];
+  setting_facts: Record<string, { value: string; chunk: number }>;
+}
+
 export type CoherenceState =
   | LogicalConsistencyState
   | LogicalCohesivenessState
@@ -475,7 +718,8 @@ export type CoherenceState =
   | InstructionalState
   | MotivationalState
   | MathematicalState
-  | PhilosophicalState;
+  | PhilosophicalState
+  | NarrativeState;
 
 export interface ChunkEvaluationResult {
   status: "preserved" | "weakened" | "broken";
@@ -492,9 +736,16 @@ export const systemInstructions = pgTable("system_instructions", {
   content: text("content").notNull(), // Full instruction/prompt text
   subcategory: text("subcategory"), // Optional: "condense_pathway", "synthesize_pathway", etc.
   version: text("version").default("1.0"),
+  isActive: boolean("is_active").default(false).notNull(), // Prompt registry: the version services load for this subcategory
+  createdBy: text("created_by"), // Username that saved this version (null for seeded defaults)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Prompt registry versions are numbered per key; two saves can never claim the same number
+  uniqueIndex("system_instructions_prompt_version_idx")
+    .on(table.category, table.subcategory, table.version)
+    .where(sql`${table.category} = 'prompt_templates'`),
+]);
 
 export const insertSystemInstructionSchema = createInsertSchema(systemInstructions).omit({
   id: true,